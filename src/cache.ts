@@ -1,6 +1,9 @@
 /**
  * Cache implementation for the Quip MCP Server
  */
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { logger } from './logger';
 
 /**
  * Cache entry with expiration
@@ -171,8 +174,187 @@ export class Cache<T> {
   }
 }
 
+/**
+ * Workbook held in memory, with the Quip update time it was exported at
+ */
+interface WorkbookEntry {
+  /**
+   * Quip update time of the thread when it was exported, in microseconds
+   */
+  updatedUsec: number;
+  
+  /**
+   * XLSX file content
+   */
+  data: Buffer;
+}
+
+/**
+ * Cache of exported XLSX workbooks keyed by thread ID and Quip update time
+ *
+ * Workbooks are kept in memory up to a total size; the least recently used ones beyond it
+ * spill to disk when a spill directory is set, and are dropped otherwise. Only the latest
+ * version of each thread is kept, so a thread that changed in Quip is exported again.
+ */
+export class WorkbookCache {
+  private entries: Map<string, WorkbookEntry> = new Map();
+  private memoryBytes = 0;
+  private maxMemoryBytes: number;
+  private spillDirectory: string | null;
+  
+  /**
+   * Create a new workbook cache
+   *
+   * @param maxMemoryBytes Maximum total size of the workbooks kept in memory (default: 64 MB)
+   * @param spillDirectory Directory for workbooks that don't fit in memory (default: none)
+   */
+  constructor(maxMemoryBytes: number = 64 * 1024 * 1024, spillDirectory: string | null = null) {
+    this.maxMemoryBytes = maxMemoryBytes;
+    this.spillDirectory = spillDirectory;
+  }
+  
+  /**
+   * Set the directory for workbooks that don't fit in memory
+   *
+   * @param spillDirectory Directory path, or null to keep workbooks in memory only
+   */
+  setSpillDirectory(spillDirectory: string | null): void {
+    this.spillDirectory = spillDirectory;
+  }
+  
+  /**
+   * Get a workbook exported at the given update time
+   *
+   * @param threadId Quip document thread ID
+   * @param updatedUsec Quip update time of the thread, in microseconds
+   * @returns Promise resolving to the XLSX file content, or null if it isn't cached
+   */
+  async get(threadId: string, updatedUsec: number): Promise<Buffer | null> {
+    const entry = this.entries.get(threadId);
+    if (entry && entry.updatedUsec === updatedUsec) {
+      // Move the entry to the end so that it is evicted last
+      this.entries.delete(threadId);
+      this.entries.set(threadId, entry);
+      return entry.data;
+    }
+    
+    const spillPath = this.getSpillPath(threadId, updatedUsec);
+    if (spillPath && await fs.pathExists(spillPath)) {
+      const data = await fs.readFile(spillPath);
+      await this.set(threadId, updatedUsec, data);
+      return data;
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Store a workbook, replacing any older version of the thread
+   *
+   * @param threadId Quip document thread ID
+   * @param updatedUsec Quip update time of the thread when it was exported, in microseconds
+   * @param data XLSX file content
+   */
+  async set(threadId: string, updatedUsec: number, data: Buffer): Promise<void> {
+    await this.delete(threadId, updatedUsec);
+    this.entries.set(threadId, { updatedUsec, data });
+    this.memoryBytes += data.length;
+    
+    // Spill the least recently used workbooks, but always keep the newest one in memory
+    for (const [key, entry] of this.entries) {
+      if (this.memoryBytes <= this.maxMemoryBytes || key === threadId) {
+        break;
+      }
+      this.entries.delete(key);
+      this.memoryBytes -= entry.data.length;
+      await this.spill(key, entry);
+    }
+  }
+  
+  /**
+   * Remove the cached workbooks of a thread from memory and disk
+   *
+   * @param threadId Quip document thread ID
+   * @param keepUsec Update time of a spilled workbook to keep (optional)
+   */
+  async delete(threadId: string, keepUsec?: number): Promise<void> {
+    const entry = this.entries.get(threadId);
+    if (entry) {
+      this.entries.delete(threadId);
+      this.memoryBytes -= entry.data.length;
+    }
+    
+    if (this.spillDirectory && await fs.pathExists(this.spillDirectory)) {
+      const prefix = `${encodeURIComponent(threadId)}@`;
+      const keep = keepUsec === undefined ? null : path.basename(this.getSpillPath(threadId, keepUsec) as string);
+      for (const file of await fs.readdir(this.spillDirectory)) {
+        if (file.startsWith(prefix) && file !== keep) {
+          await fs.remove(path.join(this.spillDirectory, file));
+        }
+      }
+    }
+  }
+  
+  /**
+   * Remove every workbook from memory
+   */
+  clear(): void {
+    this.entries.clear();
+    this.memoryBytes = 0;
+  }
+  
+  /**
+   * Get the total size of the workbooks held in memory
+   *
+   * @returns Size in bytes
+   */
+  size(): number {
+    return this.memoryBytes;
+  }
+  
+  /**
+   * Write a workbook evicted from memory to the spill directory
+   *
+   * @param threadId Quip document thread ID
+   * @param entry Evicted workbook
+   */
+  private async spill(threadId: string, entry: WorkbookEntry): Promise<void> {
+    const spillPath = this.getSpillPath(threadId, entry.updatedUsec);
+    if (!spillPath) {
+      return;
+    }
+    try {
+      await fs.mkdirp(path.dirname(spillPath));
+      await fs.writeFile(spillPath, entry.data);
+      logger.debug(`Spilled workbook of thread ${threadId} to disk`, { bytes: entry.data.length });
+    } catch (error) {
+      logger.warn(`Could not spill workbook of thread ${threadId} to disk: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Get the spill file path of a workbook
+   *
+   * @param threadId Quip document thread ID
+   * @param updatedUsec Quip update time of the thread, in microseconds
+   * @returns File path, or null if no spill directory is set
+   */
+  private getSpillPath(threadId: string, updatedUsec: number): string | null {
+    if (!this.spillDirectory) {
+      return null;
+    }
+    return path.join(this.spillDirectory, `${encodeURIComponent(threadId)}@${updatedUsec}.xlsx`);
+  }
+}
+
 // Create a global cache instance for CSV data
 export const csvCache = new Cache<string>(10 * 60 * 1000); // 10 minutes TTL
 
 // Create a global cache instance for metadata
-export const metadataCache = new Cache<Record<string, any>>(30 * 60 * 1000); // 30 minutes TTL
\ No newline at end of file
+export const metadataCache = new Cache<Record<string, any>>(30 * 60 * 1000); // 30 minutes TTL
+
+// Create a global cache instance for Markdown documents
+export const documentCache = new Cache<string>(10 * 60 * 1000); // 10 minutes TTL
+
+// Create a global cache instance for exported XLSX workbooks
+export const workbookCache = new WorkbookCache();
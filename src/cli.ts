@@ -5,8 +5,14 @@ import { Command } from 'commander';
 import * as os from 'os';
 import * as path from 'path';
 import { version } from './version';
-import { CommandLineOptions } from './types';
+import { CommandLineOptions, StorageCompression } from './types';
 import { logger } from './logger';
+import { isZstdSupported, STORAGE_COMPRESSIONS } from './compression';
+
+/**
+ * Default interval between polls of subscribed sheets, in seconds
+ */
+const DEFAULT_POLL_INTERVAL = 60;
 
 /**
  * Parse command line arguments
@@ -46,11 +52,25 @@ export function parseCommandLineArgs(): CommandLineOptions {
       '--s3-prefix <prefix>',
       'S3 prefix (optional for S3 storage)'
     )
+    .option(
+      '--storage-compression <algorithm>',
+      'Compression of stored CSV files: none, gzip or zstd (default: from STORAGE_COMPRESSION env var or none)'
+    )
     .option(
       '--s3-url-expiration <seconds>',
       'S3 URL expiration in seconds (default: 3600)',
       (value) => parseInt(value, 10)
     )
+    .option(
+      '--snapshot-retention <count>',
+      'Number of CSV snapshots kept per sheet for quip_diff_sheet, 0 to keep none (default: from QUIP_SNAPSHOT_RETENTION env var or 10)',
+      (value) => parseInt(value, 10)
+    )
+    .option(
+      '--poll-interval <seconds>',
+      'Seconds between checks of subscribed sheets for changes in Quip (default: from QUIP_POLL_INTERVAL env var or 60)',
+      (value) => parseInt(value, 10)
+    )
     .option(
       '--debug',
       'Enable debug logging',
@@ -135,10 +155,32 @@ export function getStorageConfig(options: CommandLineOptions): {
   s3Region?: string;
   s3Prefix?: string;
   s3UrlExpiration?: number;
+  snapshotRetention?: number;
+  compression?: StorageCompression;
 } {
   // Get storage type
   const storageType = options.storageType || process.env.STORAGE_TYPE || 'local';
   
+  // Get snapshot retention, which applies to every storage type
+  const snapshotRetention = options.snapshotRetention ??
+    (process.env.QUIP_SNAPSHOT_RETENTION ? parseInt(process.env.QUIP_SNAPSHOT_RETENTION, 10) : undefined);
+  if (snapshotRetention !== undefined && (!Number.isInteger(snapshotRetention) || snapshotRetention < 0)) {
+    throw new Error('Snapshot retention must be a non-negative integer');
+  }
+  
+  // Get storage compression, which also applies to every storage type
+  const compression = (options.storageCompression || process.env.STORAGE_COMPRESSION || 'none') as StorageCompression;
+  if (!STORAGE_COMPRESSIONS.includes(compression)) {
+    throw new Error(`Storage compression must be one of: ${STORAGE_COMPRESSIONS.join(', ')}`);
+  }
+  if (compression === 'zstd' && !isZstdSupported()) {
+    throw new Error(`zstd storage compression requires Node.js 22.15 or later (running ${process.version})`);
+  }
+  // file:// resources are advertised as CSV files for clients to read directly
+  if (compression !== 'none' && storageType !== 's3' && options.fileProtocol) {
+    throw new Error('Storage compression cannot be used with file protocol resource URIs, which clients read as plain CSV');
+  }
+  
   // Get S3 configuration if needed
   if (storageType === 's3') {
     return {
@@ -147,11 +189,28 @@ export function getStorageConfig(options: CommandLineOptions): {
       s3Region: options.s3Region || process.env.S3_REGION,
       s3Prefix: options.s3Prefix || process.env.S3_PREFIX,
       s3UrlExpiration: options.s3UrlExpiration ||
-        (process.env.S3_URL_EXPIRATION ? parseInt(process.env.S3_URL_EXPIRATION, 10) : undefined)
+        (process.env.S3_URL_EXPIRATION ? parseInt(process.env.S3_URL_EXPIRATION, 10) : undefined),
+      snapshotRetention,
+      compression
     };
   }
   
-  return { storageType };
+  return { storageType, snapshotRetention, compression };
+}
+
+/**
+ * Get the interval between polls of subscribed sheets from command line options or environment variables
+ *
+ * @param options Command line options
+ * @returns Poll interval in seconds
+ */
+export function getPollInterval(options: CommandLineOptions): number {
+  const pollInterval = options.pollInterval ??
+    (process.env.QUIP_POLL_INTERVAL ? parseInt(process.env.QUIP_POLL_INTERVAL, 10) : DEFAULT_POLL_INTERVAL);
+  if (!Number.isInteger(pollInterval) || pollInterval < 1) {
+    throw new Error('Poll interval must be a positive integer number of seconds');
+  }
+  return pollInterval;
 }
 
 /**
@@ -0,0 +1,120 @@
+/**
+ * Compression of stored CSV content
+ */
+import * as zlib from 'zlib';
+import { Transform } from 'stream';
+import { StorageCompression } from './types';
+
+/**
+ * Compression settings accepted for stored CSV content
+ */
+export const STORAGE_COMPRESSIONS: StorageCompression[] = ['none', 'gzip', 'zstd'];
+
+/**
+ * zlib with the zstd functions added in Node.js 22.15, which older type definitions don't declare
+ */
+const zstd = zlib as typeof zlib & {
+  zstdCompressSync?: (buffer: Buffer) => Buffer;
+  zstdDecompressSync?: (buffer: Buffer) => Buffer;
+  createZstdCompress?: () => Transform;
+};
+
+/**
+ * Leading bytes of gzip and zstd data; neither can start valid UTF-8 text
+ */
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+const ZSTD_MAGIC = Buffer.from([0x28, 0xb5, 0x2f, 0xfd]);
+
+/**
+ * Check whether this Node.js runtime supports zstd
+ *
+ * @returns True if zlib has zstd support
+ */
+export function isZstdSupported(): boolean {
+  return typeof zstd.zstdCompressSync === 'function';
+}
+
+/**
+ * Compress CSV content for storage
+ *
+ * @param csvContent CSV content
+ * @param compression Compression algorithm
+ * @returns Compressed content, or the UTF-8 bytes of the content without compression
+ * @throws Error if zstd is requested but not supported by the runtime
+ */
+export function compressCSV(csvContent: string, compression: StorageCompression): Buffer {
+  const data = Buffer.from(csvContent, 'utf-8');
+  switch (compression) {
+    case 'gzip':
+      return zlib.gzipSync(data);
+    case 'zstd':
+      return requireZstd().zstdCompressSync!(data);
+    default:
+      return data;
+  }
+}
+
+/**
+ * Create a stream that compresses CSV records for storage
+ *
+ * @param compression Compression algorithm, other than 'none'
+ * @returns Transform stream producing compressed data
+ * @throws Error if zstd is requested but not supported by the runtime
+ */
+export function createCompressionStream(compression: Exclude<StorageCompression, 'none'>): Transform {
+  return compression === 'gzip' ? zlib.createGzip() : requireZstd().createZstdCompress!();
+}
+
+/**
+ * Decode stored CSV content, decompressing it if it was compressed
+ *
+ * The format is told by the data itself, so content stored before the compression setting
+ * changed is still read correctly.
+ *
+ * @param data Stored bytes
+ * @returns CSV content
+ * @throws Error if the data is zstd-compressed but zstd is not supported by the runtime
+ */
+export function decompressCSV(data: Buffer): string {
+  if (startsWith(data, GZIP_MAGIC)) {
+    return zlib.gunzipSync(data).toString('utf-8');
+  }
+  if (startsWith(data, ZSTD_MAGIC)) {
+    return requireZstd().zstdDecompressSync!(data).toString('utf-8');
+  }
+  return data.toString('utf-8');
+}
+
+/**
+ * Get the HTTP Content-Encoding of compressed content
+ *
+ * @param compression Compression algorithm
+ * @returns Content-Encoding value, or undefined without compression
+ */
+export function getContentEncoding(compression: StorageCompression): string | undefined {
+  return compression === 'none' ? undefined : compression;
+}
+
+/**
+ * Get zlib after checking that it supports zstd
+ *
+ * @returns zlib with zstd functions
+ * @throws Error if the runtime doesn't support zstd
+ */
+function requireZstd(): typeof zstd {
+  if (!isZstdSupported()) {
+    throw new Error(`zstd compression requires Node.js 22.15 or later (running ${process.version})`);
+  }
+  return zstd;
+}
+
+/**
+ * Check whether data starts with the given bytes
+ *
+ * @param data Data
+ * @param prefix Leading bytes
+ * @returns True if data starts with prefix
+ */
+function startsWith(data: Buffer, prefix: Buffer): boolean {
+  return data.length >= prefix.length && data.subarray(0, prefix.length).equals(prefix);
+}
@@ -0,0 +1,284 @@
+/**
+ * CSV parsing and formatting helpers
+ */
+import * as crypto from 'crypto';
+import { CSVPage, CSVStreamSummary } from './types';
+
+/**
+ * Number of hex digits of the content hash kept in snapshot IDs
+ */
+const SNAPSHOT_ID_LENGTH = 16;
+
+/**
+ * Parse CSV content into rows of fields
+ *
+ * Follows RFC 4180: fields may be quoted, quotes inside quoted fields are doubled, and
+ * quoted fields may contain commas and line breaks. Both LF and CRLF line endings are
+ * accepted. A trailing line break does not produce an extra empty row.
+ *
+ * @param csvContent CSV content
+ * @returns Array of rows, where each row is an array of field values
+ */
+export function parseCSV(csvContent: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuote = false;
+
+  for (let i = 0; i < csvContent.length; i++) {
+    const char = csvContent[i];
+
+    if (inQuote) {
+      if (char === '"') {
+        if (csvContent[i + 1] === '"') {
+          field += '"';
+          i++; // Skip escaped quote
+        } else {
+          inQuote = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuote = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csvContent[i + 1] === '\n') {
+        i++; // Treat CRLF as a single line break
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Add the last row unless the content ended with a line break
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Format a single CSV field, quoting it if needed
+ *
+ * @param value Field value
+ * @returns Escaped field
+ */
+export function formatCSVField(value: string): string {
+  if (value.includes('"') || value.includes(',') || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Format rows of fields as CSV content
+ *
+ * @param rows Array of rows, where each row is an array of field values
+ * @returns CSV content with one line per row and no trailing line break
+ */
+export function formatCSV(rows: string[][]): string {
+  return rows.map(row => row.map(formatCSVField).join(',')).join('\n');
+}
+
+/**
+ * Detect the header row of a sheet: the first row with at least one non-empty cell
+ *
+ * @param rows Sheet rows as arrays of cell values
+ * @returns Zero-based index of the header row, or -1 if every row is empty
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  return rows.findIndex(row => row.some(cell => String(cell ?? '').trim() !== ''));
+}
+
+/**
+ * Name the columns of a sheet after its header row
+ *
+ * Blank header cells become column_N (1-based) and repeated names, compared
+ * case-insensitively, get a _2, _3, ... suffix.
+ *
+ * @param headers Header row
+ * @param width Number of columns to name, which may exceed the header row length
+ * @returns Unique column names
+ */
+export function nameColumns(headers: string[], width: number): string[] {
+  const seen = new Set<string>();
+  return Array.from({ length: width }, (_, index) => {
+    const base = String(headers[index] ?? '').trim() || `column_${index + 1}`;
+    let name = base;
+    for (let suffix = 2; seen.has(name.toLowerCase()); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    seen.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Identify a stored CSV snapshot by a hash of its content
+ *
+ * @param csvContent CSV content
+ * @returns Short content hash
+ */
+export function getSnapshotId(csvContent: string): string {
+  return crypto.createHash('sha256').update(csvContent).digest('hex').substring(0, SNAPSHOT_ID_LENGTH);
+}
+
+/**
+ * Read one page of data rows from CSV content, repeating the header row
+ *
+ * The header row is the first row with a non-empty cell; blank rows above it are left
+ * out. Rows are never split, so quoted cells with embedded line breaks stay whole. A
+ * page always holds at least one data row, even if that row alone exceeds maxBytes.
+ *
+ * @param csvContent CSV content
+ * @param limits Maximum number of data rows and maximum page size in bytes, header included
+ * @param start Character offset of the first data row of the page (default: the row after the header)
+ * @returns The page and the offset of the row that starts the next page
+ */
+export function readCSVPage(
+  csvContent: string,
+  limits: { maxRows?: number; maxBytes: number },
+  start?: number
+): CSVPage {
+  let headerStart = 0;
+  let headerEnd = findRecordEnd(csvContent, 0);
+  let headerRow = 0;
+  while (headerEnd < csvContent.length && isBlankRecord(csvContent.substring(headerStart, headerEnd))) {
+    headerStart = headerEnd + 1;
+    headerEnd = findRecordEnd(csvContent, headerStart);
+    headerRow++;
+  }
+  const lines = [csvContent.substring(headerStart, headerEnd)];
+  let size = Buffer.byteLength(lines[0], 'utf-8');
+  let position = start ?? headerEnd + 1;
+  let rows = 0;
+
+  while (position < csvContent.length) {
+    const end = findRecordEnd(csvContent, position);
+    const record = csvContent.substring(position, end);
+    const recordSize = Buffer.byteLength(record, 'utf-8') + 1; // +1 for newline
+    if (rows > 0 && ((limits.maxRows !== undefined && rows >= limits.maxRows) || size + recordSize > limits.maxBytes)) {
+      break;
+    }
+    lines.push(record);
+    size += recordSize;
+    rows++;
+    position = end + 1;
+  }
+
+  return {
+    content: lines.join('\n'),
+    rows,
+    next_offset: position < csvContent.length ? position : null,
+    header_row: headerRow
+  };
+}
+
+/**
+ * Running totals of CSV content that is written record by record
+ *
+ * Gives the same row count, size and snapshot ID as the whole content would, and keeps
+ * a preview of the leading records. The preview always reaches past the header row and
+ * then holds records until it exceeds its size, so a first page of at most that size can
+ * be read from it with readCSVPage.
+ */
+export class CSVStreamTally {
+  private hash = crypto.createHash('sha256');
+  private rows = 1;
+  private size = 0;
+  private previewRecords: string[] = [];
+  private previewSize = 0;
+  private headerSeen = false;
+  private previewComplete = true;
+  private previewBytes: number;
+  
+  /**
+   * Start a tally
+   *
+   * @param previewBytes Size of the preview in bytes, counted from the header row
+   */
+  constructor(previewBytes: number) {
+    this.previewBytes = previewBytes;
+  }
+  
+  /**
+   * Add the next CSV record
+   *
+   * @param record CSV record, ending with a line break
+   */
+  add(record: string): void {
+    this.hash.update(record);
+    this.size += record.length;
+    // Counted like content.split('\n').length, which also counts line breaks inside quotes
+    for (let i = record.indexOf('\n'); i !== -1; i = record.indexOf('\n', i + 1)) {
+      this.rows++;
+    }
+    
+    if (this.headerSeen && this.previewSize > this.previewBytes) {
+      this.previewComplete = false;
+      return;
+    }
+    this.previewRecords.push(record);
+    this.headerSeen = this.headerSeen || !isBlankRecord(record);
+    if (this.headerSeen) {
+      this.previewSize += Buffer.byteLength(record, 'utf-8');
+    }
+  }
+  
+  /**
+   * Summarize the records added so far
+   *
+   * @param id Resource identifier of the saved content
+   * @returns Summary of the content
+   */
+  summarize(id: string): CSVStreamSummary {
+    return {
+      id,
+      snapshot: this.hash.copy().digest('hex').substring(0, SNAPSHOT_ID_LENGTH),
+      total_rows: this.rows,
+      total_size: this.size,
+      preview: this.previewRecords.join(''),
+      preview_complete: this.previewComplete
+    };
+  }
+}
+
+/**
+ * Check whether a CSV record has only empty cells
+ *
+ * @param record CSV record
+ * @returns True if every cell of the record is empty or whitespace
+ */
+function isBlankRecord(record: string): boolean {
+  return parseCSV(record).every(row => row.every(cell => cell.trim() === ''));
+}
+
+/**
+ * Find the line break that ends the CSV record starting at an offset
+ *
+ * @param csvContent CSV content
+ * @param start Character offset where the record starts
+ * @returns Offset of the terminating line break, or the content length for the last record
+ */
+function findRecordEnd(csvContent: string, start: number): number {
+  let inQuote = false;
+  for (let i = start; i < csvContent.length; i++) {
+    const char = csvContent[i];
+    if (char === '"') {
+      // Doubled quotes toggle twice, which leaves the state unchanged
+      inQuote = !inQuote;
+    } else if (char === '\n' && !inQuote) {
+      return i;
+    }
+  }
+  return csvContent.length;
+}
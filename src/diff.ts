@@ -0,0 +1,130 @@
+/**
+ * Row-level differences between two snapshots of a sheet
+ */
+import { detectHeaderRow, nameColumns, parseCSV } from './csv';
+import { resolveColumn } from './query';
+import { ChangedRow, DiffRow, SheetDiff } from './types';
+
+/**
+ * Data rows of a sheet keyed by the value of the key column
+ */
+interface KeyedSheet {
+  columns: string[];
+  keyColumn: string;
+  rows: Map<string, { row: number; values: Record<string, string> }>;
+  blankKeys: number;
+}
+
+/**
+ * Compare two snapshots of a sheet, matching rows by a key column
+ *
+ * Each snapshot's header row is its first non-empty row, and blank rows are skipped.
+ * The key column is matched to each header row exactly first, then case-insensitively.
+ * Rows with a blank key cell can't be matched and are only counted. Cells are compared
+ * as text, in the columns both snapshots have; column names are matched case-insensitively,
+ * the same way they are made unique, and reported as the later snapshot names them.
+ *
+ * @param beforeCSV CSV content of the earlier snapshot
+ * @param afterCSV CSV content of the later snapshot
+ * @param keyColumn Column whose values identify rows
+ * @returns Added, removed and changed rows
+ * @throws Error if a snapshot has no key column or repeats a key value
+ */
+export function diffSheets(beforeCSV: string, afterCSV: string, keyColumn: string): SheetDiff {
+  const before = keySheet(beforeCSV, keyColumn, 'earlier');
+  const after = keySheet(afterCSV, keyColumn, 'later');
+  const beforeNames = new Map(before.columns.map(column => [column.toLowerCase(), column]));
+  const afterNames = new Set(after.columns.map(column => column.toLowerCase()));
+  const shared = after.columns
+    .filter(column => beforeNames.has(column.toLowerCase()))
+    .map(column => ({ column, beforeName: beforeNames.get(column.toLowerCase()) as string }));
+
+  const added: DiffRow[] = [];
+  const changed: ChangedRow[] = [];
+  let unchanged = 0;
+  for (const [key, row] of after.rows) {
+    const previous = before.rows.get(key);
+    if (!previous) {
+      added.push({ key, row: row.row, values: row.values });
+      continue;
+    }
+    const changes = shared
+      .filter(({ column, beforeName }) => previous.values[beforeName] !== row.values[column])
+      .map(({ column, beforeName }) => ({ column, before: previous.values[beforeName], after: row.values[column] }));
+    if (changes.length > 0) {
+      changed.push({ key, row_before: previous.row, row_after: row.row, changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  const removed: DiffRow[] = [];
+  for (const [key, row] of before.rows) {
+    if (!after.rows.has(key)) {
+      removed.push({ key, row: row.row, values: row.values });
+    }
+  }
+
+  return {
+    key_column: after.keyColumn,
+    columns_added: after.columns.filter(column => !beforeNames.has(column.toLowerCase())),
+    columns_removed: before.columns.filter(column => !afterNames.has(column.toLowerCase())),
+    added,
+    removed,
+    changed,
+    unchanged,
+    blank_keys: before.blankKeys + after.blankKeys
+  };
+}
+
+/**
+ * Key the data rows of CSV content by the value of the key column
+ *
+ * @param csvContent CSV content of the snapshot
+ * @param keyColumn Column whose values identify rows
+ * @param label Which snapshot this is, for error messages
+ * @returns Column names and data rows keyed by their key value, in sheet order
+ * @throws Error if the snapshot has no key column or repeats a key value
+ */
+function keySheet(csvContent: string, keyColumn: string, label: string): KeyedSheet {
+  const allRows = parseCSV(csvContent);
+  const headerIndex = detectHeaderRow(allRows);
+  if (headerIndex === -1) {
+    throw new Error(`The ${label} snapshot is empty`);
+  }
+
+  const width = allRows.slice(headerIndex).reduce((max, row) => Math.max(max, row.length), 0);
+  const columns = nameColumns(allRows[headerIndex], width);
+  let keyIndex: number;
+  try {
+    keyIndex = resolveColumn(columns, keyColumn);
+  } catch (error) {
+    throw new Error(`${error instanceof Error ? error.message : String(error)} (in the ${label} snapshot)`);
+  }
+
+  const rows: KeyedSheet['rows'] = new Map();
+  let blankKeys = 0;
+  for (let index = headerIndex + 1; index < allRows.length; index++) {
+    const row = allRows[index];
+    if (row.every(cell => cell.trim() === '')) {
+      continue;
+    }
+    const key = (row[keyIndex] ?? '').trim();
+    if (key === '') {
+      blankKeys++;
+      continue;
+    }
+    const existing = rows.get(key);
+    if (existing) {
+      throw new Error(
+        `Key column '${columns[keyIndex]}' repeats the value '${key}' in rows ${existing.row} and ${index + 1} of the ${label} snapshot; pick a column with unique values`
+      );
+    }
+    rows.set(key, {
+      row: index + 1,
+      values: Object.fromEntries(columns.map((column, columnIndex) => [column, row[columnIndex] ?? '']))
+    });
+  }
+
+  return { columns, keyColumn: columns[keyIndex], rows, blankKeys };
+}
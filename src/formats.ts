@@ -0,0 +1,202 @@
+/**
+ * Output formats for spreadsheet content
+ */
+import { detectHeaderRow, formatCSV, getSnapshotId, nameColumns, parseCSV } from './csv';
+import { CellValue, OutputFormat, StorageInterface, TypedSheet } from './types';
+
+/**
+ * Formats accepted by quip_read_spreadsheet and resource URIs
+ */
+export const OUTPUT_FORMATS: OutputFormat[] = ['csv', 'json', 'ndjson', 'markdown'];
+
+/**
+ * MIME type of each output format
+ */
+export const FORMAT_MIME_TYPES: Record<OutputFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+  markdown: 'text/markdown'
+};
+
+/**
+ * Build a typed sheet from rows of cell values
+ *
+ * The first row with a non-empty cell is the header row and blank rows are skipped.
+ *
+ * @param rows Sheet rows, from the first row of the sheet
+ * @param snapshot Snapshot ID of the CSV content stored for the same export
+ * @param nativeTypes Whether the values keep the native types of the XLSX cells
+ * @returns Typed sheet
+ */
+export function buildTypedSheet(rows: CellValue[][], snapshot: string, nativeTypes: boolean): TypedSheet {
+  const isBlank = (value: CellValue) => value === null || String(value).trim() === '';
+  const headerIndex = detectHeaderRow(rows.map(row => row.map(value => (isBlank(value) ? '' : String(value)))));
+  if (headerIndex === -1) {
+    return { headers: [], rows: [], row_numbers: [], native_types: nativeTypes, snapshot };
+  }
+
+  const dataIndexes = rows
+    .map((row, index) => index)
+    .filter(index => index > headerIndex && rows[index].some(value => !isBlank(value)));
+  const width = dataIndexes.reduce((max, index) => Math.max(max, rows[index].length), rows[headerIndex].length);
+  const headers = nameColumns(rows[headerIndex].map(value => (value === null ? '' : String(value))), width);
+
+  return {
+    headers,
+    rows: dataIndexes.map(rowIndex => headers.map((_, index) => {
+      const value = rows[rowIndex][index] ?? null;
+      return typeof value === 'string' && value.trim() === '' ? null : value;
+    })),
+    row_numbers: dataIndexes.map(index => index + 1),
+    native_types: nativeTypes,
+    snapshot
+  };
+}
+
+/**
+ * Build a typed sheet from stored CSV content, keeping every value as text
+ *
+ * @param csvContent Stored CSV content
+ * @returns Typed sheet whose non-empty values are strings
+ */
+export function csvToTypedSheet(csvContent: string): TypedSheet {
+  return buildTypedSheet(parseCSV(csvContent), getSnapshotId(csvContent), false);
+}
+
+/**
+ * Convert rows to objects keyed by column name
+ *
+ * @param headers Column names
+ * @param rows Data rows
+ * @returns One object per row
+ */
+export function toRecords(headers: string[], rows: CellValue[][]): Record<string, CellValue>[] {
+  return rows.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? null])));
+}
+
+/**
+ * Render rows in an output format
+ *
+ * JSON is an array of header-keyed objects, NDJSON has one object per line, and CSV and
+ * Markdown start with the header row.
+ *
+ * @param headers Column names
+ * @param rows Data rows
+ * @param format Output format
+ * @returns Rendered content
+ */
+export function renderRows(headers: string[], rows: CellValue[][], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(toRecords(headers, rows));
+    case 'ndjson':
+      return toRecords(headers, rows).map(record => JSON.stringify(record)).join('\n');
+    case 'markdown':
+      return [
+        formatMarkdownRow(headers),
+        formatMarkdownRow(headers.map(() => '---')),
+        ...rows.map(row => formatMarkdownRow(row.map(formatText)))
+      ].join('\n');
+    default:
+      return formatCSV([headers, ...rows.map(row => row.map(formatText))]);
+  }
+}
+
+/**
+ * Select one page of rows of a typed sheet
+ *
+ * Sizes are measured on the rendered content, header included. A page always holds at
+ * least one row, even if that row alone exceeds maxBytes.
+ *
+ * @param sheet Typed sheet
+ * @param format Output format the page will be rendered in
+ * @param limits Maximum number of rows and maximum page size in bytes
+ * @param start Index of the first row of the page
+ * @returns Rows of the page and the index of the row that starts the next page
+ */
+export function readTypedPage(
+  sheet: TypedSheet,
+  format: OutputFormat,
+  limits: { maxRows?: number; maxBytes: number },
+  start: number = 0
+): { rows: CellValue[][]; next_row: number | null } {
+  const emptySize = Buffer.byteLength(renderRows(sheet.headers, [], format), 'utf-8');
+  let size = emptySize;
+  let end = start;
+
+  while (end < sheet.rows.length) {
+    // Rendering the row alone and adding one byte for its separator slightly overestimates
+    const rowSize = Buffer.byteLength(renderRows(sheet.headers, [sheet.rows[end]], format), 'utf-8') - emptySize + 1;
+    const count = end - start;
+    if (count > 0 && ((limits.maxRows !== undefined && count >= limits.maxRows) || size + rowSize > limits.maxBytes)) {
+      break;
+    }
+    size += rowSize;
+    end++;
+  }
+
+  return {
+    rows: sheet.rows.slice(start, end),
+    next_row: end < sheet.rows.length ? end : null
+  };
+}
+
+/**
+ * Add a format to a resource URI
+ *
+ * @param uri Resource URI of the stored CSV
+ * @param format Output format
+ * @returns The URI unchanged for CSV, otherwise with a format query parameter
+ */
+export function withFormat(uri: string, format: OutputFormat): string {
+  if (format === 'csv') {
+    return uri;
+  }
+  return `${uri}${uri.includes('?') ? '&' : '?'}format=${format}`;
+}
+
+/**
+ * Format a cell value as text
+ *
+ * @param value Cell value
+ * @returns Empty string for null, otherwise the value as a string
+ */
+function formatText(value: CellValue): string {
+  return value === null ? '' : String(value);
+}
+
+/**
+ * Format a row as a Markdown table row, escaping pipes and flattening line breaks
+ *
+ * @param cells Cell texts
+ * @returns Markdown table row
+ */
+function formatMarkdownRow(cells: string[]): string {
+  return `| ${cells.map(cell => cell.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')).join(' | ')} |`;
+}
+
+/**
+ * Load the typed content of a stored sheet
+ *
+ * Falls back to the CSV text if no typed content was stored for the current snapshot,
+ * for example after the sheet was read as CSV or exported through the HTML fallback.
+ *
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetName Sheet name (optional)
+ * @param csvContent Stored CSV content of the sheet
+ * @returns Typed sheet matching the stored CSV content
+ */
+export async function loadTypedSheet(
+  storage: StorageInterface,
+  threadId: string,
+  sheetName: string | undefined,
+  csvContent: string
+): Promise<TypedSheet> {
+  const stored = await storage.getTypedSheet(threadId, sheetName);
+  if (stored && stored.snapshot === getSnapshotId(csvContent)) {
+    return stored;
+  }
+  return csvToTypedSheet(csvContent);
+}
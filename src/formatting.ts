@@ -0,0 +1,30 @@
+/**
+ * Cell formatting gathered from the XLSX export and the thread HTML
+ */
+import { parseA1Range } from './range';
+import { CellFormatting } from './types';
+
+/**
+ * Merge the cell formatting read from two sources
+ *
+ * Properties from the primary source win; the secondary source only fills in the
+ * properties a cell lacks there.
+ *
+ * @param primary Formatted cells from the preferred source (the XLSX export)
+ * @param secondary Formatted cells from the other source (the thread HTML)
+ * @returns Formatted cells in row order, then column order
+ */
+export function mergeCellFormatting(primary: CellFormatting[], secondary: CellFormatting[]): CellFormatting[] {
+  const merged = new Map<string, CellFormatting>();
+  for (const formatting of secondary) {
+    merged.set(formatting.cell, { ...formatting });
+  }
+  for (const formatting of primary) {
+    merged.set(formatting.cell, { ...merged.get(formatting.cell), ...formatting });
+  }
+
+  return [...merged.values()]
+    .map(formatting => ({ formatting, range: parseA1Range(formatting.cell) }))
+    .sort((a, b) => a.range.startRow - b.range.startRow || a.range.startColumn - b.range.startColumn)
+    .map(({ formatting }) => formatting);
+}
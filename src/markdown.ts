@@ -0,0 +1,280 @@
+/**
+ * HTML to Markdown conversion for Quip documents
+ */
+import * as cheerio from 'cheerio';
+import { logger } from './logger';
+
+/**
+ * Block-level tags that end the current paragraph
+ */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'fieldset', 'figure', 'footer',
+  'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p',
+  'pre', 'section', 'table', 'ul'
+]);
+
+/**
+ * Convert Quip thread HTML to Markdown
+ *
+ * Handles headings, paragraphs, ordered/unordered lists (including Quip checklists),
+ * links, inline emphasis, code blocks, block quotes and tables. Tables are rendered as
+ * Markdown tables with the first row used as the header.
+ *
+ * @param html HTML content of the thread
+ * @returns Markdown string
+ */
+export function convertHTMLToMarkdown(html: string): string {
+  const $ = cheerio.load(html);
+  const markdown = renderBlocks($, $('body').contents().toArray()).trim();
+  logger.debug(`Converted ${html.length} bytes of HTML to ${markdown.length} bytes of Markdown`);
+  return markdown ? `${markdown}\n` : '';
+}
+
+/**
+ * Truncate Markdown content to be under the specified maximum size on a line boundary
+ *
+ * @param markdown Original Markdown content
+ * @param maxSize Maximum size in bytes (default: 10KB)
+ * @returns Tuple of truncated Markdown content and a boolean indicating if truncation occurred
+ */
+export function truncateMarkdownContent(markdown: string, maxSize: number = 10 * 1024): [string, boolean] {
+  if (markdown.length <= maxSize) {
+    return [markdown, false];
+  }
+
+  // Cut at the last line break that fits so no line is split in half
+  const lastNewline = markdown.lastIndexOf('\n', maxSize);
+  const truncated = lastNewline > 0 ? markdown.substring(0, lastNewline + 1) : markdown.substring(0, maxSize);
+  logger.info(`Truncated Markdown from ${markdown.length} bytes to ${truncated.length} bytes`);
+
+  return [truncated, true];
+}
+
+/**
+ * Render a sequence of nodes as Markdown blocks separated by blank lines
+ *
+ * @param $ Cheerio API for the document
+ * @param nodes Nodes to render
+ * @returns Markdown string
+ */
+function renderBlocks($: cheerio.CheerioAPI, nodes: any[]): string {
+  const blocks: string[] = [];
+  let paragraph = '';
+
+  const flush = () => {
+    const text = paragraph.replace(/[ \t]+\n/g, '\n').trim();
+    if (text) {
+      blocks.push(text);
+    }
+    paragraph = '';
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'tag' && BLOCK_TAGS.has(node.name)) {
+      flush();
+      const block = renderBlock($, node);
+      if (block.trim()) {
+        blocks.push(block);
+      }
+    } else {
+      paragraph += renderInline($, node);
+    }
+  }
+  flush();
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Render a block-level element
+ *
+ * @param $ Cheerio API for the document
+ * @param node Block element
+ * @returns Markdown string
+ */
+function renderBlock($: cheerio.CheerioAPI, node: any): string {
+  const name: string = node.name;
+
+  if (/^h[1-6]$/.test(name)) {
+    const level = parseInt(name[1], 10);
+    return `${'#'.repeat(level)} ${renderInlineChildren($, node).trim()}`;
+  }
+
+  switch (name) {
+    case 'p':
+      return renderInlineChildren($, node).replace(/[ \t]+\n/g, '\n').trim();
+    case 'ul':
+    case 'ol':
+      return renderList($, node, 0);
+    case 'table':
+      return renderTable($, node);
+    case 'pre':
+      return `\`\`\`\n${$(node).text().replace(/\n$/, '')}\n\`\`\``;
+    case 'blockquote':
+      return renderBlocks($, $(node).contents().toArray())
+        .split('\n')
+        .map(line => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'hr':
+      return '---';
+    default:
+      // Generic containers (div, section, ...) just hold more blocks
+      return renderBlocks($, $(node).contents().toArray());
+  }
+}
+
+/**
+ * Render a list, including nested lists and Quip checklists
+ *
+ * @param $ Cheerio API for the document
+ * @param list ul or ol element
+ * @param depth Nesting depth used for indentation
+ * @returns Markdown string
+ */
+function renderList($: cheerio.CheerioAPI, list: any, depth: number): string {
+  const ordered = list.name === 'ol';
+  const isChecklist = $(list).hasClass('checklist');
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+
+  $(list).children('li').each((index, item) => {
+    let marker = ordered ? `${index + 1}.` : '-';
+
+    const checkbox = $(item).find('input[type="checkbox"]').first();
+    if (isChecklist || checkbox.length > 0) {
+      const checked = $(item).hasClass('checked') || checkbox.attr('checked') !== undefined;
+      marker += checked ? ' [x]' : ' [ ]';
+    }
+
+    const inlineNodes = $(item).contents().toArray().filter((child: any) => !(child.type === 'tag' && (child.name === 'ul' || child.name === 'ol')));
+    const text = inlineNodes.map(child => renderInline($, child)).join('').replace(/\s*\n\s*/g, ' ').trim();
+    lines.push(`${indent}${marker} ${text}`);
+
+    $(item).children('ul, ol').each((_, nested) => {
+      lines.push(renderList($, nested, depth + 1));
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a table as a Markdown table, using the first row as the header
+ *
+ * @param $ Cheerio API for the document
+ * @param table table element
+ * @returns Markdown string
+ */
+function renderTable($: cheerio.CheerioAPI, table: any): string {
+  const rows: string[][] = [];
+
+  $(table).find('tr').each((_, tr) => {
+    const cells: string[] = [];
+    $(tr).children('td, th').each((_, cell) => {
+      const text = renderInlineChildren($, cell)
+        .replace(/\s*\n\s*/g, ' ')
+        .replace(/\|/g, '\\|')
+        .trim();
+      cells.push(text);
+    });
+    if (cells.length > 0) {
+      rows.push(cells);
+    }
+  });
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const formatRow = (row: string[]) => {
+    const padded = [...row, ...Array(columnCount - row.length).fill('')];
+    return `| ${padded.join(' | ')} |`;
+  };
+
+  const lines = [
+    formatRow(rows[0]),
+    formatRow(Array(columnCount).fill('---')),
+    ...rows.slice(1).map(formatRow)
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the children of an element as inline Markdown
+ *
+ * @param $ Cheerio API for the document
+ * @param node Parent element
+ * @returns Markdown string
+ */
+function renderInlineChildren($: cheerio.CheerioAPI, node: any): string {
+  return $(node).contents().toArray().map(child => renderInline($, child)).join('');
+}
+
+/**
+ * Render a node as inline Markdown
+ *
+ * @param $ Cheerio API for the document
+ * @param node Node to render
+ * @returns Markdown string
+ */
+function renderInline($: cheerio.CheerioAPI, node: any): string {
+  if (node.type === 'text') {
+    return String(node.data || '').replace(/\s+/g, ' ');
+  }
+  if (node.type !== 'tag') {
+    return '';
+  }
+
+  switch (node.name) {
+    case 'br':
+      return '\n';
+    case 'a': {
+      const text = renderInlineChildren($, node).trim();
+      const href = $(node).attr('href');
+      return href ? `[${text || href}](${href})` : text;
+    }
+    case 'strong':
+    case 'b':
+      return wrapInline(renderInlineChildren($, node), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(renderInlineChildren($, node), '*');
+    case 'del':
+    case 's':
+      return wrapInline(renderInlineChildren($, node), '~~');
+    case 'code':
+      return wrapInline($(node).text(), '`');
+    case 'img': {
+      const src = $(node).attr('src');
+      return src ? `![${$(node).attr('alt') || ''}](${src})` : '';
+    }
+    case 'input':
+      // Checkboxes are rendered by the enclosing list item
+      return '';
+    default:
+      if (BLOCK_TAGS.has(node.name)) {
+        // Block content nested inside inline context (e.g. a list in a table cell)
+        return ` ${$(node).text().replace(/\s+/g, ' ').trim()} `;
+      }
+      return renderInlineChildren($, node);
+  }
+}
+
+/**
+ * Wrap inline text with a Markdown delimiter, keeping surrounding whitespace outside
+ *
+ * @param text Text to wrap
+ * @param delimiter Markdown delimiter such as ** or `
+ * @returns Wrapped text, or the original whitespace if the text is blank
+ */
+function wrapInline(text: string, delimiter: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return text;
+  }
+  const leading = text.match(/^\s*/)?.[0] || '';
+  const trailing = text.match(/\s*$/)?.[0] || '';
+  return `${leading}${delimiter}${trimmed}${delimiter}${trailing}`;
+}
@@ -0,0 +1,181 @@
+/**
+ * Merged cell and multi-row header handling for XLSX sheets
+ */
+import { CellRange, CellValue, SheetLayoutOptions } from './types';
+
+/**
+ * Separator between the levels of a composite column name
+ */
+const HEADER_SEPARATOR = ' / ';
+
+/**
+ * Apply merged cell and header options to the rows of a sheet
+ *
+ * Sheets without merged cells are left unchanged unless headerRows is given.
+ *
+ * @param rows Sheet rows, from the first row of the sheet
+ * @param merges Merged ranges of the sheet
+ * @param options Merged cell and header options
+ * @returns Sheet rows with the same row positions
+ */
+export function applySheetLayout(rows: CellValue[][], merges: CellRange[], options: SheetLayoutOptions = {}): CellValue[][] {
+  const filled = options.fillMerged ? fillMergedCells(rows, merges) : rows;
+  if (merges.length === 0 && options.headerRows === undefined) {
+    return filled;
+  }
+  return flattenHeaderRows(filled, merges, options.headerRows);
+}
+
+/**
+ * Check whether the leading rows of a sheet hold every row that applySheetLayout can change
+ *
+ * Once they do, applying the layout to them gives the same rows as applying it to the
+ * whole sheet, and the rows after them can be used as they are.
+ *
+ * @param rows Leading sheet rows, from the first row of the sheet
+ * @param merges Merged ranges of the sheet
+ * @param options Merged cell and header options
+ * @returns True if no row after these rows is changed by the layout
+ */
+export function coversSheetLayout(rows: CellValue[][], merges: CellRange[], options: SheetLayoutOptions = {}): boolean {
+  if (merges.length === 0 && options.headerRows === undefined) {
+    return true;
+  }
+  // A cell merged across columns can extend a header to the row below the merge
+  if (merges.some(merge => merge.endRow + 1 >= rows.length)) {
+    return false;
+  }
+  const headerIndex = rows.findIndex((row, index) => !isBlankRow(row) && !isTitleRow(row, index, merges));
+  return headerIndex !== -1 && headerIndex + (options.headerRows ?? 1) <= rows.length;
+}
+
+/**
+ * Copy the value of each merged range's top-left cell into every cell of the range
+ *
+ * @param rows Sheet rows, from the first row of the sheet
+ * @param merges Merged ranges of the sheet
+ * @returns Sheet rows with merged ranges filled
+ */
+export function fillMergedCells(rows: CellValue[][], merges: CellRange[]): CellValue[][] {
+  const filled = rows.map(row => [...row]);
+  for (const merge of merges) {
+    const value = rows[merge.startRow]?.[merge.startColumn] ?? null;
+    for (let r = merge.startRow; r <= merge.endRow && r < filled.length; r++) {
+      for (let c = merge.startColumn; c <= merge.endColumn; c++) {
+        filled[r][c] = value;
+      }
+    }
+  }
+  return filled;
+}
+
+/**
+ * Flatten a multi-row header into one row of composite column names
+ *
+ * Title rows (a single merged cell starting in the first column) above the header are
+ * skipped. Each column is named after its non-blank cells in the header rows, joined
+ * with " / ", so a group header merged across columns produces names like
+ * "Q1 / Revenue". The composite header takes the place of the last header row and the
+ * title and other header rows are blanked, so the remaining rows keep their positions.
+ *
+ * @param rows Sheet rows, from the first row of the sheet
+ * @param merges Merged ranges of the sheet
+ * @param headerRows Number of header rows (default: detected from the merged ranges)
+ * @returns Sheet rows with a single header row
+ */
+export function flattenHeaderRows(rows: CellValue[][], merges: CellRange[], headerRows?: number): CellValue[][] {
+  const headerIndex = rows.findIndex((row, index) => !isBlankRow(row) && !isTitleRow(row, index, merges));
+  if (headerIndex === -1) {
+    return rows;
+  }
+
+  const count = Math.min(headerRows ?? detectHeaderRowCount(rows, merges, headerIndex), rows.length - headerIndex);
+  const lastHeaderIndex = headerIndex + count - 1;
+  const width = rows.slice(headerIndex, lastHeaderIndex + 1).reduce((max, row) => Math.max(max, row.length), 0);
+
+  const headers = Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    for (let r = headerIndex; r <= lastHeaderIndex; r++) {
+      const merge = merges.find(m => r >= m.startRow && r <= m.endRow && column >= m.startColumn && column <= m.endColumn);
+      const value = merge ? rows[merge.startRow]?.[merge.startColumn] : rows[r][column];
+      const text = isBlank(value ?? null) ? '' : String(value).trim();
+      // Vertically merged cells repeat the same name on every level
+      if (text && parts[parts.length - 1] !== text) {
+        parts.push(text);
+      }
+    }
+    return parts.join(HEADER_SEPARATOR);
+  });
+
+  return rows.map((row, index) => {
+    if (index === lastHeaderIndex) {
+      return headers;
+    }
+    return index < lastHeaderIndex ? row.map(() => null) : row;
+  });
+}
+
+/**
+ * Detect how many rows a header spans from the merged ranges that start in it
+ *
+ * A cell merged down extends the header to the merge's last row, and a cell merged
+ * across columns (a group header) extends it to the row below.
+ *
+ * @param rows Sheet rows, from the first row of the sheet
+ * @param merges Merged ranges of the sheet
+ * @param headerIndex Zero-based index of the first header row
+ * @returns Number of header rows
+ */
+export function detectHeaderRowCount(rows: CellValue[][], merges: CellRange[], headerIndex: number): number {
+  let end = headerIndex;
+  for (let r = headerIndex; r <= end && r < rows.length; r++) {
+    for (const merge of merges) {
+      if (merge.startRow !== r) {
+        continue;
+      }
+      if (merge.endRow > merge.startRow) {
+        end = Math.max(end, merge.endRow);
+      } else if (merge.endColumn > merge.startColumn) {
+        end = Math.max(end, r + 1);
+      }
+    }
+  }
+  return Math.min(end, rows.length - 1) - headerIndex + 1;
+}
+
+/**
+ * Check whether a row is a title row: its only value is in a cell of the first column
+ * merged across columns
+ *
+ * @param row Sheet row
+ * @param rowIndex Zero-based index of the row
+ * @param merges Merged ranges of the sheet
+ * @returns True for title rows
+ */
+function isTitleRow(row: CellValue[], rowIndex: number, merges: CellRange[]): boolean {
+  const title = merges.find(merge =>
+    merge.startRow === rowIndex && merge.startColumn === 0 && merge.endColumn > merge.startColumn
+  );
+  // Cells of the title range may hold the filled title value
+  return title !== undefined && row.every((value, column) => column <= title.endColumn || isBlank(value));
+}
+
+/**
+ * Check whether a row has no values
+ *
+ * @param row Sheet row
+ * @returns True if every cell is blank
+ */
+function isBlankRow(row: CellValue[]): boolean {
+  return row.every(isBlank);
+}
+
+/**
+ * Check whether a cell value is blank
+ *
+ * @param value Cell value
+ * @returns True for null and whitespace-only strings
+ */
+function isBlank(value: CellValue): boolean {
+  return value === null || String(value).trim() === '';
+}
@@ -4,6 +4,10 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { logger } from './logger';
+import { CellFormatting, CellRange, CellUpdateResult, CellValue, SheetInfo, ThreadSearchResult } from './types';
+import { toThreadSearchResult } from './quipClient';
+import { detectHeaderRow } from './csv';
+import { formatA1Range } from './range';
 
 /**
  * Mock data for a spreadsheet thread
@@ -19,6 +23,11 @@ interface MockSpreadsheet {
    */
   title: string;
   
+  /**
+   * Last update time in microseconds since epoch (default: MOCK_UPDATED_USEC)
+   */
+  updatedUsec?: number;
+  
   /**
    * Sheets in the spreadsheet
    */
@@ -35,11 +44,50 @@ interface MockSpreadsheet {
   }[];
 }
 
+/**
+ * Mock data for a document thread
+ */
+interface MockDocument {
+  /**
+   * Thread ID
+   */
+  threadId: string;
+  
+  /**
+   * Thread title
+   */
+  title: string;
+  
+  /**
+   * Document HTML as returned by the Quip API
+   */
+  html: string;
+  
+  /**
+   * Last update time in microseconds since epoch (default: MOCK_UPDATED_USEC)
+   */
+  updatedUsec?: number;
+}
+
+/**
+ * Update time reported for mock threads that don't set their own (2024-01-01T00:00:00Z)
+ */
+const MOCK_UPDATED_USEC = 1704067200000000;
+
+/**
+ * Spreadsheets changed through the mock client, keyed by thread ID
+ *
+ * Tool handlers create a new client for every call, so edits are kept at module level
+ * to stay visible to later reads, as they would on a real Quip server.
+ */
+const editedSpreadsheets: Map<string, MockSpreadsheet> = new Map();
+
 /**
  * Mock Quip client for testing without a real Quip API token
  */
 export class MockQuipClient {
   private mockData: Map<string, MockSpreadsheet> = new Map();
+  private mockDocuments: Map<string, MockDocument> = new Map();
   
   /**
    * Initialize the mock client with sample data
@@ -86,6 +134,18 @@ export class MockQuipClient {
         }
       ]
     });
+    
+    // Add a sample document
+    this.addMockDocument({
+      threadId: 'doc1',
+      title: 'Sample Document',
+      html: '<h1>Sample Document</h1>' +
+        '<p>Project notes with a <a href="https://quip.com/sample1">link to the data</a>.</p>' +
+        '<h2>Tasks</h2>' +
+        '<ul class="checklist"><li class="checked">Collect data</li><li>Write summary</li></ul>' +
+        '<h2>Owners</h2>' +
+        '<table><tr><td>Area</td><td>Owner</td></tr><tr><td>Data</td><td>Jane Smith</td></tr></table>'
+    });
   }
   
   /**
@@ -94,10 +154,28 @@ export class MockQuipClient {
    * @param spreadsheet Mock spreadsheet data
    */
   addMockSpreadsheet(spreadsheet: MockSpreadsheet): void {
-    this.mockData.set(spreadsheet.threadId, spreadsheet);
+    // Prefer an edited copy so changes made by earlier clients survive
+    this.mockData.set(spreadsheet.threadId, editedSpreadsheets.get(spreadsheet.threadId) ?? spreadsheet);
     logger.debug(`Added mock spreadsheet: ${spreadsheet.threadId}`, { title: spreadsheet.title });
   }
   
+  /**
+   * Discard every edit made through mock clients, restoring the sample data for new clients
+   */
+  static resetEdits(): void {
+    editedSpreadsheets.clear();
+  }
+  
+  /**
+   * Add a mock document to the client
+   * 
+   * @param document Mock document data
+   */
+  addMockDocument(document: MockDocument): void {
+    this.mockDocuments.set(document.threadId, document);
+    logger.debug(`Added mock document: ${document.threadId}`, { title: document.title });
+  }
+  
   /**
    * Get a thread by ID
    * 
@@ -108,6 +186,14 @@ export class MockQuipClient {
   async getThread(threadId: string): Promise<Record<string, any>> {
     logger.info(`Getting mock thread: ${threadId}`);
     
+    const document = this.mockDocuments.get(threadId);
+    if (document) {
+      return {
+        thread: this.generateMockThread(document, 'document'),
+        html: document.html
+      };
+    }
+    
     const spreadsheet = this.mockData.get(threadId);
     if (!spreadsheet) {
       logger.error(`Mock thread not found: ${threadId}`);
@@ -116,15 +202,36 @@ export class MockQuipClient {
     
     // Create a mock thread response
     return {
-      thread: {
-        id: threadId,
-        title: spreadsheet.title,
-        type: 'spreadsheet'
-      },
+      thread: this.generateMockThread(spreadsheet, 'spreadsheet'),
       html: this.generateMockHtml(spreadsheet)
     };
   }
   
+  /**
+   * Search mock threads by title or thread ID
+   * 
+   * @param query Search query (case-insensitive substring match)
+   * @param type Thread type to keep, e.g. 'spreadsheet' or 'document' (optional)
+   * @param limit Maximum number of results to return (default: 10)
+   * @returns Promise resolving to matching threads in insertion order
+   */
+  async searchThreads(query: string, type?: string, limit: number = 10): Promise<ThreadSearchResult[]> {
+    logger.info(`Searching mock threads for query: ${query}`, { type: type || 'any', limit });
+    
+    const queryLower = query.toLowerCase();
+    const threads = [
+      ...Array.from(this.mockData.values()).map(spreadsheet => this.generateMockThread(spreadsheet, 'spreadsheet')),
+      ...Array.from(this.mockDocuments.values()).map(document => this.generateMockThread(document, 'document'))
+    ];
+    return threads
+      .filter(thread =>
+        thread.title.toLowerCase().includes(queryLower) ||
+        thread.id.toLowerCase().includes(queryLower))
+      .map(thread => toThreadSearchResult(thread))
+      .filter(result => !type || result.type === type.toLowerCase())
+      .slice(0, limit);
+  }
+  
   /**
    * Export a thread to XLSX format and save it locally
    * 
@@ -151,6 +258,36 @@ export class MockQuipClient {
     return outputPath;
   }
   
+  /**
+   * List the sheets of a mock spreadsheet thread
+   * 
+   * @param threadId ID of the thread to inspect
+   * @returns Promise resolving to sheet summaries in workbook order
+   * @throws Error if the thread is not found
+   */
+  async listSheets(threadId: string): Promise<SheetInfo[]> {
+    logger.info(`Listing sheets for mock thread ${threadId}`);
+    
+    const spreadsheet = this.mockData.get(threadId);
+    if (!spreadsheet) {
+      logger.error(`Mock thread not found: ${threadId}`);
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    
+    return spreadsheet.sheets.map(sheet => {
+      const rows = sheet.csv.split('\n').filter(row => row !== '').map(row => row.split(','));
+      const headerIndex = detectHeaderRow(rows);
+      
+      return {
+        name: sheet.name,
+        rows: rows.length,
+        columns: rows.reduce((max, row) => Math.max(max, row.length), 0),
+        header_row: headerIndex === -1 ? null : headerIndex + 1,
+        headers: headerIndex === -1 ? [] : rows[headerIndex]
+      };
+    });
+  }
+  
   /**
    * Export a thread to CSV format using HTML parsing as fallback method
    * 
@@ -187,6 +324,128 @@ export class MockQuipClient {
     return sheet.csv;
   }
   
+  /**
+   * Read the cell formatting of a mock sheet
+   * 
+   * Mock sheets hold plain text, so no cell has any formatting.
+   * 
+   * @param threadId ID of the thread to read
+   * @param sheetName Name of the sheet (optional)
+   * @returns Promise resolving to an empty list
+   * @throws Error if the thread or sheet is not found
+   */
+  async getSheetFormatting(threadId: string, sheetName?: string): Promise<CellFormatting[]> {
+    logger.info(`Reading cell formatting of mock thread ${threadId}, sheet: ${sheetName || 'default'}`);
+    
+    const spreadsheet = this.mockData.get(threadId);
+    if (!spreadsheet) {
+      logger.error(`Mock thread not found: ${threadId}`);
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    if (sheetName && !spreadsheet.sheets.some(sheet => sheet.name === sheetName)) {
+      logger.error(`Sheet not found: ${sheetName}`);
+      throw new Error(`Sheet '${sheetName}' not found in thread ${threadId}`);
+    }
+    
+    return [];
+  }
+  
+  /**
+   * Write values to a range of cells in a mock spreadsheet
+   * 
+   * The sheet grows to fit the range, like the spare rows and columns of a real Quip
+   * sheet. As elsewhere in the mock, values must not contain commas or line breaks.
+   * 
+   * @param threadId ID of the thread to update
+   * @param sheetName Name of the sheet to update
+   * @param range Target range; its size must match the values
+   * @param values Rows of cell values to write
+   * @returns Promise resolving to a summary of the update
+   * @throws Error if the thread or sheet is not found
+   */
+  async updateCells(threadId: string, sheetName: string, range: CellRange, values: CellValue[][]): Promise<CellUpdateResult> {
+    const rangeA1 = formatA1Range(range);
+    logger.info(`Updating cells ${rangeA1} in sheet '${sheetName}' of mock thread ${threadId}`);
+    
+    const spreadsheet = this.mockData.get(threadId);
+    if (!spreadsheet) {
+      logger.error(`Mock thread not found: ${threadId}`);
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    
+    const sheet = spreadsheet.sheets.find(s => s.name === sheetName);
+    if (!sheet) {
+      logger.error(`Sheet not found: ${sheetName}`);
+      throw new Error(`Sheet '${sheetName}' not found in thread ${threadId}`);
+    }
+    
+    const rows = sheet.csv.split('\n').map(row => row.split(','));
+    const width = rows.reduce((max, row) => Math.max(max, row.length), range.endColumn + 1);
+    while (rows.length <= range.endRow) {
+      rows.push([]);
+    }
+    
+    for (let r = range.startRow; r <= range.endRow; r++) {
+      for (let c = range.startColumn; c <= range.endColumn; c++) {
+        const value = values[r - range.startRow][c - range.startColumn];
+        rows[r][c] = value === null ? '' : String(value);
+      }
+    }
+    
+    sheet.csv = rows
+      .map(row => Array.from({ length: width }, (_, c) => row[c] ?? '').join(','))
+      .join('\n');
+    spreadsheet.updatedUsec = Date.now() * 1000;
+    editedSpreadsheets.set(threadId, spreadsheet);
+    
+    const updatedCells = (range.endRow - range.startRow + 1) * (range.endColumn - range.startColumn + 1);
+    logger.info(`Updated ${updatedCells} cells in sheet '${sheetName}' of mock thread ${threadId}`);
+    return {
+      thread_id: threadId,
+      sheet_name: sheetName,
+      range: rangeA1,
+      updated_cells: updatedCells
+    };
+  }
+  
+  /**
+   * Append rows to a mock spreadsheet, after its last non-empty row
+   * 
+   * @param threadId ID of the thread to update
+   * @param sheetName Name of the sheet to append to (optional, defaults to the first sheet)
+   * @param rows Rows of cell values, already aligned to the sheet's columns
+   * @returns Promise resolving to the number of rows appended
+   * @throws Error if the thread or sheet is not found
+   */
+  async appendRows(threadId: string, sheetName: string | undefined, rows: CellValue[][]): Promise<number> {
+    logger.info(`Appending ${rows.length} rows to sheet '${sheetName || 'default'}' of mock thread ${threadId}`);
+    
+    const spreadsheet = this.mockData.get(threadId);
+    if (!spreadsheet) {
+      logger.error(`Mock thread not found: ${threadId}`);
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    
+    const sheet = sheetName ? spreadsheet.sheets.find(s => s.name === sheetName) : spreadsheet.sheets[0];
+    if (!sheet) {
+      logger.error(`Sheet not found: ${sheetName || 'default'}`);
+      throw new Error(`Sheet '${sheetName || 'default'}' not found in thread ${threadId}`);
+    }
+    
+    const lines = sheet.csv.split('\n');
+    while (lines.length > 0 && lines[lines.length - 1].replace(/,/g, '') === '') {
+      lines.pop();
+    }
+    lines.push(...rows.map(row => row.map(value => (value === null ? '' : String(value))).join(',')));
+    
+    sheet.csv = lines.join('\n');
+    spreadsheet.updatedUsec = Date.now() * 1000;
+    editedSpreadsheets.set(threadId, spreadsheet);
+    
+    logger.info(`Appended ${rows.length} rows to mock thread ${threadId}`);
+    return rows.length;
+  }
+  
   /**
    * Check if a thread is a spreadsheet
    * 
@@ -198,6 +457,23 @@ export class MockQuipClient {
     return this.mockData.has(threadId);
   }
   
+  /**
+   * Generate the thread object Quip would return for a mock thread
+   * 
+   * @param mock Mock spreadsheet or document data
+   * @param type Thread type
+   * @returns Thread object
+   */
+  private generateMockThread(mock: MockSpreadsheet | MockDocument, type: string): Record<string, any> {
+    return {
+      id: mock.threadId,
+      title: mock.title,
+      type,
+      link: `https://quip.com/${mock.threadId}`,
+      updated_usec: mock.updatedUsec ?? MOCK_UPDATED_USEC
+    };
+  }
+  
   /**
    * Generate mock HTML for a spreadsheet
    * 
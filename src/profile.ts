@@ -0,0 +1,143 @@
+/**
+ * Column statistics for stored sheet CSV
+ */
+import { detectHeaderRow, parseCSV } from './csv';
+import { parseNumber } from './query';
+import { columnIndexToLetter } from './range';
+import { ColumnProfile, ColumnType, SheetProfile } from './types';
+
+/**
+ * Values recognized as booleans, compared case-insensitively
+ */
+const BOOLEAN_VALUES = new Set(['true', 'false', 'yes', 'no']);
+
+/**
+ * Date layouts recognized as dates: ISO 8601 dates (optionally with a time) and dates
+ * with month names, which are also checked with Date.parse
+ */
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/,
+  /^(\d{1,2} )?[A-Za-z]{3,9}\.? \d{1,2}(st|nd|rd|th)?,? \d{4}$|^\d{1,2} [A-Za-z]{3,9}\.? \d{4}$/
+];
+
+/**
+ * Numeric dates with slashes, dashes or dots; the day and month order is locale-dependent,
+ * so these aren't checked with Date.parse
+ */
+const NUMERIC_DATE_PATTERN = /^\d{1,2}[/.-]\d{1,2}[/.-](\d{2}|\d{4})( \d{1,2}:\d{2}(:\d{2})?( ?[AP]M)?)?$/i;
+
+/**
+ * Profile the columns of CSV content
+ *
+ * The first non-empty row is used as the header row and blank rows are skipped, the same
+ * way quip_query_sheet reads a sheet.
+ *
+ * @param csvContent Stored CSV content of the sheet
+ * @param topN Number of most frequent values to report per column
+ * @param sampleSize Number of sample values to report per column
+ * @returns Sheet profile
+ */
+export function profileSheet(csvContent: string, topN: number, sampleSize: number): SheetProfile {
+  const allRows = parseCSV(csvContent);
+  const headerIndex = detectHeaderRow(allRows);
+  if (headerIndex === -1) {
+    return { header_row: null, data_rows: 0, top_n: topN, sample_size: sampleSize, columns: [] };
+  }
+
+  const headers = allRows[headerIndex];
+  const dataRows = allRows.slice(headerIndex + 1).filter(row => row.some(cell => cell.trim() !== ''));
+  const width = dataRows.reduce((max, row) => Math.max(max, row.length), headers.length);
+
+  const columns = Array.from({ length: width }, (_, index) => profileColumn(
+    headers[index] ?? '',
+    index,
+    dataRows.map(row => (row[index] ?? '').trim()),
+    topN,
+    sampleSize
+  ));
+
+  return {
+    header_row: headerIndex + 1,
+    data_rows: dataRows.length,
+    top_n: topN,
+    sample_size: sampleSize,
+    columns
+  };
+}
+
+/**
+ * Profile a single column
+ *
+ * @param name Column header
+ * @param index Zero-based column index
+ * @param values Trimmed cell values of the data rows
+ * @param topN Number of most frequent values to report
+ * @param sampleSize Number of sample values to report
+ * @returns Column profile
+ */
+function profileColumn(name: string, index: number, values: string[], topN: number, sampleSize: number): ColumnProfile {
+  const nonBlank = values.filter(value => value !== '');
+
+  // Map preserves insertion order, so ties and samples follow sheet order
+  const counts = new Map<string, number>();
+  for (const value of nonBlank) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  const type = inferType(nonBlank);
+  const profile: ColumnProfile = {
+    name,
+    column: columnIndexToLetter(index),
+    type,
+    blank_count: values.length - nonBlank.length,
+    distinct_count: counts.size,
+    top_values: Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, topN),
+    samples: Array.from(counts.keys()).slice(0, sampleSize)
+  };
+
+  if (type === 'number') {
+    const numbers = nonBlank.map(value => parseNumber(value) as number);
+    profile.min = numbers.reduce((min, value) => Math.min(min, value), Infinity);
+    profile.max = numbers.reduce((max, value) => Math.max(max, value), -Infinity);
+    profile.mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+  }
+
+  return profile;
+}
+
+/**
+ * Infer the type of a column from its non-blank values
+ *
+ * @param values Non-blank cell values
+ * @returns The narrowest type that fits every value, or string if the column is blank
+ */
+export function inferType(values: string[]): ColumnType {
+  if (values.length === 0) {
+    return 'string';
+  }
+  if (values.every(value => BOOLEAN_VALUES.has(value.toLowerCase()))) {
+    return 'boolean';
+  }
+  if (values.every(value => parseNumber(value) !== null)) {
+    return 'number';
+  }
+  if (values.every(isDate)) {
+    return 'date';
+  }
+  return 'string';
+}
+
+/**
+ * Check whether a cell value is a date
+ *
+ * @param value Cell value
+ * @returns True if the value has a recognized date layout
+ */
+function isDate(value: string): boolean {
+  if (NUMERIC_DATE_PATTERN.test(value)) {
+    return true;
+  }
+  return DATE_PATTERNS.some(pattern => pattern.test(value)) && !isNaN(Date.parse(value.replace(/(\d)(st|nd|rd|th)\b/, '$1')));
+}
@@ -0,0 +1,193 @@
+/**
+ * Structured queries over stored sheet CSV
+ */
+import { detectHeaderRow, parseCSV } from './csv';
+import { FilterOperator, SheetFilter, SheetQuery, SheetQueryResult } from './types';
+
+/**
+ * Operators accepted by sheet query filters
+ */
+export const FILTER_OPERATORS: FilterOperator[] = ['equals', 'not_equals', 'contains', 'gt', 'gte', 'lt', 'lte', 'regex'];
+
+/**
+ * Run a query over CSV content
+ *
+ * The first non-empty row is used as the header row and blank rows are skipped.
+ * Columns are matched to headers exactly first, then case-insensitively. Filters are
+ * combined with AND. Numeric comparisons and sorting treat values as numbers when both
+ * sides parse as numbers and fall back to text otherwise.
+ *
+ * @param csvContent Stored CSV content of the sheet
+ * @param query Query to run
+ * @returns Matching rows and the total number of matches
+ * @throws Error if the query references an unknown column or has an invalid filter
+ */
+export function querySheet(csvContent: string, query: SheetQuery): SheetQueryResult {
+  const allRows = parseCSV(csvContent);
+  const headerIndex = detectHeaderRow(allRows);
+  if (headerIndex === -1) {
+    return { headers: [], rows: [], total_matches: 0 };
+  }
+
+  const headers = allRows[headerIndex];
+  const dataRows = allRows.slice(headerIndex + 1).filter(row => row.some(cell => cell.trim() !== ''));
+
+  const predicates = (query.filters || []).map(filter => compileFilter(filter, resolveColumn(headers, filter.column)));
+  const matches = dataRows.filter(row => predicates.every(predicate => predicate(row)));
+
+  const sortKeys = (query.sort || []).map(key => ({
+    index: resolveColumn(headers, key.column),
+    descending: key.direction === 'desc'
+  }));
+  if (sortKeys.length > 0) {
+    // Array.prototype.sort is stable, so ties keep sheet order
+    matches.sort((a, b) => {
+      for (const key of sortKeys) {
+        const order = compareCells(a[key.index] ?? '', b[key.index] ?? '', key.descending);
+        if (order !== 0) {
+          return order;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const projection = query.columns && query.columns.length > 0
+    ? query.columns.map(column => resolveColumn(headers, column))
+    : headers.map((_, index) => index);
+
+  const offset = query.offset ?? 0;
+  const page = query.limit === undefined ? matches.slice(offset) : matches.slice(offset, offset + query.limit);
+
+  return {
+    headers: projection.map(index => headers[index]),
+    rows: page.map(row => projection.map(index => row[index] ?? '')),
+    total_matches: matches.length
+  };
+}
+
+/**
+ * Find the index of a column by header name
+ *
+ * @param headers Header row
+ * @param column Column header to find
+ * @returns Zero-based column index
+ * @throws Error if no header matches
+ */
+export function resolveColumn(headers: string[], column: string): number {
+  let index = headers.indexOf(column);
+  if (index === -1) {
+    const normalized = column.trim().toLowerCase();
+    index = headers.findIndex(header => header.trim().toLowerCase() === normalized);
+  }
+  if (index === -1) {
+    throw new Error(`Unknown column '${column}'. Available columns: ${headers.filter(header => header).join(', ')}`);
+  }
+  return index;
+}
+
+/**
+ * Build a row predicate for a filter
+ *
+ * @param filter Filter to compile
+ * @param index Index of the filtered column
+ * @returns Function returning true for rows that match the filter
+ * @throws Error if the operator is unknown or the regular expression is invalid
+ */
+function compileFilter(filter: SheetFilter, index: number): (row: string[]) => boolean {
+  const caseSensitive = filter.caseSensitive === true;
+  const fold = (text: string) => (caseSensitive ? text : text.toLowerCase());
+  const expected = String(filter.value);
+  const expectedNumber = parseNumber(expected);
+
+  switch (filter.operator) {
+    case 'equals':
+    case 'not_equals': {
+      const negate = filter.operator === 'not_equals';
+      return row => {
+        const cell = row[index] ?? '';
+        const cellNumber = parseNumber(cell);
+        const equal = cellNumber !== null && expectedNumber !== null
+          ? cellNumber === expectedNumber
+          : fold(cell.trim()) === fold(expected.trim());
+        return equal !== negate;
+      };
+    }
+    case 'contains':
+      return row => fold(row[index] ?? '').includes(fold(expected));
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const operator = filter.operator;
+      return row => {
+        const cell = row[index] ?? '';
+        if (cell.trim() === '') {
+          return false;
+        }
+        const cellNumber = parseNumber(cell);
+        const order = cellNumber !== null && expectedNumber !== null
+          ? cellNumber - expectedNumber
+          : fold(cell).localeCompare(fold(expected));
+        switch (operator) {
+          case 'gt':
+            return order > 0;
+          case 'gte':
+            return order >= 0;
+          case 'lt':
+            return order < 0;
+          default:
+            return order <= 0;
+        }
+      };
+    }
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(expected, caseSensitive ? '' : 'i');
+      } catch (error) {
+        throw new Error(`Invalid regular expression for column '${filter.column}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return row => pattern.test(row[index] ?? '');
+    }
+    default:
+      throw new Error(`Unknown filter operator '${String(filter.operator)}'. Supported operators: ${FILTER_OPERATORS.join(', ')}`);
+  }
+}
+
+/**
+ * Compare two cells for sorting, keeping empty cells last in both directions
+ *
+ * @param a First cell
+ * @param b Second cell
+ * @param descending Whether to sort in descending order
+ * @returns Negative, zero or positive sort order
+ */
+function compareCells(a: string, b: string, descending: boolean): number {
+  const aEmpty = a.trim() === '';
+  const bEmpty = b.trim() === '';
+  if (aEmpty || bEmpty) {
+    return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+  }
+
+  const aNumber = parseNumber(a);
+  const bNumber = parseNumber(b);
+  const order = aNumber !== null && bNumber !== null
+    ? aNumber - bNumber
+    : a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+  return descending ? -order : order;
+}
+
+/**
+ * Parse a cell as a number, allowing thousands separators
+ *
+ * @param value Cell value
+ * @returns Parsed number, or null if the value is not numeric
+ */
+export function parseNumber(value: string): number | null {
+  const trimmed = value.trim().replace(/,/g, '');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(trimmed)) {
+    return null;
+  }
+  return Number(trimmed);
+}
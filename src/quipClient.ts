@@ -3,10 +3,18 @@
  */
 import axios from 'axios';
 import * as fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
 import * as XLSX from 'xlsx';
 import * as cheerio from 'cheerio';
 import { logger } from './logger';
+import {
+  CellFormatting, CellRange, CellUpdateResult, CellValue, FormulaCell, SheetInfo, SheetLayoutOptions, SheetSelection,
+  ThreadSearchResult
+} from './types';
+import { columnIndexToLetter, formatA1Range, parseA1Range } from './range';
+import { detectHeaderRow } from './csv';
+import { applySheetLayout, coversSheetLayout } from './merges';
 
 /**
  * Simple Quip API client implementation for the MCP server
@@ -58,6 +66,42 @@ export class QuipClient {
     }
   }
   
+  /**
+   * Search for threads matching a query
+   * 
+   * @param query Search query
+   * @param type Thread type to keep, e.g. 'spreadsheet' or 'document' (optional)
+   * @param limit Maximum number of results to return (default: 10)
+   * @returns Promise resolving to matching threads, most relevant first
+   * @throws Error if the request fails
+   */
+  async searchThreads(query: string, type?: string, limit: number = 10): Promise<ThreadSearchResult[]> {
+    logger.info(`Searching threads for query: ${query}`, { type: type || 'any', limit });
+    try {
+      // Quip's search API cannot filter by type, so ask for the maximum when filtering locally
+      const response = await this.axiosInstance.get(`${this.baseUrl}/1/threads/search`, {
+        params: {
+          query,
+          count: type ? MAX_SEARCH_COUNT : Math.min(limit, MAX_SEARCH_COUNT)
+        }
+      });
+      
+      const items: Record<string, any>[] = Array.isArray(response.data) ? response.data : [];
+      return items
+        .map(item => toThreadSearchResult(item.thread || item))
+        .filter(result => !type || result.type === type.toLowerCase())
+        .slice(0, limit);
+    } catch (error) {
+      logger.error(`Error searching threads for query ${query}: ${error instanceof Error ? error.message : String(error)}`);
+      // Check for timeout error based on error message or properties
+      const err = error as any;
+      if (err.code === 'ECONNABORTED' || (err.message && err.message.includes('timeout'))) {
+        throw new Error(`Request timed out when trying to search threads for query ${query}`);
+      }
+      throw error;
+    }
+  }
+  
   /**
    * Export a thread to XLSX format and save it locally
    * 
@@ -96,6 +140,25 @@ export class QuipClient {
     }
   }
   
+  /**
+   * List the sheets of a spreadsheet thread by exporting it to XLSX once
+   * 
+   * @param threadId ID of the thread to inspect
+   * @returns Promise resolving to sheet summaries in workbook order
+   * @throws Error if the export fails
+   */
+  async listSheets(threadId: string): Promise<SheetInfo[]> {
+    logger.info(`Listing sheets for thread ${threadId}`);
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-mcp-'));
+    try {
+      const xlsxPath = path.join(tempDir, `${threadId}.xlsx`);
+      await this.exportThreadToXLSX(threadId, xlsxPath);
+      return listXLSXSheets(xlsxPath);
+    } finally {
+      await fs.remove(tempDir);
+    }
+  }
+  
   /**
    * Export a thread to CSV format using HTML parsing as fallback method
    * 
@@ -144,6 +207,171 @@ export class QuipClient {
     return csvContent;
   }
   
+  /**
+   * Read the cell formatting of a sheet from the thread HTML
+   * 
+   * @param threadId ID of the thread to read
+   * @param sheetName Name of the sheet (optional)
+   * @returns Promise resolving to the formatted cells of the sheet
+   * @throws Error if the thread or sheet is not found
+   */
+  async getSheetFormatting(threadId: string, sheetName?: string): Promise<CellFormatting[]> {
+    logger.info(`Reading cell formatting of thread ${threadId} from HTML`, { sheet: sheetName || 'default' });
+    
+    const thread = await this.getThread(threadId);
+    if (!thread || !thread.html) {
+      throw new Error("Could not retrieve thread or thread has no HTML content");
+    }
+    
+    const sheet = findSheetByName(thread.html, sheetName);
+    if (!sheet) {
+      throw new Error(`Could not find sheet '${sheetName || 'default'}' in the document`);
+    }
+    
+    return extractSheetFormatting(sheet);
+  }
+  
+  /**
+   * Write values to a range of cells in a spreadsheet thread
+   * 
+   * Each cell of a Quip spreadsheet is its own document section, so the values are
+   * written one cell at a time with the edit-document API, replacing the section whose
+   * ID appears on the matching <td> in the thread HTML.
+   * 
+   * @param threadId ID of the thread to update
+   * @param sheetName Name of the sheet to update
+   * @param range Target range; its size must match the values
+   * @param values Rows of cell values to write
+   * @returns Promise resolving to a summary of the update
+   * @throws Error if the sheet or a target cell cannot be found, or a request fails, telling
+   *   how many cells were written before it
+   */
+  async updateCells(threadId: string, sheetName: string, range: CellRange, values: CellValue[][]): Promise<CellUpdateResult> {
+    const rangeA1 = formatA1Range(range);
+    logger.info(`Updating cells ${rangeA1} in sheet '${sheetName}' of thread ${threadId}`);
+    
+    const thread = await this.getThread(threadId);
+    if (!thread || !thread.html) {
+      throw new Error("Could not retrieve thread or thread has no HTML content");
+    }
+    
+    const sheet = findSheetByName(thread.html, sheetName, true);
+    if (!sheet) {
+      throw new Error(`Could not find sheet '${sheetName}' in the document`);
+    }
+    
+    // Resolve every section ID before writing so a bad range doesn't leave a partial update
+    const cellIds = extractSheetCellIds(sheet);
+    const edits: { cell: string; sectionId: string; value: CellValue }[] = [];
+    for (let r = range.startRow; r <= range.endRow; r++) {
+      for (let c = range.startColumn; c <= range.endColumn; c++) {
+        const cell = `${columnIndexToLetter(c)}${r + 1}`;
+        const sectionId = cellIds[r]?.[c];
+        if (!sectionId) {
+          throw new Error(`Cell ${cell} is outside sheet '${sheetName}'`);
+        }
+        edits.push({ cell, sectionId, value: values[r - range.startRow][c - range.startColumn] });
+      }
+    }
+    
+    for (const [index, edit] of edits.entries()) {
+      try {
+        await this.axiosInstance.post(
+          `${this.baseUrl}/1/threads/edit-document`,
+          new URLSearchParams({
+            thread_id: threadId,
+            format: 'html',
+            content: escapeHtml(edit.value === null ? '' : String(edit.value)),
+            section_id: edit.sectionId,
+            location: String(REPLACE_SECTION)
+          })
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`Error updating section ${edit.sectionId} of thread ${threadId}: ${errorMessage}`);
+        // Cells are written one at a time, so tell how far the update got
+        const progress = index === 0
+          ? 'no cells were written'
+          : `${index} of ${edits.length} cells were written, up to ${edits[index - 1].cell}`;
+        // Check for timeout error based on error message or properties
+        const err = error as any;
+        if (err.code === 'ECONNABORTED' || (err.message && err.message.includes('timeout'))) {
+          throw new Error(`Request timed out when trying to update cell ${edit.cell} of thread ${threadId}; ${progress}`);
+        }
+        throw new Error(`Failed to update cell ${edit.cell}: ${errorMessage}; ${progress}`);
+      }
+    }
+    
+    logger.info(`Updated ${edits.length} cells in sheet '${sheetName}' of thread ${threadId}`);
+    return {
+      thread_id: threadId,
+      sheet_name: sheetName,
+      range: rangeA1,
+      updated_cells: edits.length
+    };
+  }
+  
+  /**
+   * Append rows to a spreadsheet thread, right after its last non-empty row
+   * 
+   * The rows are inserted with the edit-document API after the section of the last
+   * row that has any content, so they land above the sheet's spare blank rows.
+   * 
+   * @param threadId ID of the thread to update
+   * @param sheetName Name of the sheet to append to (optional, defaults to the first sheet)
+   * @param rows Rows of cell values, already aligned to the sheet's columns
+   * @returns Promise resolving to the number of rows appended
+   * @throws Error if the sheet cannot be found or the request fails
+   */
+  async appendRows(threadId: string, sheetName: string | undefined, rows: CellValue[][]): Promise<number> {
+    logger.info(`Appending ${rows.length} rows to sheet '${sheetName || 'default'}' of thread ${threadId}`);
+    
+    const thread = await this.getThread(threadId);
+    if (!thread || !thread.html) {
+      throw new Error("Could not retrieve thread or thread has no HTML content");
+    }
+    
+    const sheet = findSheetByName(thread.html, sheetName, true);
+    if (!sheet) {
+      throw new Error(sheetName ? `Could not find sheet '${sheetName}' in the document` : "Could not find any spreadsheet in the document");
+    }
+    
+    const $ = cheerio.load(sheet);
+    const lastRow = $('tr').filter((_, tr) => $(tr).find('td').length > 0 && $(tr).text().trim() !== '').last();
+    const sectionId = lastRow.attr('id');
+    if (!sectionId) {
+      throw new Error(`Could not find a row to append after in sheet '${sheetName || 'default'}'`);
+    }
+    
+    const content = rows
+      .map(row => `<tr>${row.map(value => `<td>${escapeHtml(value === null ? '' : String(value))}</td>`).join('')}</tr>`)
+      .join('');
+    
+    try {
+      await this.axiosInstance.post(
+        `${this.baseUrl}/1/threads/edit-document`,
+        new URLSearchParams({
+          thread_id: threadId,
+          format: 'html',
+          content,
+          section_id: sectionId,
+          location: String(AFTER_SECTION)
+        })
+      );
+    } catch (error) {
+      logger.error(`Error appending rows to thread ${threadId}: ${error instanceof Error ? error.message : String(error)}`);
+      // Check for timeout error based on error message or properties
+      const err = error as any;
+      if (err.code === 'ECONNABORTED' || (err.message && err.message.includes('timeout'))) {
+        throw new Error(`Request timed out when trying to update thread ${threadId}`);
+      }
+      throw error;
+    }
+    
+    logger.info(`Appended ${rows.length} rows to thread ${threadId}`);
+    return rows.length;
+  }
+  
   /**
    * Check if a thread is a spreadsheet
    * 
@@ -167,14 +395,53 @@ export class QuipClient {
   }
 }
 
+/**
+ * Maximum number of results the Quip search API returns per request
+ */
+const MAX_SEARCH_COUNT = 50;
+
+/**
+ * Edit-document location that inserts content after the given section
+ */
+const AFTER_SECTION = 2;
+
+/**
+ * Edit-document location that replaces the content of the given section
+ */
+const REPLACE_SECTION = 4;
+
+/**
+ * Number of sheet rows converted at a time when a sheet is read as CSV records
+ */
+const CSV_CHUNK_ROWS = 1000;
+
+/**
+ * Convert a Quip thread object into a search result
+ * 
+ * @param thread Thread object as returned by the Quip API
+ * @returns Search result
+ */
+export function toThreadSearchResult(thread: Record<string, any>): ThreadSearchResult {
+  const updatedUsec = typeof thread.updated_usec === 'number' ? thread.updated_usec : null;
+  return {
+    thread_id: thread.id,
+    title: thread.title || '',
+    type: (thread.type || '').toLowerCase(),
+    link: thread.link || '',
+    updated_usec: updatedUsec,
+    updated_at: updatedUsec === null ? null : new Date(Math.floor(updatedUsec / 1000)).toISOString()
+  };
+}
+
 /**
  * Find a spreadsheet with the given name in the document HTML
  * 
  * @param documentHtml HTML content of the document
  * @param sheetName Name of the sheet to find (optional)
+ * @param exactMatch Don't fall back to the first table when a named sheet is not found (default: false)
  * @returns Cheerio element or null if not found
  */
-export function findSheetByName(documentHtml: string, sheetName?: string): any {
+export function findSheetByName(documentHtml: string, sheetName?: string, exactMatch: boolean = false): any {
   const $ = cheerio.load(documentHtml);
   
   // First try to find a table with the specified title attribute
@@ -199,6 +466,10 @@ export function findSheetByName(documentHtml: string, sheetName?: string): any {
     }
   }
   
+  if (sheetName && exactMatch) {
+    return null;
+  }
+  
   // If still not found or no sheet_name provided, return the first table
   return $('table').get(0) || null;
 }
@@ -234,19 +505,197 @@ export function extractSheetData(sheet: any): string[][] {
 }
 
 /**
- * Convert XLSX file to CSV format, optionally extracting a specific sheet
+ * Extract the section IDs of the cells in a sheet element
  * 
- * @param xlsxPath Path to the XLSX file
- * @param sheetName Name of the sheet to extract (optional)
- * @returns CSV data as string
- * @throws Error if the sheet is not found
+ * Unlike extractSheetData, empty rows are kept so that indexes line up with sheet
+ * row and column numbers.
+ * 
+ * @param sheet Cheerio element
+ * @returns Array of rows, where each row is an array of cell section IDs ('' if missing)
  */
-export function convertXLSXToCSV(xlsxPath: string, sheetName?: string): string {
-  logger.info(`Reading XLSX file from ${xlsxPath}`);
+export function extractSheetCellIds(sheet: any): string[][] {
+  if (!sheet) {
+    return [];
+  }
   
-  // Load the workbook
-  const workbook = XLSX.readFile(xlsxPath);
+  const $ = cheerio.load(sheet);
+  const rows: string[][] = [];
+  
+  $('tr').each((_, tr) => {
+    const cells = $(tr).find('td');
+    if (cells.length > 0) {
+      rows.push(cells.map((_, td) => $(td).attr('id') || '').get());
+    }
+  });
+  
+  return rows;
+}
+
+/**
+ * Extract the formatting of the cells in a sheet element
+ * 
+ * Hyperlinks come from <a> elements, bold and italic from <b>/<strong> and <i>/<em>
+ * elements or font-weight and font-style declarations, and the color from the first
+ * color declaration in the cell. Like extractSheetCellIds, empty rows are kept so that
+ * addresses line up with sheet row and column numbers.
+ * 
+ * @param sheet Cheerio element
+ * @returns Formatted cells in row order
+ */
+export function extractSheetFormatting(sheet: any): CellFormatting[] {
+  if (!sheet) {
+    return [];
+  }
+  
+  const $ = cheerio.load(sheet);
+  const cells: CellFormatting[] = [];
+  let rowIndex = 0;
+  
+  $('tr').each((_, tr) => {
+    const tds = $(tr).find('td');
+    if (tds.length === 0) {
+      return;
+    }
+    
+    tds.each((columnIndex, td) => {
+      const styles = [td, ...$(td).find('[style]').get()].map(element => $(element).attr('style') || '');
+      const formatting: CellFormatting = { cell: `${columnIndexToLetter(columnIndex)}${rowIndex + 1}` };
+      
+      const hyperlink = $(td).find('a[href]').first().attr('href');
+      if (hyperlink) {
+        formatting.hyperlink = hyperlink;
+      }
+      if ($(td).find('b, strong').length > 0 || styles.some(style => /font-weight\s*:\s*(bold|[6-9]00)/i.test(style))) {
+        formatting.bold = true;
+      }
+      if ($(td).find('i, em').length > 0 || styles.some(style => /font-style\s*:\s*italic/i.test(style))) {
+        formatting.italic = true;
+      }
+      // The lookbehind skips background-color and other properties ending in "color"
+      const color = styles.map(style => style.match(/(?<![\w-])color\s*:\s*([^;]+)/i)?.[1].trim()).find(Boolean);
+      if (color) {
+        formatting.color = color;
+      }
+      
+      if (Object.keys(formatting).length > 1) {
+        cells.push(formatting);
+      }
+    });
+    rowIndex++;
+  });
   
+  return cells;
+}
+
+/**
+ * Escape text for use as HTML content
+ * 
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Read a sheet of an XLSX file with everything the converters need
+ * 
+ * Only the requested sheet is parsed, in dense mode, so the other sheets of a large
+ * workbook aren't loaded at all. A named range picks its own sheet when no sheet name is
+ * given. Number formats tell date cells apart from plain numbers, and formulas are kept,
+ * so a single read serves every conversion of the sheet.
+ * 
+ * @param xlsxPath Path to the XLSX file
+ * @param sheetName Name of the sheet to read (optional, defaults to the first sheet)
+ * @param namedRange Name of a named range that picks the sheet (optional)
+ * @returns Workbook with every sheet name and named range, but only the requested sheet
+ * @throws Error if the sheet or named range is not found
+ */
+export function readXLSXWorkbook(xlsxPath: string, sheetName?: string, namedRange?: string): XLSX.WorkBook {
+  let sheet: string | number = 0;
+  if (sheetName || namedRange) {
+    // Sheet names and named ranges are read without parsing any sheet
+    const names = XLSX.readFile(xlsxPath, { sheets: [] });
+    sheet = resolveSheetName(names, sheetName || !namedRange ? sheetName : resolveNamedRange(names, namedRange).sheetName);
+  }
+  
+  logger.info(`Reading sheet ${typeof sheet === 'string' ? `'${sheet}'` : 'default'} from XLSX file ${xlsxPath}`);
+  return XLSX.readFile(xlsxPath, { sheets: [sheet], dense: true, cellNF: true, cellFormula: true });
+}
+
+/**
+ * Get the workbook to convert, reading the sheet if a path is given
+ * 
+ * @param xlsx Path to the XLSX file, or the workbook read with readXLSXWorkbook
+ * @param sheetName Name of the sheet to read (optional)
+ * @param namedRange Name of a named range that picks the sheet (optional)
+ * @returns Loaded XLSX workbook
+ */
+function loadWorkbook(xlsx: string | XLSX.WorkBook, sheetName?: string, namedRange?: string): XLSX.WorkBook {
+  return typeof xlsx === 'string' ? readXLSXWorkbook(xlsx, sheetName, namedRange) : xlsx;
+}
+
+/**
+ * Get a sheet of a workbook, falling back to the first sheet
+ * 
+ * @param workbook Loaded XLSX workbook
+ * @param sheetName Name of the sheet to get (optional, case-insensitive fallback)
+ * @returns XLSX worksheet
+ * @throws Error if the sheet is not found or wasn't read from the file
+ */
+function getSheet(workbook: XLSX.WorkBook, sheetName?: string): XLSX.WorkSheet {
+  const name = resolveSheetName(workbook, sheetName);
+  const sheet = workbook.Sheets[name];
+  if (!sheet) {
+    throw new Error(`Sheet '${name}' was not read from the XLSX file`);
+  }
+  return sheet;
+}
+
+/**
+ * Get the rows of cells of a sheet read in dense mode
+ * 
+ * SheetJS keeps dense rows in '!data' since version 0.20, and in the sheet itself before.
+ * 
+ * @param sheet XLSX worksheet
+ * @returns Rows of cells indexed by column, or null if the sheet is keyed by cell address
+ */
+function getDenseRows(sheet: XLSX.WorkSheet): Array<Array<XLSX.CellObject | null | undefined> | undefined> | null {
+  if (Array.isArray(sheet['!data'])) {
+    return sheet['!data'];
+  }
+  return Array.isArray(sheet) ? sheet : null;
+}
+
+/**
+ * Get a cell of a sheet, whether it was read in dense mode or not
+ * 
+ * @param sheet XLSX worksheet
+ * @param row Zero-based row index
+ * @param column Zero-based column index
+ * @returns The cell, or undefined if it is empty
+ */
+function getCell(sheet: XLSX.WorkSheet, row: number, column: number): XLSX.CellObject | undefined {
+  const rows = getDenseRows(sheet);
+  if (rows) {
+    return rows[row]?.[column] ?? undefined;
+  }
+  return sheet[`${columnIndexToLetter(column)}${row + 1}`];
+}
+
+/**
+ * Resolve the sheet to use from a workbook, falling back to the first sheet
+ * 
+ * @param workbook Loaded XLSX workbook
+ * @param sheetName Name of the sheet to find (optional, case-insensitive fallback)
+ * @returns Name of the matching sheet as it appears in the workbook
+ * @throws Error if the sheet is not found
+ */
+function resolveSheetName(workbook: XLSX.WorkBook, sheetName?: string): string {
   // Get available sheet names
   const sheetNames = workbook.SheetNames;
   logger.info(`Available sheets: ${sheetNames.join(', ')}`);
@@ -268,54 +717,335 @@ export function convertXLSXToCSV(xlsxPath: string, sheetName?: string): string {
     }
   }
   
-  // Get the sheet
-  const sheet = workbook.Sheets[sheetNames[sheetIndex]];
-  
+  return sheetNames[sheetIndex];
+}
+
+/**
+ * Compute the range covering every populated cell of a sheet, starting at A1
+ * 
+ * @param sheet XLSX worksheet
+ * @returns Range from A1 to the furthest populated cell
+ */
+function getFullSheetRange(sheet: XLSX.WorkSheet): XLSX.Range {
   // BUGFIX: Manually scan for all cell keys to determine the true sheet range
   // This fixes an issue where the sheet's !ref property might incorrectly report
   // a smaller range than the actual data in the file
-  const cellKeys = Object.keys(sheet).filter(key => key[0] !== '!');
   let maxCol = 0;
   let maxRow = 0;
   
-  // Find the maximum column and row by examining all cell keys
-  cellKeys.forEach(key => {
-    // Parse cell address (e.g., "A1", "B2", etc.)
-    const match = key.match(/^([A-Z]+)(\d+)$/);
-    if (match) {
-      const colStr = match[1];
-      const rowIdx = parseInt(match[2], 10);
-      
-      const colIdx = XLSX.utils.decode_col(colStr);
-      if (colIdx > maxCol) maxCol = colIdx;
-      if (rowIdx > maxRow) maxRow = rowIdx;
-    }
-  });
+  const denseRows = getDenseRows(sheet);
+  if (denseRows) {
+    // Find the maximum column and row by examining the cells of every row
+    denseRows.forEach((row, rowIdx) => {
+      row?.forEach((cell, colIdx) => {
+        if (cell) {
+          if (colIdx > maxCol) maxCol = colIdx;
+          if (rowIdx + 1 > maxRow) maxRow = rowIdx + 1;
+        }
+      });
+    });
+  } else {
+    // Find the maximum column and row by examining all cell keys
+    const cellKeys = Object.keys(sheet).filter(key => key[0] !== '!');
+    cellKeys.forEach(key => {
+      // Parse cell address (e.g., "A1", "B2", etc.)
+      const match = key.match(/^([A-Z]+)(\d+)$/);
+      if (match) {
+        const colStr = match[1];
+        const rowIdx = parseInt(match[2], 10);
+        
+        const colIdx = XLSX.utils.decode_col(colStr);
+        if (colIdx > maxCol) maxCol = colIdx;
+        if (rowIdx > maxRow) maxRow = rowIdx;
+      }
+    });
+  }
   
-  // Create a custom range that includes all cells
-  const customRange = {
+  // Log the detected range
+  logger.info(`Detected full sheet range: from A1 to ${XLSX.utils.encode_col(maxCol)}${maxRow}`);
+  logger.info(`Total columns: ${maxCol + 1}`);
+  
+  return {
     s: { c: 0, r: 0 },           // Start at A1
     e: { c: maxCol, r: maxRow-1 } // End at the furthest cell
   };
+}
+
+/**
+ * Get the range of a sheet to read
+ * 
+ * @param sheet XLSX worksheet
+ * @param range Cells to read (optional)
+ * @returns The given range, or every populated cell starting at A1
+ */
+function getSheetRange(sheet: XLSX.WorkSheet, range?: CellRange): XLSX.Range {
+  if (!range) {
+    return getFullSheetRange(sheet);
+  }
+  return {
+    s: { c: range.startColumn, r: range.startRow },
+    e: { c: range.endColumn, r: range.endRow }
+  };
+}
+
+/**
+ * Resolve an A1 range or a named range against the sheets of an XLSX file
+ * 
+ * A named range refers to its own sheet, which is used when no sheet name is given. The
+ * range is clipped to the populated cells of the sheet, so the result is the range that
+ * is actually read.
+ * 
+ * @param xlsx Path to the XLSX file, or the workbook read with readXLSXWorkbook
+ * @param sheetName Name of the sheet to read (optional)
+ * @param selection Range in A1 notation or name of a named range
+ * @returns Name of the sheet as it appears in the workbook and the range to read
+ * @throws Error if the sheet or named range is not found, or the range has no populated cells
+ */
+export function resolveXLSXRange(
+  xlsx: string | XLSX.WorkBook,
+  sheetName: string | undefined,
+  selection: SheetSelection
+): { sheetName: string; range: CellRange } {
+  logger.info(`Resolving range in XLSX workbook`, selection);
+  
+  const workbook = loadWorkbook(xlsx, sheetName, selection.namedRange);
+  let resolvedName: string;
+  let requested: CellRange;
+  
+  if (selection.namedRange) {
+    const target = resolveNamedRange(workbook, selection.namedRange, sheetName);
+    resolvedName = resolveSheetName(workbook, target.sheetName);
+    if (sheetName && resolvedName.toLowerCase() !== resolveSheetName(workbook, sheetName).toLowerCase()) {
+      throw new Error(`Named range '${selection.namedRange}' refers to sheet '${resolvedName}', not '${sheetName}'`);
+    }
+    requested = target.range;
+  } else {
+    resolvedName = resolveSheetName(workbook, sheetName);
+    requested = parseA1Range(selection.range ?? '');
+  }
+  
+  const populated = getFullSheetRange(getSheet(workbook, resolvedName));
+  const range: CellRange = {
+    startRow: requested.startRow,
+    startColumn: requested.startColumn,
+    endRow: Math.min(requested.endRow, populated.e.r),
+    endColumn: Math.min(requested.endColumn, populated.e.c)
+  };
+  if (range.endRow < range.startRow || range.endColumn < range.startColumn) {
+    throw new Error(`Range ${formatA1Range(requested)} has no populated cells in sheet '${resolvedName}'`);
+  }
   
-  // Log the detected range
-  logger.info(`Detected full sheet range: from A1 to ${XLSX.utils.encode_col(maxCol)}${maxRow}`);
-  logger.info(`Total columns: ${maxCol + 1}`);
+  logger.info(`Reading range ${formatA1Range(range)} of sheet '${resolvedName}'`);
+  return { sheetName: resolvedName, range };
+}
+
+/**
+ * Find a named range of a workbook and parse the cells it refers to
+ * 
+ * Names are matched case-insensitively, like in Excel. A name scoped to the requested
+ * sheet takes precedence over a workbook-wide name.
+ * 
+ * @param workbook Loaded XLSX workbook
+ * @param name Name of the named range
+ * @param sheetName Name of the requested sheet (optional)
+ * @returns Name of the sheet the range refers to and the range
+ * @throws Error if the name is not defined or doesn't refer to a single range of cells
+ */
+function resolveNamedRange(workbook: XLSX.WorkBook, name: string, sheetName?: string): { sheetName: string; range: CellRange } {
+  const names = (workbook.Workbook?.Names ?? []).filter(definedName => definedName.Name.toLowerCase() === name.toLowerCase());
+  const sheetIndex = sheetName === undefined
+    ? -1
+    : workbook.SheetNames.findIndex(s => s.toLowerCase() === sheetName.toLowerCase());
+  const definedName = names.find(n => n.Sheet !== undefined && n.Sheet === sheetIndex) ?? names.find(n => n.Sheet === undefined);
+  if (!definedName) {
+    const available = (workbook.Workbook?.Names ?? []).map(n => n.Name);
+    throw new Error(`Named range '${name}' not found. Available named ranges: ${available.join(', ') || 'none'}`);
+  }
+  
+  // References look like Sheet1!$B$2:$F$40, with quotes around sheet names that need them
+  const match = definedName.Ref.match(/^(?:'((?:[^']|'')+)'|([^!']+))!([^!,]+)$/);
+  let range: CellRange | null = null;
+  if (match) {
+    try {
+      range = parseA1Range(match[3]);
+    } catch {
+      range = null;
+    }
+  }
+  if (!match || !range) {
+    throw new Error(`Named range '${name}' does not refer to a single range of cells: ${definedName.Ref}`);
+  }
   
-  // Convert to JSON using our custom range to include all columns
-  const data: Array<Array<any>> = XLSX.utils.sheet_to_json(sheet, { 
-    header: 1, 
-    raw: false,
-    defval: '', // Ensure empty cells are included
-    range: customRange // Use our custom range instead of sheet['!ref']
+  return { sheetName: match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2], range };
+}
+
+/**
+ * List every sheet in an XLSX file with its dimensions and detected header row
+ * 
+ * @param xlsxPath Path to the XLSX file
+ * @returns Array of sheet summaries in workbook order
+ */
+export function listXLSXSheets(xlsxPath: string): SheetInfo[] {
+  logger.info(`Listing sheets in XLSX file ${xlsxPath}`);
+  
+  const workbook = XLSX.readFile(xlsxPath);
+  
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    const hasCells = Object.keys(sheet).some(key => key[0] !== '!');
+    if (!hasCells) {
+      return { name, rows: 0, columns: 0, header_row: null, headers: [] };
+    }
+    
+    const range = getFullSheetRange(sheet);
+    const data: string[][] = XLSX.utils.sheet_to_json(sheet, {
+      header: 1,
+      raw: false,
+      defval: '',
+      range
+    });
+    const rows = data.filter(row => row && row.length > 0);
+    const headerIndex = detectHeaderRow(rows);
+    
+    return {
+      name,
+      rows: rows.length,
+      columns: range.e.c + 1,
+      header_row: headerIndex === -1 ? null : headerIndex + 1,
+      headers: headerIndex === -1 ? [] : rows[headerIndex].map(cell => String(cell))
+    };
   });
+}
+
+/**
+ * Convert XLSX file to CSV format, optionally extracting a specific sheet
+ * 
+ * @param xlsx Path to the XLSX file, or the workbook read with readXLSXWorkbook
+ * @param sheetName Name of the sheet to extract (optional)
+ * @param options Merged cell, header and range options (optional)
+ * @returns CSV data as string, with one record per sheet row from the first row of the sheet
+ * @throws Error if the sheet is not found
+ */
+export function convertXLSXToCSV(xlsx: string | XLSX.WorkBook, sheetName?: string, options: SheetLayoutOptions = {}): string {
+  // Load the workbook
+  const workbook = loadWorkbook(xlsx, sheetName);
+  
+  // Get the sheet
+  const sheet = getSheet(workbook, sheetName);
   
-  // Process data and build CSV with proper escaping
+  return sheetToCSV(sheet, options);
+}
+
+/**
+ * Convert a sheet of an XLSX file to CSV records, one sheet row at a time
+ * 
+ * The sheet is parsed right away, as SheetJS can't read a sheet in parts, so a missing
+ * sheet throws here; only the CSV records are produced as they are read. Joined, they are
+ * the output of convertXLSXToCSV, without building the whole CSV as one string.
+ * 
+ * @param xlsx Path to the XLSX file, or the workbook read with readXLSXWorkbook
+ * @param sheetName Name of the sheet to extract (optional)
+ * @param options Merged cell, header and range options (optional)
+ * @returns Generator of CSV records, each ending with a line break
+ * @throws Error if the sheet is not found
+ */
+export function streamXLSXToCSV(xlsx: string | XLSX.WorkBook, sheetName?: string, options: SheetLayoutOptions = {}): Generator<string> {
+  const workbook = loadWorkbook(xlsx, sheetName);
+  return sheetToCSVRecords(getSheet(workbook, sheetName), options);
+}
+
+/**
+ * Convert a worksheet to CSV format
+ * 
+ * @param sheet XLSX worksheet
+ * @param options Merged cell, header and range options
+ * @returns CSV data as string, with one record per sheet row from the first row of the sheet
+ */
+function sheetToCSV(sheet: XLSX.WorkSheet, options: SheetLayoutOptions): string {
   let csvContent = '';
-  for (const row of data) {
+  for (const record of sheetToCSVRecords(sheet, options)) {
+    csvContent += record;
+  }
+  return csvContent;
+}
+
+/**
+ * Convert a worksheet to CSV records, one sheet row at a time
+ * 
+ * Only the leading rows that merged cells and headers can change are held until the
+ * layout is applied to them; every later row is converted and passed on by itself.
+ * 
+ * @param sheet XLSX worksheet
+ * @param options Merged cell, header and range options
+ * @returns Generator of CSV records, each ending with a line break, with one record per
+ *   sheet row from the first row of the sheet
+ */
+function* sheetToCSVRecords(sheet: XLSX.WorkSheet, options: SheetLayoutOptions): Generator<string> {
+  const merges = getMergedRanges(sheet, options.range);
+  let leadingRows: CellValue[][] | null = coversSheetLayout([], merges, options) ? null : [];
+  
+  for (const row of readSheetRows(sheet, options.range)) {
+    if (leadingRows === null) {
+      yield* toCSVRecords([row]);
+      continue;
+    }
+    leadingRows.push(row);
+    if (coversSheetLayout(leadingRows, merges, options)) {
+      // Fill merged cells and flatten multi-row headers as requested
+      yield* toCSVRecords(applySheetLayout(leadingRows, merges, options));
+      leadingRows = null;
+    }
+  }
+  
+  if (leadingRows !== null) {
+    yield* toCSVRecords(applySheetLayout(leadingRows, merges, options));
+  }
+}
+
+/**
+ * Read the rows of a worksheet as formatted text, a chunk of rows at a time
+ * 
+ * @param sheet XLSX worksheet
+ * @param range Cells to read (default: every populated cell starting at A1)
+ * @returns Generator of sheet rows, from the first row of the sheet, with the columns of the range
+ */
+function* readSheetRows(sheet: XLSX.WorkSheet, range?: CellRange): Generator<CellValue[]> {
+  // Create a custom range that includes all cells, unless a range was requested
+  const customRange = getSheetRange(sheet, range);
+  
+  // Blank rows above the range keep each row at its position in the sheet
+  const width = customRange.e.c - customRange.s.c + 1;
+  for (let r = 0; r < customRange.s.r; r++) {
+    yield new Array(width).fill('');
+  }
+  
+  let start = customRange.s.r;
+  do {
+    const end = Math.min(start + CSV_CHUNK_ROWS - 1, customRange.e.r);
+    
+    // Convert to JSON using our custom range to include all columns
+    const rows: CellValue[][] = XLSX.utils.sheet_to_json(sheet, {
+      header: 1,
+      raw: false,
+      defval: '', // Ensure empty cells are included
+      range: { s: { c: customRange.s.c, r: start }, e: { c: customRange.e.c, r: end } }
+    });
+    yield* rows;
+    start = end + 1;
+  } while (start <= customRange.e.r);
+}
+
+/**
+ * Format sheet rows as CSV records with proper escaping
+ * 
+ * @param rows Sheet rows
+ * @returns Generator of CSV records, each ending with a line break; empty rows are skipped
+ */
+function* toCSVRecords(rows: CellValue[][]): Generator<string> {
+  for (const row of rows) {
     if (!row || row.length === 0) continue; // Skip empty rows
     
-    csvContent += row.map((cell: any) => {
+    yield row.map((cell: any) => {
       // Handle null or undefined cells
       const cellValue = cell === null || cell === undefined ? '' : String(cell);
       
@@ -326,6 +1056,242 @@ export function convertXLSXToCSV(xlsxPath: string, sheetName?: string): string {
       return cellValue;
     }).join(',') + '\n';
   }
+}
+
+/**
+ * Read a sheet of an XLSX file as rows of typed cell values
+ * 
+ * Numbers and booleans keep their native types, date and time cells become ISO 8601
+ * strings (a date, a time, or a date and time), and empty cells become null. Dates are
+ * decoded from the cell's serial number, so the result doesn't depend on the time zone.
+ * 
+ * @param xlsx Path to the XLSX file, or the workbook read with readXLSXWorkbook
+ * @param sheetName Name of the sheet to extract (optional)
+ * @param options Merged cell, header and range options (optional)
+ * @returns Sheet rows, from the first row of the sheet, with the columns of the range
+ * @throws Error if the sheet is not found
+ */
+export function convertXLSXToTypedRows(xlsx: string | XLSX.WorkBook, sheetName?: string, options: SheetLayoutOptions = {}): CellValue[][] {
+  logger.info(`Reading typed cells from XLSX workbook`);
+  
+  const workbook = loadWorkbook(xlsx, sheetName);
+  return sheetToTypedRows(getSheet(workbook, sheetName), options);
+}
+
+/**
+ * Read a worksheet as rows of typed cell values
+ * 
+ * @param sheet XLSX worksheet, read with number formats
+ * @param options Merged cell, header and range options
+ * @returns Sheet rows, from the first row of the sheet, with the columns of the range
+ */
+function sheetToTypedRows(sheet: XLSX.WorkSheet, options: SheetLayoutOptions): CellValue[][] {
+  const range = getSheetRange(sheet, options.range);
+  
+  const rows: CellValue[][] = [];
+  for (let r = 0; r <= range.e.r; r++) {
+    const row: CellValue[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      // Rows above the range stay blank so that rows keep their positions
+      row.push(r < range.s.r ? null : getTypedCellValue(getCell(sheet, r, c)));
+    }
+    rows.push(row);
+  }
   
-  return csvContent;
+  return applySheetLayout(rows, getMergedRanges(sheet, options.range), options);
+}
+
+/**
+ * Convert several sheets of an XLSX file to CSV, reading the workbook once
+ * 
+ * @param xlsxPath Path to the XLSX file
+ * @param sheetNames Names of the sheets to convert, or '*' for every sheet
+ * @param options Merged cell and header options, and whether to also read typed cell values
+ * @returns Converted sheets in the requested order (workbook order for '*'), each named as
+ *   in the workbook and listed once
+ * @throws Error if a sheet is not found
+ */
+export function convertXLSXToSheets(
+  xlsxPath: string,
+  sheetNames: string[] | '*',
+  options: { layout?: SheetLayoutOptions; typed?: boolean } = {}
+): Array<{ name: string; csv: string; rows: CellValue[][] | null }> {
+  logger.info(`Reading sheets from XLSX file ${xlsxPath}`, { sheets: sheetNames });
+  
+  // cellNF keeps number formats, which tell date cells apart from plain numbers
+  const workbook = XLSX.readFile(xlsxPath, { cellNF: true });
+  const names = sheetNames === '*'
+    ? workbook.SheetNames
+    : [...new Set(sheetNames.map(name => resolveSheetName(workbook, name)))];
+  
+  return names.map(name => {
+    const sheet = workbook.Sheets[name];
+    return {
+      name,
+      csv: sheetToCSV(sheet, options.layout ?? {}),
+      rows: options.typed ? sheetToTypedRows(sheet, options.layout ?? {}) : null
+    };
+  });
+}
+
+/**
+ * Get the merged ranges of a sheet
+ * 
+ * @param sheet XLSX worksheet
+ * @param range Range being read (optional)
+ * @returns Merged ranges with zero-based indexes; with a range, only those starting inside
+ *   it, clipped to it, with column indexes relative to its first column
+ */
+function getMergedRanges(sheet: XLSX.WorkSheet, range?: CellRange): CellRange[] {
+  const merges = (sheet['!merges'] ?? []).map(merge => ({
+    startRow: merge.s.r,
+    startColumn: merge.s.c,
+    endRow: merge.e.r,
+    endColumn: merge.e.c
+  }));
+  if (!range) {
+    return merges;
+  }
+  return merges
+    .filter(merge => merge.startRow >= range.startRow && merge.startRow <= range.endRow &&
+      merge.startColumn >= range.startColumn && merge.startColumn <= range.endColumn)
+    .map(merge => ({
+      startRow: merge.startRow,
+      startColumn: merge.startColumn - range.startColumn,
+      endRow: Math.min(merge.endRow, range.endRow),
+      endColumn: Math.min(merge.endColumn, range.endColumn) - range.startColumn
+    }));
+}
+
+/**
+ * Read the formula cells of a sheet of an XLSX file
+ * 
+ * @param xlsx Path to the XLSX file, or the workbook read with readXLSXWorkbook
+ * @param sheetName Name of the sheet to extract (optional)
+ * @param range Cells to read (default: every populated cell)
+ * @returns Formula cells in row order, with the values computed when the file was exported
+ * @throws Error if the sheet is not found
+ */
+export function convertXLSXToFormulas(xlsx: string | XLSX.WorkBook, sheetName?: string, range?: CellRange): FormulaCell[] {
+  logger.info(`Reading formulas from XLSX workbook`);
+  
+  const workbook = loadWorkbook(xlsx, sheetName);
+  const sheet = getSheet(workbook, sheetName);
+  const sheetRange = getSheetRange(sheet, range);
+  
+  const formulas: FormulaCell[] = [];
+  for (let r = sheetRange.s.r; r <= sheetRange.e.r; r++) {
+    for (let c = sheetRange.s.c; c <= sheetRange.e.c; c++) {
+      const address = `${columnIndexToLetter(c)}${r + 1}`;
+      const cell = getCell(sheet, r, c);
+      if (cell?.f) {
+        formulas.push({
+          cell: address,
+          formula: `=${cell.f}`,
+          value: cell.w ?? (cell.v === undefined || cell.v === null ? '' : String(cell.v))
+        });
+      }
+    }
+  }
+  
+  logger.info(`Found ${formulas.length} formula cells`);
+  return formulas;
+}
+
+/**
+ * Read the formatting and comments of the cells of a sheet of an XLSX file
+ * 
+ * The XLSX export carries hyperlinks, number formats and comments; fonts and colors
+ * aren't read, so they come from the thread HTML instead.
+ * 
+ * @param xlsx Path to the XLSX file, or the workbook read with readXLSXWorkbook
+ * @param sheetName Name of the sheet to extract (optional)
+ * @param range Cells to read (default: every populated cell)
+ * @returns Formatted cells in row order
+ * @throws Error if the sheet is not found
+ */
+export function convertXLSXToFormatting(xlsx: string | XLSX.WorkBook, sheetName?: string, range?: CellRange): CellFormatting[] {
+  logger.info(`Reading cell formatting from XLSX workbook`);
+  
+  const workbook = loadWorkbook(xlsx, sheetName);
+  const sheet = getSheet(workbook, sheetName);
+  const sheetRange = getSheetRange(sheet, range);
+  
+  const cells: CellFormatting[] = [];
+  for (let r = sheetRange.s.r; r <= sheetRange.e.r; r++) {
+    for (let c = sheetRange.s.c; c <= sheetRange.e.c; c++) {
+      const address = `${columnIndexToLetter(c)}${r + 1}`;
+      const cell = getCell(sheet, r, c);
+      if (!cell) {
+        continue;
+      }
+      
+      const formatting: CellFormatting = { cell: address };
+      if (cell.l?.Target) {
+        formatting.hyperlink = cell.l.Target;
+      }
+      if (typeof cell.z === 'string' && cell.z !== 'General') {
+        formatting.number_format = cell.z;
+      }
+      const comments = (cell.c ?? [])
+        .filter(comment => comment.t)
+        .map(comment => (comment.a ? { author: comment.a, text: comment.t } : { text: comment.t }));
+      if (comments.length > 0) {
+        formatting.comments = comments;
+      }
+      
+      if (Object.keys(formatting).length > 1) {
+        cells.push(formatting);
+      }
+    }
+  }
+  
+  return cells;
+}
+
+/**
+ * Get the typed value of an XLSX cell
+ * 
+ * @param cell XLSX cell, or undefined for an empty cell
+ * @returns Cell value
+ */
+function getTypedCellValue(cell: XLSX.CellObject | undefined): CellValue {
+  if (!cell || cell.v === undefined || cell.v === null) {
+    return null;
+  }
+  
+  switch (cell.t) {
+    case 'b':
+      return Boolean(cell.v);
+    case 'n':
+      if (cell.z !== undefined && XLSX.SSF.is_date(String(cell.z))) {
+        return formatExcelDate(Number(cell.v));
+      }
+      return Number(cell.v);
+    case 'd':
+      return cell.v instanceof Date ? cell.v.toISOString() : String(cell.v);
+    case 'e':
+      // Error cells such as #DIV/0! keep their displayed text
+      return cell.w ?? null;
+    default:
+      return String(cell.v);
+  }
+}
+
+/**
+ * Format an Excel date serial number as an ISO 8601 string
+ * 
+ * @param serial Excel date serial number
+ * @returns Time for serials below 1, date for whole numbers, date and time otherwise
+ */
+function formatExcelDate(serial: number): string {
+  const parts = XLSX.SSF.parse_date_code(serial);
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  const date = `${pad(parts.y, 4)}-${pad(parts.m)}-${pad(parts.d)}`;
+  const time = `${pad(parts.H)}:${pad(parts.M)}:${pad(parts.S)}`;
+  
+  if (serial < 1) {
+    return time;
+  }
+  return Number.isInteger(serial) ? date : `${date}T${time}`;
 }
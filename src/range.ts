@@ -0,0 +1,85 @@
+/**
+ * A1 notation helpers for spreadsheet cell ranges
+ */
+import { CellRange } from './types';
+
+/**
+ * Convert a column name such as "A" or "AB" to a zero-based column index
+ * 
+ * @param letters Column letters (case-insensitive)
+ * @returns Zero-based column index
+ */
+export function columnLetterToIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Convert a zero-based column index to a column name such as "A" or "AB"
+ * 
+ * @param index Zero-based column index
+ * @returns Column letters
+ */
+export function columnIndexToLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Parse a cell or range in A1 notation, e.g. "B2" or "B2:D10"
+ * 
+ * Absolute references ("$B$2") are accepted and the corners may be given in any order.
+ * 
+ * @param range Range in A1 notation
+ * @returns Parsed range with zero-based indexes
+ * @throws Error if the range is not valid A1 notation
+ */
+export function parseA1Range(range: string): CellRange {
+  const match = range.trim().match(/^\$?([A-Za-z]{1,3})\$?(\d+)(?::\$?([A-Za-z]{1,3})\$?(\d+))?$/);
+  if (!match || parseInt(match[2], 10) < 1 || (match[4] !== undefined && parseInt(match[4], 10) < 1)) {
+    throw new Error(`Invalid A1 range: '${range}'`);
+  }
+  
+  const startColumn = columnLetterToIndex(match[1]);
+  const startRow = parseInt(match[2], 10) - 1;
+  const endColumn = match[3] ? columnLetterToIndex(match[3]) : startColumn;
+  const endRow = match[4] ? parseInt(match[4], 10) - 1 : startRow;
+  
+  return {
+    startRow: Math.min(startRow, endRow),
+    startColumn: Math.min(startColumn, endColumn),
+    endRow: Math.max(startRow, endRow),
+    endColumn: Math.max(startColumn, endColumn)
+  };
+}
+
+/**
+ * Format a range in A1 notation, using a single cell reference for one-cell ranges
+ * 
+ * @param range Range with zero-based indexes
+ * @returns Range in A1 notation
+ */
+export function formatA1Range(range: CellRange): string {
+  const start = `${columnIndexToLetter(range.startColumn)}${range.startRow + 1}`;
+  const end = `${columnIndexToLetter(range.endColumn)}${range.endRow + 1}`;
+  return start === end ? start : `${start}:${end}`;
+}
+
+/**
+ * Check whether a cell lies inside a range
+ * 
+ * @param cell Cell address in A1 notation
+ * @param range Range with zero-based indexes
+ * @returns True if the cell is inside the range
+ */
+export function isCellInRange(cell: string, range: CellRange): boolean {
+  const { startRow, startColumn } = parseA1Range(cell);
+  return startRow >= range.startRow && startRow <= range.endRow &&
+    startColumn >= range.startColumn && startColumn <= range.endColumn;
+}
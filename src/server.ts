@@ -16,7 +16,9 @@ import {
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
   CallToolRequestSchema,
-  ListResourceTemplatesRequestSchema
+  ListResourceTemplatesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 
 // Import types from our local definitions
@@ -25,11 +27,22 @@ import {
   ImageContent,
   EmbeddedResource,
   getQuipTools, 
-  handleQuipReadSpreadsheet
+  createQuipClient,
+  handleQuipReadSpreadsheet,
+  handleQuipListSheets,
+  handleQuipSearchThreads,
+  handleQuipReadDocument,
+  handleQuipUpdateCells,
+  handleQuipAppendRows,
+  handleQuipQuerySheet,
+  handleQuipDescribeSheet,
+  handleQuipSql,
+  handleQuipDiffSheet
 } from './tools';
 
 // Import error handling
 import {
+  InvalidParamsError,
   QuipMCPError,
   ResourceNotFoundError} from './errors';
 
@@ -37,10 +50,14 @@ import {
 import { logger } from './logger';
 
 // Import types and utilities
-import { StorageInterface } from './types';
-import { parseCommandLineArgs, configureLogging, getStoragePath, getStorageConfig } from './cli';
+import { OutputFormat, StorageInterface } from './types';
+import { FORMAT_MIME_TYPES, OUTPUT_FORMATS, loadTypedSheet, renderRows } from './formats';
+import { parseCommandLineArgs, configureLogging, getStoragePath, getStorageConfig, getPollInterval } from './cli';
 import { version } from './version';
 import { createStorage } from './storage';
+import { workbookCache } from './cache';
+import { SubscriptionPoller } from './subscriptions';
+import { loadSpreadsheet } from './sheets';
 
 /**
  * Format response data as SSE (Server-Sent Events) payload
@@ -127,6 +144,11 @@ interface Resource {
   mime_type?: string;
 }
 
+interface ResourcePage {
+  resources: Resource[];
+  nextCursor?: string;
+}
+
 interface ResourceTemplate {
   uriTemplate: string;
   name: string;
@@ -201,112 +223,115 @@ function generateResourceTemplates(): ResourceTemplate[] {
 
 
 /**
- * Discover available resources by scanning the storage
+ * Discover available resources by listing the storage
  *
+ * @param storage Storage interface to list
  * @param isFileProtocol Whether to use file protocol for resource URIs
- * @returns Promise resolving to list of available resources
+ * @param cursor Cursor from the previous resources/list response (optional)
+ * @returns Promise resolving to one page of available resources and the cursor of the next page
  */
-async function discoverResources(isFileProtocol: boolean): Promise<Resource[]> {
-  logger.info("Discovering resources");
+export async function discoverResources(storage: StorageInterface, isFileProtocol: boolean, cursor?: string): Promise<ResourcePage> {
+  logger.info("Discovering resources", { cursor });
   
-  if (!storageInstance) {
-    logger.error("Storage not initialized");
-    return [];
-  }
+  const page = await storage.listEntries(cursor);
+  const resources = page.entries.map(entry => {
+    // File paths are only shared through file:// URIs
+    const filePath = isFileProtocol ? entry.filePath : undefined;
+    return entry.type === 'document'
+      ? createDocumentResource(storage, entry.threadId, entry.size, filePath)
+      : createSpreadsheetResource(storage, entry.threadId, entry.sheetName, entry.metadata, filePath);
+  });
   
-  const resources: Resource[] = [];
-  
-  // Check the actual storage type, not just property presence
-  const storageType = process.env.STORAGE_TYPE || 'local';
+  logger.info(`Discovered ${resources.length} resources`, { hasMore: page.nextCursor !== undefined });
+  return { resources, nextCursor: page.nextCursor };
+}
+
+/**
+ * Create the resource entry of a stored sheet
+ *
+ * @param storage Storage interface the sheet is stored in
+ * @param threadId Quip document thread ID
+ * @param sheetName Sheet name (optional)
+ * @param metadata Metadata of the sheet
+ * @param filePath Path of the CSV file, to use a file:// URI (optional)
+ * @returns Resource entry
+ */
+function createSpreadsheetResource(
+  storage: StorageInterface,
+  threadId: string,
+  sheetName: string | undefined,
+  metadata: Record<string, any>,
+  filePath?: string
+): Resource {
+  let resourceName = `Quip Thread(Spreadsheet): ${threadId}`;
+  if (sheetName) {
+    resourceName += ` (Sheet: ${sheetName})`;
+  }
+  if (filePath) {
+    resourceName += ` You can access the file at: ${filePath}`;
+  }
   
-  if (storageType === 'local') {
-    logger.info("Local storage detected, scanning for resources");
-    // Local storage - scan directory for CSV files
-    const storagePath = (storageInstance as any).storagePath;
-    
-    try {
-      // Scan storage directory for CSV files
-      const files = await fs.readdir(storagePath);
-      
-      for (const filename of files) {
-        if (filename.endsWith(".csv") && !filename.endsWith(".meta")) {
-          // Parse filename to get thread_id and sheet_name
-          const filePath = path.join(storagePath, filename);
-          
-          // Extract thread_id and sheet_name from filename
-          let threadId: string;
-          let sheetName: string | undefined;
-          
-          if (filename.includes("-")) {
-            // Format: {thread_id}-{sheet_name}.csv
-            threadId = filename.split("-")[0];
-            sheetName = filename.split("-").slice(1).join("-").replace(".csv", "");
-          } else {
-            // Format: {thread_id}.csv
-            threadId = filename.replace(".csv", "");
-            sheetName = undefined;
-          }
-          
-          // Get metadata
-          const metadata = await storageInstance.getMetadata(threadId, sheetName);
-          
-          // Create resource URI
-          let resourceUri: string;
-          if (isFileProtocol) {
-            resourceUri = `file://${filePath}`;
-          } else {
-            // Use resource template to create resource URI
-            resourceUri = storageInstance.getResourceURI(threadId, sheetName);
-          }
-          
-          // Create resource name
-          let resourceName = `Quip Thread(Spreadsheet): ${threadId}`;
-          if (sheetName) {
-            resourceName += ` (Sheet: ${sheetName})`;
-          }
-          if (isFileProtocol) {
-            resourceName += ` You can access the file at: ${filePath}`;
-          }
-          
-          // Create resource description
-          const description = `CSV data from Quip spreadsheet. ${metadata.total_rows || 0} rows, ${metadata.total_size || 0} bytes.`;
-          
-          // Create resource
-          const resource: Resource = {
-            uri: resourceUri,
-            name: resourceName,
-            description: description,
-            mime_type: "text/csv"
-          };
-          
-          resources.push(resource);
-          logger.info(`Discovered resource: ${resourceUri}`);
-        }
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Error discovering resources`, { error: errorMessage });
-    }
-  } else if (storageType === 's3') {
-    // S3 storage - we can't easily list objects, so we'll just log a message
-    logger.info("S3 storage detected - resource discovery not supported for S3 storage");
-    logger.info("Resources will be accessible via s3:// or https:// URIs when accessed directly");
-    return []; // Return empty array for S3 to prevent any accidental local resource discovery
-  } else {
-    logger.warn("Unknown storage type, cannot discover resources");
+  return {
+    // Use resource template to create resource URI unless the file is shared directly
+    uri: filePath ? `file://${filePath}` : storage.getResourceURI(threadId, sheetName),
+    name: resourceName,
+    description: `CSV data from Quip spreadsheet. ${metadata.total_rows || 0} rows, ${metadata.total_size || 0} bytes.`,
+    mime_type: "text/csv"
+  };
+}
+
+/**
+ * Create the resource entry of a stored document
+ *
+ * @param storage Storage interface the document is stored in
+ * @param threadId Quip document thread ID
+ * @param size Size of the Markdown content in bytes
+ * @param filePath Path of the Markdown file, to name it in the resource (optional)
+ * @returns Resource entry
+ */
+function createDocumentResource(storage: StorageInterface, threadId: string, size: number, filePath?: string): Resource {
+  let resourceName = `Quip Thread(Document): ${threadId}`;
+  if (filePath) {
+    resourceName += ` You can access the file at: ${filePath}`;
   }
   
-  logger.info(`Discovered ${resources.length} resources`);
-  return resources;
+  return {
+    uri: storage.getDocumentResourceURI(threadId),
+    name: resourceName,
+    description: `Markdown content from Quip document. ${size} bytes.`,
+    mime_type: "text/markdown"
+  };
+}
+
+/**
+ * Tell the clients of a server to list resources again whenever a new sheet is stored
+ *
+ * @param server MCP server whose clients are notified
+ * @param storage Storage interface the sheets are stored in
+ */
+export function notifyResourceListChanges(server: Server, storage: StorageInterface): void {
+  storage.onEntryAdded((threadId, sheetName) => {
+    logger.info(`Sending resource list change for thread ${threadId}`, { sheetName: sheetName || 'default' });
+    server.sendResourceListChanged().catch(error => {
+      // Disconnected clients can't receive notifications
+      logger.debug(`Could not send resource list change: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  });
 }
 
 /**
  * Handle resource access requests
  *
+ * A quip:// sheet resource that isn't stored yet is exported from Quip and stored first, the
+ * same way quip_read_spreadsheet reads it with default options.
+ *
+ * @param storage Storage interface the resources are stored in
  * @param uri Resource URI
+ * @param useMock Whether to export sheets with the mock Quip client
  * @returns Promise resolving to sequence of content objects
+ * @throws QuipApiError if a sheet that isn't stored cannot be exported
  */
-async function accessResource(uri: string): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+export async function accessResource(storage: StorageInterface, uri: string, useMock: boolean): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
   logger.info(`Handling resource access: ${uri}`);
   
   // Parse the URI
@@ -317,45 +342,85 @@ async function accessResource(uri: string): Promise<(TextContent | ImageContent
     throw new ResourceNotFoundError(uri);
   }
   
-  // Extract thread_id and sheet_name
+  // Extract thread_id and sheet_name, and whether the URI points at a Markdown document
   let threadId: string;
   let sheetName: string | undefined;
+  let isDocument = false;
   
-  if (parsedUri.protocol === 'file:') {
-    const filename = path.basename(parsedUri.pathname).replace(".csv", "").split("-");
-    threadId = filename[0];
-    sheetName = filename.length > 1 ? filename.slice(1).join("-") : undefined;
-  } else if (parsedUri.protocol === 's3:') {
-    // Extract from S3 URI format: s3://{bucket}/{prefix}{threadId}-{sheetName}.csv
-    // or s3+https://{bucket}/{prefix}{threadId}-{sheetName}.csv
-    // The path will be /{bucket}/{prefix}{threadId}-{sheetName}.csv
-    // We need to extract the threadId and sheetName from the key
-    const pathParts = parsedUri.pathname.split('/');
-    // The last part is the filename: {threadId}-{sheetName}.csv
-    const filename = pathParts[pathParts.length - 1].replace(".csv", "").split("-");
-    threadId = filename[0];
-    sheetName = filename.length > 1 ? filename.slice(1).join("-") : undefined;
+  if (parsedUri.protocol === 'file:' || parsedUri.protocol === 's3:') {
+    // file://{storage_path}/{filename} or s3://{bucket}/{prefix}{filename}, where sheets are
+    // stored as {threadId}-{sheetName}.csv and documents as {threadId}.md
+    const basename = decodeURIComponent(path.posix.basename(parsedUri.pathname));
+    isDocument = basename.endsWith(".md");
+    if (isDocument) {
+      threadId = basename.slice(0, -".md".length);
+    } else {
+      // Sheet names may contain hyphens, so the metadata names the sheet rather than the file name
+      ({ threadId, sheetName } = await storage.resolveEntryName(basename));
+    }
   } else {
-    // quip:// protocol
+    // quip:// protocol, quip://{threadId}/document for documents
     threadId = parsedUri.hostname;
+    isDocument = parsedUri.pathname === '/document';
     const searchParams = new URLSearchParams(parsedUri.search);
     sheetName = searchParams.get('sheet') || undefined;
   }
   
-  logger.info(`Accessing resource for thread_id: ${threadId}, sheet_name: ${sheetName || 'default'}`);
+  // Get the content from storage
+  if (isDocument) {
+    logger.info(`Accessing document resource for thread_id: ${threadId}`);
+    
+    const markdown = await storage.getDocument(threadId);
+    if (!markdown) {
+      logger.error(`Resource not found: ${uri}`);
+      throw new ResourceNotFoundError(uri);
+    }
+    
+    return [{
+      type: "text",
+      text: markdown,
+      uri: uri
+    }];
+  }
   
-  // Get the CSV content from storage
-  if (!storageInstance) {
-    logger.error("Storage not initialized");
-    throw new ResourceNotFoundError(uri);
+  // Spreadsheet resources can be read in another format with a format query parameter
+  const format = (parsedUri.searchParams.get('format') || 'csv') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    logger.error(`Unsupported resource format: ${format}`);
+    throw new InvalidParamsError(`Unsupported format '${format}'. Supported formats: ${OUTPUT_FORMATS.join(', ')}`);
   }
   
-  const csvContent = await storageInstance.getCSV(threadId, sheetName);
+  logger.info(`Accessing resource for thread_id: ${threadId}, sheet_name: ${sheetName || 'default'}`, { format });
+  
+  let csvContent = await storage.getCSV(threadId, sheetName);
+  if (csvContent === null && parsedUri.protocol === 'quip:') {
+    logger.info(`Resource ${uri} is not stored yet; exporting it from Quip`);
+    const loaded = await loadSpreadsheet(createQuipClient(useMock), storage, threadId, sheetName, {
+      typed: format !== 'csv',
+      formulas: false,
+      formatting: false,
+      layout: {},
+      selection: null,
+      forceRefresh: false
+    });
+    // Only the preview of a streamed sheet is returned, so read the whole sheet back
+    csvContent = loaded.streamed ? await storage.getCSV(threadId, sheetName) : loaded.csv;
+  }
   if (!csvContent) {
     logger.error(`Resource not found: ${uri}`);
     throw new ResourceNotFoundError(uri);
   }
   
+  if (format !== 'csv') {
+    const typedSheet = await loadTypedSheet(storage, threadId, sheetName, csvContent);
+    return [{
+      type: "text",
+      text: renderRows(typedSheet.headers, typedSheet.rows, format),
+      uri: uri,
+      mimeType: FORMAT_MIME_TYPES[format]
+    }];
+  }
+  
   // Return the full CSV content with URI as required by MCP schema
   return [{ 
     type: "text", 
@@ -364,6 +429,112 @@ async function accessResource(uri: string): Promise<(TextContent | ImageContent
   }];
 }
 
+/**
+ * Options for the resource handlers of a server
+ */
+export interface ResourceHandlerOptions {
+  /**
+   * Whether to use file protocol for resource URIs
+   */
+  fileProtocol: boolean;
+
+  /**
+   * Whether to export sheets with the mock Quip client
+   */
+  useMock: boolean;
+
+  /**
+   * Seconds between checks of subscribed sheets for changes in Quip
+   */
+  pollInterval: number;
+
+  /**
+   * Whether the transport keeps a connection clients can be notified on
+   */
+  notifications: boolean;
+}
+
+/**
+ * Register the resource capabilities and request handlers of a server
+ *
+ * Resource list changes and subscriptions are only offered if clients can be notified. Each
+ * stateless HTTP request gets its own transport, so a notification would never reach the
+ * client, and subscribing would only leave sheets to be polled for nobody.
+ *
+ * @param server MCP server, not yet connected
+ * @param storage Storage interface the resources are stored in
+ * @param options URI, Quip client, polling and notification options
+ */
+export function registerResourceHandlers(server: Server, storage: StorageInterface, options: ResourceHandlerOptions): void {
+  server.registerCapabilities({
+    resources: {
+      templates: true,  // Indicate that this server supports resource templates
+      listChanged: options.notifications,  // Clients are notified when a new sheet is stored
+      subscribe: options.notifications  // Subscribed sheets are polled and clients are notified when they change
+    }
+  });
+  
+  // Register resources list handler, which lists the storage on every request so
+  // sheets stored during the session are included
+  logger.info("Registering resources list handler");
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    logger.info("Handling resources/list request");
+    const page = await discoverResources(storage, options.fileProtocol, request.params?.cursor);
+    return { resources: page.resources, nextCursor: page.nextCursor };
+  });
+  
+  // Register resource read handler
+  logger.info("Registering resource read handler");
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    logger.info(`Handling resources/read request for URI: ${request.params.uri}`);
+    return {
+      contents: await accessResource(storage, request.params.uri, options.useMock)
+    };
+  });
+  
+  // Register resource templates list handler
+  logger.info("Registering resource templates list handler");
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    logger.info("Handling resources/list_templates request");
+    const resourceTemplates = generateResourceTemplates();
+    return { resourceTemplates };
+  });
+  
+  if (!options.notifications) {
+    // resources/subscribe is answered with method not found
+    logger.info("Resource notifications are not available over stateless HTTP; not registering subscription handlers");
+    return;
+  }
+  
+  notifyResourceListChanges(server, storage);
+  
+  // Export subscribed sheets again when they change in Quip, and tell the subscribers
+  const subscriptionPoller = new SubscriptionPoller(storage, {
+    pollInterval: options.pollInterval,
+    useMock: options.useMock,
+    onUpdated: async (uri) => {
+      logger.info(`Sending resource update for ${uri}`);
+      await server.sendResourceUpdated({ uri }).catch(error => {
+        // Disconnected clients can't receive notifications
+        logger.debug(`Could not send resource update: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  });
+  
+  // Register resource subscription handlers
+  logger.info("Registering resource subscription handlers");
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    logger.info(`Handling resources/subscribe request for URI: ${request.params.uri}`);
+    await subscriptionPoller.subscribe(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    logger.info(`Handling resources/unsubscribe request for URI: ${request.params.uri}`);
+    subscriptionPoller.unsubscribe(request.params.uri);
+    return {};
+  });
+}
+
 /**
  * Main entry point for the Quip MCP server
  */
@@ -400,7 +571,9 @@ export async function main(): Promise<void> {
       s3Bucket: storageConfig.s3Bucket,
       s3Region: storageConfig.s3Region,
       s3Prefix: storageConfig.s3Prefix,
-      s3UrlExpiration: storageConfig.s3UrlExpiration
+      s3UrlExpiration: storageConfig.s3UrlExpiration,
+      snapshotRetention: storageConfig.snapshotRetention,
+      compression: storageConfig.compression
     };
     
     // No matter what, create the storage path directory because some functions might assume it exists
@@ -411,6 +584,8 @@ export async function main(): Promise<void> {
       } else {
         // For local storage, ensure the directory exists
         fs.mkdirpSync(storagePath);
+        // Exported workbooks that don't fit in memory spill next to the stored sheets
+        workbookCache.setSpillDirectory(path.join(storagePath, '.workbooks'));
       }
     } catch (error) {
       logger.warn(`Could not ensure storage path exists: ${error instanceof Error ? error.message : String(error)}`);
@@ -428,10 +603,7 @@ export async function main(): Promise<void> {
     // Register capabilities
     logger.info("Registering capabilities");
     server.registerCapabilities({
-      tools: {},
-      resources: {
-        templates: true  // Indicate that this server supports resource templates
-      }
+      tools: {}
     });
     
     // Register tools
@@ -456,6 +628,72 @@ export async function main(): Promise<void> {
               options.mock
             )
           };
+        } else if (request.params.name === "quip_list_sheets") {
+          return {
+            content: await handleQuipListSheets(
+              request.params.arguments || {},
+              options.mock
+            )
+          };
+        } else if (request.params.name === "quip_search_threads") {
+          return {
+            content: await handleQuipSearchThreads(
+              request.params.arguments || {},
+              options.mock
+            )
+          };
+        } else if (request.params.name === "quip_read_document") {
+          return {
+            content: await handleQuipReadDocument(
+              request.params.arguments || {},
+              storageInstance!,
+              options.mock
+            )
+          };
+        } else if (request.params.name === "quip_update_cells") {
+          return {
+            content: await handleQuipUpdateCells(
+              request.params.arguments || {},
+              storageInstance!,
+              options.mock
+            )
+          };
+        } else if (request.params.name === "quip_append_rows") {
+          return {
+            content: await handleQuipAppendRows(
+              request.params.arguments || {},
+              storageInstance!,
+              options.mock
+            )
+          };
+        } else if (request.params.name === "quip_query_sheet") {
+          return {
+            content: await handleQuipQuerySheet(
+              request.params.arguments || {},
+              storageInstance!
+            )
+          };
+        } else if (request.params.name === "quip_describe_sheet") {
+          return {
+            content: await handleQuipDescribeSheet(
+              request.params.arguments || {},
+              storageInstance!
+            )
+          };
+        } else if (request.params.name === "quip_sql") {
+          return {
+            content: await handleQuipSql(
+              request.params.arguments || {},
+              storageInstance!
+            )
+          };
+        } else if (request.params.name === "quip_diff_sheet") {
+          return {
+            content: await handleQuipDiffSheet(
+              request.params.arguments || {},
+              storageInstance!
+            )
+          };
         } else {
           logger.error(`Unknown tool: ${request.params.name}`);
           // Return error as content instead of throwing to ensure response is sent
@@ -501,32 +739,13 @@ export async function main(): Promise<void> {
       }
     });
     
-    // Discover resources
-    logger.info("Discovering resources");
-    const resources = await discoverResources(options.fileProtocol);
-    
-    // Register resources list handler
-    logger.info("Registering resources list handler");
-    server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      logger.info("Handling resources/list request");
-      return { resources };
-    });
-    
-    // Register resource read handler
-    logger.info("Registering resource read handler");
-    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      logger.info(`Handling resources/read request for URI: ${request.params.uri}`);
-      return {
-        contents: await accessResource(request.params.uri)
-      };
-    });
-    
-    // Register resource templates list handler
-    logger.info("Registering resource templates list handler");
-    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
-      logger.info("Handling resources/list_templates request");
-      const resourceTemplates = generateResourceTemplates();
-      return { resourceTemplates };
+    // Register resource handlers; HTTP requests are stateless, so there's nothing to notify
+    const useHTTP = Boolean(options.port || process.env.MCP_PORT);
+    registerResourceHandlers(server, storageInstance, {
+      fileProtocol: options.fileProtocol,
+      useMock: options.mock,
+      pollInterval: getPollInterval(options),
+      notifications: !useHTTP
     });
     
     // Choose transport based on options
@@ -538,7 +757,7 @@ export async function main(): Promise<void> {
     logger.info(`Environment MCP_PORT: ${process.env.MCP_PORT}, options.port: ${options.port}`);
     
     // Choose transport based on options
-    if (options.port || process.env.MCP_PORT) {
+    if (useHTTP) {
       // Using Streamable HTTP transport with Express
       const port = options.port || parseInt(process.env.MCP_PORT || '3000', 10);
       logger.info(`Using HTTP transport on port ${port}`);
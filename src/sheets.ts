@@ -0,0 +1,554 @@
+/**
+ * Export of Quip spreadsheets into storage
+ */
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from './logger';
+import { QuipApiError } from './errors';
+import {
+  QuipClient, convertXLSXToCSV, convertXLSXToFormatting, convertXLSXToSheets, convertXLSXToFormulas, convertXLSXToTypedRows, readXLSXWorkbook,
+  resolveXLSXRange, streamXLSXToCSV
+} from './quipClient';
+import { MockQuipClient } from './mockClient';
+import { formatA1Range, isCellInRange } from './range';
+import { CSVStreamSummary, CellFormatting, CellRange, CellValue, FormulaCell, LoadedSheet, SheetLayoutOptions, SheetSelection, StorageInterface, TypedSheet, WorkbookCacheStatus } from './types';
+import { getSnapshotId } from './csv';
+import { mergeCellFormatting } from './formatting';
+import { workbookCache } from './cache';
+import { buildTypedSheet, csvToTypedSheet, loadTypedSheet } from './formats';
+
+/**
+ * Size in bytes from which an exported workbook's sheet is streamed to storage as CSV
+ * records, rather than converted to one CSV string first
+ */
+const STREAMING_WORKBOOK_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Preview size in bytes of a sheet streamed to storage, unless the caller needs a page of it
+ */
+const DEFAULT_PREVIEW_BYTES = 10 * 1024;
+
+/**
+ * Load a sheet, reusing the stored copy while the thread is unchanged and exporting and
+ * storing it otherwise
+ *
+ * The stored copy is reused if it was exported at the thread's present update time with the
+ * same layout and selection, and everything requested was stored with it. An exported sheet
+ * is saved with its update time and read options, together with its typed content, formulas
+ * and formatting if they were requested. Sheets from large workbooks are streamed to storage
+ * when typed content isn't requested, in which case only the preview is returned.
+ *
+ * @param client Quip client
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetName Sheet name (optional)
+ * @param options Whether typed content, formulas and formatting are needed, the merged cell
+ *   and header options, the cells to read, whether to export even if the stored copy is
+ *   current, and the preview size in bytes of a streamed sheet (default: 10KB)
+ * @returns Promise resolving to the loaded sheet
+ * @throws QuipApiError if the thread is not a spreadsheet or the sheet cannot be exported
+ */
+export async function loadSpreadsheet(
+  client: QuipClient | MockQuipClient,
+  storage: StorageInterface,
+  threadId: string,
+  sheetName: string | undefined,
+  options: {
+    typed: boolean;
+    formulas: boolean;
+    formatting: boolean;
+    layout: SheetLayoutOptions;
+    selection: SheetSelection | null;
+    forceRefresh: boolean;
+    previewBytes?: number;
+  }
+): Promise<LoadedSheet> {
+  const updatedUsec = await getThreadUpdatedUsec(client, threadId);
+  // Stored data is only reused if it was read with the same options
+  const readOptions = {
+    fillMerged: options.layout.fillMerged === true,
+    headerRows: options.layout.headerRows ?? null,
+    range: options.selection?.range ?? null,
+    namedRange: options.selection?.namedRange ?? null
+  };
+  const current = options.forceRefresh || updatedUsec === null ? null : await loadCurrentSheet(storage, threadId, sheetName, {
+    updatedUsec,
+    readOptions,
+    typed: options.typed,
+    formulas: options.formulas,
+    formatting: options.formatting
+  });
+  
+  if (current) {
+    logger.info(`Thread ${threadId} is unchanged since it was stored; reusing the stored sheet`, {
+      sheet: sheetName || 'default',
+      updatedUsec
+    });
+    return { ...current, source: 'store', workbookCache: null, streamed: null };
+  }
+  
+  const exported = await exportSpreadsheet(client, threadId, sheetName, {
+    typed: options.typed,
+    formulas: options.formulas,
+    formatting: options.formatting,
+    layout: options.layout,
+    selection: options.selection,
+    updatedUsec,
+    // Typed rows need the whole sheet in memory anyway
+    stream: !options.typed
+  });
+  const range = exported.range;
+  
+  // Save the full CSV content to storage, with what's needed to tell whether it's still current
+  const extraMetadata = {
+    updated_usec: updatedUsec,
+    read_options: readOptions,
+    ...(range !== null && { range })
+  };
+  let streamed: CSVStreamSummary | null = null;
+  let csvData: string;
+  let storageId: string;
+  let snapshot: string;
+  if (exported.records) {
+    // Only the preview of a streamed sheet is kept, which holds the first page
+    streamed = await storage.saveCSVStream(threadId, exported.records, sheetName, extraMetadata, options.previewBytes ?? DEFAULT_PREVIEW_BYTES);
+    storageId = streamed.id;
+    csvData = streamed.preview;
+    snapshot = streamed.snapshot;
+  } else {
+    csvData = exported.csv as string;
+    storageId = await storage.saveCSV(threadId, csvData, sheetName, extraMetadata);
+    snapshot = getSnapshotId(csvData);
+  }
+  logger.info(`Saved spreadsheet data to storage with ID: ${storageId}`, {
+    sheet: sheetName || 'default',
+    streamed: streamed !== null
+  });
+  
+  let typedSheet: TypedSheet | null = null;
+  if (options.typed) {
+    if (exported.rows) {
+      typedSheet = buildTypedSheet(exported.rows, snapshot, true);
+      await storage.saveTypedSheet(threadId, typedSheet, sheetName);
+    } else {
+      // The HTML fallback only yields text, which loadTypedSheet can rebuild from the CSV
+      typedSheet = csvToTypedSheet(csvData);
+    }
+  }
+  if (exported.formulas) {
+    await storage.saveFormulas(threadId, { cells: exported.formulas, snapshot }, sheetName);
+  }
+  if (exported.formatting) {
+    await storage.saveFormatting(threadId, { cells: exported.formatting, snapshot }, sheetName);
+  }
+  
+  return {
+    csv: csvData,
+    typedSheet,
+    formulas: exported.formulas,
+    formatting: exported.formatting,
+    range,
+    source: 'export',
+    workbookCache: exported.workbookCache,
+    streamed
+  };
+}
+
+/**
+ * Export several sheets of a spreadsheet from a single XLSX export and store each of them
+ *
+ * Every sheet is stored under its own sheet name with the thread's update time and read
+ * options, as if it had been loaded on its own. If the XLSX export fails, the named sheets
+ * are exported one at a time through the HTML fallback.
+ *
+ * @param client Quip client
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetNames Names of the sheets to export, or '*' for every sheet
+ * @param options Whether typed content is needed, and the merged cell and header options
+ * @returns Promise resolving to the CSV and typed content of each sheet, in order, and the
+ *   workbook cache result if the XLSX was used
+ * @throws QuipApiError if the thread is not a spreadsheet, both export methods fail, or
+ *   every sheet was requested and the XLSX export fails
+ */
+export async function loadSpreadsheetSheets(
+  client: QuipClient | MockQuipClient,
+  storage: StorageInterface,
+  threadId: string,
+  sheetNames: string[] | '*',
+  options: { typed: boolean; layout: SheetLayoutOptions }
+): Promise<{
+  sheets: Array<{ name: string; csv: string; typedSheet: TypedSheet | null }>;
+  workbookCache: WorkbookCacheStatus | null;
+}> {
+  const { typed, layout } = options;
+  
+  if (!await client.isSpreadsheet(threadId)) {
+    logger.error(`Thread ${threadId} is not a spreadsheet or does not exist`);
+    throw new QuipApiError(`Thread ${threadId} is not a spreadsheet or does not exist`);
+  }
+  
+  let sheets: Array<{ name: string; csv: string; rows: CellValue[][] | null }>;
+  let cacheStatus: WorkbookCacheStatus | null = null;
+  const updatedUsec = await getThreadUpdatedUsec(client, threadId);
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-mcp-'));
+  try {
+    // One XLSX export serves every sheet
+    const xlsxPath = path.join(tempDir, `${threadId}.xlsx`);
+    cacheStatus = await exportWorkbook(client, threadId, xlsxPath, updatedUsec);
+    sheets = convertXLSXToSheets(xlsxPath, sheetNames, { layout, typed });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.warn(`Primary export method failed: ${errorMessage}`);
+    if (cacheStatus === 'hit') {
+      // Don't keep serving a cached workbook that can't be read
+      await workbookCache.delete(threadId);
+    }
+    cacheStatus = null;
+    if (sheetNames === '*') {
+      // The HTML fallback reads one named sheet at a time, so it can't enumerate them
+      throw new QuipApiError(`Failed to export spreadsheet: ${errorMessage}. Pass sheet names instead of '*' to read them through the HTML fallback`);
+    }
+    
+    logger.info("Attempting fallback export method for each sheet");
+    sheets = [];
+    for (const name of sheetNames) {
+      try {
+        sheets.push({ name, csv: await client.exportThreadToCSVFallback(threadId, name), rows: null });
+      } catch (fallbackError) {
+        const fallbackErrorMsg = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
+        logger.error(`Fallback export method also failed for sheet '${name}': ${fallbackErrorMsg}`);
+        throw new QuipApiError(`Failed to export sheet '${name}'. Primary error: ${errorMessage}, Fallback error: ${fallbackErrorMsg}`);
+      }
+    }
+  } finally {
+    await fs.remove(tempDir);
+  }
+  
+  // Sheets are independent, so they're stored concurrently
+  const loaded = await Promise.all(sheets.map(async sheet => {
+    await storage.saveCSV(threadId, sheet.csv, sheet.name, {
+      updated_usec: updatedUsec,
+      read_options: { fillMerged: layout.fillMerged === true, headerRows: layout.headerRows ?? null, range: null, namedRange: null }
+    });
+    let typedSheet: TypedSheet | null = null;
+    if (typed) {
+      if (sheet.rows) {
+        typedSheet = buildTypedSheet(sheet.rows, getSnapshotId(sheet.csv), true);
+        await storage.saveTypedSheet(threadId, typedSheet, sheet.name);
+      } else {
+        // The HTML fallback only yields text, which loadTypedSheet can rebuild from the CSV
+        typedSheet = csvToTypedSheet(sheet.csv);
+      }
+    }
+    return { name: sheet.name, csv: sheet.csv, typedSheet };
+  }));
+  
+  return { sheets: loaded, workbookCache: cacheStatus };
+}
+
+/**
+ * Export a spreadsheet thread as CSV, falling back to HTML parsing if the XLSX export fails
+ *
+ * @param client Quip client
+ * @param threadId Quip document thread ID
+ * @param sheetName Sheet name (optional)
+ * @param options Whether to also read typed cell values, formulas and cell formatting, the
+ *   merged cell and header options for the XLSX conversion, the cells to read, the
+ *   thread's Quip update time for the workbook cache, and whether large workbooks may be
+ *   streamed
+ * @returns Promise resolving to the CSV content of the sheet, or its CSV records if the
+ *   workbook is streamed, its typed rows and formulas if they were requested and the XLSX
+ *   export succeeded, its formatting if requested, the A1 range read if cells were
+ *   selected, and the workbook cache result if the XLSX was used
+ * @throws QuipApiError if the thread is not a spreadsheet, both export methods fail, or cells
+ *   were selected and the XLSX export fails
+ */
+async function exportSpreadsheet(
+  client: QuipClient | MockQuipClient,
+  threadId: string,
+  sheetName: string | undefined,
+  options: {
+    typed: boolean;
+    formulas: boolean;
+    formatting: boolean;
+    layout: SheetLayoutOptions;
+    selection: SheetSelection | null;
+    updatedUsec: number | null;
+    stream: boolean;
+  }
+): Promise<{
+  csv: string | null;
+  records: Iterable<string> | null;
+  rows: CellValue[][] | null;
+  formulas: FormulaCell[] | null;
+  formatting: CellFormatting[] | null;
+  range: string | null;
+  workbookCache: WorkbookCacheStatus | null;
+}> {
+  // Variables to store CSV data, typed rows, formulas, formatting and the selected cells
+  let csvData: string | null = null;
+  let csvRecords: Iterable<string> | null = null;
+  let cacheStatus: WorkbookCacheStatus | null = null;
+  let sheet = sheetName;
+  let selectedRange: CellRange | undefined;
+  let rows: CellValue[][] | null = null;
+  let formulas: FormulaCell[] | null = null;
+  let xlsxFormatting: CellFormatting[] = [];
+  let formatting: CellFormatting[] | null = null;
+  
+  try {
+    // Check if the thread is a spreadsheet
+    if (!await client.isSpreadsheet(threadId)) {
+      logger.error(`Thread ${threadId} is not a spreadsheet or does not exist`);
+      throw new QuipApiError(`Thread ${threadId} is not a spreadsheet or does not exist`);
+    }
+
+    // Try primary export method first
+    let errorMessage: string | null = null;
+    
+    try {
+      // Export thread to XLSX first
+      logger.info(`Attempting primary export method: XLSX for thread ${threadId}`);
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-mcp-'));
+      try {
+        const xlsxPath = path.join(tempDir, `${threadId}.xlsx`);
+        
+        cacheStatus = await exportWorkbook(client, threadId, xlsxPath, options.updatedUsec);
+        // Read the sheet once, without the other sheets of the workbook, for every conversion below
+        const workbook = readXLSXWorkbook(xlsxPath, sheetName, options.selection?.namedRange);
+        
+        // Resolve the selected cells against the workbook, which may also pick the sheet
+        if (options.selection) {
+          const resolved = resolveXLSXRange(workbook, sheetName, options.selection);
+          sheet = resolved.sheetName;
+          selectedRange = resolved.range;
+        }
+        const layout = { ...options.layout, range: selectedRange };
+        
+        // Convert the sheet to CSV, one record at a time for large workbooks
+        if (options.stream && (await fs.stat(xlsxPath)).size >= STREAMING_WORKBOOK_BYTES) {
+          logger.info(`Streaming sheet '${sheet || 'default'}' from XLSX to CSV`);
+          const records = streamXLSXToCSV(workbook, sheet, layout);
+          // An empty sheet has no records, like the empty CSV of a converted one
+          const first = records.next();
+          if (!first.done) {
+            csvRecords = (function* () {
+              yield first.value;
+              yield* records;
+            })();
+          }
+        } else {
+          logger.info(`Converting sheet '${sheet || 'default'}' from XLSX to CSV`);
+          csvData = convertXLSXToCSV(workbook, sheet, layout);
+        }
+        if (options.typed) {
+          rows = convertXLSXToTypedRows(workbook, sheet, layout);
+        }
+        if (options.formulas) {
+          formulas = convertXLSXToFormulas(workbook, sheet, selectedRange);
+        }
+        if (options.formatting) {
+          xlsxFormatting = convertXLSXToFormatting(workbook, sheet, selectedRange);
+        }
+      } finally {
+        // Clean up the temporary XLSX file, also if the conversion failed
+        await fs.remove(tempDir);
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn(`Primary export method failed: ${errorMessage}`);
+      if (cacheStatus === 'hit') {
+        // Don't keep serving a cached workbook that can't be read
+        await workbookCache.delete(threadId);
+      }
+      cacheStatus = null;
+      if (options.selection) {
+        // Ranges are resolved against the workbook, which the HTML fallback doesn't have
+        throw new QuipApiError(`Failed to read the selected range from the XLSX export: ${errorMessage}`);
+      }
+      logger.info("Attempting fallback export method");
+      // Typed rows, formulas and formatting read so far only describe the XLSX export
+      csvRecords = null;
+      rows = null;
+      formulas = null;
+      xlsxFormatting = [];
+      
+      try {
+        // Try fallback method
+        csvData = await client.exportThreadToCSVFallback(threadId, sheetName);
+        logger.info("Successfully exported using fallback method");
+      } catch (fallbackError) {
+        const fallbackErrorMsg = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
+        logger.error(`Fallback export method also failed: ${fallbackErrorMsg}`);
+        throw new QuipApiError(`Failed to export spreadsheet. Primary error: ${errorMessage}, Fallback error: ${fallbackErrorMsg}`);
+      }
+    }
+    
+    if (!csvData && !csvRecords) {
+      throw new QuipApiError("Failed to export data: no CSV content generated");
+    }
+    
+    if (options.formatting) {
+      // Fonts and colors are only in the HTML, which also fills in what the XLSX export lacks
+      let htmlFormatting: CellFormatting[] = [];
+      try {
+        htmlFormatting = await client.getSheetFormatting(threadId, sheet);
+      } catch (error) {
+        logger.warn(`Could not read cell formatting from HTML: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (selectedRange) {
+        const cells = selectedRange;
+        htmlFormatting = htmlFormatting.filter(cell => isCellInRange(cell.cell, cells));
+      }
+      formatting = mergeCellFormatting(xlsxFormatting, htmlFormatting);
+    }
+  } catch (error) {
+    if (error instanceof QuipApiError) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error handling quip_read_spreadsheet: ${errorMessage}`);
+    throw new QuipApiError(`Error handling quip_read_spreadsheet: ${errorMessage}`);
+  }
+
+  return {
+    csv: csvData,
+    records: csvRecords,
+    rows,
+    formulas,
+    formatting,
+    range: selectedRange ? formatA1Range(selectedRange) : null,
+    workbookCache: cacheStatus
+  };
+}
+
+/**
+ * Export a thread to XLSX, reusing the cached workbook if the thread hasn't changed since
+ *
+ * Workbooks are cached by thread ID and the thread's Quip update time, so a changed thread
+ * is always exported again.
+ *
+ * @param client Quip client
+ * @param threadId Quip document thread ID
+ * @param xlsxPath Path to write the XLSX file to
+ * @param updatedUsec Quip update time of the thread, in microseconds, or null if unknown
+ * @returns Promise resolving to 'hit' if the cached workbook was used, 'miss' if the thread
+ *   was exported and cached, or 'bypass' if its update time is unknown and it was exported
+ *   without caching
+ * @throws Error if the export fails
+ */
+export async function exportWorkbook(
+  client: QuipClient | MockQuipClient,
+  threadId: string,
+  xlsxPath: string,
+  updatedUsec: number | null
+): Promise<WorkbookCacheStatus> {
+  if (updatedUsec === null) {
+    await client.exportThreadToXLSX(threadId, xlsxPath);
+    logger.info(`Workbook cache bypassed for thread ${threadId}: update time unknown`);
+    return 'bypass';
+  }
+  
+  const cached = await workbookCache.get(threadId, updatedUsec);
+  if (cached) {
+    await fs.writeFile(xlsxPath, cached);
+    logger.info(`Workbook cache hit for thread ${threadId}`, { updatedUsec });
+    return 'hit';
+  }
+  
+  await client.exportThreadToXLSX(threadId, xlsxPath);
+  await workbookCache.set(threadId, updatedUsec, await fs.readFile(xlsxPath));
+  logger.info(`Workbook cache miss for thread ${threadId}`, { updatedUsec });
+  return 'miss';
+}
+
+/**
+ * Read the Quip update time of a thread
+ *
+ * @param client Quip client
+ * @param threadId Quip document thread ID
+ * @returns Promise resolving to the update time in microseconds, or null if it can't be read
+ */
+export async function getThreadUpdatedUsec(client: QuipClient | MockQuipClient, threadId: string): Promise<number | null> {
+  try {
+    const thread = await client.getThread(threadId);
+    return typeof thread?.thread?.updated_usec === 'number' ? thread.thread.updated_usec : null;
+  } catch (error) {
+    logger.warn(`Could not read the update time of thread ${threadId}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Load a stored sheet if it's still current
+ *
+ * A stored sheet is current if it was exported at the thread's present update time with
+ * the same read options, and everything the read needs was stored with it.
+ *
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetName Sheet name (optional)
+ * @param options Quip update time of the thread, the read options, and whether typed
+ *   content, formulas and formatting are needed
+ * @returns Promise resolving to the stored CSV content, typed content, formulas, formatting
+ *   and A1 range, or null if the sheet has to be exported again
+ */
+async function loadCurrentSheet(
+  storage: StorageInterface,
+  threadId: string,
+  sheetName: string | undefined,
+  options: {
+    updatedUsec: number;
+    readOptions: Record<string, any>;
+    typed: boolean;
+    formulas: boolean;
+    formatting: boolean;
+  }
+): Promise<{
+  csv: string;
+  typedSheet: TypedSheet | null;
+  formulas: FormulaCell[] | null;
+  formatting: CellFormatting[] | null;
+  range: string | null;
+} | null> {
+  const metadata = await storage.getMetadata(threadId, sheetName);
+  if (
+    metadata.updated_usec !== options.updatedUsec ||
+    JSON.stringify(metadata.read_options) !== JSON.stringify(options.readOptions)
+  ) {
+    return null;
+  }
+  
+  const csv = await storage.getCSV(threadId, sheetName);
+  if (csv === null) {
+    return null;
+  }
+  const snapshot = getSnapshotId(csv);
+  
+  let formulas: FormulaCell[] | null = null;
+  if (options.formulas) {
+    const stored = await storage.getFormulas(threadId, sheetName);
+    if (!stored || stored.snapshot !== snapshot) {
+      return null;
+    }
+    formulas = stored.cells;
+  }
+  let formatting: CellFormatting[] | null = null;
+  if (options.formatting) {
+    const stored = await storage.getFormatting(threadId, sheetName);
+    if (!stored || stored.snapshot !== snapshot) {
+      return null;
+    }
+    formatting = stored.cells;
+  }
+  
+  return {
+    csv,
+    typedSheet: options.typed ? await loadTypedSheet(storage, threadId, sheetName, csv) : null,
+    formulas,
+    formatting,
+    range: typeof metadata.range === 'string' ? metadata.range : null
+  };
+}
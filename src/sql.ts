@@ -0,0 +1,223 @@
+/**
+ * SQL queries over stored sheets using an embedded SQLite database
+ */
+import { Worker } from 'worker_threads';
+import { detectHeaderRow, nameColumns, parseCSV } from './csv';
+import { parseNumber } from './query';
+import { logger } from './logger';
+import { TimeoutError } from './errors';
+import { SqlColumnType, SqlQueryResult, SqlTable } from './types';
+
+/**
+ * Source of the worker that loads the tables into sql.js and runs the query
+ *
+ * The query runs in a worker thread so that a runaway statement can be stopped by
+ * terminating the thread; SQLite offers no other way to interrupt it from sql.js.
+ * The database is switched to query_only before the query is prepared, so statements
+ * that write are rejected by SQLite itself.
+ */
+const SQL_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const initSqlJs = require(workerData.sqlJsPath);
+const quote = name => '"' + name.replace(/"/g, '""') + '"';
+
+initSqlJs().then(SQL => {
+  const db = new SQL.Database();
+  try {
+    for (const table of workerData.tables) {
+      const columns = table.columns.map(column => quote(column.name) + ' ' + column.type).join(', ');
+      db.run('CREATE TABLE ' + quote(table.name) + ' (' + columns + ')');
+      const insert = db.prepare(
+        'INSERT INTO ' + quote(table.name) + ' VALUES (' + table.columns.map(() => '?').join(', ') + ')'
+      );
+      db.run('BEGIN');
+      for (const row of table.rows) {
+        insert.run(row);
+      }
+      db.run('COMMIT');
+      insert.free();
+    }
+    db.run('PRAGMA query_only = ON');
+
+    const statement = db.prepare(workerData.sql);
+    const rows = [];
+    let capped = false;
+    while (statement.step()) {
+      if (rows.length === workerData.maxRows) {
+        capped = true;
+        break;
+      }
+      rows.push(statement.get().map(value => (value instanceof Uint8Array ? null : value)));
+    }
+    const columns = statement.getColumnNames();
+    statement.free();
+    parentPort.postMessage({ columns, rows, capped });
+  } catch (error) {
+    parentPort.postMessage({ error: error.message });
+  } finally {
+    db.close();
+  }
+}).catch(error => parentPort.postMessage({ error: error.message }));
+`;
+
+/**
+ * Build a SQL table from stored sheet CSV
+ *
+ * The first non-empty row provides the column names; blank or repeated header cells
+ * get generated names. Column types are inferred from the data rows.
+ *
+ * @param name Table name
+ * @param csvContent Stored CSV content of the sheet
+ * @returns Table ready to be loaded into the database
+ */
+export function buildSqlTable(name: string, csvContent: string): SqlTable {
+  const allRows = parseCSV(csvContent);
+  const headerIndex = detectHeaderRow(allRows);
+  if (headerIndex === -1) {
+    return { name, columns: [], rows: [] };
+  }
+
+  const headers = allRows[headerIndex];
+  const dataRows = allRows.slice(headerIndex + 1).filter(row => row.some(cell => cell.trim() !== ''));
+  const width = dataRows.reduce((max, row) => Math.max(max, row.length), headers.length);
+
+  // SQLite identifiers are case-insensitive, which nameColumns also assumes for repeated names
+  const columns = nameColumns(headers, width).map((columnName, index) => ({
+    name: columnName,
+    type: inferColumnType(dataRows.map(row => row[index] ?? ''))
+  }));
+
+  const rows = dataRows.map(row => columns.map((column, index) => {
+    const cell = (row[index] ?? '').trim();
+    if (cell === '') {
+      return null;
+    }
+    return column.type === 'TEXT' ? row[index] : parseNumber(cell);
+  }));
+
+  return { name, columns, rows };
+}
+
+/**
+ * Infer the SQLite type of a column from its values
+ *
+ * Numbers with leading zeros (IDs, ZIP codes) are kept as text so they survive unchanged.
+ *
+ * @param values Cell values of the column
+ * @returns INTEGER or REAL if every non-empty value is such a number, TEXT otherwise
+ */
+export function inferColumnType(values: string[]): SqlColumnType {
+  const nonEmpty = values.map(value => value.trim()).filter(value => value !== '');
+  if (nonEmpty.length === 0) {
+    return 'TEXT';
+  }
+
+  let type: SqlColumnType = 'INTEGER';
+  for (const value of nonEmpty) {
+    const number = parseNumber(value);
+    if (number === null || /^[-+]?0\d/.test(value)) {
+      return 'TEXT';
+    }
+    if (!Number.isInteger(number)) {
+      type = 'REAL';
+    }
+  }
+  return type;
+}
+
+/**
+ * Check that SQL is a single SELECT statement
+ *
+ * Comments and quoted strings or identifiers are skipped while scanning, and a single
+ * trailing semicolon is allowed.
+ *
+ * @param sql SQL text
+ * @returns SQL without the trailing semicolon
+ * @throws Error if the SQL is not a single SELECT (or WITH ... SELECT) statement
+ */
+export function validateSelectStatement(sql: string): string {
+  let firstWord = '';
+  let end = sql.length;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === '-' && sql[i + 1] === '-') {
+      const lineEnd = sql.indexOf('\n', i);
+      i = lineEnd === -1 ? sql.length : lineEnd;
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const commentEnd = sql.indexOf('*/', i + 2);
+      i = commentEnd === -1 ? sql.length : commentEnd + 1;
+    } else if (char === '\'' || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      const closeIndex = sql.indexOf(close, i + 1);
+      i = closeIndex === -1 ? sql.length : closeIndex;
+    } else if (char === ';') {
+      if (end !== sql.length) {
+        throw new Error('Only a single SELECT statement is allowed');
+      }
+      end = i;
+    } else if (!/\s/.test(char)) {
+      if (end !== sql.length) {
+        throw new Error('Only a single SELECT statement is allowed');
+      }
+      if (!firstWord) {
+        firstWord = sql.slice(i).match(/^[A-Za-z]+/)?.[0].toUpperCase() || char;
+      }
+    }
+  }
+
+  if (firstWord !== 'SELECT' && firstWord !== 'WITH') {
+    throw new Error('Only read-only SELECT statements are allowed');
+  }
+
+  return sql.slice(0, end);
+}
+
+/**
+ * Load tables into an in-memory SQLite database and run a read-only query
+ *
+ * @param tables Tables to load
+ * @param sql Single SELECT statement
+ * @param maxRows Maximum number of rows to return
+ * @param timeoutMs Time limit for loading the tables and running the query, in milliseconds
+ * @returns Promise resolving to the query result
+ * @throws TimeoutError if the time limit is exceeded, or Error if the query fails
+ */
+export async function runSQL(tables: SqlTable[], sql: string, maxRows: number, timeoutMs: number): Promise<SqlQueryResult> {
+  const statement = validateSelectStatement(sql);
+  logger.info(`Running SQL over ${tables.length} tables`, { maxRows, timeoutMs });
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(SQL_WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        sqlJsPath: require.resolve('sql.js'),
+        tables,
+        sql: statement,
+        maxRows
+      }
+    });
+
+    const timer = setTimeout(() => {
+      logger.warn(`SQL query timed out after ${timeoutMs}ms`);
+      void worker.terminate();
+      reject(new TimeoutError(`SQL query timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    worker.once('message', (message: Record<string, any>) => {
+      clearTimeout(timer);
+      void worker.terminate();
+      if (message.error) {
+        reject(new Error(message.error));
+        return;
+      }
+      logger.info(`SQL query returned ${message.rows.length} rows`, { capped: message.capped });
+      resolve({ columns: message.columns, rows: message.rows, row_cap_reached: message.capped });
+    });
+
+    worker.once('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
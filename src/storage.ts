@@ -3,17 +3,95 @@
  */
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { pipeline as pipeStreams, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import {
   S3Client,
   PutObjectCommand,
   GetObjectCommand,
-  HeadObjectCommand
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { StorageInterface, StorageOptions } from './types';
-import { csvCache, metadataCache } from './cache';
+import {
+  CSVSnapshot, CSVStreamSummary, SheetFormatting, SheetFormulas, SheetProfile, StorageCompression, StorageInterface, StorageOptions,
+  StorageEntry, StorageEntryListener, StorageEntryPage, TypedSheet
+} from './types';
+import { csvCache, documentCache, metadataCache } from './cache';
 import { logger } from './logger';
 import { StorageError } from './errors';
+import { CSVStreamTally, getSnapshotId } from './csv';
+import { compressCSV, createCompressionStream, decompressCSV, getContentEncoding } from './compression';
+
+/**
+ * Default number of CSV snapshots kept per sheet
+ */
+export const DEFAULT_SNAPSHOT_RETENTION = 10;
+
+/**
+ * Directory (or key prefix, under the S3 prefix) holding CSV snapshots, one subdirectory per sheet
+ */
+const SNAPSHOT_DIRECTORY = '.snapshots';
+
+/**
+ * Snapshot IDs are the UTC time the snapshot was saved without separators, so they sort by time
+ */
+const SNAPSHOT_ID_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/;
+
+/**
+ * Default preview size, in bytes, of CSV content saved record by record
+ */
+const DEFAULT_PREVIEW_BYTES = 10 * 1024;
+
+/**
+ * Size of the parts of S3 multipart uploads; every part but the last must be at least 5 MiB
+ */
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Listeners called when a sheet that wasn't stored yet is saved
+ *
+ * A failing listener is logged and doesn't fail the save.
+ */
+class EntryListeners {
+  private listeners: StorageEntryListener[];
+  
+  constructor() {
+    this.listeners = [];
+  }
+  
+  /**
+   * Register a listener
+   *
+   * @param listener Listener called with the thread ID and sheet name of the new sheet
+   */
+  add(listener: StorageEntryListener): void {
+    this.listeners.push(listener);
+  }
+  
+  /**
+   * Call the listeners for a newly stored sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   */
+  notify(threadId: string, sheetName?: string): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(threadId, sheetName);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(`Storage entry listener failed for thread ${threadId}`, { error: errorMessage });
+      }
+    }
+  }
+}
 
 /**
  * Local file system storage implementation
@@ -21,16 +99,29 @@ import { StorageError } from './errors';
 export class LocalStorage implements StorageInterface {
   private storagePath: string;
   private isFileProtocol: boolean;
+  private snapshotRetention: number;
+  private compression: StorageCompression;
+  private entryListeners: EntryListeners;
   
   /**
    * Initialize local storage
    * 
    * @param storagePath Storage path
    * @param isFileProtocol Whether to use file protocol for resource URIs
+   * @param snapshotRetention Number of CSV snapshots kept per sheet, 0 to keep none (default: 10)
+   * @param compression Compression of stored CSV files and snapshots (default: none)
    */
-  constructor(storagePath: string, isFileProtocol: boolean) {
+  constructor(
+    storagePath: string,
+    isFileProtocol: boolean,
+    snapshotRetention: number = DEFAULT_SNAPSHOT_RETENTION,
+    compression: StorageCompression = 'none'
+  ) {
     this.storagePath = storagePath;
     this.isFileProtocol = isFileProtocol;
+    this.snapshotRetention = snapshotRetention;
+    this.compression = compression;
+    this.entryListeners = new EntryListeners();
     
     // Create the directory only if we're using local storage
     if (process.env.STORAGE_TYPE !== 's3') {
@@ -63,25 +154,63 @@ export class LocalStorage implements StorageInterface {
     return path.join(this.storagePath, fileName);
   }
   
+  /**
+   * Write CSV content to a file, compressed as configured
+   * 
+   * @param filePath File path
+   * @param csvContent CSV content
+   * @returns Promise resolving to the number of bytes written
+   */
+  private async writeCSVFile(filePath: string, csvContent: string): Promise<number> {
+    if (this.compression === 'none') {
+      await fs.writeFile(filePath, csvContent, 'utf-8');
+      return Buffer.byteLength(csvContent, 'utf-8');
+    }
+    const data = compressCSV(csvContent, this.compression);
+    await fs.writeFile(filePath, data);
+    return data.length;
+  }
+  
+  /**
+   * Read CSV content from a file, decompressing it if it was compressed
+   * 
+   * @param filePath File path
+   * @returns Promise resolving to CSV content
+   */
+  private async readCSVFile(filePath: string): Promise<string> {
+    return decompressCSV(await fs.readFile(filePath));
+  }
+  
   /**
    * Save CSV content to local file
    * 
    * @param threadId Quip document thread ID
    * @param csvContent CSV content
    * @param sheetName Sheet name (optional)
+   * @param extraMetadata Additional metadata to store, such as the thread's Quip update time (optional)
    * @returns Promise resolving to file path
    */
-  async saveCSV(threadId: string, csvContent: string, sheetName?: string): Promise<string> {
+  async saveCSV(
+    threadId: string,
+    csvContent: string,
+    sheetName?: string,
+    extraMetadata: Record<string, any> = {}
+  ): Promise<string> {
     try {
       const filePath = this.getFilePath(threadId, sheetName);
-      await fs.writeFile(filePath, csvContent, 'utf-8');
+      const isNew = !await fs.pathExists(filePath);
+      const storedSize = await this.writeCSVFile(filePath, csvContent);
       
       // Calculate and save metadata
       const metadata = {
         total_rows: csvContent.split('\n').length,
         total_size: csvContent.length,
+        thread_id: threadId,
+        sheet_name: sheetName ?? null,
         resource_uri: this.getResourceURI(threadId, sheetName),
-        last_updated: new Date().toISOString()
+        last_updated: new Date().toISOString(),
+        ...getCompressionMetadata(this.compression, storedSize),
+        ...extraMetadata
       };
       
       // Save metadata to a separate file
@@ -92,11 +221,22 @@ export class LocalStorage implements StorageInterface {
       const cacheKey = this.getCacheKey(threadId, sheetName);
       csvCache.set(cacheKey, csvContent);
       metadataCache.set(cacheKey, metadata);
+      metadataCache.delete(this.getProfileCacheKey(cacheKey));
       
       logger.info(`Saved CSV to ${filePath}`, {
         bytes: metadata.total_size,
         rows: metadata.total_rows
       });
+      if (isNew) {
+        this.entryListeners.notify(threadId, sheetName);
+      }
+      
+      await this.saveCSVSnapshot(
+        threadId,
+        sheetName,
+        getSnapshotMetadata(getSnapshotId(csvContent), metadata),
+        snapshotPath => this.writeCSVFile(snapshotPath, csvContent)
+      );
       
       return filePath;
     } catch (error) {
@@ -106,6 +246,84 @@ export class LocalStorage implements StorageInterface {
     }
   }
   
+  /**
+   * Save CSV content to a local file record by record
+   * 
+   * The records are written to a temporary file that replaces the stored CSV once every
+   * record is written, so a failed conversion leaves the stored CSV as it was.
+   * 
+   * @param threadId Quip document thread ID
+   * @param records CSV records, each ending with a line break
+   * @param sheetName Sheet name (optional)
+   * @param extraMetadata Additional metadata to store, such as the thread's Quip update time (optional)
+   * @param previewBytes Size of the preview in bytes, counted from the header row (default: 10KB)
+   * @returns Promise resolving to the file path and a summary of the saved CSV
+   */
+  async saveCSVStream(
+    threadId: string,
+    records: Iterable<string>,
+    sheetName?: string,
+    extraMetadata: Record<string, any> = {},
+    previewBytes: number = DEFAULT_PREVIEW_BYTES
+  ): Promise<CSVStreamSummary> {
+    const filePath = this.getFilePath(threadId, sheetName);
+    const tempPath = `${filePath}.tmp`;
+    try {
+      const isNew = !await fs.pathExists(filePath);
+      const tally = new CSVStreamTally(previewBytes);
+      const source = Readable.from(tallyRecords(records, tally));
+      let storedSize = 0;
+      if (this.compression === 'none') {
+        await pipeline(source, fs.createWriteStream(tempPath, { encoding: 'utf-8' }));
+      } else {
+        await pipeline(source, createCompressionStream(this.compression), fs.createWriteStream(tempPath));
+        storedSize = (await fs.stat(tempPath)).size;
+      }
+      await fs.move(tempPath, filePath, { overwrite: true });
+      const summary = tally.summarize(filePath);
+      
+      // Calculate and save metadata
+      const metadata = {
+        total_rows: summary.total_rows,
+        total_size: summary.total_size,
+        thread_id: threadId,
+        sheet_name: sheetName ?? null,
+        resource_uri: this.getResourceURI(threadId, sheetName),
+        last_updated: new Date().toISOString(),
+        ...getCompressionMetadata(this.compression, storedSize),
+        ...extraMetadata
+      };
+      await fs.writeFile(`${filePath}.meta`, JSON.stringify(metadata), 'utf-8');
+      
+      // Update caches; the content is only cached once it's read back
+      const cacheKey = this.getCacheKey(threadId, sheetName);
+      csvCache.delete(cacheKey);
+      metadataCache.set(cacheKey, metadata);
+      metadataCache.delete(this.getProfileCacheKey(cacheKey));
+      
+      logger.info(`Streamed CSV to ${filePath}`, {
+        bytes: metadata.total_size,
+        rows: metadata.total_rows
+      });
+      if (isNew) {
+        this.entryListeners.notify(threadId, sheetName);
+      }
+      
+      await this.saveCSVSnapshot(threadId, sheetName, getSnapshotMetadata(summary.snapshot, metadata), snapshotPath => fs.copy(filePath, snapshotPath));
+      
+      return summary;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      try {
+        await fs.remove(tempPath);
+      } catch (removeError) {
+        logger.warn(`Failed to remove ${tempPath}: ${removeError instanceof Error ? removeError.message : String(removeError)}`);
+      }
+      logger.error(`Failed to stream CSV for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to save CSV: ${errorMessage}`);
+    }
+  }
+  
   /**
    * Get CSV content from local file
    * 
@@ -134,7 +352,7 @@ export class LocalStorage implements StorageInterface {
         return null;
       }
       
-      const content = await fs.readFile(filePath, 'utf-8');
+      const content = await this.readCSVFile(filePath);
       
       // Update cache
       csvCache.set(cacheKey, content);
@@ -192,11 +410,13 @@ export class LocalStorage implements StorageInterface {
         logger.warn(`Metadata file not found: ${metadataPath}`);
         // If metadata file doesn't exist but CSV file does, generate metadata
         if (await fs.pathExists(filePath)) {
-          const content = await fs.readFile(filePath, 'utf-8');
+          const content = await this.readCSVFile(filePath);
           
           const metadata = {
             total_rows: content.split('\n').length,
             total_size: content.length,
+            thread_id: threadId,
+            sheet_name: sheetName ?? null,
             resource_uri: this.getResourceURI(threadId, sheetName),
             last_updated: new Date().toISOString()
           };
@@ -237,364 +457,1594 @@ export class LocalStorage implements StorageInterface {
   }
   
   /**
-   * Get cache key for a thread and sheet
-   *
+   * Delete a stored CSV file and its metadata, and drop them from the caches
+   * 
    * @param threadId Quip document thread ID
    * @param sheetName Sheet name (optional)
-   * @returns Cache key
-   */
-  private getCacheKey(threadId: string, sheetName?: string): string {
-    return sheetName ? `${threadId}:${sheetName}` : threadId;
-  }
-}
-
-/**
- * S3 storage implementation
- */
-export class S3Storage implements StorageInterface {
-  private s3Client: S3Client;
-  private bucket: string;
-  private prefix: string;
-  private urlExpiration: number;
-  
-  /**
-   * Initialize S3 storage
-   *
-   * @param bucket S3 bucket name
-   * @param region S3 region
-   * @param prefix S3 object key prefix (optional)
-   * @param urlExpiration URL expiration in seconds (default: 3600)
    */
-  constructor(bucket: string, region: string, prefix: string = '', urlExpiration: number = 3600) {
-    this.bucket = bucket;
-    this.prefix = prefix.endsWith('/') || prefix === '' ? prefix : `${prefix}/`;
-    this.urlExpiration = urlExpiration;
-    
-    this.s3Client = new S3Client({ region });
-    
-    // Check if presigned URLs should be used
-    const usePresignedUrls = process.env.USE_PRESIGNED_URLS === 'true';
-    
-    logger.info(`S3Storage initialized with bucket: ${bucket}, region: ${region}, prefix: ${this.prefix}, use_presigned_urls: ${usePresignedUrls}`);
+  async delete(threadId: string, sheetName?: string): Promise<void> {
+    try {
+      const filePath = this.getFilePath(threadId, sheetName);
+      await fs.remove(filePath);
+      await fs.remove(`${filePath}.meta`);
+      await fs.remove(`${filePath}.typed.json`);
+      await fs.remove(`${filePath}.formulas.json`);
+      await fs.remove(`${filePath}.formatting.json`);
+      
+      const cacheKey = this.getCacheKey(threadId, sheetName);
+      csvCache.delete(cacheKey);
+      metadataCache.delete(cacheKey);
+      metadataCache.delete(this.getProfileCacheKey(cacheKey));
+      
+      logger.info(`Deleted CSV ${filePath}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to delete CSV for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to delete CSV: ${errorMessage}`);
+    }
   }
   
   /**
-   * Get S3 object key for a thread and sheet
+   * Get the directory holding the CSV snapshots of a sheet
    *
    * @param threadId Quip document thread ID
    * @param sheetName Sheet name (optional)
-   * @returns S3 object key
+   * @returns Directory path
    */
-  private getObjectKey(threadId: string, sheetName?: string): string {
-    let key = `${this.prefix}${threadId}`;
-    if (sheetName) {
-      // Replace invalid characters
-      const safeSheetName = sheetName.replace(/[/\\]/g, '_');
-      key += `-${safeSheetName}`;
-    }
-    key += '.csv';
-    return key;
+  private getSnapshotDirectory(threadId: string, sheetName?: string): string {
+    return path.join(this.storagePath, SNAPSHOT_DIRECTORY, path.basename(this.getFilePath(threadId, sheetName), '.csv'));
   }
   
   /**
-   * Save CSV content to S3
+   * Save a snapshot of CSV content and drop the snapshots beyond the retention
+   *
+   * No snapshot is saved if the content and read options are the same as in the latest one.
+   * Failures are logged rather than thrown, since the CSV itself is already saved.
    *
    * @param threadId Quip document thread ID
-   * @param csvContent CSV content
    * @param sheetName Sheet name (optional)
-   * @returns Promise resolving to S3 object key
+   * @param metadata Metadata saved next to the snapshot, from getSnapshotMetadata
+   * @param write Writes the CSV content to the given snapshot file path
    */
-  async saveCSV(threadId: string, csvContent: string, sheetName?: string): Promise<string> {
+  private async saveCSVSnapshot(
+    threadId: string,
+    sheetName: string | undefined,
+    metadata: Record<string, any>,
+    write: (snapshotPath: string) => Promise<unknown>
+  ): Promise<void> {
+    if (this.snapshotRetention <= 0) {
+      return;
+    }
+    
     try {
-      const key = this.getObjectKey(threadId, sheetName);
-      
-      // Upload CSV content to S3
-      const putCommand = new PutObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-        Body: csvContent,
-        ContentType: 'text/csv',
-      });
-      
-      await this.sendCommand(putCommand);
-      
-      // Calculate and save metadata
-      const metadata = {
-        total_rows: csvContent.split('\n').length,
-        total_size: csvContent.length,
-        resource_uri: this.getResourceURI(threadId, sheetName),
-        last_updated: new Date().toISOString()
-      };
-      
-      // Save metadata as a separate object
-      const metadataKey = `${key}.meta`;
-      const metadataPutCommand = new PutObjectCommand({
-        Bucket: this.bucket,
-        Key: metadataKey,
-        Body: JSON.stringify(metadata),
-        ContentType: 'application/json',
-      });
+      const directory = this.getSnapshotDirectory(threadId, sheetName);
+      const snapshots = await this.listCSVSnapshots(threadId, sheetName);
+      const latest = snapshots[snapshots.length - 1];
+      if (latest && isSameSnapshot(latest, metadata)) {
+        logger.info(`CSV of thread ${threadId} is unchanged since snapshot ${latest.id}`, { sheetName: sheetName || 'default' });
+        return;
+      }
       
-      await this.sendCommand(metadataPutCommand);
+      const snapshotId = createSnapshotId(snapshots);
+      await fs.mkdirp(directory);
+      await write(path.join(directory, `${snapshotId}.csv`));
+      await fs.writeFile(path.join(directory, `${snapshotId}.csv.meta`), JSON.stringify(metadata), 'utf-8');
       
-      // Update caches
-      const cacheKey = this.getCacheKey(threadId, sheetName);
-      csvCache.set(cacheKey, csvContent);
-      metadataCache.set(cacheKey, metadata);
+      const expired = snapshots.slice(0, Math.max(0, snapshots.length + 1 - this.snapshotRetention));
+      for (const snapshot of expired) {
+        await fs.remove(path.join(directory, `${snapshot.id}.csv`));
+        await fs.remove(path.join(directory, `${snapshot.id}.csv.meta`));
+      }
       
-      logger.info(`Saved CSV to S3: ${this.bucket}/${key}`, {
-        bytes: metadata.total_size,
-        rows: metadata.total_rows
+      logger.info(`Saved CSV snapshot ${snapshotId} for thread ${threadId}`, {
+        sheetName: sheetName || 'default',
+        expired: expired.length
       });
-      
-      return key;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Failed to save CSV to S3 for thread ${threadId}`, { error: errorMessage });
-      throw new StorageError(`Failed to save CSV to S3: ${errorMessage}`);
+      logger.warn(`Failed to save CSV snapshot for thread ${threadId}`, { error: errorMessage });
     }
   }
   
   /**
-   * Get CSV content from S3
+   * List the stored sheets and documents
    *
-   * @param threadId Quip document thread ID
-   * @param sheetName Sheet name (optional)
-   * @returns Promise resolving to CSV content, or null if object doesn't exist
-   */
-  /**
-   * Send a command to S3
+   * Local storage is listed on a single page.
    *
-   * @param command Command to send
-   * @returns Promise resolving to command response
+   * @returns Promise resolving to every entry in the storage directory
    */
-  protected async sendCommand(command: any): Promise<any> {
-    return this.s3Client.send(command);
-  }
-
-  async getCSV(threadId: string, sheetName?: string): Promise<string | null> {
+  async listEntries(): Promise<StorageEntryPage> {
     try {
-      const cacheKey = this.getCacheKey(threadId, sheetName);
-      
-      // Try to get from cache first
-      const cachedContent = csvCache.get(cacheKey);
-      if (cachedContent) {
-        logger.debug(`Retrieved CSV from cache for thread ${threadId}`, {
-          sheetName: sheetName || 'default',
-          bytes: cachedContent.length
-        });
-        return cachedContent;
-      }
-      
-      // If not in cache, get from S3
-      const key = this.getObjectKey(threadId, sheetName);
-      
-      // Check if object exists
-      try {
-        const headCommand = new HeadObjectCommand({
-          Bucket: this.bucket,
-          Key: key,
-        });
-        await this.sendCommand(headCommand);
-      } catch (error) {
-        // Object doesn't exist
-        logger.warn(`CSV object not found in S3: ${this.bucket}/${key}`);
-        return null;
-      }
-      
-      // Get object
-      const getCommand = new GetObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-      });
-      
-      const response = await this.sendCommand(getCommand);
-      
-      if (!response.Body) {
-        throw new Error('Response body is undefined');
+      if (!await fs.pathExists(this.storagePath)) {
+        return { entries: [] };
       }
       
-      // Convert stream to string
-      const chunks: Buffer[] = [];
-      for await (const chunk of response.Body) {
-        chunks.push(Buffer.from(chunk));
+      const entries: StorageEntry[] = [];
+      for (const filename of await fs.readdir(this.storagePath)) {
+        const filePath = path.join(this.storagePath, filename);
+        if (filename.endsWith('.csv')) {
+          const metadataPath = `${filePath}.meta`;
+          const savedMetadata = await this.readMetadataFile(metadataPath);
+          const { threadId, sheetName } = getEntryIdentity(savedMetadata, filename.slice(0, -'.csv'.length));
+          // Missing metadata is generated from the CSV, but an unreadable file doesn't hide the sheet
+          const metadata = savedMetadata ?? (await fs.pathExists(metadataPath) ? {} : await this.getMetadata(threadId, sheetName));
+          const stats = await fs.stat(filePath);
+          entries.push({ type: 'spreadsheet', threadId, sheetName, metadata, size: stats.size, filePath });
+        } else if (filename.endsWith('.md')) {
+          const stats = await fs.stat(filePath);
+          entries.push({ type: 'document', threadId: filename.slice(0, -'.md'.length), metadata: {}, size: stats.size, filePath });
+        }
       }
-      const content = Buffer.concat(chunks).toString('utf-8');
-      
-      // Update cache
-      csvCache.set(cacheKey, content);
       
-      logger.info(`Retrieved CSV from S3: ${this.bucket}/${key}`, { bytes: content.length });
-      return content;
+      return { entries };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Failed to get CSV from S3 for thread ${threadId}`, { error: errorMessage });
-      throw new StorageError(`Failed to get CSV from S3: ${errorMessage}`);
+      logger.error(`Failed to list entries in ${this.storagePath}`, { error: errorMessage });
+      throw new StorageError(`Failed to list entries: ${errorMessage}`);
     }
   }
   
   /**
-   * Get resource URI
+   * Get the thread ID and sheet name of a stored CSV file from its file name
    *
-   * @param threadId Quip document thread ID
+   * @param filename File name of the stored CSV
+   * @returns Promise resolving to the thread ID and sheet name
+   */
+  async resolveEntryName(filename: string): Promise<{ threadId: string; sheetName?: string }> {
+    const savedMetadata = await this.readMetadataFile(path.join(this.storagePath, `${path.basename(filename)}.meta`));
+    return getEntryIdentity(savedMetadata, path.basename(filename, '.csv'));
+  }
+  
+  /**
+   * Read a metadata file
+   *
+   * @param metadataPath Path of the metadata file
+   * @returns Promise resolving to the metadata, or null if the file doesn't exist or can't be read
+   */
+  private async readMetadataFile(metadataPath: string): Promise<Record<string, any> | null> {
+    try {
+      if (await fs.pathExists(metadataPath)) {
+        return JSON.parse(await fs.readFile(metadataPath, 'utf-8'));
+      }
+    } catch (error) {
+      logger.warn(`Could not read metadata file ${metadataPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return null;
+  }
+  
+  /**
+   * Register a listener called when a sheet whose file didn't exist yet is saved
+   *
+   * @param listener Listener called with the thread ID and sheet name of the new sheet
+   */
+  onEntryAdded(listener: StorageEntryListener): void {
+    this.entryListeners.add(listener);
+  }
+  
+  /**
+   * List the saved CSV snapshots of a sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the snapshots, oldest first
+   */
+  async listCSVSnapshots(threadId: string, sheetName?: string): Promise<CSVSnapshot[]> {
+    try {
+      const directory = this.getSnapshotDirectory(threadId, sheetName);
+      if (!await fs.pathExists(directory)) {
+        return [];
+      }
+      
+      const snapshots: CSVSnapshot[] = [];
+      for (const filename of (await fs.readdir(directory)).sort()) {
+        const snapshotId = path.basename(filename, '.csv');
+        if (filename.endsWith('.csv') && SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+          const stats = await fs.stat(path.join(directory, filename));
+          const metadata = await this.readMetadataFile(path.join(directory, `${filename}.meta`));
+          snapshots.push(toCSVSnapshot(snapshotId, stats.size, metadata));
+        }
+      }
+      return snapshots;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to list CSV snapshots for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to list CSV snapshots: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get the CSV content of a saved snapshot
+   *
+   * @param threadId Quip document thread ID
+   * @param snapshotId Snapshot ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to CSV content, or null if the snapshot doesn't exist
+   */
+  async getCSVSnapshot(threadId: string, snapshotId: string, sheetName?: string): Promise<string | null> {
+    // Only well-formed IDs are used in paths
+    if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      return null;
+    }
+    
+    try {
+      const filePath = path.join(this.getSnapshotDirectory(threadId, sheetName), `${snapshotId}.csv`);
+      if (!await fs.pathExists(filePath)) {
+        return null;
+      }
+      return await this.readCSVFile(filePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to get CSV snapshot ${snapshotId} for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to get CSV snapshot: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get file path for a Markdown document
+   * 
+   * @param threadId Quip document thread ID
+   * @returns File path
+   */
+  private getDocumentPath(threadId: string): string {
+    return path.join(this.storagePath, `${threadId}.md`);
+  }
+  
+  /**
+   * Save a Markdown document to local file
+   * 
+   * @param threadId Quip document thread ID
+   * @param markdown Markdown content
+   * @returns Promise resolving to file path
+   */
+  async saveDocument(threadId: string, markdown: string): Promise<string> {
+    try {
+      const filePath = this.getDocumentPath(threadId);
+      await fs.writeFile(filePath, markdown, 'utf-8');
+      
+      documentCache.set(threadId, markdown);
+      
+      logger.info(`Saved document to ${filePath}`, { bytes: markdown.length });
+      
+      return filePath;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to save document for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to save document: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get a Markdown document from local file
+   * 
+   * @param threadId Quip document thread ID
+   * @returns Promise resolving to Markdown content, or null if file doesn't exist
+   */
+  async getDocument(threadId: string): Promise<string | null> {
+    try {
+      const cachedContent = documentCache.get(threadId);
+      if (cachedContent) {
+        logger.debug(`Retrieved document from cache for thread ${threadId}`, { bytes: cachedContent.length });
+        return cachedContent;
+      }
+      
+      const filePath = this.getDocumentPath(threadId);
+      if (!await fs.pathExists(filePath)) {
+        logger.warn(`Document file not found: ${filePath}`);
+        return null;
+      }
+      
+      const content = await fs.readFile(filePath, 'utf-8');
+      documentCache.set(threadId, content);
+      
+      logger.info(`Retrieved document from ${filePath}`, { bytes: content.length });
+      return content;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to get document for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to get document: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get resource URI for a Markdown document
+   * 
+   * @param threadId Quip document thread ID
+   * @returns Resource URI
+   */
+  getDocumentResourceURI(threadId: string): string {
+    if (this.isFileProtocol) {
+      return `file://${this.getDocumentPath(threadId)}`;
+    }
+    return `quip://${threadId}/document`;
+  }
+  
+  /**
+   * Save typed sheet content to a JSON file next to the CSV file
+   *
+   * @param threadId Quip document thread ID
+   * @param sheet Typed sheet content
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to file path
+   */
+  async saveTypedSheet(threadId: string, sheet: TypedSheet, sheetName?: string): Promise<string> {
+    return this.saveSidecar(threadId, sheetName, 'typed.json', sheet, 'typed sheet');
+  }
+  
+  /**
+   * Get typed sheet content from local file
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the typed sheet, or null if file doesn't exist
+   */
+  async getTypedSheet(threadId: string, sheetName?: string): Promise<TypedSheet | null> {
+    return this.getSidecar<TypedSheet>(threadId, sheetName, 'typed.json', 'typed sheet');
+  }
+  
+  /**
+   * Save the formulas of a sheet to a JSON file next to the CSV file
+   *
+   * @param threadId Quip document thread ID
+   * @param formulas Formula cells of the sheet
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to file path
+   */
+  async saveFormulas(threadId: string, formulas: SheetFormulas, sheetName?: string): Promise<string> {
+    return this.saveSidecar(threadId, sheetName, 'formulas.json', formulas, 'formulas');
+  }
+  
+  /**
+   * Get the formulas of a sheet from local file
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the formulas, or null if file doesn't exist
+   */
+  async getFormulas(threadId: string, sheetName?: string): Promise<SheetFormulas | null> {
+    return this.getSidecar<SheetFormulas>(threadId, sheetName, 'formulas.json', 'formulas');
+  }
+  
+  /**
+   * Save the cell formatting of a sheet to a JSON file next to the CSV file
+   *
+   * @param threadId Quip document thread ID
+   * @param formatting Formatted cells of the sheet
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to file path
+   */
+  async saveFormatting(threadId: string, formatting: SheetFormatting, sheetName?: string): Promise<string> {
+    return this.saveSidecar(threadId, sheetName, 'formatting.json', formatting, 'formatting');
+  }
+  
+  /**
+   * Get the cell formatting of a sheet from local file
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the formatting, or null if file doesn't exist
+   */
+  async getFormatting(threadId: string, sheetName?: string): Promise<SheetFormatting | null> {
+    return this.getSidecar<SheetFormatting>(threadId, sheetName, 'formatting.json', 'formatting');
+  }
+  
+  /**
+   * Write a JSON file next to the CSV file of a sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @param suffix File name suffix appended to the CSV file path
+   * @param value Value to store
+   * @param label Description of the value for logs and errors
+   * @returns Promise resolving to file path
+   */
+  private async saveSidecar(threadId: string, sheetName: string | undefined, suffix: string, value: object, label: string): Promise<string> {
+    try {
+      const filePath = `${this.getFilePath(threadId, sheetName)}.${suffix}`;
+      await fs.writeFile(filePath, JSON.stringify(value), 'utf-8');
+      
+      logger.info(`Saved ${label} to ${filePath}`);
+      
+      return filePath;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to save ${label} for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to save ${label}: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Read a JSON file stored next to the CSV file of a sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @param suffix File name suffix appended to the CSV file path
+   * @param label Description of the value for logs and errors
+   * @returns Promise resolving to the parsed value, or null if file doesn't exist
+   */
+  private async getSidecar<T>(threadId: string, sheetName: string | undefined, suffix: string, label: string): Promise<T | null> {
+    try {
+      const filePath = `${this.getFilePath(threadId, sheetName)}.${suffix}`;
+      if (!await fs.pathExists(filePath)) {
+        return null;
+      }
+      
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to get ${label} for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to get ${label}: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get the cached column profile of a stored sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the profile, or null if none is cached
+   */
+  async getProfile(threadId: string, sheetName?: string): Promise<SheetProfile | null> {
+    const profile = metadataCache.get(this.getProfileCacheKey(this.getCacheKey(threadId, sheetName)));
+    return profile ? profile as SheetProfile : null;
+  }
+  
+  /**
+   * Cache the column profile of a stored sheet next to its metadata
+   *
+   * @param threadId Quip document thread ID
+   * @param profile Column profile
+   * @param sheetName Sheet name (optional)
+   */
+  async saveProfile(threadId: string, profile: SheetProfile, sheetName?: string): Promise<void> {
+    metadataCache.set(this.getProfileCacheKey(this.getCacheKey(threadId, sheetName)), profile);
+    logger.debug(`Cached profile for thread ${threadId}`, { sheetName: sheetName || 'default' });
+  }
+  
+  /**
+   * Get cache key for a thread and sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Cache key
+   */
+  private getCacheKey(threadId: string, sheetName?: string): string {
+    return sheetName ? `${threadId}:${sheetName}` : threadId;
+  }
+  
+  /**
+   * Get the metadata cache key of the profile for a thread and sheet
+   *
+   * @param cacheKey Cache key of the sheet
+   * @returns Profile cache key
+   */
+  private getProfileCacheKey(cacheKey: string): string {
+    return `${cacheKey}#profile`;
+  }
+}
+
+/**
+ * S3 storage implementation
+ */
+export class S3Storage implements StorageInterface {
+  private s3Client: S3Client;
+  private bucket: string;
+  private prefix: string;
+  private urlExpiration: number;
+  private snapshotRetention: number;
+  private compression: StorageCompression;
+  private entryListeners: EntryListeners;
+  private listedKeys: Set<string>;
+  
+  /**
+   * Initialize S3 storage
+   *
+   * @param bucket S3 bucket name
+   * @param region S3 region
+   * @param prefix S3 object key prefix (optional)
+   * @param urlExpiration URL expiration in seconds (default: 3600)
+   * @param snapshotRetention Number of CSV snapshots kept per sheet, 0 to keep none (default: 10)
+   * @param compression Compression of stored CSV objects and snapshots, sent as their
+   *   Content-Encoding (default: none)
+   */
+  constructor(
+    bucket: string,
+    region: string,
+    prefix: string = '',
+    urlExpiration: number = 3600,
+    snapshotRetention: number = DEFAULT_SNAPSHOT_RETENTION,
+    compression: StorageCompression = 'none'
+  ) {
+    this.bucket = bucket;
+    this.prefix = prefix.endsWith('/') || prefix === '' ? prefix : `${prefix}/`;
+    this.urlExpiration = urlExpiration;
+    this.snapshotRetention = snapshotRetention;
+    this.compression = compression;
+    this.entryListeners = new EntryListeners();
+    this.listedKeys = new Set();
+    
+    this.s3Client = new S3Client({ region });
+    
+    // Check if presigned URLs should be used
+    const usePresignedUrls = process.env.USE_PRESIGNED_URLS === 'true';
+    
+    logger.info(`S3Storage initialized with bucket: ${bucket}, region: ${region}, prefix: ${this.prefix}, use_presigned_urls: ${usePresignedUrls}`);
+  }
+  
+  /**
+   * Get S3 object key for a thread and sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns S3 object key
+   */
+  private getObjectKey(threadId: string, sheetName?: string): string {
+    let key = `${this.prefix}${threadId}`;
+    if (sheetName) {
+      // Replace invalid characters
+      const safeSheetName = sheetName.replace(/[/\\]/g, '_');
+      key += `-${safeSheetName}`;
+    }
+    key += '.csv';
+    return key;
+  }
+  
+  /**
+   * Get the body of a CSV object, compressed as configured
+   *
+   * @param csvContent CSV content
+   * @returns Body and, for compressed content, Content-Encoding of the object
+   */
+  private getCSVBody(csvContent: string): { Body: string | Buffer; ContentEncoding?: string } {
+    if (this.compression === 'none') {
+      return { Body: csvContent };
+    }
+    return { Body: compressCSV(csvContent, this.compression), ContentEncoding: getContentEncoding(this.compression) };
+  }
+  
+  /**
+   * Save CSV content to S3
+   *
+   * @param threadId Quip document thread ID
+   * @param csvContent CSV content
+   * @param sheetName Sheet name (optional)
+   * @param extraMetadata Additional metadata to store, such as the thread's Quip update time (optional)
+   * @returns Promise resolving to S3 object key
+   */
+  async saveCSV(
+    threadId: string,
+    csvContent: string,
+    sheetName?: string,
+    extraMetadata: Record<string, any> = {}
+  ): Promise<string> {
+    try {
+      const key = this.getObjectKey(threadId, sheetName);
+      const body = this.getCSVBody(csvContent);
+      
+      // Upload CSV content to S3
+      const putCommand = new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ...body,
+        ContentType: 'text/csv',
+      });
+      
+      await this.sendCommand(putCommand);
+      
+      // Calculate and save metadata
+      const metadata = {
+        total_rows: csvContent.split('\n').length,
+        total_size: csvContent.length,
+        thread_id: threadId,
+        sheet_name: sheetName ?? null,
+        resource_uri: this.getResourceURI(threadId, sheetName),
+        last_updated: new Date().toISOString(),
+        ...getCompressionMetadata(this.compression, Buffer.byteLength(body.Body)),
+        ...extraMetadata
+      };
+      
+      // Save metadata as a separate object
+      const metadataKey = `${key}.meta`;
+      const metadataPutCommand = new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: metadataKey,
+        Body: JSON.stringify(metadata),
+        ContentType: 'application/json',
+      });
+      
+      await this.sendCommand(metadataPutCommand);
+      
+      // Update caches
+      const cacheKey = this.getCacheKey(threadId, sheetName);
+      csvCache.set(cacheKey, csvContent);
+      metadataCache.set(cacheKey, metadata);
+      metadataCache.delete(this.getProfileCacheKey(cacheKey));
+      
+      logger.info(`Saved CSV to S3: ${this.bucket}/${key}`, {
+        bytes: metadata.total_size,
+        rows: metadata.total_rows
+      });
+      this.addSavedEntry(key, threadId, sheetName);
+      
+      const snapshotMetadata = getSnapshotMetadata(getSnapshotId(csvContent), metadata);
+      await this.saveCSVSnapshot(threadId, sheetName, snapshotMetadata, snapshotKey => this.sendCommand(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: snapshotKey,
+        ...body,
+        ContentType: 'text/csv',
+      })));
+      
+      return key;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to save CSV to S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to save CSV to S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Save CSV content to S3 record by record
+   *
+   * Content that fills more than one part is sent as a multipart upload, so only one part
+   * is held in memory at a time; smaller content is put as a single object. A failed
+   * multipart upload is aborted, which leaves the stored CSV as it was.
+   *
+   * @param threadId Quip document thread ID
+   * @param records CSV records, each ending with a line break
+   * @param sheetName Sheet name (optional)
+   * @param extraMetadata Additional metadata to store, such as the thread's Quip update time (optional)
+   * @param previewBytes Size of the preview in bytes, counted from the header row (default: 10KB)
+   * @returns Promise resolving to the S3 object key and a summary of the saved CSV
+   */
+  async saveCSVStream(
+    threadId: string,
+    records: Iterable<string>,
+    sheetName?: string,
+    extraMetadata: Record<string, any> = {},
+    previewBytes: number = DEFAULT_PREVIEW_BYTES
+  ): Promise<CSVStreamSummary> {
+    const key = this.getObjectKey(threadId, sheetName);
+    let uploadId: string | undefined;
+    try {
+      const tally = new CSVStreamTally(previewBytes);
+      const contentEncoding = getContentEncoding(this.compression);
+      const parts: Array<{ ETag: string; PartNumber: number }> = [];
+      let chunks: Buffer[] = [];
+      let chunkBytes = 0;
+      let storedSize = 0;
+      
+      // Compressed content is uploaded in parts of compressed bytes; pipeStreams passes errors
+      // of the records on to the compressed stream
+      const source: AsyncIterable<Buffer | string> | Iterable<string> = this.compression === 'none'
+        ? tallyRecords(records, tally)
+        : pipeStreams(Readable.from(tallyRecords(records, tally)), createCompressionStream(this.compression), () => undefined);
+      for await (const chunk of source) {
+        const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, 'utf-8');
+        chunks.push(data);
+        chunkBytes += data.length;
+        storedSize += data.length;
+        if (chunkBytes >= MULTIPART_PART_SIZE) {
+          if (uploadId === undefined) {
+            const upload = await this.sendCommand(new CreateMultipartUploadCommand({
+              Bucket: this.bucket,
+              Key: key,
+              ContentType: 'text/csv',
+              ContentEncoding: contentEncoding,
+            }));
+            uploadId = upload.UploadId as string;
+          }
+          parts.push(await this.uploadPart(key, uploadId, parts.length + 1, chunks));
+          chunks = [];
+          chunkBytes = 0;
+        }
+      }
+      
+      if (uploadId === undefined) {
+        await this.sendCommand(new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: contentEncoding ? Buffer.concat(chunks) : Buffer.concat(chunks).toString('utf-8'),
+          ContentType: 'text/csv',
+          ...(contentEncoding && { ContentEncoding: contentEncoding }),
+        }));
+      } else {
+        if (chunks.length > 0) {
+          parts.push(await this.uploadPart(key, uploadId, parts.length + 1, chunks));
+        }
+        await this.sendCommand(new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts },
+        }));
+      }
+      const summary = tally.summarize(key);
+      
+      // Calculate and save metadata
+      const metadata = {
+        total_rows: summary.total_rows,
+        total_size: summary.total_size,
+        thread_id: threadId,
+        sheet_name: sheetName ?? null,
+        resource_uri: this.getResourceURI(threadId, sheetName),
+        last_updated: new Date().toISOString(),
+        ...getCompressionMetadata(this.compression, storedSize),
+        ...extraMetadata
+      };
+      await this.sendCommand(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: `${key}.meta`,
+        Body: JSON.stringify(metadata),
+        ContentType: 'application/json',
+      }));
+      
+      // Update caches; the content is only cached once it's read back
+      const cacheKey = this.getCacheKey(threadId, sheetName);
+      csvCache.delete(cacheKey);
+      metadataCache.set(cacheKey, metadata);
+      metadataCache.delete(this.getProfileCacheKey(cacheKey));
+      
+      logger.info(`Streamed CSV to S3: ${this.bucket}/${key}`, {
+        bytes: metadata.total_size,
+        rows: metadata.total_rows,
+        parts: parts.length
+      });
+      this.addSavedEntry(key, threadId, sheetName);
+      
+      await this.saveCSVSnapshot(threadId, sheetName, getSnapshotMetadata(summary.snapshot, metadata), snapshotKey => this.sendCommand(new CopyObjectCommand({
+        Bucket: this.bucket,
+        Key: snapshotKey,
+        CopySource: `${this.bucket}/${encodeURIComponent(key)}`,
+      })));
+      
+      return summary;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (uploadId !== undefined) {
+        try {
+          await this.sendCommand(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId }));
+        } catch (abortError) {
+          logger.warn(`Failed to abort multipart upload ${uploadId}: ${abortError instanceof Error ? abortError.message : String(abortError)}`);
+        }
+      }
+      logger.error(`Failed to stream CSV to S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to save CSV to S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Upload one part of a multipart upload
+   *
+   * @param key S3 object key
+   * @param uploadId Multipart upload ID
+   * @param partNumber One-based part number
+   * @param chunks Data making up the part
+   * @returns Promise resolving to the part's ETag and number, as needed to complete the upload
+   */
+  private async uploadPart(key: string, uploadId: string, partNumber: number, chunks: Buffer[]): Promise<{ ETag: string; PartNumber: number }> {
+    const response = await this.sendCommand(new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: Buffer.concat(chunks),
+    }));
+    return { ETag: response.ETag, PartNumber: partNumber };
+  }
+  
+  /**
+   * Get CSV content from S3
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to CSV content, or null if object doesn't exist
+   */
+  /**
+   * Send a command to S3
+   *
+   * @param command Command to send
+   * @returns Promise resolving to command response
+   */
+  protected async sendCommand(command: any): Promise<any> {
+    return this.s3Client.send(command);
+  }
+
+  async getCSV(threadId: string, sheetName?: string): Promise<string | null> {
+    try {
+      const cacheKey = this.getCacheKey(threadId, sheetName);
+      
+      // Try to get from cache first
+      const cachedContent = csvCache.get(cacheKey);
+      if (cachedContent) {
+        logger.debug(`Retrieved CSV from cache for thread ${threadId}`, {
+          sheetName: sheetName || 'default',
+          bytes: cachedContent.length
+        });
+        return cachedContent;
+      }
+      
+      // If not in cache, get from S3
+      const key = this.getObjectKey(threadId, sheetName);
+      
+      // Check if object exists
+      try {
+        const headCommand = new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+        });
+        await this.sendCommand(headCommand);
+      } catch (error) {
+        // Object doesn't exist
+        logger.warn(`CSV object not found in S3: ${this.bucket}/${key}`);
+        return null;
+      }
+      
+      // Get object
+      const getCommand = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      });
+      
+      const response = await this.sendCommand(getCommand);
+      
+      if (!response.Body) {
+        throw new Error('Response body is undefined');
+      }
+      
+      // Convert stream to string
+      const chunks: Buffer[] = [];
+      for await (const chunk of response.Body) {
+        chunks.push(Buffer.from(chunk));
+      }
+      const content = decompressCSV(Buffer.concat(chunks));
+      
+      // Update cache
+      csvCache.set(cacheKey, content);
+      
+      logger.info(`Retrieved CSV from S3: ${this.bucket}/${key}`, { bytes: content.length });
+      return content;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to get CSV from S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to get CSV from S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get resource URI
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Resource URI (presigned S3 URL or s3:// URI)
+   */
+  getResourceURI(threadId: string, sheetName?: string): string {
+    // Get the object key for the thread and sheet
+    const key = this.getObjectKey(threadId, sheetName);
+    
+    // Check if we should generate a presigned URL
+    const usePresignedUrl = process.env.USE_PRESIGNED_URLS === 'true';
+    
+    if (usePresignedUrl) {
+      // Since getResourceURI is not async, we can't generate a presigned URL here
+      // Instead, we'll return a special URI format that can be resolved later
+      // The actual presigned URL will be generated when needed using the generatePresignedUrl method
+      logger.debug(`Returning special URI format for presigned URL generation: ${threadId}, ${sheetName || 'default'}`);
+      return `s3+https://${this.bucket}/${key}`;
+    }
+    
+    // Fall back to s3:// URI format
+    return `s3://${this.bucket}/${key}`;
+  }
+  
+  /**
+   * Generate a presigned URL for accessing the S3 object
+   * This is a new method that can be used when an actual presigned URL is needed
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to a presigned URL
+   */
+  async generatePresignedUrl(threadId: string, sheetName?: string): Promise<string> {
+    try {
+      // Get the object key for the thread and sheet
+      const key = this.getObjectKey(threadId, sheetName);
+      
+      // Create a GetObject command for the S3 object
+      const command = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      });
+      
+      // Generate a presigned URL with the specified expiration time
+      const presignedUrl = await getSignedUrl(this.s3Client, command, {
+        expiresIn: this.urlExpiration
+      });
+      
+      logger.debug(`Generated presigned URL for ${key}, expires in ${this.urlExpiration} seconds`);
+      
+      return presignedUrl;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to generate presigned URL for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to generate presigned URL: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get metadata for the stored CSV
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to metadata including total_rows, total_size, etc.
+   */
+  async getMetadata(threadId: string, sheetName?: string): Promise<Record<string, any>> {
+    try {
+      const cacheKey = this.getCacheKey(threadId, sheetName);
+      
+      // Try to get from cache first
+      const cachedMetadata = metadataCache.get(cacheKey);
+      if (cachedMetadata) {
+        logger.debug(`Retrieved metadata from cache for thread ${threadId}`, {
+          sheetName: sheetName || 'default'
+        });
+        return cachedMetadata;
+      }
+      
+      const key = this.getObjectKey(threadId, sheetName);
+      const metadataKey = `${key}.meta`;
+      
+      // Try to get metadata object
+      try {
+        const getCommand = new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: metadataKey,
+        });
+        
+        const response = await this.sendCommand(getCommand);
+        
+        if (!response.Body) {
+          throw new Error('Response body is undefined');
+        }
+        
+        // Convert stream to string
+        const chunks: Buffer[] = [];
+        for await (const chunk of response.Body) {
+          chunks.push(Buffer.from(chunk));
+        }
+        const metadataContent = Buffer.concat(chunks).toString('utf-8');
+        const metadata = JSON.parse(metadataContent);
+        
+        // Update cache
+        metadataCache.set(cacheKey, metadata);
+        
+        return metadata;
+      } catch (metadataError) {
+        // Metadata object doesn't exist or error occurred
+        logger.warn(`Metadata object not found in S3 or error: ${this.bucket}/${metadataKey}`);
+        
+        // Try to get the CSV object to generate metadata
+        const csvContent = await this.getCSV(threadId, sheetName);
+        if (csvContent) {
+          const metadata = {
+            total_rows: csvContent.split('\n').length,
+            total_size: csvContent.length,
+            thread_id: threadId,
+            sheet_name: sheetName ?? null,
+            resource_uri: this.getResourceURI(threadId, sheetName),
+            last_updated: new Date().toISOString()
+          };
+          
+          try {
+            // Save the generated metadata
+            const metadataPutCommand = new PutObjectCommand({
+              Bucket: this.bucket,
+              Key: metadataKey,
+              Body: JSON.stringify(metadata),
+              ContentType: 'application/json',
+            });
+            
+            await this.sendCommand(metadataPutCommand);
+          } catch (putError) {
+            // Log error but continue
+            logger.error(`Failed to save metadata to S3: ${this.bucket}/${metadataKey}`, {
+              error: putError instanceof Error ? putError.message : String(putError)
+            });
+          }
+          
+          // Update cache
+          metadataCache.set(cacheKey, metadata);
+          
+          return metadata;
+        }
+        
+        // If neither object exists, return empty metadata
+        const emptyMetadata = {
+          total_rows: 0,
+          total_size: 0,
+          resource_uri: this.getResourceURI(threadId, sheetName),
+          last_updated: null
+        };
+        
+        return emptyMetadata;
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to get metadata from S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to get metadata from S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Delete a stored CSV object and its metadata, and drop them from the caches
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   */
+  async delete(threadId: string, sheetName?: string): Promise<void> {
+    try {
+      const key = this.getObjectKey(threadId, sheetName);
+      
+      // DeleteObject succeeds for missing keys, so no existence check is needed
+      await this.sendCommand(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+      await this.sendCommand(new DeleteObjectCommand({ Bucket: this.bucket, Key: `${key}.meta` }));
+      await this.sendCommand(new DeleteObjectCommand({ Bucket: this.bucket, Key: `${key}.typed.json` }));
+      await this.sendCommand(new DeleteObjectCommand({ Bucket: this.bucket, Key: `${key}.formulas.json` }));
+      await this.sendCommand(new DeleteObjectCommand({ Bucket: this.bucket, Key: `${key}.formatting.json` }));
+      
+      const cacheKey = this.getCacheKey(threadId, sheetName);
+      csvCache.delete(cacheKey);
+      metadataCache.delete(cacheKey);
+      metadataCache.delete(this.getProfileCacheKey(cacheKey));
+      
+      logger.info(`Deleted CSV from S3: ${this.bucket}/${key}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to delete CSV from S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to delete CSV from S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get the key prefix of the CSV snapshots of a sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns S3 key prefix, ending with a slash
+   */
+  private getSnapshotPrefix(threadId: string, sheetName?: string): string {
+    const key = this.getObjectKey(threadId, sheetName);
+    return `${this.prefix}${SNAPSHOT_DIRECTORY}/${key.slice(this.prefix.length, -'.csv'.length)}/`;
+  }
+  
+  /**
+   * Save a snapshot of CSV content and drop the snapshots beyond the retention
+   *
+   * No snapshot is saved if the content and read options are the same as in the latest one.
+   * Failures are logged rather than thrown, since the CSV itself is already saved.
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @param metadata Metadata saved next to the snapshot, from getSnapshotMetadata
+   * @param write Writes the CSV content to the given snapshot object key
+   */
+  private async saveCSVSnapshot(
+    threadId: string,
+    sheetName: string | undefined,
+    metadata: Record<string, any>,
+    write: (snapshotKey: string) => Promise<any>
+  ): Promise<void> {
+    if (this.snapshotRetention <= 0) {
+      return;
+    }
+    
+    try {
+      const snapshotPrefix = this.getSnapshotPrefix(threadId, sheetName);
+      const snapshots = await this.listCSVSnapshots(threadId, sheetName);
+      const latest = snapshots[snapshots.length - 1];
+      if (latest && isSameSnapshot(latest, metadata)) {
+        logger.info(`CSV of thread ${threadId} is unchanged since snapshot ${latest.id}`, { sheetName: sheetName || 'default' });
+        return;
+      }
+      
+      const snapshotId = createSnapshotId(snapshots);
+      await write(`${snapshotPrefix}${snapshotId}.csv`);
+      await this.sendCommand(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: `${snapshotPrefix}${snapshotId}.csv.meta`,
+        Body: JSON.stringify(metadata),
+        ContentType: 'application/json',
+      }));
+      
+      const expired = snapshots.slice(0, Math.max(0, snapshots.length + 1 - this.snapshotRetention));
+      for (const snapshot of expired) {
+        await this.sendCommand(new DeleteObjectCommand({ Bucket: this.bucket, Key: `${snapshotPrefix}${snapshot.id}.csv` }));
+        await this.sendCommand(new DeleteObjectCommand({ Bucket: this.bucket, Key: `${snapshotPrefix}${snapshot.id}.csv.meta` }));
+      }
+      
+      logger.info(`Saved CSV snapshot ${snapshotId} to S3 for thread ${threadId}`, {
+        sheetName: sheetName || 'default',
+        expired: expired.length
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to save CSV snapshot to S3 for thread ${threadId}`, { error: errorMessage });
+    }
+  }
+  
+  /**
+   * List one page of the sheets and documents stored under the prefix
+   *
+   * Only objects directly under the prefix are listed, so snapshots and other keys in
+   * nested "folders" are left out, as are the metadata and other sidecar objects.
+   *
+   * @param cursor ListObjectsV2 continuation token of the page, from the previous page (optional)
+   * @returns Promise resolving to the entries on the page, with each sheet's metadata
+   */
+  async listEntries(cursor?: string): Promise<StorageEntryPage> {
+    try {
+      const response = await this.sendCommand(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: this.prefix,
+        Delimiter: '/',
+        ContinuationToken: cursor
+      }));
+      
+      // A listing from the start replaces the sheets clients have been shown
+      if (cursor === undefined) {
+        this.listedKeys.clear();
+      }
+      
+      const entries: StorageEntry[] = [];
+      for (const object of response.Contents || []) {
+        const key = String(object.Key);
+        const filename = key.slice(this.prefix.length);
+        const size = object.Size ?? 0;
+        if (filename.endsWith('.csv')) {
+          this.listedKeys.add(key);
+          const savedMetadata = await this.getMetadataObject(`${key}.meta`);
+          const { threadId, sheetName } = getEntryIdentity(savedMetadata, filename.slice(0, -'.csv'.length));
+          const metadata = savedMetadata ?? await this.getMetadata(threadId, sheetName);
+          entries.push({ type: 'spreadsheet', threadId, sheetName, metadata, size });
+        } else if (filename.endsWith('.md')) {
+          entries.push({ type: 'document', threadId: filename.slice(0, -'.md'.length), metadata: {}, size });
+        }
+      }
+      
+      return { entries, nextCursor: response.IsTruncated ? response.NextContinuationToken : undefined };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to list entries in S3 bucket ${this.bucket}`, { error: errorMessage });
+      throw new StorageError(`Failed to list entries in S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get the thread ID and sheet name of a stored CSV object from its file name
+   *
+   * @param filename File name of the stored CSV, after the prefix
+   * @returns Promise resolving to the thread ID and sheet name
+   */
+  async resolveEntryName(filename: string): Promise<{ threadId: string; sheetName?: string }> {
+    const savedMetadata = await this.getMetadataObject(`${this.prefix}${filename}.meta`);
+    return getEntryIdentity(savedMetadata, filename.replace(/\.csv$/, ''));
+  }
+  
+  /**
+   * Read a metadata object
+   *
+   * @param metadataKey Key of the metadata object
+   * @returns Promise resolving to the metadata, or null if the object doesn't exist
+   */
+  private async getMetadataObject(metadataKey: string): Promise<Record<string, any> | null> {
+    try {
+      const response = await this.sendCommand(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: metadataKey,
+      }));
+      if (!response.Body) {
+        return null;
+      }
+      const chunks: Buffer[] = [];
+      for await (const chunk of response.Body) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch (error) {
+      logger.debug(`Metadata object not found in S3: ${this.bucket}/${metadataKey}`);
+      return null;
+    }
+  }
+  
+  /**
+   * Register a listener called when a sheet that wasn't stored yet is saved
+   *
+   * A sheet counts as new unless it was in the last listing of the stored entries or has
+   * been saved since, which is what clients have been shown, so saves don't need an extra
+   * request to check whether the object exists.
+   *
+   * @param listener Listener called with the thread ID and sheet name of the new sheet
+   */
+  onEntryAdded(listener: StorageEntryListener): void {
+    this.entryListeners.add(listener);
+  }
+  
+  /**
+   * Record a saved sheet and tell the entry listeners if it wasn't listed or saved before
+   *
+   * @param key S3 object key of the sheet
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   */
+  private addSavedEntry(key: string, threadId: string, sheetName?: string): void {
+    if (!this.listedKeys.has(key)) {
+      this.listedKeys.add(key);
+      this.entryListeners.notify(threadId, sheetName);
+    }
+  }
+  
+  /**
+   * List the saved CSV snapshots of a sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the snapshots, oldest first
+   */
+  async listCSVSnapshots(threadId: string, sheetName?: string): Promise<CSVSnapshot[]> {
+    try {
+      const snapshotPrefix = this.getSnapshotPrefix(threadId, sheetName);
+      const snapshots: CSVSnapshot[] = [];
+      let continuationToken: string | undefined;
+      
+      do {
+        const response = await this.sendCommand(new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: snapshotPrefix,
+          ContinuationToken: continuationToken
+        }));
+        for (const object of response.Contents || []) {
+          const filename = String(object.Key).slice(snapshotPrefix.length);
+          const snapshotId = filename.replace(/\.csv$/, '');
+          if (filename.endsWith('.csv') && SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+            const metadata = await this.getMetadataObject(`${object.Key}.meta`);
+            snapshots.push(toCSVSnapshot(snapshotId, object.Size ?? 0, metadata));
+          }
+        }
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+      
+      return snapshots.sort((a, b) => a.id.localeCompare(b.id));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to list CSV snapshots in S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to list CSV snapshots in S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get the CSV content of a saved snapshot
+   *
+   * @param threadId Quip document thread ID
+   * @param snapshotId Snapshot ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to CSV content, or null if the snapshot doesn't exist
+   */
+  async getCSVSnapshot(threadId: string, snapshotId: string, sheetName?: string): Promise<string | null> {
+    // Only well-formed IDs are used in keys
+    if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      return null;
+    }
+    
+    try {
+      const key = `${this.getSnapshotPrefix(threadId, sheetName)}${snapshotId}.csv`;
+      
+      // Check if object exists
+      try {
+        await this.sendCommand(new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+        }));
+      } catch (error) {
+        logger.debug(`CSV snapshot not found in S3: ${this.bucket}/${key}`);
+        return null;
+      }
+      
+      const response = await this.sendCommand(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+      
+      if (!response.Body) {
+        throw new Error('Response body is undefined');
+      }
+      
+      // Convert stream to string
+      const chunks: Buffer[] = [];
+      for await (const chunk of response.Body) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return decompressCSV(Buffer.concat(chunks));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to get CSV snapshot ${snapshotId} from S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to get CSV snapshot from S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get S3 object key for a Markdown document
+   *
+   * @param threadId Quip document thread ID
+   * @returns S3 object key
+   */
+  private getDocumentKey(threadId: string): string {
+    return `${this.prefix}${threadId}.md`;
+  }
+  
+  /**
+   * Save a Markdown document to S3
+   *
+   * @param threadId Quip document thread ID
+   * @param markdown Markdown content
+   * @returns Promise resolving to S3 object key
+   */
+  async saveDocument(threadId: string, markdown: string): Promise<string> {
+    try {
+      const key = this.getDocumentKey(threadId);
+      
+      const putCommand = new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: markdown,
+        ContentType: 'text/markdown',
+      });
+      
+      await this.sendCommand(putCommand);
+      
+      documentCache.set(threadId, markdown);
+      
+      logger.info(`Saved document to S3: ${this.bucket}/${key}`, { bytes: markdown.length });
+      
+      return key;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to save document to S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to save document to S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get a Markdown document from S3
+   *
+   * @param threadId Quip document thread ID
+   * @returns Promise resolving to Markdown content, or null if object doesn't exist
+   */
+  async getDocument(threadId: string): Promise<string | null> {
+    try {
+      const cachedContent = documentCache.get(threadId);
+      if (cachedContent) {
+        logger.debug(`Retrieved document from cache for thread ${threadId}`, { bytes: cachedContent.length });
+        return cachedContent;
+      }
+      
+      const key = this.getDocumentKey(threadId);
+      
+      // Check if object exists
+      try {
+        await this.sendCommand(new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+        }));
+      } catch (error) {
+        logger.warn(`Document object not found in S3: ${this.bucket}/${key}`);
+        return null;
+      }
+      
+      const response = await this.sendCommand(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+      
+      if (!response.Body) {
+        throw new Error('Response body is undefined');
+      }
+      
+      // Convert stream to string
+      const chunks: Buffer[] = [];
+      for await (const chunk of response.Body) {
+        chunks.push(Buffer.from(chunk));
+      }
+      const content = Buffer.concat(chunks).toString('utf-8');
+      
+      documentCache.set(threadId, content);
+      
+      logger.info(`Retrieved document from S3: ${this.bucket}/${key}`, { bytes: content.length });
+      return content;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to get document from S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to get document from S3: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get resource URI for a Markdown document
+   *
+   * @param threadId Quip document thread ID
+   * @returns s3:// URI of the document object
+   */
+  getDocumentResourceURI(threadId: string): string {
+    return `s3://${this.bucket}/${this.getDocumentKey(threadId)}`;
+  }
+  
+  /**
+   * Save typed sheet content as a JSON object next to the CSV object
+   *
+   * @param threadId Quip document thread ID
+   * @param sheet Typed sheet content
    * @param sheetName Sheet name (optional)
-   * @returns Resource URI (presigned S3 URL or s3:// URI)
+   * @returns Promise resolving to S3 object key
    */
-  getResourceURI(threadId: string, sheetName?: string): string {
-    // Get the object key for the thread and sheet
-    const key = this.getObjectKey(threadId, sheetName);
-    
-    // Check if we should generate a presigned URL
-    const usePresignedUrl = process.env.USE_PRESIGNED_URLS === 'true';
-    
-    if (usePresignedUrl) {
-      // Since getResourceURI is not async, we can't generate a presigned URL here
-      // Instead, we'll return a special URI format that can be resolved later
-      // The actual presigned URL will be generated when needed using the generatePresignedUrl method
-      logger.debug(`Returning special URI format for presigned URL generation: ${threadId}, ${sheetName || 'default'}`);
-      return `s3+https://${this.bucket}/${key}`;
-    }
-    
-    // Fall back to s3:// URI format
-    return `s3://${this.bucket}/${key}`;
+  async saveTypedSheet(threadId: string, sheet: TypedSheet, sheetName?: string): Promise<string> {
+    return this.saveSidecar(threadId, sheetName, 'typed.json', sheet, 'typed sheet');
   }
   
   /**
-   * Generate a presigned URL for accessing the S3 object
-   * This is a new method that can be used when an actual presigned URL is needed
+   * Get typed sheet content from S3
    *
    * @param threadId Quip document thread ID
    * @param sheetName Sheet name (optional)
-   * @returns Promise resolving to a presigned URL
+   * @returns Promise resolving to the typed sheet, or null if the object doesn't exist
    */
-  async generatePresignedUrl(threadId: string, sheetName?: string): Promise<string> {
+  async getTypedSheet(threadId: string, sheetName?: string): Promise<TypedSheet | null> {
+    return this.getSidecar<TypedSheet>(threadId, sheetName, 'typed.json', 'typed sheet');
+  }
+  
+  /**
+   * Save the formulas of a sheet as a JSON object next to the CSV object
+   *
+   * @param threadId Quip document thread ID
+   * @param formulas Formula cells of the sheet
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to S3 object key
+   */
+  async saveFormulas(threadId: string, formulas: SheetFormulas, sheetName?: string): Promise<string> {
+    return this.saveSidecar(threadId, sheetName, 'formulas.json', formulas, 'formulas');
+  }
+  
+  /**
+   * Get the formulas of a sheet from S3
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the formulas, or null if the object doesn't exist
+   */
+  async getFormulas(threadId: string, sheetName?: string): Promise<SheetFormulas | null> {
+    return this.getSidecar<SheetFormulas>(threadId, sheetName, 'formulas.json', 'formulas');
+  }
+  
+  /**
+   * Save the cell formatting of a sheet as a JSON object next to the CSV object
+   *
+   * @param threadId Quip document thread ID
+   * @param formatting Formatted cells of the sheet
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to S3 object key
+   */
+  async saveFormatting(threadId: string, formatting: SheetFormatting, sheetName?: string): Promise<string> {
+    return this.saveSidecar(threadId, sheetName, 'formatting.json', formatting, 'formatting');
+  }
+  
+  /**
+   * Get the cell formatting of a sheet from S3
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the formatting, or null if the object doesn't exist
+   */
+  async getFormatting(threadId: string, sheetName?: string): Promise<SheetFormatting | null> {
+    return this.getSidecar<SheetFormatting>(threadId, sheetName, 'formatting.json', 'formatting');
+  }
+  
+  /**
+   * Store a JSON object next to the CSV object of a sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @param suffix Key suffix appended to the CSV object key
+   * @param value Value to store
+   * @param label Description of the value for logs and errors
+   * @returns Promise resolving to S3 object key
+   */
+  private async saveSidecar(threadId: string, sheetName: string | undefined, suffix: string, value: object, label: string): Promise<string> {
     try {
-      // Get the object key for the thread and sheet
-      const key = this.getObjectKey(threadId, sheetName);
+      const key = `${this.getObjectKey(threadId, sheetName)}.${suffix}`;
       
-      // Create a GetObject command for the S3 object
-      const command = new GetObjectCommand({
+      await this.sendCommand(new PutObjectCommand({
         Bucket: this.bucket,
         Key: key,
-      });
-      
-      // Generate a presigned URL with the specified expiration time
-      const presignedUrl = await getSignedUrl(this.s3Client, command, {
-        expiresIn: this.urlExpiration
-      });
+        Body: JSON.stringify(value),
+        ContentType: 'application/json',
+      }));
       
-      logger.debug(`Generated presigned URL for ${key}, expires in ${this.urlExpiration} seconds`);
+      logger.info(`Saved ${label} to S3: ${this.bucket}/${key}`);
       
-      return presignedUrl;
+      return key;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Failed to generate presigned URL for thread ${threadId}`, { error: errorMessage });
-      throw new StorageError(`Failed to generate presigned URL: ${errorMessage}`);
+      logger.error(`Failed to save ${label} to S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to save ${label} to S3: ${errorMessage}`);
     }
   }
   
   /**
-   * Get metadata for the stored CSV
+   * Read a JSON object stored next to the CSV object of a sheet
    *
    * @param threadId Quip document thread ID
    * @param sheetName Sheet name (optional)
-   * @returns Promise resolving to metadata including total_rows, total_size, etc.
+   * @param suffix Key suffix appended to the CSV object key
+   * @param label Description of the value for logs and errors
+   * @returns Promise resolving to the parsed value, or null if the object doesn't exist
    */
-  async getMetadata(threadId: string, sheetName?: string): Promise<Record<string, any>> {
+  private async getSidecar<T>(threadId: string, sheetName: string | undefined, suffix: string, label: string): Promise<T | null> {
     try {
-      const cacheKey = this.getCacheKey(threadId, sheetName);
+      const key = `${this.getObjectKey(threadId, sheetName)}.${suffix}`;
       
-      // Try to get from cache first
-      const cachedMetadata = metadataCache.get(cacheKey);
-      if (cachedMetadata) {
-        logger.debug(`Retrieved metadata from cache for thread ${threadId}`, {
-          sheetName: sheetName || 'default'
-        });
-        return cachedMetadata;
+      // Check if object exists
+      try {
+        await this.sendCommand(new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+        }));
+      } catch (error) {
+        logger.debug(`Object not found in S3: ${this.bucket}/${key}`);
+        return null;
       }
       
-      const key = this.getObjectKey(threadId, sheetName);
-      const metadataKey = `${key}.meta`;
+      const response = await this.sendCommand(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
       
-      // Try to get metadata object
-      try {
-        const getCommand = new GetObjectCommand({
-          Bucket: this.bucket,
-          Key: metadataKey,
-        });
-        
-        const response = await this.sendCommand(getCommand);
-        
-        if (!response.Body) {
-          throw new Error('Response body is undefined');
-        }
-        
-        // Convert stream to string
-        const chunks: Buffer[] = [];
-        for await (const chunk of response.Body) {
-          chunks.push(Buffer.from(chunk));
-        }
-        const metadataContent = Buffer.concat(chunks).toString('utf-8');
-        const metadata = JSON.parse(metadataContent);
-        
-        // Update cache
-        metadataCache.set(cacheKey, metadata);
-        
-        return metadata;
-      } catch (metadataError) {
-        // Metadata object doesn't exist or error occurred
-        logger.warn(`Metadata object not found in S3 or error: ${this.bucket}/${metadataKey}`);
-        
-        // Try to get the CSV object to generate metadata
-        const csvContent = await this.getCSV(threadId, sheetName);
-        if (csvContent) {
-          const metadata = {
-            total_rows: csvContent.split('\n').length,
-            total_size: csvContent.length,
-            resource_uri: this.getResourceURI(threadId, sheetName),
-            last_updated: new Date().toISOString()
-          };
-          
-          try {
-            // Save the generated metadata
-            const metadataPutCommand = new PutObjectCommand({
-              Bucket: this.bucket,
-              Key: metadataKey,
-              Body: JSON.stringify(metadata),
-              ContentType: 'application/json',
-            });
-            
-            await this.sendCommand(metadataPutCommand);
-          } catch (putError) {
-            // Log error but continue
-            logger.error(`Failed to save metadata to S3: ${this.bucket}/${metadataKey}`, {
-              error: putError instanceof Error ? putError.message : String(putError)
-            });
-          }
-          
-          // Update cache
-          metadataCache.set(cacheKey, metadata);
-          
-          return metadata;
-        }
-        
-        // If neither object exists, return empty metadata
-        const emptyMetadata = {
-          total_rows: 0,
-          total_size: 0,
-          resource_uri: this.getResourceURI(threadId, sheetName),
-          last_updated: null
-        };
-        
-        return emptyMetadata;
+      if (!response.Body) {
+        throw new Error('Response body is undefined');
+      }
+      
+      // Convert stream to string
+      const chunks: Buffer[] = [];
+      for await (const chunk of response.Body) {
+        chunks.push(Buffer.from(chunk));
       }
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Failed to get metadata from S3 for thread ${threadId}`, { error: errorMessage });
-      throw new StorageError(`Failed to get metadata from S3: ${errorMessage}`);
+      logger.error(`Failed to get ${label} from S3 for thread ${threadId}`, { error: errorMessage });
+      throw new StorageError(`Failed to get ${label} from S3: ${errorMessage}`);
     }
   }
   
+  /**
+   * Get the cached column profile of a stored sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the profile, or null if none is cached
+   */
+  async getProfile(threadId: string, sheetName?: string): Promise<SheetProfile | null> {
+    const profile = metadataCache.get(this.getProfileCacheKey(this.getCacheKey(threadId, sheetName)));
+    return profile ? profile as SheetProfile : null;
+  }
+  
+  /**
+   * Cache the column profile of a stored sheet next to its metadata
+   *
+   * @param threadId Quip document thread ID
+   * @param profile Column profile
+   * @param sheetName Sheet name (optional)
+   */
+  async saveProfile(threadId: string, profile: SheetProfile, sheetName?: string): Promise<void> {
+    metadataCache.set(this.getProfileCacheKey(this.getCacheKey(threadId, sheetName)), profile);
+    logger.debug(`Cached profile for thread ${threadId}`, { sheetName: sheetName || 'default' });
+  }
+  
   /**
    * Get cache key for a thread and sheet
    *
@@ -605,6 +2055,16 @@ export class S3Storage implements StorageInterface {
   private getCacheKey(threadId: string, sheetName?: string): string {
     return sheetName ? `${threadId}:${sheetName}` : threadId;
   }
+  
+  /**
+   * Get the metadata cache key of the profile for a thread and sheet
+   *
+   * @param cacheKey Cache key of the sheet
+   * @returns Profile cache key
+   */
+  private getProfileCacheKey(cacheKey: string): string {
+    return `${cacheKey}#profile`;
+  }
 }
 
 /**
@@ -690,6 +2150,130 @@ export function truncateCSVContent(csvContent: string, maxSize: number = 10 * 10
   return [truncatedContent, true];
 }
 
+/**
+ * Pass CSV records on while adding them to a tally
+ *
+ * @param records CSV records
+ * @param tally Tally of the records read so far
+ * @returns Generator of the same records
+ */
+function* tallyRecords(records: Iterable<string>, tally: CSVStreamTally): Generator<string> {
+  for (const record of records) {
+    tally.add(record);
+    yield record;
+  }
+}
+
+/**
+ * Get the thread ID and sheet name of a stored CSV file
+ *
+ * Metadata saved since thread IDs and sheet names were recorded in it names them
+ * exactly. Older files are named by splitting the file name at its first hyphen, as
+ * {thread_id}-{sheet_name} (Quip thread IDs have no hyphens).
+ *
+ * @param metadata Saved metadata of the file, or null if there is none
+ * @param basename File name without the .csv extension
+ * @returns Thread ID and sheet name
+ */
+function getEntryIdentity(metadata: Record<string, any> | null, basename: string): { threadId: string; sheetName?: string } {
+  if (typeof metadata?.thread_id === 'string') {
+    return { threadId: metadata.thread_id, sheetName: metadata.sheet_name ?? undefined };
+  }
+  const [threadId, ...sheetParts] = basename.split('-');
+  return { threadId, sheetName: sheetParts.length > 0 ? sheetParts.join('-') : undefined };
+}
+
+/**
+ * Get the metadata fields describing compressed CSV content
+ *
+ * @param compression Compression algorithm
+ * @param storedSize Size of the stored content in bytes
+ * @returns compression and compressed_size fields, or no fields without compression
+ */
+function getCompressionMetadata(compression: StorageCompression, storedSize: number): Record<string, any> {
+  if (compression === 'none') {
+    return {};
+  }
+  return { compression, compressed_size: storedSize };
+}
+
+/**
+ * Create the ID of a new snapshot from the current time
+ *
+ * IDs have millisecond resolution, so a snapshot saved in the same millisecond as the
+ * latest one gets the next millisecond to keep IDs unique and in order.
+ *
+ * @param snapshots Existing snapshots of the sheet, oldest first
+ * @returns Snapshot ID
+ */
+function createSnapshotId(snapshots: CSVSnapshot[]): string {
+  const latest = snapshots[snapshots.length - 1];
+  let time = Date.now();
+  if (latest && Date.parse(latest.saved_at) >= time) {
+    time = Date.parse(latest.saved_at) + 1;
+  }
+  return new Date(time).toISOString().replace(/[-:.]/g, '');
+}
+
+/**
+ * Get the time a snapshot was saved from its ID
+ *
+ * @param snapshotId Snapshot ID
+ * @returns Time in ISO 8601
+ */
+function getSnapshotTime(snapshotId: string): string {
+  const [, year, month, day, hour, minute, second, millisecond] = SNAPSHOT_ID_PATTERN.exec(snapshotId) || [];
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}.${millisecond}Z`;
+}
+
+/**
+ * Get the metadata saved next to a CSV snapshot
+ *
+ * @param contentHash Snapshot ID of the CSV content, from getSnapshotId
+ * @param metadata Metadata saved with the CSV
+ * @returns Content hash, the options the sheet was read with, and its row count and size
+ */
+function getSnapshotMetadata(contentHash: string, metadata: Record<string, any>): Record<string, any> {
+  return {
+    content_hash: contentHash,
+    read_options: metadata.read_options ?? null,
+    total_rows: metadata.total_rows,
+    total_size: metadata.total_size,
+  };
+}
+
+/**
+ * Check whether a stored snapshot has the same content and read options as new snapshot metadata
+ *
+ * @param snapshot Stored snapshot
+ * @param metadata New snapshot metadata, from getSnapshotMetadata
+ * @returns True if saving the new snapshot would repeat the stored one
+ */
+function isSameSnapshot(snapshot: CSVSnapshot, metadata: Record<string, any>): boolean {
+  return snapshot.content_hash === metadata.content_hash
+    && JSON.stringify(snapshot.read_options) === JSON.stringify(metadata.read_options);
+}
+
+/**
+ * Describe a stored CSV snapshot
+ *
+ * @param snapshotId Snapshot ID
+ * @param size Size of the stored snapshot in bytes
+ * @param metadata Metadata saved next to the snapshot, or null if it can't be read
+ * @returns Snapshot description
+ */
+function toCSVSnapshot(snapshotId: string, size: number, metadata: Record<string, any> | null): CSVSnapshot {
+  return {
+    id: snapshotId,
+    saved_at: getSnapshotTime(snapshotId),
+    size,
+    content_hash: metadata?.content_hash ?? null,
+    read_options: metadata?.read_options ?? null,
+    total_rows: metadata?.total_rows ?? null,
+    total_size: metadata?.total_size ?? null,
+  };
+}
+
 /**
  * Factory function to create storage instance
  *
@@ -705,7 +2289,7 @@ export function createStorage(storageType: string, options: StorageOptions): Sto
   logger.info(`Creating storage implementation for type: ${storageType}`);
   
   if (storageType === 'local') {
-    return new LocalStorage(options.storagePath, options.isFileProtocol);
+    return new LocalStorage(options.storagePath, options.isFileProtocol, options.snapshotRetention, options.compression);
   } else if (storageType === 's3') {
     if (!options.s3Bucket) {
       throw new Error('S3 bucket name is required for S3 storage');
@@ -718,7 +2302,9 @@ export function createStorage(storageType: string, options: StorageOptions): Sto
       options.s3Bucket,
       options.s3Region,
       options.s3Prefix || '',
-      options.s3UrlExpiration || 3600
+      options.s3UrlExpiration || 3600,
+      options.snapshotRetention,
+      options.compression
     );
   }
   throw new Error(`Unsupported storage type: ${storageType}`);
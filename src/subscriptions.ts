@@ -0,0 +1,299 @@
+/**
+ * Resource subscriptions: polling subscribed sheets for changes in Quip
+ */
+import { URL } from 'url';
+import { InvalidParamsError } from './errors';
+import { logger } from './logger';
+import { getThreadUpdatedUsec, loadSpreadsheet } from './sheets';
+import { createQuipClient } from './tools';
+import { StorageInterface } from './types';
+
+/**
+ * A subscribed sheet resource
+ */
+interface Subscription {
+  threadId: string;
+  sheetName?: string;
+
+  /**
+   * Quip update time of the thread when the sheet was last stored, or null if unknown
+   */
+  updatedUsec: number | null;
+}
+
+/**
+ * Options for a subscription poller
+ */
+export interface SubscriptionPollerOptions {
+  /**
+   * Interval between polls in seconds
+   */
+  pollInterval: number;
+
+  /**
+   * Whether to poll the mock Quip client
+   */
+  useMock: boolean;
+
+  /**
+   * Called with the URI of each subscribed resource once its sheet has been exported again
+   */
+  onUpdated: (uri: string) => Promise<void> | void;
+}
+
+/**
+ * Watches subscribed quip:// sheet resources for changes in Quip
+ *
+ * While there are subscriptions, the update time of each subscribed thread is checked on
+ * every poll, once per thread however many of its sheets are subscribed. When a thread has
+ * changed, each of its subscribed sheets is exported again with the read options it was
+ * stored with, and the subscribers are told the resource was updated.
+ */
+export class SubscriptionPoller {
+  private storage: StorageInterface;
+  private pollInterval: number;
+  private useMock: boolean;
+  private onUpdated: (uri: string) => Promise<void> | void;
+  private subscriptions: Map<string, Subscription>;
+  private timer: NodeJS.Timeout | null;
+  private polling: boolean;
+
+  /**
+   * Create a subscription poller
+   *
+   * @param storage Storage interface the sheets are stored in
+   * @param options Poll interval, Quip client mode and update callback
+   */
+  constructor(storage: StorageInterface, options: SubscriptionPollerOptions) {
+    this.storage = storage;
+    this.pollInterval = options.pollInterval;
+    this.useMock = options.useMock;
+    this.onUpdated = options.onUpdated;
+    this.subscriptions = new Map();
+    this.timer = null;
+    this.polling = false;
+  }
+
+  /**
+   * Subscribe to a sheet resource
+   *
+   * The change baseline is the update time the stored sheet was exported at, so a sheet
+   * that is already stale is exported again on the next poll.
+   *
+   * @param uri Resource URI, quip://{thread_id}?sheet={sheet_name}
+   * @throws InvalidParamsError if the URI is not a quip:// sheet resource
+   */
+  async subscribe(uri: string): Promise<void> {
+    const { threadId, sheetName } = parseSheetURI(uri);
+    if (this.subscriptions.has(uri)) {
+      return;
+    }
+
+    let updatedUsec = await this.getStoredUpdatedUsec(threadId, sheetName);
+    if (updatedUsec === null) {
+      updatedUsec = await getThreadUpdatedUsec(createQuipClient(this.useMock), threadId);
+    }
+    this.subscriptions.set(uri, { threadId, sheetName, updatedUsec });
+    logger.info(`Subscribed to ${uri}`, { updatedUsec, subscriptions: this.subscriptions.size });
+    this.start();
+  }
+
+  /**
+   * Unsubscribe from a sheet resource
+   *
+   * Polling stops once the last subscription is removed.
+   *
+   * @param uri Resource URI
+   */
+  unsubscribe(uri: string): void {
+    if (this.subscriptions.delete(uri)) {
+      logger.info(`Unsubscribed from ${uri}`, { subscriptions: this.subscriptions.size });
+    }
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Get the subscribed resource URIs
+   *
+   * @returns Subscribed URIs in subscription order
+   */
+  getSubscriptions(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  /**
+   * Check every subscribed thread once, exporting and reporting the sheets that changed
+   *
+   * A poll that starts while the previous one is still running is skipped.
+   *
+   * @returns Promise resolving to the URIs of the updated resources
+   */
+  async poll(): Promise<string[]> {
+    if (this.polling) {
+      logger.debug('Previous subscription poll is still running; skipping this one');
+      return [];
+    }
+
+    this.polling = true;
+    const updated: string[] = [];
+    try {
+      const threads = new Map<string, [string, Subscription][]>();
+      for (const entry of this.subscriptions) {
+        const subscriptions = threads.get(entry[1].threadId) ?? [];
+        subscriptions.push(entry);
+        threads.set(entry[1].threadId, subscriptions);
+      }
+
+      for (const [threadId, subscriptions] of threads) {
+        const updatedUsec = await getThreadUpdatedUsec(createQuipClient(this.useMock), threadId);
+        if (updatedUsec === null) {
+          continue;
+        }
+        for (const [uri, subscription] of subscriptions) {
+          if (subscription.updatedUsec === updatedUsec || !this.subscriptions.has(uri)) {
+            continue;
+          }
+          logger.info(`Thread ${threadId} changed; exporting ${uri} again`, {
+            previousUpdatedUsec: subscription.updatedUsec,
+            updatedUsec
+          });
+          try {
+            await this.refresh(subscription);
+          } catch (error) {
+            // Try again on the next poll
+            logger.warn(`Could not export subscribed resource ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+          }
+          subscription.updatedUsec = updatedUsec;
+          updated.push(uri);
+          await this.notifyUpdated(uri);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+    return updated;
+  }
+
+  /**
+   * Stop polling and drop every subscription
+   */
+  close(): void {
+    this.subscriptions.clear();
+    this.stop();
+  }
+
+  /**
+   * Start the poll timer if it isn't running
+   */
+  private start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.poll().catch(error => {
+        logger.error(`Subscription poll failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, this.pollInterval * 1000);
+    // Subscriptions alone shouldn't keep the process running
+    this.timer.unref();
+    logger.debug(`Polling subscribed threads every ${this.pollInterval} seconds`);
+  }
+
+  /**
+   * Stop the poll timer
+   */
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Export a subscribed sheet again with the read options it was stored with
+   *
+   * @param subscription Subscribed sheet
+   */
+  private async refresh(subscription: Subscription): Promise<void> {
+    const { threadId, sheetName } = subscription;
+    const metadata = await this.getStoredMetadata(threadId, sheetName);
+    const readOptions = metadata?.read_options ?? {};
+    await loadSpreadsheet(createQuipClient(this.useMock), this.storage, threadId, sheetName, {
+      typed: false,
+      formulas: false,
+      formatting: false,
+      layout: { fillMerged: readOptions.fillMerged === true, headerRows: readOptions.headerRows ?? undefined },
+      selection: readOptions.range || readOptions.namedRange
+        ? { range: readOptions.range ?? undefined, namedRange: readOptions.namedRange ?? undefined }
+        : null,
+      forceRefresh: false
+    });
+  }
+
+  /**
+   * Tell the subscribers a resource was updated, without failing the poll
+   *
+   * @param uri Resource URI
+   */
+  private async notifyUpdated(uri: string): Promise<void> {
+    try {
+      await this.onUpdated(uri);
+    } catch (error) {
+      logger.warn(`Could not report update of ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the Quip update time a stored sheet was exported at
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the update time, or null if the sheet isn't stored with one
+   */
+  private async getStoredUpdatedUsec(threadId: string, sheetName?: string): Promise<number | null> {
+    const metadata = await this.getStoredMetadata(threadId, sheetName);
+    return typeof metadata?.updated_usec === 'number' ? metadata.updated_usec : null;
+  }
+
+  /**
+   * Get the metadata of a stored sheet
+   *
+   * @param threadId Quip document thread ID
+   * @param sheetName Sheet name (optional)
+   * @returns Promise resolving to the metadata, or null if the sheet isn't stored
+   */
+  private async getStoredMetadata(threadId: string, sheetName?: string): Promise<Record<string, any> | null> {
+    try {
+      return await this.storage.getMetadata(threadId, sheetName);
+    } catch (error) {
+      logger.debug(`No stored metadata for thread ${threadId}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+}
+
+/**
+ * Parse a subscribable sheet resource URI
+ *
+ * @param uri Resource URI, quip://{thread_id}?sheet={sheet_name}
+ * @returns Thread ID and sheet name
+ * @throws InvalidParamsError if the URI is not a quip:// sheet resource
+ */
+export function parseSheetURI(uri: string): { threadId: string; sheetName?: string } {
+  let parsedUri: URL;
+  try {
+    parsedUri = new URL(uri);
+  } catch {
+    throw new InvalidParamsError(`Invalid resource URI: ${uri}`);
+  }
+  if (parsedUri.protocol !== 'quip:' || !parsedUri.hostname || parsedUri.pathname === '/document') {
+    throw new InvalidParamsError(`Only spreadsheet resources can be subscribed to, as quip://{thread_id}?sheet={sheet_name}: ${uri}`);
+  }
+  return {
+    threadId: parsedUri.hostname,
+    sheetName: parsedUri.searchParams.get('sheet') || undefined
+  };
+}
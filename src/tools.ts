@@ -1,11 +1,8 @@
 /**
  * Tool definitions and handlers for the Quip MCP Server
  */
-import * as fs from 'fs-extra';
-import * as os from 'os';
-import * as path from 'path';
 import { logger } from './logger';
-import { InvalidParamsError, QuipApiError } from './errors';
+import { InvalidParamsError, QuipApiError, TimeoutError } from './errors';
 // Define interfaces for MCP types
 export interface Tool {
   name: string;
@@ -26,12 +23,63 @@ export interface ImageContent {
 export interface EmbeddedResource {
   type: string;
   uri: string;
+  mimeType?: string;
 }
 
-import { QuipClient, convertXLSXToCSV } from './quipClient';
+import { QuipClient } from './quipClient';
+import { formatA1Range, parseA1Range } from './range';
 import { MockQuipClient } from './mockClient';
-import { StorageInterface } from './types';
+import { CSVSnapshot, CSVStreamSummary, CellFormatting, CellRange, CellUpdateResult, CellValue, FormulaCell, OutputFormat, SheetFilter, SheetInfo, SheetLayoutOptions, SheetQuery, SheetDiff, SheetSelection, SheetQueryResult, SheetSortKey, SqlQueryResult, SqlTable, StorageInterface, ThreadSearchResult, TypedSheet, WorkbookCacheStatus } from './types';
 import { truncateCSVContent } from './storage';
+import { convertHTMLToMarkdown, truncateMarkdownContent } from './markdown';
+import { FILTER_OPERATORS, querySheet } from './query';
+import { formatCSV, formatCSVField, getSnapshotId, readCSVPage } from './csv';
+import { buildSqlTable, runSQL } from './sql';
+import { profileSheet } from './profile';
+import { diffSheets } from './diff';
+import { loadSpreadsheet, loadSpreadsheetSheets } from './sheets';
+import { FORMAT_MIME_TYPES, OUTPUT_FORMATS, loadTypedSheet, readTypedPage, renderRows, toRecords, withFormat } from './formats';
+
+/**
+ * Default and maximum page sizes for quip_read_spreadsheet, in bytes and in rows
+ */
+const DEFAULT_PAGE_BYTES = 10 * 1024;
+const MAX_PAGE_BYTES = 100 * 1024;
+const DEFAULT_PAGE_ROWS = 100;
+const MAX_PAGE_ROWS = 10000;
+
+/**
+ * Maximum number of header rows quip_read_spreadsheet flattens into composite column names
+ */
+const MAX_HEADER_ROWS = 10;
+
+/**
+ * Default and maximum number of rows returned by quip_query_sheet
+ */
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+
+/**
+ * Default and maximum numbers of frequent values and sample values reported by quip_describe_sheet
+ */
+const DEFAULT_PROFILE_TOP_N = 5;
+const MAX_PROFILE_TOP_N = 50;
+const DEFAULT_PROFILE_SAMPLE_SIZE = 3;
+const MAX_PROFILE_SAMPLE_SIZE = 20;
+
+/**
+ * Default and maximum row cap and time limit (in milliseconds) for quip_sql
+ */
+const DEFAULT_SQL_MAX_ROWS = 1000;
+const MAX_SQL_MAX_ROWS = 10000;
+const DEFAULT_SQL_TIMEOUT_MS = 5000;
+const MAX_SQL_TIMEOUT_MS = 30000;
+
+/**
+ * Default and maximum number of rows listed per kind of change by quip_diff_sheet
+ */
+const DEFAULT_DIFF_LIMIT = 100;
+const MAX_DIFF_LIMIT = 1000;
 
 /**
  * Get the list of Quip tools available in this MCP server
@@ -42,7 +90,7 @@ export function getQuipTools(): Tool[] {
   return [
     {
       name: "quip_read_spreadsheet",
-      description: "Read the content of a Quip spreadsheet by its thread ID. Returns a JSON object containing truncated CSV content (limited to 10KB) and metadata. For large spreadsheets, the returned content may be truncated. To access the complete CSV data, use the resource interface with URI format: 'quip://{threadId}?sheet={sheetName}' for local storage, 'file:///<storage path>/{threadId}-{sheetName}.csv' for file protocol, 's3://{bucket}/{prefix}{threadId}-{sheetName}.csv' for S3 storage identification, or HTTPS URLs (presigned S3 URLs) for direct access to S3 resources when S3 storage is used. The returned data structure includes: { 'csv_content': string (possibly truncated CSV data), 'metadata': { 'rows': number, 'columns': number, 'is_truncated': boolean, 'resource_uri': string } }",
+      description: "Read the content of a Quip spreadsheet by its thread ID. The stored copy of the sheet is reused while the document is unchanged, unless forceRefresh is set. Returns a JSON object containing one page of content (10KB by default, see pageSize and pageUnit) and metadata. The content is CSV by default; with format set to json, ndjson or markdown it is returned under json_content (an array of objects keyed by the header row), ndjson_content or markdown_content instead, with native cell types when the XLSX export succeeds. Every CSV and Markdown page starts with the header row. For large spreadsheets, pass metadata.next_cursor as cursor to read the next page; cursors read from the snapshot of the sheet they were issued for, so pages don't shift if the sheet is refreshed meanwhile (a cursor only becomes stale once that snapshot is no longer kept, see quip_diff_sheet). To access the complete CSV data, use the resource interface with URI format: 'quip://{threadId}?sheet={sheetName}' for local storage, 'file:///<storage path>/{threadId}-{sheetName}.csv' for file protocol, 's3://{bucket}/{prefix}{threadId}-{sheetName}.csv' for S3 storage identification, or HTTPS URLs (presigned S3 URLs) for direct access to S3 resources when S3 storage is used. The returned data structure includes: { 'csv_content': string (one page of CSV data; or json_content, ndjson_content, markdown_content for other formats), 'metadata': { 'total_rows': number, 'total_size': number, 'is_truncated': boolean (true if more pages follow), 'resource_uri': string (with a format parameter for other formats), 'first_row': number (1-based data row number of the first row in the page), 'page_rows': number, 'next_cursor': string | null, 'format': string, 'mime_type': string, 'range'?: string (A1 range actually read, with range or namedRange), 'updated_usec': number | null (Quip update time of the stored export), 'source': string ('store' if the stored copy was still current and reused, 'export' if the sheet was exported), 'workbook_cache'?: string ('hit', 'miss' or 'bypass': whether the exported workbook came from the cache), 'native_types'?: boolean, 'formulas_available'?: boolean, 'formulas_note'?: string, 'formatting_available'?: boolean, 'formatting_note'?: string }, 'formulas'?: [{ 'cell': string, 'formula': string, 'value': string }] | null (formula cells in the page's data rows, with includeFormulas), 'formatting'?: [{ 'cell': string, 'hyperlink'?: string, 'bold'?: boolean, 'italic'?: boolean, 'color'?: string, 'number_format'?: string, 'comments'?: [{ 'author'?: string, 'text': string }] }] | null (formatted cells in the page's data rows, with includeFormatting) }",
       inputSchema: {
         type: "object",
         properties: {
@@ -53,14 +101,383 @@ export function getQuipTools(): Tool[] {
           sheetName: {
             type: "string",
             description: "Optional sheet or tab name to read from"
+          },
+          sheets: {
+            oneOf: [
+              { type: "string", enum: ["*"] },
+              { type: "array", items: { type: "string" }, minItems: 1 }
+            ],
+            description: "Read several sheets from a single export instead of one: '*' for every sheet, or a list of sheet names. Each sheet is stored under its own name and the response is { 'thread_id': string, 'sheets': [{ 'sheet_name': string, 'csv_content': string (first page; or the content key of the format), 'metadata': object (as for a single sheet) }] }. Can't be combined with sheetName, cursor, range, namedRange, includeFormulas or includeFormatting"
+          },
+          format: {
+            type: "string",
+            enum: ["csv", "json", "ndjson", "markdown"],
+            description: "Output format (default: csv). json returns an array of header-keyed objects in json_content, and json, ndjson and markdown keep native numbers, booleans and ISO 8601 dates from the XLSX cells"
+          },
+          range: {
+            type: "string",
+            description: "Optional range to read in A1 notation, e.g. 'B2:F40'. Its first non-empty row is the header row, and it is clipped to the populated cells of the sheet"
+          },
+          namedRange: {
+            type: "string",
+            description: "Optional named range of the workbook to read instead of range. It selects its own sheet when sheetName is omitted"
+          },
+          includeFormulas: {
+            type: "boolean",
+            description: "Also return the formula cells of the page's rows, each with its A1 address, formula and displayed value (default: false). Formulas are unavailable when the sheet can only be read through the HTML fallback"
+          },
+          includeFormatting: {
+            type: "boolean",
+            description: "Also return the formatted cells of the page's rows, each with its A1 address and any hyperlink target, bold, italic, text color, number format and comments (default: false). Hyperlinks, number formats and comments come from the XLSX export; the rest, and anything the XLSX export lacks, comes from the document HTML"
+          },
+          fillMerged: {
+            type: "boolean",
+            description: "Repeat the value of each merged cell in every cell it covers instead of leaving them empty (default: false)"
+          },
+          headerRows: {
+            type: "integer",
+            minimum: 1,
+            maximum: MAX_HEADER_ROWS,
+            description: "Number of header rows to flatten into composite column names such as 'Q1 / Revenue'. By default, multi-row headers are detected from merged cells, and merged title rows above the header are skipped"
+          },
+          pageSize: {
+            type: "integer",
+            minimum: 1,
+            description: `Page size in pageUnit (default: ${DEFAULT_PAGE_BYTES} bytes or ${DEFAULT_PAGE_ROWS} rows; at most ${MAX_PAGE_BYTES} bytes or ${MAX_PAGE_ROWS} rows)`
+          },
+          pageUnit: {
+            type: "string",
+            enum: ["bytes", "rows"],
+            description: "Whether pageSize counts bytes (header included) or data rows (default: bytes)"
+          },
+          cursor: {
+            type: "string",
+            description: "next_cursor from a previous response, to read the following page of the same stored snapshot without exporting the sheet again"
+          },
+          forceRefresh: {
+            type: "boolean",
+            description: "Export the sheet again even if the stored copy is still current (default: false). Ignored with cursor"
+          }
+        },
+        required: ["threadId"]
+      }
+    },
+    {
+      name: "quip_list_sheets",
+      description: "List every sheet (tab) in a Quip spreadsheet by its thread ID. Use this to pick a sheetName before calling quip_read_spreadsheet. The returned data structure is: { 'thread_id': string, 'sheets': [{ 'name': string, 'rows': number, 'columns': number, 'header_row': number | null (1-based), 'headers': string[] }] }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The Quip document thread ID"
+          }
+        },
+        required: ["threadId"]
+      }
+    },
+    {
+      name: "quip_search_threads",
+      description: "Search Quip for threads (spreadsheets and documents) matching a query, to discover thread IDs for the other tools. The returned data structure is: { 'query': string, 'results': [{ 'thread_id': string, 'title': string, 'type': string, 'link': string, 'updated_usec': number | null, 'updated_at': string | null (ISO 8601) }] }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Search query, matched against thread titles and content"
+          },
+          type: {
+            type: "string",
+            enum: ["spreadsheet", "document"],
+            description: "Optional thread type to restrict results to"
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 50,
+            description: "Maximum number of results to return (default: 10)"
+          }
+        },
+        required: ["query"]
+      }
+    },
+    {
+      name: "quip_read_document",
+      description: "Read a Quip document (any non-spreadsheet thread) by its thread ID and return it as Markdown. Headings, lists, checklists, links and inline tables are preserved; tables are rendered as Markdown tables. Returns a JSON object containing Markdown content (limited to 10KB) and metadata. To access the complete document, use the resource interface with the returned resource_uri ('quip://{threadId}/document' for local storage). The returned data structure includes: { 'markdown': string (possibly truncated), 'metadata': { 'title': string, 'total_size': number, 'is_truncated': boolean, 'resource_uri': string } }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The Quip document thread ID"
+          }
+        },
+        required: ["threadId"]
+      }
+    },
+    {
+      name: "quip_update_cells",
+      description: "Write values to a range of cells in a Quip spreadsheet. The range is given in A1 notation (e.g. 'B2:D4'); a single cell such as 'B2' is expanded to the size of the values. Values are a 2D array of rows whose size must match the range. Stored CSV for the thread is discarded afterwards, so the next quip_read_spreadsheet call fetches fresh data. The returned data structure is: { 'thread_id': string, 'sheet_name': string, 'range': string, 'updated_cells': number }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The Quip document thread ID"
+          },
+          sheetName: {
+            type: "string",
+            description: "Sheet or tab name to update"
+          },
+          range: {
+            type: "string",
+            description: "Target range in A1 notation, e.g. 'B2:D4', or the top-left cell of the values"
+          },
+          values: {
+            type: "array",
+            description: "Rows of cell values to write",
+            items: {
+              type: "array",
+              items: {
+                type: ["string", "number", "boolean", "null"]
+              }
+            }
+          }
+        },
+        required: ["threadId", "sheetName", "range", "values"]
+      }
+    },
+    {
+      name: "quip_append_rows",
+      description: "Append rows to a Quip spreadsheet, e.g. to log results into a shared sheet. Each row is an object keyed by column header; values are placed under the matching columns of the sheet's existing header row (matched exactly, then case-insensitively) and missing columns are left blank. Keys that don't match a header are rejected unless allowUnknownColumns is true, in which case they are dropped. Rows are inserted after the last non-empty row. The returned data structure is: { 'thread_id': string, 'sheet_name': string, 'appended_rows': number, 'columns': string[], 'ignored_columns': string[] }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The Quip document thread ID"
+          },
+          sheetName: {
+            type: "string",
+            description: "Optional sheet or tab name to append to (default: first sheet)"
+          },
+          rows: {
+            type: "array",
+            description: "Rows to append, as objects keyed by column header",
+            items: {
+              type: "object",
+              additionalProperties: {
+                type: ["string", "number", "boolean", "null"]
+              }
+            }
+          },
+          allowUnknownColumns: {
+            type: "boolean",
+            description: "Drop keys that don't match a column header instead of rejecting the request (default: false)"
+          }
+        },
+        required: ["threadId", "rows"]
+      }
+    },
+    {
+      name: "quip_query_sheet",
+      description: "Query the rows of a spreadsheet that was already read with quip_read_spreadsheet, without fetching the full resource. Runs against the stored CSV: filters rows (operators: equals, not_equals, contains, gt, gte, lt, lte, regex; combined with AND; text comparisons are case-insensitive unless caseSensitive is true), sorts them, selects columns and pages with offset/limit. Column names are matched to the header row (the first non-empty row). Numeric comparisons and sorting use numbers when values parse as numbers. The returned data structure is: { 'csv_content': string (header plus matching rows, limited to 10KB), 'metadata': { 'total_matches': number, 'returned_rows': number, 'offset': number, 'limit': number, 'next_offset': number | null, 'is_truncated': boolean, 'columns': string[], 'resource_uri': string } }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The Quip document thread ID"
+          },
+          sheetName: {
+            type: "string",
+            description: "Optional sheet or tab name, as passed to quip_read_spreadsheet"
+          },
+          columns: {
+            type: "array",
+            items: { type: "string" },
+            description: "Columns to return, in order (default: all columns)"
+          },
+          filters: {
+            type: "array",
+            description: "Filters that every returned row must match",
+            items: {
+              type: "object",
+              properties: {
+                column: { type: "string", description: "Column header to test" },
+                operator: { type: "string", enum: FILTER_OPERATORS },
+                value: {
+                  type: ["string", "number", "boolean"],
+                  description: "Value to compare against (a regular expression for 'regex')"
+                },
+                caseSensitive: { type: "boolean", description: "Compare text case-sensitively (default: false)" }
+              },
+              required: ["column", "operator", "value"]
+            }
+          },
+          sort: {
+            type: "array",
+            description: "Sort keys, most significant first",
+            items: {
+              type: "object",
+              properties: {
+                column: { type: "string", description: "Column header to sort by" },
+                direction: { type: "string", enum: ["asc", "desc"], description: "Sort direction (default: asc)" }
+              },
+              required: ["column"]
+            }
+          },
+          offset: {
+            type: "integer",
+            minimum: 0,
+            description: "Number of matching rows to skip (default: 0)"
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: MAX_QUERY_LIMIT,
+            description: `Maximum number of rows to return (default: ${DEFAULT_QUERY_LIMIT})`
+          }
+        },
+        required: ["threadId"]
+      }
+    },
+    {
+      name: "quip_describe_sheet",
+      description: "Describe the columns of a spreadsheet that was already read with quip_read_spreadsheet, so you can see what a large sheet contains before reading or querying it. The header row is the first non-empty row. For every column it returns the inferred type (number, date, boolean or string), blank count, distinct count, min/max/mean for number columns, the most frequent values and sample values. The returned data structure is: { 'thread_id': string, 'sheet_name': string | null, 'header_row': number | null (1-based), 'data_rows': number, 'columns': [{ 'name': string, 'column': string (letter), 'type': string, 'blank_count': number, 'distinct_count': number, 'min'?: number, 'max'?: number, 'mean'?: number, 'top_values': [{ 'value': string, 'count': number }], 'samples': string[] }], 'cached': boolean, 'resource_uri': string }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The Quip document thread ID"
+          },
+          sheetName: {
+            type: "string",
+            description: "Optional sheet name, as passed to quip_read_spreadsheet"
+          },
+          topN: {
+            type: "integer",
+            minimum: 1,
+            maximum: MAX_PROFILE_TOP_N,
+            description: `Number of most frequent values to report per column (default: ${DEFAULT_PROFILE_TOP_N})`
+          },
+          sampleSize: {
+            type: "integer",
+            minimum: 0,
+            maximum: MAX_PROFILE_SAMPLE_SIZE,
+            description: `Number of sample values to report per column (default: ${DEFAULT_PROFILE_SAMPLE_SIZE})`
           }
         },
         required: ["threadId"]
       }
+    },
+    {
+      name: "quip_sql",
+      description: "Run a read-only SQL SELECT over one or more spreadsheets that were already read with quip_read_spreadsheet. Each sheet is loaded from storage into an in-memory SQLite database as a table; use it for joins between tabs, GROUP BY, window functions and anything beyond quip_query_sheet. Column names come from the header row (the first non-empty row; quote names with spaces as \"Column Name\") and column types (INTEGER, REAL or TEXT) are inferred from the data; empty cells are NULL. Table names default to the sheet name (or thread ID) with non-alphanumeric characters replaced by underscores. The returned data structure is: { 'csv_content': string (result as CSV, limited to 10KB), 'metadata': { 'total_rows': number, 'total_size': number, 'is_truncated': boolean, 'resource_uri': null, 'columns': string[], 'row_cap_reached': boolean, 'tables': [{ 'name': string, 'thread_id': string, 'sheet_name': string | null, 'columns': [{ 'name': string, 'type': string }], 'rows': number }] } }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tables: {
+            type: "array",
+            description: "Stored sheets to load as tables",
+            minItems: 1,
+            items: {
+              type: "object",
+              properties: {
+                threadId: { type: "string", description: "The Quip document thread ID" },
+                sheetName: { type: "string", description: "Optional sheet name, as passed to quip_read_spreadsheet" },
+                name: { type: "string", description: "Optional table name (default: derived from the sheet name or thread ID)" }
+              },
+              required: ["threadId"]
+            }
+          },
+          sql: {
+            type: "string",
+            description: "A single SELECT (or WITH ... SELECT) statement"
+          },
+          maxRows: {
+            type: "integer",
+            minimum: 1,
+            maximum: MAX_SQL_MAX_ROWS,
+            description: `Maximum number of result rows (default: ${DEFAULT_SQL_MAX_ROWS})`
+          },
+          timeoutMs: {
+            type: "integer",
+            minimum: 100,
+            maximum: MAX_SQL_TIMEOUT_MS,
+            description: `Time limit for loading the tables and running the query, in milliseconds (default: ${DEFAULT_SQL_TIMEOUT_MS})`
+          }
+        },
+        required: ["tables", "sql"]
+      }
+    },
+    {
+      name: "quip_diff_sheet",
+      description: "Compare two stored snapshots of a spreadsheet to see what changed over time. Every quip_read_spreadsheet export of a sheet saves a snapshot unless nothing changed since the last one, and the most recent ones are kept (10 by default). Snapshots are only compared if the sheet was read with the same options (range, named range, header rows, merged-cell filling). Rows are matched by a key column whose values are unique, and cells are compared as text in the columns both snapshots have. By default the latest snapshot is compared with the latest earlier one read with the same options; from and to take a snapshot ID or an ISO 8601 date or time, which picks the latest snapshot saved at or before it. The returned data structure is: { 'thread_id': string, 'sheet_name': string | null, 'key_column': string, 'from': { 'id': string, 'saved_at': string, 'size': number, 'content_hash': string | null, 'read_options': object | null, 'total_rows': number | null, 'total_size': number | null }, 'to': { 'id': string, 'saved_at': string, 'size': number, 'content_hash': string | null, 'read_options': object | null, 'total_rows': number | null, 'total_size': number | null }, 'summary': { 'added': number, 'removed': number, 'changed': number, 'unchanged': number, 'blank_keys': number }, 'columns_added': string[], 'columns_removed': string[], 'added': [{ 'key': string, 'row': number, 'values': object }], 'removed': [{ 'key': string, 'row': number, 'values': object }], 'changed': [{ 'key': string, 'row_before': number, 'row_after': number, 'changes': [{ 'column': string, 'before': string, 'after': string }] }], 'is_truncated': boolean, 'snapshots': [{ 'id': string, 'saved_at': string, 'size': number, 'content_hash': string | null, 'read_options': object | null, 'total_rows': number | null, 'total_size': number | null }] }",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The Quip document thread ID"
+          },
+          sheetName: {
+            type: "string",
+            description: "Optional sheet name, as passed to quip_read_spreadsheet"
+          },
+          keyColumn: {
+            type: "string",
+            description: "Column header whose values identify rows, such as an ID column"
+          },
+          from: {
+            type: "string",
+            description: "Earlier snapshot: a snapshot ID, or an ISO 8601 date or time (default: the latest snapshot before 'to' read with the same options)"
+          },
+          to: {
+            type: "string",
+            description: "Later snapshot: a snapshot ID, or an ISO 8601 date or time (default: the latest snapshot)"
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: MAX_DIFF_LIMIT,
+            description: `Maximum number of added, removed and changed rows to list, each (default: ${DEFAULT_DIFF_LIMIT})`
+          }
+        },
+        required: ["threadId", "keyColumn"]
+      }
     }
   ];
 }
 
+/**
+ * Create a Quip client for the current mode
+ *
+ * @param useMock Whether to use the mock client instead of the real Quip API
+ * @returns Quip client instance
+ * @throws QuipApiError if QUIP_TOKEN is not set in non-mock mode
+ */
+export function createQuipClient(useMock: boolean): QuipClient | MockQuipClient {
+  if (useMock) {
+    // Use mock client
+    logger.info('Using mock Quip client');
+    return new MockQuipClient();
+  }
+  
+  // Get Quip token from environment
+  const quipToken = process.env.QUIP_TOKEN;
+  const quipBaseUrl = process.env.QUIP_BASE_URL || "https://platform.quip.com";
+  
+  if (!quipToken) {
+    logger.error('QUIP_TOKEN environment variable is not set');
+    throw new QuipApiError("QUIP_TOKEN environment variable is not set");
+  }
+  
+  // Initialize real Quip client
+  return new QuipClient(quipToken, quipBaseUrl);
+}
+
 /**
  * Handle the quip_read_spreadsheet tool
  *
@@ -75,114 +492,308 @@ export async function handleQuipReadSpreadsheet(
 ): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
   const threadId = args.threadId;
   const sheetName = args.sheetName;
+  const format: OutputFormat = args.format ?? 'csv';
+  const includeFormulas = args.includeFormulas === true;
+  const includeFormatting = args.includeFormatting === true;
+  const fillMerged = args.fillMerged === true;
+  const headerRows = args.headerRows;
+  const forceRefresh = args.forceRefresh === true;
+  const selection: SheetSelection | null = args.range !== undefined || args.namedRange !== undefined
+    ? { range: args.range, namedRange: args.namedRange }
+    : null;
+  const pageUnit = args.pageUnit ?? 'bytes';
   
   if (!threadId) {
     throw new InvalidParamsError("threadId is required");
   }
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new InvalidParamsError(`format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (headerRows !== undefined && (!Number.isInteger(headerRows) || headerRows < 1 || headerRows > MAX_HEADER_ROWS)) {
+    throw new InvalidParamsError(`headerRows must be an integer between 1 and ${MAX_HEADER_ROWS}`);
+  }
+  if (selection) {
+    validateSheetSelection(selection);
+  }
+  if (pageUnit !== 'bytes' && pageUnit !== 'rows') {
+    throw new InvalidParamsError("pageUnit must be 'bytes' or 'rows'");
+  }
+  const maxPageSize = pageUnit === 'rows' ? MAX_PAGE_ROWS : MAX_PAGE_BYTES;
+  const pageSize = args.pageSize ?? (pageUnit === 'rows' ? DEFAULT_PAGE_ROWS : DEFAULT_PAGE_BYTES);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > maxPageSize) {
+    throw new InvalidParamsError(`pageSize must be an integer between 1 and ${maxPageSize} when pageUnit is '${pageUnit}'`);
+  }
+  const limits = pageUnit === 'rows' ? { maxRows: pageSize, maxBytes: MAX_PAGE_BYTES } : { maxBytes: pageSize };
+  
+  if (args.sheets !== undefined) {
+    const sheets = validateSheetList(args);
+    logger.info(`Reading sheets from thread ${threadId}`, { sheets, mock: useMock, format, fillMerged, headerRows, pageSize, pageUnit });
+    const response = await readSpreadsheetSheets(createQuipClient(useMock), storage, threadId, sheets, {
+      format,
+      layout: { fillMerged, headerRows },
+      limits
+    });
+    return [{ type: "text", text: JSON.stringify(response) }];
+  }
+  
+  const cursor = args.cursor !== undefined ? decodePageCursor(args.cursor, threadId, sheetName, format) : null;
   
   logger.info(`Reading spreadsheet from thread ${threadId}`, {
     sheet: sheetName || 'default',
-    mock: useMock
+    mock: useMock,
+    format,
+    includeFormulas,
+    includeFormatting,
+    fillMerged,
+    headerRows,
+    range: args.range,
+    namedRange: args.namedRange,
+    forceRefresh,
+    pageSize,
+    pageUnit,
+    cursor: cursor !== null
   });
   
-  // Initialize client based on mode
-  let client;
-  
-  if (useMock) {
-    // Use mock client
-    logger.info('Using mock Quip client');
-    client = new MockQuipClient();
-  } else {
-    // Get Quip token from environment
-    const quipToken = process.env.QUIP_TOKEN;
-    const quipBaseUrl = process.env.QUIP_BASE_URL || "https://platform.quip.com";
-    
-    if (!quipToken) {
-      logger.error('QUIP_TOKEN environment variable is not set');
-      throw new QuipApiError("QUIP_TOKEN environment variable is not set");
+  let csvData: string | null;
+  let typedSheet: TypedSheet | null = null;
+  let formulas: FormulaCell[] | null = null;
+  let formatting: CellFormatting[] | null = null;
+  let range: string | null = null;
+  let cacheStatus: WorkbookCacheStatus | null = null;
+  let source: 'store' | 'export' = 'store';
+  let streamed: CSVStreamSummary | null = null;
+  let snapshot: CSVSnapshot | null = null;
+  if (cursor) {
+    // Continue from the snapshot the cursor was issued for, even if the sheet was refreshed since
+    ({ csv: csvData, snapshot } = await loadCursorSnapshot(storage, threadId, sheetName, cursor.snapshot));
+    range = cursor.range ?? null;
+    if (format !== 'csv') {
+      typedSheet = await loadTypedSheet(storage, threadId, sheetName, csvData);
     }
-    
-    // Initialize real Quip client
-    client = new QuipClient(quipToken, quipBaseUrl);
+    if (includeFormulas) {
+      const stored = await storage.getFormulas(threadId, sheetName);
+      formulas = stored && stored.snapshot === cursor.snapshot ? stored.cells : null;
+    }
+    if (includeFormatting) {
+      const stored = await storage.getFormatting(threadId, sheetName);
+      formatting = stored && stored.snapshot === cursor.snapshot ? stored.cells : null;
+    }
+  } else {
+    const loaded = await loadSpreadsheet(createQuipClient(useMock), storage, threadId, sheetName, {
+      typed: format !== 'csv',
+      formulas: includeFormulas,
+      formatting: includeFormatting,
+      layout: { fillMerged, headerRows },
+      selection,
+      forceRefresh,
+      previewBytes: limits.maxBytes
+    });
+    csvData = loaded.csv;
+    typedSheet = loaded.typedSheet;
+    formulas = loaded.formulas;
+    formatting = loaded.formatting;
+    range = loaded.range;
+    cacheStatus = loaded.workbookCache;
+    source = loaded.source;
+    streamed = loaded.streamed;
   }
   
-  // Variable to store CSV data
-  let csvData: string | null = null;
+  // Read one page of rows, starting after the header or where the cursor points
+  const { content, metadata, rowNumbers: pageRowNumbers } = await readSheetPage(storage, threadId, sheetName, csvData, {
+    typedSheet,
+    format,
+    limits,
+    cursor,
+    range,
+    streamed,
+    snapshot
+  });
   
-  try {
-    // Check if the thread is a spreadsheet
-    if (!await client.isSpreadsheet(threadId)) {
-      logger.error(`Thread ${threadId} is not a spreadsheet or does not exist`);
-      throw new QuipApiError(`Thread ${threadId} is not a spreadsheet or does not exist`);
-    }
-
-    // Try primary export method first
-    let errorMessage: string | null = null;
-    
-    try {
-      // Export thread to XLSX first
-      logger.info(`Attempting primary export method: XLSX for thread ${threadId}`);
-      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-mcp-'));
-      const xlsxPath = path.join(tempDir, `${threadId}.xlsx`);
-      
-      await client.exportThreadToXLSX(threadId, xlsxPath);
-      
-      // Convert XLSX to CSV
-      logger.info(`Converting sheet '${sheetName || 'default'}' from XLSX to CSV`);
-      csvData = convertXLSXToCSV(xlsxPath, sheetName);
-      
-      // Clean up temporary XLSX file
-      await fs.remove(xlsxPath);
-      await fs.remove(tempDir);
-    } catch (error) {
-      errorMessage = error instanceof Error ? error.message : String(error);
-      logger.warn(`Primary export method failed: ${errorMessage}`);
-      logger.info("Attempting fallback export method");
-      
-      try {
-        // Try fallback method
-        csvData = await client.exportThreadToCSVFallback(threadId, sheetName);
-        logger.info("Successfully exported using fallback method");
-      } catch (fallbackError) {
-        const fallbackErrorMsg = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-        logger.error(`Fallback export method also failed: ${fallbackErrorMsg}`);
-        throw new QuipApiError(`Failed to export spreadsheet. Primary error: ${errorMessage}, Fallback error: ${fallbackErrorMsg}`);
-      }
-    }
-    
-    if (!csvData) {
-      throw new QuipApiError("Failed to export data: no CSV content generated");
+  metadata.source = source;
+  if (cacheStatus !== null) {
+    metadata.workbook_cache = cacheStatus;
+  }
+  if (includeFormulas) {
+    metadata.formulas_available = formulas !== null;
+    if (formulas === null) {
+      metadata.formulas_note = cursor
+        ? 'Formulas were not stored for this snapshot; read again with includeFormulas and without a cursor'
+        : 'Formulas are unavailable because the sheet could only be read through the HTML fallback';
     }
-  } catch (error) {
-    if (error instanceof QuipApiError) {
-      throw error;
+  }
+  if (includeFormatting) {
+    metadata.formatting_available = formatting !== null;
+    if (formatting === null) {
+      metadata.formatting_note = 'Formatting was not stored for this snapshot; read again with includeFormatting and without a cursor';
     }
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error(`Error handling quip_read_spreadsheet: ${errorMessage}`);
-    throw new QuipApiError(`Error handling quip_read_spreadsheet: ${errorMessage}`);
   }
-
-  // At this point, csvData should be populated
-  if (!csvData) {
-    throw new QuipApiError("Unexpected error: CSV data is null after successful export");
+  
+  // Create response with the page content, keyed by format, and metadata
+  const responseData: Record<string, any> = {
+    [`${format}_content`]: content,
+    metadata: metadata
+  };
+  
+  // Cell layers only cover the cells in the page's data rows
+  const rowNumbers = new Set(pageRowNumbers);
+  const isInPage = (cell: { cell: string }) => rowNumbers.has(parseA1Range(cell.cell).startRow + 1);
+  if (includeFormulas) {
+    responseData.formulas = formulas && formulas.filter(isInPage);
   }
-
-  // Save the full CSV content to storage
-  const storageId = await storage.saveCSV(threadId, csvData, sheetName);
-  logger.info(`Saved spreadsheet data to storage with ID: ${storageId}`, {
-    sheet: sheetName || 'default'
+  if (includeFormatting) {
+    responseData.formatting = formatting && formatting.filter(isInPage);
+  }
+  
+  logger.info(`Returning spreadsheet data for thread ${threadId}`, {
+    sheet: sheetName || 'default',
+    format,
+    rows: metadata.total_rows,
+    firstRow: metadata.first_row,
+    pageRows: metadata.page_rows,
+    truncated: metadata.is_truncated
   });
   
-  // Get metadata
-  const metadata = await storage.getMetadata(threadId, sheetName);
+  // Convert to JSON and return
+  return [{ type: "text", text: JSON.stringify(responseData) }];
+}
+
+/**
+ * Read several sheets of a spreadsheet from a single export and store each of them
+ *
+ * Every sheet is stored under its own sheet name, as if it had been read on its own, and
+ * the response holds the first page of each with its resource URI and cursor.
+ *
+ * @param client Quip client
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetNames Names of the sheets to read, or '*' for every sheet
+ * @param options Output format, merged cell and header options, and page limits
+ * @returns Promise resolving to the thread ID and the first page of each sheet, in order
+ * @throws QuipApiError if the thread is not a spreadsheet or the sheets cannot be exported
+ */
+async function readSpreadsheetSheets(
+  client: QuipClient | MockQuipClient,
+  storage: StorageInterface,
+  threadId: string,
+  sheetNames: string[] | '*',
+  options: { format: OutputFormat; layout: SheetLayoutOptions; limits: { maxRows?: number; maxBytes: number } }
+): Promise<Record<string, any>> {
+  const { format, layout, limits } = options;
+  const loaded = await loadSpreadsheetSheets(client, storage, threadId, sheetNames, { typed: format !== 'csv', layout });
+  
+  // Sheets are independent, so they're paged concurrently
+  const pages = await Promise.all(loaded.sheets.map(async sheet => {
+    const page = await readSheetPage(storage, threadId, sheet.name, sheet.csv, {
+      typedSheet: sheet.typedSheet,
+      format,
+      limits,
+      cursor: null,
+      range: null
+    });
+    page.metadata.source = 'export';
+    if (loaded.workbookCache !== null) {
+      page.metadata.workbook_cache = loaded.workbookCache;
+    }
+    return { sheet_name: sheet.name, [`${format}_content`]: page.content, metadata: page.metadata };
+  }));
   
-  // Truncate CSV content if it's too large (> 10KB)
-  const MAX_SIZE = 10 * 1024; // 10KB
-  const [truncatedCsv, isTruncated] = truncateCSVContent(csvData, MAX_SIZE);
+  logger.info(`Returning ${pages.length} sheets for thread ${threadId}`, { format });
+  return { thread_id: threadId, sheets: pages };
+}
+
+/**
+ * Read one page of a stored sheet and describe it in a copy of the sheet's metadata
+ *
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetName Sheet name (optional)
+ * @param csvData Stored CSV content of the sheet, or the preview of a streamed sheet
+ * @param options Typed content for formats other than CSV, output format, page limits, the
+ *   cursor to continue from, the A1 range the sheet was read with, the summary of the
+ *   streamed sheet that csvData is the preview of (optional), and the retained snapshot
+ *   that csvData was read from if the stored sheet was refreshed since (optional)
+ * @returns Promise resolving to the page content, the metadata with paging info, and the
+ *   sheet row numbers of the page's data rows
+ */
+async function readSheetPage(
+  storage: StorageInterface,
+  threadId: string,
+  sheetName: string | undefined,
+  csvData: string,
+  options: {
+    typedSheet: TypedSheet | null;
+    format: OutputFormat;
+    limits: { maxRows?: number; maxBytes: number };
+    cursor: PageCursor | null;
+    range: string | null;
+    streamed?: CSVStreamSummary | null;
+    snapshot?: CSVSnapshot | null;
+  }
+): Promise<{ content: string | Record<string, CellValue>[]; metadata: Record<string, any>; rowNumbers: number[] }> {
+  const { typedSheet, format, limits, cursor, range } = options;
+  const streamed = options.streamed ?? null;
+  const snapshot = options.snapshot ?? null;
+  
+  // Get metadata, copied so paging info doesn't end up in the cached metadata
+  const metadata = { ...await storage.getMetadata(threadId, sheetName) };
+  if (snapshot !== null) {
+    // The stored sheet was refreshed, so describe the snapshot the page is read from instead
+    metadata.total_rows = snapshot.total_rows;
+    metadata.total_size = snapshot.total_size;
+    metadata.read_options = snapshot.read_options;
+    delete metadata.range;
+  }
+  
+  let content: string | Record<string, CellValue>[];
+  let pageRows: number;
+  let nextOffset: number | null;
+  let rowNumbers: number[];
+  const firstRow = cursor?.row ?? 1;
+  if (typedSheet) {
+    // Typed pages are positioned by row index rather than by character offset
+    const start = cursor?.offset ?? 0;
+    const page = readTypedPage(typedSheet, format, limits, start);
+    content = format === 'json'
+      ? toRecords(typedSheet.headers, page.rows)
+      : renderRows(typedSheet.headers, page.rows, format);
+    pageRows = page.rows.length;
+    nextOffset = page.next_row;
+    rowNumbers = typedSheet.row_numbers.slice(start, start + pageRows);
+  } else {
+    const page = readCSVPage(csvData, limits, cursor?.offset);
+    content = page.content;
+    pageRows = page.rows;
+    // Rows past the end of a partial preview are still stored, starting where the preview ends
+    nextOffset = page.next_offset === null && streamed !== null && !streamed.preview_complete
+      ? csvData.length
+      : page.next_offset;
+    // Each CSV record is one sheet row, so data rows follow the header record's row
+    rowNumbers = Array.from({ length: pageRows }, (_, index) => page.header_row + firstRow + index + 1);
+  }
+  const nextCursor = nextOffset === null ? null : encodePageCursor({
+    thread: threadId,
+    sheet: sheetName ?? null,
+    format,
+    snapshot: streamed?.snapshot ?? getSnapshotId(csvData),
+    offset: nextOffset,
+    row: firstRow + pageRows,
+    range
+  });
   
-  // Update metadata with truncation info
-  metadata.is_truncated = isTruncated;
-  if (metadata.resource_uri.startsWith('s3+https://') && 
+  // Update metadata with paging info
+  metadata.is_truncated = nextCursor !== null;
+  metadata.first_row = firstRow;
+  metadata.page_rows = pageRows;
+  metadata.next_cursor = nextCursor;
+  metadata.format = format;
+  metadata.mime_type = FORMAT_MIME_TYPES[format];
+  if (range !== null) {
+    metadata.range = range;
+  }
+  if (typedSheet) {
+    metadata.native_types = typedSheet.native_types;
+    metadata.resource_uri = withFormat(metadata.resource_uri, format);
+  } else if (metadata.resource_uri.startsWith('s3+https://') && 
         typeof (storage as any).generatePresignedUrl === 'function') {
     logger.debug(`Converting s3+https:// URI to presigned URL for thread_id: ${threadId}, sheet_name: ${sheetName || 'default'}`);
     try {
@@ -197,18 +808,1075 @@ export async function handleQuipReadSpreadsheet(
     }
   }
   
-  // Create response with CSV content and metadata
-  const responseData = {
-    csv_content: truncatedCsv,
-    metadata: metadata
-  };
+  return { content, metadata, rowNumbers };
+}
+
+/**
+ * Get the CSV content a page cursor was issued for
+ *
+ * The stored sheet is used while it still has that content. Once the sheet has been
+ * refreshed, the content is looked up among its retained snapshots by the content hash
+ * stored with each of them, newest first.
+ *
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetName Sheet name (optional)
+ * @param snapshot Snapshot ID of the content, as computed by getSnapshotId
+ * @returns Promise resolving to the CSV content, and the retained snapshot it was read from,
+ *   or null if it is the stored sheet
+ * @throws InvalidParamsError if the content is neither stored nor kept as a snapshot anymore
+ */
+async function loadCursorSnapshot(
+  storage: StorageInterface,
+  threadId: string,
+  sheetName: string | undefined,
+  snapshot: string
+): Promise<{ csv: string; snapshot: CSVSnapshot | null }> {
+  const current = await storage.getCSV(threadId, sheetName);
+  if (current !== null && getSnapshotId(current) === snapshot) {
+    return { csv: current, snapshot: null };
+  }
   
-  logger.info(`Returning spreadsheet data for thread ${threadId}`, {
-    sheet: sheetName || 'default',
-    rows: metadata.total_rows,
+  const snapshots = await storage.listCSVSnapshots(threadId, sheetName);
+  const saved = [...snapshots].reverse().find(candidate => candidate.content_hash === snapshot);
+  // A snapshot beyond the retention may be dropped by a concurrent read
+  const content = saved ? await storage.getCSVSnapshot(threadId, saved.id, sheetName) : null;
+  if (saved && content !== null) {
+    logger.info(`Stored sheet of thread ${threadId} was refreshed; continuing from snapshot ${saved.id}`, {
+      sheet: sheetName || 'default'
+    });
+    return { csv: content, snapshot: saved };
+  }
+  throw new InvalidParamsError(
+    `Cursor is stale: the snapshot of thread ${threadId} it was issued for is no longer kept; read again without a cursor`
+  );
+}
+
+/**
+ * Position in a stored sheet snapshot, encoded into quip_read_spreadsheet cursors
+ */
+interface PageCursor {
+  thread: string;
+  sheet: string | null;
+  format: OutputFormat;
+  snapshot: string;
+  offset: number;
+  row: number;
+  range: string | null;
+}
+
+/**
+ * Encode a page cursor as an opaque string
+ *
+ * @param cursor Page cursor
+ * @returns Base64url-encoded cursor
+ */
+function encodePageCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a page cursor and check that it belongs to the requested sheet
+ *
+ * @param value Cursor passed by the client
+ * @param threadId Requested thread ID
+ * @param sheetName Requested sheet name (optional)
+ * @param format Requested output format
+ * @returns Decoded page cursor
+ * @throws InvalidParamsError if the cursor is malformed or was issued for another sheet or format
+ */
+function decodePageCursor(value: any, threadId: string, sheetName: string | undefined, format: OutputFormat): PageCursor {
+  let cursor: PageCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(String(value), 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidParamsError("Invalid cursor");
+  }
+  if (!cursor || typeof cursor.snapshot !== 'string' || !Number.isInteger(cursor.offset) || cursor.offset < 0 ||
+      !Number.isInteger(cursor.row) || cursor.row < 1) {
+    throw new InvalidParamsError("Invalid cursor");
+  }
+  if (cursor.thread !== threadId || cursor.sheet !== (sheetName ?? null)) {
+    throw new InvalidParamsError("Cursor was issued for a different thread or sheet");
+  }
+  if (cursor.format !== format) {
+    throw new InvalidParamsError(`Cursor was issued for format '${cursor.format}'; pass the same format to continue`);
+  }
+  return cursor;
+}
+
+/**
+ * Handle the quip_list_sheets tool
+ *
+ * @param args Tool arguments
+ * @param useMock Whether to use the mock client
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipListSheets(
+  args: Record<string, any>,
+  useMock: boolean = false
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const threadId = args.threadId;
+  
+  if (!threadId) {
+    throw new InvalidParamsError("threadId is required");
+  }
+  
+  logger.info(`Listing sheets for thread ${threadId}`, { mock: useMock });
+  
+  const client = createQuipClient(useMock);
+  
+  if (!await client.isSpreadsheet(threadId)) {
+    logger.error(`Thread ${threadId} is not a spreadsheet or does not exist`);
+    throw new QuipApiError(`Thread ${threadId} is not a spreadsheet or does not exist`);
+  }
+  
+  let sheets: SheetInfo[];
+  try {
+    sheets = await client.listSheets(threadId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error handling quip_list_sheets: ${errorMessage}`);
+    throw new QuipApiError(`Failed to list sheets: ${errorMessage}`);
+  }
+  
+  logger.info(`Found ${sheets.length} sheets in thread ${threadId}`);
+  
+  return [{ type: "text", text: JSON.stringify({ thread_id: threadId, sheets }) }];
+}
+
+/**
+ * Handle the quip_search_threads tool
+ *
+ * @param args Tool arguments
+ * @param useMock Whether to use the mock client
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipSearchThreads(
+  args: Record<string, any>,
+  useMock: boolean = false
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const query = typeof args.query === 'string' ? args.query.trim() : '';
+  const type = args.type;
+  const limit = args.limit ?? 10;
+  
+  if (!query) {
+    throw new InvalidParamsError("query is required");
+  }
+  if (type !== undefined && type !== 'spreadsheet' && type !== 'document') {
+    throw new InvalidParamsError("type must be 'spreadsheet' or 'document'");
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+    throw new InvalidParamsError("limit must be an integer between 1 and 50");
+  }
+  
+  logger.info(`Searching threads for query: ${query}`, { type: type || 'any', limit, mock: useMock });
+  
+  const client = createQuipClient(useMock);
+  
+  let results: ThreadSearchResult[];
+  try {
+    results = await client.searchThreads(query, type, limit);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error handling quip_search_threads: ${errorMessage}`);
+    throw new QuipApiError(`Failed to search threads: ${errorMessage}`);
+  }
+  
+  logger.info(`Found ${results.length} threads for query: ${query}`);
+  
+  return [{ type: "text", text: JSON.stringify({ query, results }) }];
+}
+
+/**
+ * Handle the quip_read_document tool
+ *
+ * @param args Tool arguments
+ * @param storage Storage interface
+ * @param useMock Whether to use the mock client
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipReadDocument(
+  args: Record<string, any>,
+  storage: StorageInterface,
+  useMock: boolean = false
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const threadId = args.threadId;
+  
+  if (!threadId) {
+    throw new InvalidParamsError("threadId is required");
+  }
+  
+  logger.info(`Reading document from thread ${threadId}`, { mock: useMock });
+  
+  const client = createQuipClient(useMock);
+  
+  let thread: Record<string, any>;
+  try {
+    thread = await client.getThread(threadId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error handling quip_read_document: ${errorMessage}`);
+    throw new QuipApiError(`Failed to get thread ${threadId}: ${errorMessage}`);
+  }
+  
+  const threadType = thread?.thread?.type?.toLowerCase() || '';
+  if (threadType === 'spreadsheet') {
+    throw new QuipApiError(`Thread ${threadId} is a spreadsheet; use quip_read_spreadsheet instead`);
+  }
+  if (!thread?.html) {
+    throw new QuipApiError(`Thread ${threadId} has no HTML content`);
+  }
+  
+  const markdown = convertHTMLToMarkdown(thread.html);
+  
+  // Save the full Markdown content to storage
+  const storageId = await storage.saveDocument(threadId, markdown);
+  logger.info(`Saved document to storage with ID: ${storageId}`);
+  
+  // Truncate Markdown content if it's too large (> 10KB)
+  const MAX_SIZE = 10 * 1024; // 10KB
+  const [truncatedMarkdown, isTruncated] = truncateMarkdownContent(markdown, MAX_SIZE);
+  
+  const responseData = {
+    markdown: truncatedMarkdown,
+    metadata: {
+      title: thread.thread?.title || '',
+      total_size: markdown.length,
+      is_truncated: isTruncated,
+      resource_uri: storage.getDocumentResourceURI(threadId)
+    }
+  };
+  
+  logger.info(`Returning document for thread ${threadId}`, {
+    bytes: markdown.length,
     truncated: isTruncated
   });
   
-  // Convert to JSON and return
   return [{ type: "text", text: JSON.stringify(responseData) }];
-}
\ No newline at end of file
+}
+
+/**
+ * Handle the quip_update_cells tool
+ *
+ * @param args Tool arguments
+ * @param storage Storage interface
+ * @param useMock Whether to use the mock client
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipUpdateCells(
+  args: Record<string, any>,
+  storage: StorageInterface,
+  useMock: boolean = false
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const threadId = args.threadId;
+  const sheetName = args.sheetName;
+  
+  if (!threadId) {
+    throw new InvalidParamsError("threadId is required");
+  }
+  if (!sheetName) {
+    throw new InvalidParamsError("sheetName is required");
+  }
+  if (typeof args.range !== 'string' || !args.range.trim()) {
+    throw new InvalidParamsError("range is required");
+  }
+  const values = validateCellValues(args.values);
+  const range = resolveUpdateRange(args.range, values);
+  
+  logger.info(`Updating cells in thread ${threadId}`, {
+    sheet: sheetName,
+    range: formatA1Range(range),
+    mock: useMock
+  });
+  
+  const client = createQuipClient(useMock);
+  
+  if (!await client.isSpreadsheet(threadId)) {
+    logger.error(`Thread ${threadId} is not a spreadsheet or does not exist`);
+    throw new QuipApiError(`Thread ${threadId} is not a spreadsheet or does not exist`);
+  }
+  
+  let result: CellUpdateResult;
+  try {
+    result = await client.updateCells(threadId, sheetName, range, values);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error handling quip_update_cells: ${errorMessage}`);
+    throw new QuipApiError(`Failed to update cells: ${errorMessage}`);
+  } finally {
+    // Some cells may have been written before a failure, so the stored copies are stale either way
+    await discardStoredSheet(storage, threadId, sheetName);
+  }
+  
+  logger.info(`Updated ${result.updated_cells} cells in thread ${threadId}`, {
+    sheet: sheetName,
+    range: result.range
+  });
+  
+  return [{ type: "text", text: JSON.stringify(result) }];
+}
+
+/**
+ * Handle the quip_append_rows tool
+ *
+ * @param args Tool arguments
+ * @param storage Storage interface
+ * @param useMock Whether to use the mock client
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipAppendRows(
+  args: Record<string, any>,
+  storage: StorageInterface,
+  useMock: boolean = false
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const threadId = args.threadId;
+  const sheetName = args.sheetName;
+  const allowUnknownColumns = args.allowUnknownColumns === true;
+  
+  if (!threadId) {
+    throw new InvalidParamsError("threadId is required");
+  }
+  const rows = validateRowObjects(args.rows);
+  
+  logger.info(`Appending ${rows.length} rows to thread ${threadId}`, {
+    sheet: sheetName || 'default',
+    allowUnknownColumns,
+    mock: useMock
+  });
+  
+  const client = createQuipClient(useMock);
+  
+  if (!await client.isSpreadsheet(threadId)) {
+    logger.error(`Thread ${threadId} is not a spreadsheet or does not exist`);
+    throw new QuipApiError(`Thread ${threadId} is not a spreadsheet or does not exist`);
+  }
+  
+  // Read the header row through the XLSX export, like quip_read_spreadsheet
+  let sheets: SheetInfo[];
+  try {
+    sheets = await client.listSheets(threadId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error handling quip_append_rows: ${errorMessage}`);
+    throw new QuipApiError(`Failed to read sheet headers: ${errorMessage}`);
+  }
+  
+  const sheet = sheetName
+    ? sheets.find(s => s.name === sheetName) || sheets.find(s => s.name.toLowerCase() === String(sheetName).toLowerCase())
+    : sheets[0];
+  if (!sheet) {
+    throw new QuipApiError(`Sheet '${sheetName || 'default'}' not found. Available sheets: ${sheets.map(s => s.name).join(', ')}`);
+  }
+  if (sheet.headers.length === 0) {
+    throw new QuipApiError(`Sheet '${sheet.name}' has no header row to align rows to`);
+  }
+  
+  const [alignedRows, unknownColumns] = alignRowsToHeaders(rows, sheet.headers);
+  if (unknownColumns.length > 0 && !allowUnknownColumns) {
+    throw new InvalidParamsError(
+      `Unknown columns for sheet '${sheet.name}': ${unknownColumns.join(', ')}. ` +
+      `Sheet columns: ${sheet.headers.filter(header => header).join(', ')}. Set allowUnknownColumns to drop them.`
+    );
+  }
+  
+  let appendedRows: number;
+  try {
+    appendedRows = await client.appendRows(threadId, sheet.name, alignedRows);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error handling quip_append_rows: ${errorMessage}`);
+    throw new QuipApiError(`Failed to append rows: ${errorMessage}`);
+  } finally {
+    // A failed request, such as one that timed out, may still have appended the rows
+    await discardStoredSheet(storage, threadId, sheet.name);
+  }
+  
+  logger.info(`Appended ${appendedRows} rows to thread ${threadId}`, {
+    sheet: sheet.name,
+    ignoredColumns: unknownColumns
+  });
+  
+  const responseData = {
+    thread_id: threadId,
+    sheet_name: sheet.name,
+    appended_rows: appendedRows,
+    columns: sheet.headers,
+    ignored_columns: unknownColumns
+  };
+  
+  return [{ type: "text", text: JSON.stringify(responseData) }];
+}
+
+/**
+ * Handle the quip_query_sheet tool
+ *
+ * @param args Tool arguments
+ * @param storage Storage interface
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipQuerySheet(
+  args: Record<string, any>,
+  storage: StorageInterface
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const threadId = args.threadId;
+  const sheetName = args.sheetName;
+  
+  if (!threadId) {
+    throw new InvalidParamsError("threadId is required");
+  }
+  const query = validateSheetQuery(args);
+  
+  logger.info(`Querying stored sheet for thread ${threadId}`, {
+    sheet: sheetName || 'default',
+    filters: query.filters?.length ?? 0,
+    sort: query.sort?.length ?? 0,
+    offset: query.offset,
+    limit: query.limit
+  });
+  
+  const csvContent = await getStoredCSV(storage, threadId, sheetName);
+  
+  let result: SheetQueryResult;
+  try {
+    result = querySheet(csvContent, query);
+  } catch (error) {
+    throw new InvalidParamsError(error instanceof Error ? error.message : String(error));
+  }
+  
+  // Keep whole rows under the same 10KB cap as quip_read_spreadsheet
+  const MAX_SIZE = 10 * 1024; // 10KB
+  const lines = [result.headers.map(formatCSVField).join(',')];
+  let size = lines[0].length;
+  for (const row of result.rows) {
+    const line = row.map(formatCSVField).join(',');
+    if (size + line.length + 1 > MAX_SIZE) {
+      break;
+    }
+    lines.push(line);
+    size += line.length + 1;
+  }
+  
+  const offset = query.offset ?? 0;
+  const returnedRows = lines.length - 1;
+  const nextOffset = offset + returnedRows < result.total_matches ? offset + returnedRows : null;
+  
+  const responseData = {
+    csv_content: lines.join('\n'),
+    metadata: {
+      total_matches: result.total_matches,
+      returned_rows: returnedRows,
+      offset,
+      limit: query.limit,
+      next_offset: nextOffset,
+      is_truncated: returnedRows < result.rows.length,
+      columns: result.headers,
+      resource_uri: storage.getResourceURI(threadId, sheetName)
+    }
+  };
+  
+  logger.info(`Query matched ${result.total_matches} rows in thread ${threadId}`, {
+    sheet: sheetName || 'default',
+    returned: returnedRows
+  });
+  
+  return [{ type: "text", text: JSON.stringify(responseData) }];
+}
+
+/**
+ * Handle the quip_describe_sheet tool
+ *
+ * @param args Tool arguments
+ * @param storage Storage interface
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipDescribeSheet(
+  args: Record<string, any>,
+  storage: StorageInterface
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const threadId = args.threadId;
+  const sheetName = args.sheetName;
+  const topN = args.topN ?? DEFAULT_PROFILE_TOP_N;
+  const sampleSize = args.sampleSize ?? DEFAULT_PROFILE_SAMPLE_SIZE;
+  
+  if (!threadId) {
+    throw new InvalidParamsError("threadId is required");
+  }
+  if (!Number.isInteger(topN) || topN < 1 || topN > MAX_PROFILE_TOP_N) {
+    throw new InvalidParamsError(`topN must be an integer between 1 and ${MAX_PROFILE_TOP_N}`);
+  }
+  if (!Number.isInteger(sampleSize) || sampleSize < 0 || sampleSize > MAX_PROFILE_SAMPLE_SIZE) {
+    throw new InvalidParamsError(`sampleSize must be an integer between 0 and ${MAX_PROFILE_SAMPLE_SIZE}`);
+  }
+  
+  logger.info(`Describing stored sheet for thread ${threadId}`, {
+    sheet: sheetName || 'default',
+    topN,
+    sampleSize
+  });
+  
+  let profile = await storage.getProfile(threadId, sheetName);
+  const cached = profile !== null && profile.top_n === topN && profile.sample_size === sampleSize;
+  if (!profile || !cached) {
+    const csvContent = await getStoredCSV(storage, threadId, sheetName);
+    profile = profileSheet(csvContent, topN, sampleSize);
+    await storage.saveProfile(threadId, profile, sheetName);
+  }
+  
+  const responseData = {
+    thread_id: threadId,
+    sheet_name: sheetName ?? null,
+    ...profile,
+    cached,
+    resource_uri: storage.getResourceURI(threadId, sheetName)
+  };
+  
+  logger.info(`Described ${responseData.columns.length} columns for thread ${threadId}`, {
+    sheet: sheetName || 'default',
+    cached
+  });
+  
+  return [{ type: "text", text: JSON.stringify(responseData) }];
+}
+
+/**
+ * Handle the quip_sql tool
+ *
+ * @param args Tool arguments
+ * @param storage Storage interface
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipSql(
+  args: Record<string, any>,
+  storage: StorageInterface
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const sql = typeof args.sql === 'string' ? args.sql.trim() : '';
+  const maxRows = args.maxRows ?? DEFAULT_SQL_MAX_ROWS;
+  const timeoutMs = args.timeoutMs ?? DEFAULT_SQL_TIMEOUT_MS;
+  
+  if (!Array.isArray(args.tables) || args.tables.length === 0) {
+    throw new InvalidParamsError("tables must be a non-empty array of { threadId, sheetName?, name? }");
+  }
+  if (!sql) {
+    throw new InvalidParamsError("sql is required");
+  }
+  if (!Number.isInteger(maxRows) || maxRows < 1 || maxRows > MAX_SQL_MAX_ROWS) {
+    throw new InvalidParamsError(`maxRows must be an integer between 1 and ${MAX_SQL_MAX_ROWS}`);
+  }
+  if (!Number.isInteger(timeoutMs) || timeoutMs < 100 || timeoutMs > MAX_SQL_TIMEOUT_MS) {
+    throw new InvalidParamsError(`timeoutMs must be an integer between 100 and ${MAX_SQL_TIMEOUT_MS}`);
+  }
+  
+  // Load every requested sheet from storage as a table
+  const tables: SqlTable[] = [];
+  const tableInfo: Record<string, any>[] = [];
+  for (const spec of args.tables) {
+    if (!spec || typeof spec.threadId !== 'string' || !spec.threadId) {
+      throw new InvalidParamsError("each table needs a threadId");
+    }
+    const tableName = typeof spec.name === 'string' && spec.name.trim()
+      ? spec.name.trim()
+      : defaultTableName(spec.sheetName || spec.threadId);
+    if (tables.some(table => table.name.toLowerCase() === tableName.toLowerCase())) {
+      throw new InvalidParamsError(`Duplicate table name '${tableName}'; set a distinct name for each table`);
+    }
+    
+    const csvContent = await getStoredCSV(storage, spec.threadId, spec.sheetName);
+    const table = buildSqlTable(tableName, csvContent);
+    if (table.columns.length === 0) {
+      throw new InvalidParamsError(`Stored data for thread ${spec.threadId} has no header row`);
+    }
+    tables.push(table);
+    tableInfo.push({
+      name: table.name,
+      thread_id: spec.threadId,
+      sheet_name: spec.sheetName ?? null,
+      columns: table.columns,
+      rows: table.rows.length
+    });
+  }
+  
+  let result: SqlQueryResult;
+  try {
+    result = await runSQL(tables, sql, maxRows, timeoutMs);
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error handling quip_sql: ${errorMessage}`);
+    throw new InvalidParamsError(`SQL error: ${errorMessage}`, { tables: tableInfo });
+  }
+  
+  const csvContent = formatCSV([
+    result.columns,
+    ...result.rows.map(row => row.map(value => (value === null ? '' : String(value))))
+  ]);
+  
+  // Truncate CSV content if it's too large (> 10KB)
+  const MAX_SIZE = 10 * 1024; // 10KB
+  const [truncatedCsv, isTruncated] = truncateCSVContent(csvContent, MAX_SIZE);
+  
+  const responseData = {
+    csv_content: truncatedCsv,
+    metadata: {
+      total_rows: result.rows.length,
+      total_size: csvContent.length,
+      is_truncated: isTruncated || result.row_cap_reached,
+      resource_uri: null,
+      columns: result.columns,
+      row_cap_reached: result.row_cap_reached,
+      tables: tableInfo
+    }
+  };
+  
+  return [{ type: "text", text: JSON.stringify(responseData) }];
+}
+
+/**
+ * Handle the quip_diff_sheet tool
+ *
+ * @param args Tool arguments
+ * @param storage Storage interface
+ * @returns Promise resolving to array of content objects
+ */
+export async function handleQuipDiffSheet(
+  args: Record<string, any>,
+  storage: StorageInterface
+): Promise<(TextContent | ImageContent | EmbeddedResource)[]> {
+  const threadId = args.threadId;
+  const sheetName = args.sheetName;
+  const keyColumn = args.keyColumn;
+  const limit = args.limit ?? DEFAULT_DIFF_LIMIT;
+  
+  if (!threadId) {
+    throw new InvalidParamsError("threadId is required");
+  }
+  if (typeof keyColumn !== 'string' || keyColumn.trim() === '') {
+    throw new InvalidParamsError("keyColumn is required");
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DIFF_LIMIT) {
+    throw new InvalidParamsError(`limit must be an integer between 1 and ${MAX_DIFF_LIMIT}`);
+  }
+  
+  const snapshots = await storage.listCSVSnapshots(threadId, sheetName);
+  if (snapshots.length === 0) {
+    throw new InvalidParamsError(
+      `No snapshots stored for thread ${threadId}${sheetName ? ` sheet '${sheetName}'` : ''}; call quip_read_spreadsheet first`
+    );
+  }
+  
+  const to = args.to !== undefined ? resolveSnapshot(snapshots, args.to) : snapshots[snapshots.length - 1];
+  let from: CSVSnapshot;
+  if (args.from !== undefined) {
+    from = resolveSnapshot(snapshots, args.from);
+    if (!hasSameReadOptions(from, to)) {
+      throw new InvalidParamsError(
+        `Snapshots ${from.id} and ${to.id} were read with different options ` +
+        `(${JSON.stringify(from.read_options)} and ${JSON.stringify(to.read_options)}); compare snapshots read with the same options`
+      );
+    }
+  } else {
+    const index = snapshots.findIndex(snapshot => snapshot.id === to.id);
+    if (index === 0) {
+      throw new InvalidParamsError(
+        `No snapshot before ${to.id} to compare with; read the sheet again with quip_read_spreadsheet after it changes, or pass from`
+      );
+    }
+    // The latest earlier snapshot read with the same options, so only content changes show up
+    const earlier = snapshots.slice(0, index).reverse().find(snapshot => hasSameReadOptions(snapshot, to));
+    if (!earlier) {
+      throw new InvalidParamsError(
+        `No snapshot before ${to.id} was read with the same options (${JSON.stringify(to.read_options)}); ` +
+        `read the sheet again with these options after it changes, or pass from and to`
+      );
+    }
+    from = earlier;
+  }
+  
+  logger.info(`Comparing snapshots of thread ${threadId}`, {
+    sheet: sheetName || 'default',
+    from: from.id,
+    to: to.id,
+    keyColumn
+  });
+  
+  const [beforeCSV, afterCSV] = await Promise.all([
+    storage.getCSVSnapshot(threadId, from.id, sheetName),
+    storage.getCSVSnapshot(threadId, to.id, sheetName)
+  ]);
+  if (beforeCSV === null || afterCSV === null) {
+    // Snapshots beyond the retention may be dropped by a concurrent read
+    throw new InvalidParamsError(`Snapshot ${beforeCSV === null ? from.id : to.id} is no longer stored`);
+  }
+  
+  let diff: SheetDiff;
+  try {
+    diff = diffSheets(beforeCSV, afterCSV, keyColumn);
+  } catch (error) {
+    throw new InvalidParamsError(error instanceof Error ? error.message : String(error));
+  }
+  
+  const responseData = {
+    thread_id: threadId,
+    sheet_name: sheetName ?? null,
+    key_column: diff.key_column,
+    from,
+    to,
+    summary: {
+      added: diff.added.length,
+      removed: diff.removed.length,
+      changed: diff.changed.length,
+      unchanged: diff.unchanged,
+      blank_keys: diff.blank_keys
+    },
+    columns_added: diff.columns_added,
+    columns_removed: diff.columns_removed,
+    added: diff.added.slice(0, limit),
+    removed: diff.removed.slice(0, limit),
+    changed: diff.changed.slice(0, limit),
+    is_truncated: Math.max(diff.added.length, diff.removed.length, diff.changed.length) > limit,
+    snapshots
+  };
+  
+  logger.info(`Compared snapshots of thread ${threadId}`, responseData.summary);
+  
+  return [{ type: "text", text: JSON.stringify(responseData) }];
+}
+
+/**
+ * Check whether two snapshots were read with the same options, so their rows can be compared
+ *
+ * @param a First snapshot
+ * @param b Second snapshot
+ * @returns True if the read options match
+ */
+function hasSameReadOptions(a: CSVSnapshot, b: CSVSnapshot): boolean {
+  return JSON.stringify(a.read_options) === JSON.stringify(b.read_options);
+}
+
+/**
+ * Find a stored snapshot by ID, or the latest one saved at or before a date or time
+ *
+ * @param snapshots Stored snapshots of the sheet, oldest first
+ * @param reference Snapshot ID, or an ISO 8601 date or time
+ * @returns Matching snapshot
+ * @throws InvalidParamsError if no snapshot matches
+ */
+function resolveSnapshot(snapshots: CSVSnapshot[], reference: any): CSVSnapshot {
+  if (typeof reference !== 'string' || reference.trim() === '') {
+    throw new InvalidParamsError("from and to must be snapshot IDs or ISO 8601 dates");
+  }
+  
+  const exact = snapshots.find(snapshot => snapshot.id === reference);
+  if (exact) {
+    return exact;
+  }
+  
+  const time = Date.parse(reference);
+  if (Number.isNaN(time)) {
+    throw new InvalidParamsError(
+      `Snapshot '${reference}' not found. Available snapshots: ${snapshots.map(snapshot => snapshot.id).join(', ')}`
+    );
+  }
+  const match = snapshots.filter(snapshot => Date.parse(snapshot.saved_at) <= time).pop();
+  if (!match) {
+    throw new InvalidParamsError(
+      `No snapshot was saved at or before ${reference}; the oldest stored snapshot is ${snapshots[0].id} (${snapshots[0].saved_at})`
+    );
+  }
+  return match;
+}
+
+/**
+ * Get the stored CSV of a sheet for a tool that works on stored data
+ *
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetName Sheet name (optional)
+ * @returns Promise resolving to the stored CSV content
+ * @throws InvalidParamsError if the sheet has not been read yet
+ */
+async function getStoredCSV(storage: StorageInterface, threadId: string, sheetName?: string): Promise<string> {
+  const csvContent = await storage.getCSV(threadId, sheetName);
+  if (csvContent === null) {
+    throw new InvalidParamsError(
+      `No stored data for thread ${threadId}${sheetName ? ` sheet '${sheetName}'` : ''}; call quip_read_spreadsheet first`
+    );
+  }
+  return csvContent;
+}
+
+/**
+ * Derive a SQL table name from a sheet name or thread ID
+ *
+ * @param source Sheet name or thread ID
+ * @returns Name made of letters, digits and underscores that doesn't start with a digit
+ */
+function defaultTableName(source: string): string {
+  const name = source.trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'sheet';
+  return /^\d/.test(name) ? `t_${name}` : name;
+}
+
+/**
+ * Discard stored copies of a sheet after it was changed in Quip
+ *
+ * A read without a sheet name may have stored the same sheet under the default key,
+ * so that copy is discarded too.
+ *
+ * @param storage Storage interface
+ * @param threadId Quip document thread ID
+ * @param sheetName Name of the changed sheet
+ */
+async function discardStoredSheet(storage: StorageInterface, threadId: string, sheetName: string): Promise<void> {
+  await storage.delete(threadId, sheetName);
+  await storage.delete(threadId);
+}
+
+/**
+ * Check whether a value can be written to a spreadsheet cell
+ *
+ * @param value Value to check
+ * @returns True for strings, numbers, booleans and null
+ */
+function isCellValue(value: any): value is CellValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Validate the values argument of quip_update_cells
+ *
+ * @param values Raw tool argument
+ * @returns Non-empty rectangular array of cell values
+ * @throws InvalidParamsError if the values are not a non-empty rectangular 2D array of scalars
+ */
+function validateCellValues(values: any): CellValue[][] {
+  if (!Array.isArray(values) || values.length === 0 || !values.every(row => Array.isArray(row))) {
+    throw new InvalidParamsError("values must be a non-empty array of rows");
+  }
+  
+  const width = values[0].length;
+  if (width === 0 || values.some((row: any[]) => row.length !== width)) {
+    throw new InvalidParamsError("values rows must all have the same, non-zero number of cells");
+  }
+  
+  if (!values.every((row: any[]) => row.every(isCellValue))) {
+    throw new InvalidParamsError("values must only contain strings, numbers, booleans or null");
+  }
+  
+  return values;
+}
+
+/**
+ * Resolve the target range of quip_update_cells against the size of the values
+ *
+ * @param rangeA1 Range in A1 notation, or the top-left cell of the values
+ * @param values Validated cell values
+ * @returns Range covering exactly the values
+ * @throws InvalidParamsError if the range is invalid or doesn't match the size of the values
+ */
+function resolveUpdateRange(rangeA1: string, values: CellValue[][]): CellRange {
+  let range: CellRange;
+  try {
+    range = parseA1Range(rangeA1);
+  } catch (error) {
+    throw new InvalidParamsError(error instanceof Error ? error.message : String(error));
+  }
+  
+  const rows = values.length;
+  const columns = values[0].length;
+  
+  // A single cell anchors the values at its position
+  if (!rangeA1.includes(':')) {
+    return {
+      ...range,
+      endRow: range.startRow + rows - 1,
+      endColumn: range.startColumn + columns - 1
+    };
+  }
+  
+  const rangeRows = range.endRow - range.startRow + 1;
+  const rangeColumns = range.endColumn - range.startColumn + 1;
+  if (rangeRows !== rows || rangeColumns !== columns) {
+    throw new InvalidParamsError(
+      `Range ${formatA1Range(range)} is ${rangeRows}x${rangeColumns} but values are ${rows}x${columns}`
+    );
+  }
+  
+  return range;
+}
+
+/**
+ * Validate the rows argument of quip_append_rows
+ *
+ * @param rows Raw tool argument
+ * @returns Non-empty array of row objects with scalar values
+ * @throws InvalidParamsError if the rows are not a non-empty array of objects with scalar values
+ */
+function validateRowObjects(rows: any): Record<string, CellValue>[] {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new InvalidParamsError("rows must be a non-empty array of objects keyed by column header");
+  }
+  
+  for (const row of rows) {
+    if (row === null || typeof row !== 'object' || Array.isArray(row)) {
+      throw new InvalidParamsError("rows must be a non-empty array of objects keyed by column header");
+    }
+    if (!Object.values(row).every(isCellValue)) {
+      throw new InvalidParamsError("row values must be strings, numbers, booleans or null");
+    }
+  }
+  
+  return rows;
+}
+
+/**
+ * Align row objects to a sheet's header row
+ *
+ * Keys are matched to headers exactly first, then case-insensitively ignoring
+ * surrounding whitespace. Columns without a value are left empty.
+ *
+ * @param rows Row objects keyed by column header
+ * @param headers Values of the sheet's header row
+ * @returns Tuple of rows as arrays in header order and the keys that matched no header
+ */
+function alignRowsToHeaders(rows: Record<string, CellValue>[], headers: string[]): [CellValue[][], string[]] {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  const unknownColumns: string[] = [];
+  
+  const columnFor = (key: string): number => {
+    const exact = headers.indexOf(key);
+    if (exact !== -1) {
+      return exact;
+    }
+    return normalize(key) ? headers.findIndex(header => normalize(header) === normalize(key)) : -1;
+  };
+  
+  const alignedRows = rows.map(row => {
+    const aligned: CellValue[] = headers.map(() => null);
+    for (const [key, value] of Object.entries(row)) {
+      const column = columnFor(key);
+      if (column === -1) {
+        if (!unknownColumns.includes(key)) {
+          unknownColumns.push(key);
+        }
+      } else {
+        aligned[column] = value;
+      }
+    }
+    return aligned;
+  });
+  
+  return [alignedRows, unknownColumns];
+}
+
+/**
+ * Validate the query arguments of quip_query_sheet
+ *
+ * @param args Tool arguments
+ * @returns Sheet query with offset and limit defaults applied
+ * @throws InvalidParamsError if any argument is malformed
+ */
+function validateSheetQuery(args: Record<string, any>): SheetQuery {
+  const { columns, filters, sort } = args;
+  const offset = args.offset ?? 0;
+  const limit = args.limit ?? DEFAULT_QUERY_LIMIT;
+  
+  if (columns !== undefined && (!Array.isArray(columns) || !columns.every(column => typeof column === 'string' && column))) {
+    throw new InvalidParamsError("columns must be an array of column names");
+  }
+  
+  if (filters !== undefined) {
+    if (!Array.isArray(filters)) {
+      throw new InvalidParamsError("filters must be an array");
+    }
+    for (const filter of filters) {
+      if (!filter || typeof filter.column !== 'string' || !filter.column) {
+        throw new InvalidParamsError("each filter needs a column");
+      }
+      if (!FILTER_OPERATORS.includes(filter.operator)) {
+        throw new InvalidParamsError(`filter operator must be one of: ${FILTER_OPERATORS.join(', ')}`);
+      }
+      if (!['string', 'number', 'boolean'].includes(typeof filter.value)) {
+        throw new InvalidParamsError(`filter on '${filter.column}' needs a string, number or boolean value`);
+      }
+    }
+  }
+  
+  if (sort !== undefined) {
+    if (!Array.isArray(sort)) {
+      throw new InvalidParamsError("sort must be an array");
+    }
+    for (const key of sort) {
+      if (!key || typeof key.column !== 'string' || !key.column) {
+        throw new InvalidParamsError("each sort key needs a column");
+      }
+      if (key.direction !== undefined && key.direction !== 'asc' && key.direction !== 'desc') {
+        throw new InvalidParamsError("sort direction must be 'asc' or 'desc'");
+      }
+    }
+  }
+  
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new InvalidParamsError("offset must be a non-negative integer");
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+    throw new InvalidParamsError(`limit must be an integer between 1 and ${MAX_QUERY_LIMIT}`);
+  }
+  
+  return {
+    columns,
+    filters: filters as SheetFilter[] | undefined,
+    sort: sort as SheetSortKey[] | undefined,
+    offset,
+    limit
+  };
+}
+
+/**
+ * Validate the sheets argument of quip_read_spreadsheet
+ *
+ * @param args Tool arguments
+ * @returns '*' or the list of sheet names
+ * @throws InvalidParamsError if sheets is malformed or combined with single-sheet arguments
+ */
+function validateSheetList(args: Record<string, any>): string[] | '*' {
+  const { sheets } = args;
+  if (sheets !== '*' && (!Array.isArray(sheets) || sheets.length === 0 ||
+      !sheets.every(name => typeof name === 'string' && name))) {
+    throw new InvalidParamsError("sheets must be '*' or a non-empty array of sheet names");
+  }
+  
+  const singleSheetArgs = ['sheetName', 'cursor', 'range', 'namedRange', 'includeFormulas', 'includeFormatting'];
+  const conflicting = singleSheetArgs.filter(name => args[name] !== undefined);
+  if (conflicting.length > 0) {
+    throw new InvalidParamsError(`sheets can't be combined with ${conflicting.join(', ')}; read a single sheet instead`);
+  }
+  return sheets;
+}
+
+/**
+ * Validate the range arguments of quip_read_spreadsheet
+ *
+ * @param selection Range in A1 notation or name of a named range
+ * @throws InvalidParamsError if both or neither are given, or the range is not valid A1 notation
+ */
+function validateSheetSelection(selection: SheetSelection): void {
+  if (selection.range !== undefined && selection.namedRange !== undefined) {
+    throw new InvalidParamsError("Pass either range or namedRange, not both");
+  }
+  if (selection.namedRange !== undefined) {
+    if (typeof selection.namedRange !== 'string' || !selection.namedRange.trim()) {
+      throw new InvalidParamsError("namedRange must be a non-empty string");
+    }
+    return;
+  }
+  if (typeof selection.range !== 'string') {
+    throw new InvalidParamsError("range must be a string in A1 notation, e.g. 'B2:F40'");
+  }
+  try {
+    parseA1Range(selection.range);
+  } catch (error) {
+    throw new InvalidParamsError(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -41,6 +41,21 @@ export interface CommandLineOptions {
    */
   s3UrlExpiration?: number;
   
+  /**
+   * Compression of stored CSV content (none, gzip or zstd)
+   */
+  storageCompression?: string;
+  
+  /**
+   * Number of CSV snapshots kept per sheet
+   */
+  snapshotRetention?: number;
+  
+  /**
+   * Seconds between checks of subscribed sheets for changes in Quip
+   */
+  pollInterval?: number;
+  
   /**
    * Whether to enable debug logging
    */
@@ -132,9 +147,32 @@ export interface StorageInterface {
    * @param threadId - Quip document thread ID
    * @param sheetName - Sheet name (optional)
    * @param csvContent - CSV content
+   * @param extraMetadata - Additional metadata to store with the CSV, such as the thread's
+   *   Quip update time (optional)
    * @returns Promise resolving to resource identifier (such as file path or object URL)
    */
-  saveCSV(threadId: string, csvContent: string, sheetName?: string): Promise<string>;
+  saveCSV(threadId: string, csvContent: string, sheetName?: string, extraMetadata?: Record<string, any>): Promise<string>;
+  
+  /**
+   * Save CSV content written record by record, without holding all of it in memory
+   * 
+   * The records are written as they are read, and the row count, size, snapshot ID and a
+   * preview of the leading records are worked out along the way.
+   * 
+   * @param threadId - Quip document thread ID
+   * @param records - CSV records, each ending with a line break
+   * @param sheetName - Sheet name (optional)
+   * @param extraMetadata - Additional metadata to store with the CSV (optional)
+   * @param previewBytes - Size of the preview in bytes, counted from the header row (optional)
+   * @returns Promise resolving to the resource identifier and a summary of the saved CSV
+   */
+  saveCSVStream(
+    threadId: string,
+    records: Iterable<string>,
+    sheetName?: string,
+    extraMetadata?: Record<string, any>,
+    previewBytes?: number
+  ): Promise<CSVStreamSummary>;
   
   /**
    * Get CSV content
@@ -162,6 +200,168 @@ export interface StorageInterface {
    * @returns Promise resolving to metadata including total_rows, total_size, etc.
    */
   getMetadata(threadId: string, sheetName?: string): Promise<Record<string, any>>;
+  
+  /**
+   * Save a document converted to Markdown
+   * 
+   * @param threadId - Quip document thread ID
+   * @param markdown - Markdown content
+   * @returns Promise resolving to resource identifier (such as file path or object key)
+   */
+  saveDocument(threadId: string, markdown: string): Promise<string>;
+  
+  /**
+   * Get a stored Markdown document
+   * 
+   * @param threadId - Quip document thread ID
+   * @returns Promise resolving to Markdown content, or null if it doesn't exist
+   */
+  getDocument(threadId: string): Promise<string | null>;
+  
+  /**
+   * Get resource URI for a stored Markdown document
+   * 
+   * @param threadId - Quip document thread ID
+   * @returns Resource URI
+   */
+  getDocumentResourceURI(threadId: string): string;
+  
+  /**
+   * Delete stored CSV content and its metadata, including cached copies
+   * 
+   * @param threadId - Quip document thread ID
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving when the content is removed (a no-op if it doesn't exist)
+   */
+  delete(threadId: string, sheetName?: string): Promise<void>;
+  
+  /**
+   * List the stored sheets and documents
+   * 
+   * Thread IDs and sheet names come from the sheets' metadata, so names containing
+   * hyphens or characters replaced in file names are reported as they were saved.
+   * 
+   * @param cursor - Cursor from the previous page (optional)
+   * @returns Promise resolving to one page of entries and the cursor of the next page, if any
+   */
+  listEntries(cursor?: string): Promise<StorageEntryPage>;
+  
+  /**
+   * Get the thread ID and sheet name of a stored CSV file from its file name
+   * 
+   * As in listEntries, they come from the sheet's metadata, so file:// and s3:// resource
+   * URIs of sheets whose names contain hyphens resolve to the right sheet.
+   * 
+   * @param filename - File name of the stored CSV, as in its resource URI
+   * @returns Promise resolving to the thread ID and sheet name
+   */
+  resolveEntryName(filename: string): Promise<{ threadId: string; sheetName?: string }>;
+  
+  /**
+   * Register a listener called when a sheet that wasn't stored yet is saved
+   * 
+   * @param listener - Listener called with the thread ID and sheet name of the new sheet
+   */
+  onEntryAdded(listener: StorageEntryListener): void;
+  
+  /**
+   * Get the cached column profile of a stored sheet
+   * 
+   * @param threadId - Quip document thread ID
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to the profile, or null if none is cached for the stored content
+   */
+  getProfile(threadId: string, sheetName?: string): Promise<SheetProfile | null>;
+  
+  /**
+   * Cache the column profile of a stored sheet next to its metadata
+   * 
+   * The profile is dropped whenever the CSV content is saved again or deleted.
+   * 
+   * @param threadId - Quip document thread ID
+   * @param profile - Column profile
+   * @param sheetName - Sheet name (optional)
+   */
+  saveProfile(threadId: string, profile: SheetProfile, sheetName?: string): Promise<void>;
+  
+  /**
+   * Save sheet content with typed cell values next to the sheet's CSV
+   * 
+   * @param threadId - Quip document thread ID
+   * @param sheet - Typed sheet content
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to resource identifier (such as file path or object key)
+   */
+  saveTypedSheet(threadId: string, sheet: TypedSheet, sheetName?: string): Promise<string>;
+  
+  /**
+   * Get stored sheet content with typed cell values
+   * 
+   * @param threadId - Quip document thread ID
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to the typed sheet, or null if it doesn't exist
+   */
+  getTypedSheet(threadId: string, sheetName?: string): Promise<TypedSheet | null>;
+  
+  /**
+   * Save the formulas of a sheet next to the sheet's CSV
+   * 
+   * @param threadId - Quip document thread ID
+   * @param formulas - Formula cells of the sheet
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to resource identifier (such as file path or object key)
+   */
+  saveFormulas(threadId: string, formulas: SheetFormulas, sheetName?: string): Promise<string>;
+  
+  /**
+   * Get the stored formulas of a sheet
+   * 
+   * @param threadId - Quip document thread ID
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to the formulas, or null if they don't exist
+   */
+  getFormulas(threadId: string, sheetName?: string): Promise<SheetFormulas | null>;
+  
+  /**
+   * Save the cell formatting of a sheet next to the sheet's CSV
+   * 
+   * @param threadId - Quip document thread ID
+   * @param formatting - Formatted cells of the sheet
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to resource identifier (such as file path or object key)
+   */
+  saveFormatting(threadId: string, formatting: SheetFormatting, sheetName?: string): Promise<string>;
+  
+  /**
+   * Get the stored cell formatting of a sheet
+   * 
+   * @param threadId - Quip document thread ID
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to the formatting, or null if it doesn't exist
+   */
+  getFormatting(threadId: string, sheetName?: string): Promise<SheetFormatting | null>;
+  
+  /**
+   * List the saved snapshots of a sheet's CSV content
+   * 
+   * Every save of the CSV content also saves a snapshot, and only the most recent
+   * snapshots are kept, as set by the snapshot retention.
+   * 
+   * @param threadId - Quip document thread ID
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to the snapshots, oldest first
+   */
+  listCSVSnapshots(threadId: string, sheetName?: string): Promise<CSVSnapshot[]>;
+  
+  /**
+   * Get the CSV content of a saved snapshot
+   * 
+   * @param threadId - Quip document thread ID
+   * @param snapshotId - Snapshot ID, as listed by listCSVSnapshots
+   * @param sheetName - Sheet name (optional)
+   * @returns Promise resolving to CSV content, or null if the snapshot doesn't exist
+   */
+  getCSVSnapshot(threadId: string, snapshotId: string, sheetName?: string): Promise<string | null>;
 }
 
 /**
@@ -197,8 +397,23 @@ export interface StorageOptions {
    * S3 URL expiration in seconds (for S3 storage)
    */
   s3UrlExpiration?: number;
+
+  /**
+   * Number of CSV snapshots kept per sheet, 0 to keep none (default: 10)
+   */
+  snapshotRetention?: number;
+
+  /**
+   * Compression of stored CSV content and snapshots (default: none)
+   */
+  compression?: StorageCompression;
 }
 
+/**
+ * Compression of stored CSV content
+ */
+export type StorageCompression = 'none' | 'gzip' | 'zstd';
+
 /**
  * Arguments for the quip_read_spreadsheet tool
  */
@@ -214,6 +429,31 @@ export interface QuipReadSpreadsheetArgs {
   sheetName?: string;
 }
 
+/**
+ * One page of CSV content
+ */
+export interface CSVPage {
+  /**
+   * Header row followed by the page's data rows
+   */
+  content: string;
+
+  /**
+   * Number of data rows in the page
+   */
+  rows: number;
+
+  /**
+   * Character offset of the first row of the next page, or null if this is the last page
+   */
+  next_offset: number | null;
+
+  /**
+   * Zero-based index of the header row among the CSV rows
+   */
+  header_row: number;
+}
+
 /**
  * Response for the quip_read_spreadsheet tool
  */
@@ -246,5 +486,843 @@ export interface QuipReadSpreadsheetResponse {
      * Resource URI for accessing the complete content
      */
     resource_uri: string;
+
+    /**
+     * Cursor for the next page, or null if this is the last page
+     */
+    next_cursor?: string | null;
   };
-}
\ No newline at end of file
+}
+/**
+ * Summary of a single sheet (tab) within a spreadsheet thread
+ */
+export interface SheetInfo {
+  /**
+   * Sheet name as it appears in the workbook
+   */
+  name: string;
+  
+  /**
+   * Number of non-empty rows, including the header row
+   */
+  rows: number;
+  
+  /**
+   * Number of columns up to the furthest populated cell
+   */
+  columns: number;
+  
+  /**
+   * One-based index of the detected header row, or null if the sheet is empty
+   */
+  header_row: number | null;
+  
+  /**
+   * Values of the detected header row
+   */
+  headers: string[];
+}
+
+/**
+ * A thread returned by a Quip search
+ */
+export interface ThreadSearchResult {
+  /**
+   * Quip document thread ID
+   */
+  thread_id: string;
+  
+  /**
+   * Thread title
+   */
+  title: string;
+  
+  /**
+   * Thread type (e.g. spreadsheet, document)
+   */
+  type: string;
+  
+  /**
+   * Browser link to the thread
+   */
+  link: string;
+  
+  /**
+   * Last update time in microseconds since epoch, as reported by Quip
+   */
+  updated_usec: number | null;
+  
+  /**
+   * Last update time as an ISO 8601 string
+   */
+  updated_at: string | null;
+}
+
+/**
+ * A rectangular cell range parsed from A1 notation, using zero-based indexes
+ */
+export interface CellRange {
+  /**
+   * Index of the first row
+   */
+  startRow: number;
+  
+  /**
+   * Index of the first column
+   */
+  startColumn: number;
+  
+  /**
+   * Index of the last row (inclusive)
+   */
+  endRow: number;
+  
+  /**
+   * Index of the last column (inclusive)
+   */
+  endColumn: number;
+}
+
+/**
+ * A value that can be written to a spreadsheet cell
+ */
+export type CellValue = string | number | boolean | null;
+
+/**
+ * Result of writing values to a range of spreadsheet cells
+ */
+export interface CellUpdateResult {
+  /**
+   * Quip document thread ID
+   */
+  thread_id: string;
+  
+  /**
+   * Sheet that was updated
+   */
+  sheet_name: string;
+  
+  /**
+   * Updated range in A1 notation
+   */
+  range: string;
+  
+  /**
+   * Number of cells written
+   */
+  updated_cells: number;
+}
+
+/**
+ * Comparison applied by a sheet query filter
+ */
+export type FilterOperator = 'equals' | 'not_equals' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'regex';
+
+/**
+ * A filter predicate on one column of a sheet
+ */
+export interface SheetFilter {
+  /**
+   * Column header to test
+   */
+  column: string;
+  
+  /**
+   * Comparison to apply
+   */
+  operator: FilterOperator;
+  
+  /**
+   * Value to compare against (a regular expression for 'regex')
+   */
+  value: string | number | boolean;
+  
+  /**
+   * Whether text comparisons are case-sensitive (default: false)
+   */
+  caseSensitive?: boolean;
+}
+
+/**
+ * A sort key for a sheet query
+ */
+export interface SheetSortKey {
+  /**
+   * Column header to sort by
+   */
+  column: string;
+  
+  /**
+   * Sort direction (default: asc)
+   */
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * A structured query over the rows of a stored sheet
+ */
+export interface SheetQuery {
+  /**
+   * Columns to return, in order (default: all columns)
+   */
+  columns?: string[];
+  
+  /**
+   * Filters that every returned row must match
+   */
+  filters?: SheetFilter[];
+  
+  /**
+   * Sort keys, most significant first
+   */
+  sort?: SheetSortKey[];
+  
+  /**
+   * Number of matching rows to skip (default: 0)
+   */
+  offset?: number;
+  
+  /**
+   * Maximum number of rows to return (default: all matching rows)
+   */
+  limit?: number;
+}
+
+/**
+ * Result of a sheet query
+ */
+export interface SheetQueryResult {
+  /**
+   * Headers of the returned columns
+   */
+  headers: string[];
+  
+  /**
+   * Returned rows, aligned to the headers
+   */
+  rows: string[][];
+  
+  /**
+   * Number of rows matching the filters, before offset and limit are applied
+   */
+  total_matches: number;
+}
+
+/**
+ * SQLite storage class inferred for a sheet column
+ */
+export type SqlColumnType = 'INTEGER' | 'REAL' | 'TEXT';
+
+/**
+ * A sheet column loaded into the SQL database
+ */
+export interface SqlColumn {
+  /**
+   * Column name, derived from the header cell
+   */
+  name: string;
+  
+  /**
+   * Inferred column type
+   */
+  type: SqlColumnType;
+}
+
+/**
+ * A sheet loaded as a table into the SQL database
+ */
+export interface SqlTable {
+  /**
+   * Table name
+   */
+  name: string;
+  
+  /**
+   * Table columns in sheet order
+   */
+  columns: SqlColumn[];
+  
+  /**
+   * Data rows with values converted to their column types (empty cells are null)
+   */
+  rows: (string | number | null)[][];
+}
+
+/**
+ * Result of a SQL query
+ */
+export interface SqlQueryResult {
+  /**
+   * Names of the result columns
+   */
+  columns: string[];
+  
+  /**
+   * Result rows, at most the requested row cap
+   */
+  rows: (string | number | null)[][];
+  
+  /**
+   * Whether the query produced more rows than the row cap
+   */
+  row_cap_reached: boolean;
+}
+
+/**
+ * Inferred type of a sheet column
+ */
+export type ColumnType = 'number' | 'date' | 'boolean' | 'string';
+
+/**
+ * Statistics for a single sheet column
+ */
+export interface ColumnProfile {
+  /**
+   * Header of the column
+   */
+  name: string;
+  
+  /**
+   * Column letter, as used in A1 notation
+   */
+  column: string;
+  
+  /**
+   * Type inferred from the non-blank values (string if the column is entirely blank)
+   */
+  type: ColumnType;
+  
+  /**
+   * Number of blank cells
+   */
+  blank_count: number;
+  
+  /**
+   * Number of distinct non-blank values
+   */
+  distinct_count: number;
+  
+  /**
+   * Smallest value (number columns only)
+   */
+  min?: number;
+  
+  /**
+   * Largest value (number columns only)
+   */
+  max?: number;
+  
+  /**
+   * Mean value (number columns only)
+   */
+  mean?: number;
+  
+  /**
+   * Most frequent values, most frequent first
+   */
+  top_values: { value: string; count: number }[];
+  
+  /**
+   * First distinct non-blank values in sheet order
+   */
+  samples: string[];
+}
+
+/**
+ * Column profile of a stored sheet
+ */
+export interface SheetProfile {
+  /**
+   * 1-based row number of the header row, or null if the sheet is empty
+   */
+  header_row: number | null;
+  
+  /**
+   * Number of non-blank data rows below the header row
+   */
+  data_rows: number;
+  
+  /**
+   * Number of most frequent values reported per column
+   */
+  top_n: number;
+  
+  /**
+   * Number of sample values reported per column
+   */
+  sample_size: number;
+  
+  /**
+   * Per-column statistics
+   */
+  columns: ColumnProfile[];
+}
+
+/**
+ * Output format of spreadsheet content
+ */
+export type OutputFormat = 'csv' | 'json' | 'ndjson' | 'markdown';
+
+/**
+ * Sheet content with typed cell values, stored next to the sheet's CSV
+ */
+export interface TypedSheet {
+  /**
+   * Column names taken from the header row; blank and repeated names are made unique
+   */
+  headers: string[];
+  
+  /**
+   * Non-blank data rows below the header row
+   */
+  rows: CellValue[][];
+  
+  /**
+   * 1-based sheet row number of each data row
+   */
+  row_numbers: number[];
+  
+  /**
+   * Whether the values keep the native types of the XLSX cells, rather than CSV text
+   */
+  native_types: boolean;
+  
+  /**
+   * Snapshot ID of the CSV content this sheet was built with
+   */
+  snapshot: string;
+}
+
+/**
+ * A cell whose value is computed by a formula
+ */
+export interface FormulaCell {
+  /**
+   * Cell address in A1 notation
+   */
+  cell: string;
+  
+  /**
+   * Formula of the cell, starting with '='
+   */
+  formula: string;
+  
+  /**
+   * Displayed value of the cell, as computed when the sheet was exported
+   */
+  value: string;
+}
+
+/**
+ * Formula cells of a sheet, stored next to the sheet's CSV
+ */
+export interface SheetFormulas {
+  /**
+   * Formula cells in row order
+   */
+  cells: FormulaCell[];
+  
+  /**
+   * Snapshot ID of the CSV content the formulas were read with
+   */
+  snapshot: string;
+}
+
+/**
+ * Options for reading merged cells, headers and a range of cells of an XLSX sheet
+ */
+export interface SheetLayoutOptions {
+  /**
+   * Copy the value of each merged range into every cell of the range
+   */
+  fillMerged?: boolean;
+  
+  /**
+   * Number of header rows to flatten into composite column names (default: detected
+   * from the merged ranges)
+   */
+  headerRows?: number;
+  
+  /**
+   * Cells to read (default: every populated cell, starting at A1)
+   */
+  range?: CellRange;
+}
+
+/**
+ * Result of looking up an exported workbook in the workbook cache
+ */
+export type WorkbookCacheStatus = 'hit' | 'miss' | 'bypass';
+
+/**
+ * Cells of a sheet to read, given in A1 notation or as a named range of the workbook
+ */
+export interface SheetSelection {
+  /**
+   * Range in A1 notation, e.g. "B2:F40"
+   */
+  range?: string;
+  
+  /**
+   * Name of a named range defined in the workbook
+   */
+  namedRange?: string;
+}
+
+/**
+ * A comment attached to a cell
+ */
+export interface CellComment {
+  /**
+   * Author of the comment, if known
+   */
+  author?: string;
+  
+  /**
+   * Text of the comment
+   */
+  text: string;
+}
+
+/**
+ * Formatting and rich metadata of a cell; only the properties the cell has are set
+ */
+export interface CellFormatting {
+  /**
+   * Cell address in A1 notation
+   */
+  cell: string;
+  
+  /**
+   * Target of a hyperlink in the cell
+   */
+  hyperlink?: string;
+  
+  /**
+   * Whether the cell text is bold
+   */
+  bold?: boolean;
+  
+  /**
+   * Whether the cell text is italic
+   */
+  italic?: boolean;
+  
+  /**
+   * Text color, as given in the document (for example "#ff0000" or "rgb(255, 0, 0)")
+   */
+  color?: string;
+  
+  /**
+   * Number format code, such as "0.00%" or "m/d/yy"
+   */
+  number_format?: string;
+  
+  /**
+   * Comments attached to the cell
+   */
+  comments?: CellComment[];
+}
+
+/**
+ * Formatted cells of a sheet, stored next to the sheet's CSV
+ */
+export interface SheetFormatting {
+  /**
+   * Formatted cells in row order
+   */
+  cells: CellFormatting[];
+  
+  /**
+   * Snapshot ID of the CSV content the formatting was read with
+   */
+  snapshot: string;
+}
+
+/**
+ * Summary of CSV content saved record by record
+ */
+export interface CSVStreamSummary {
+  /**
+   * Resource identifier (such as file path or object key)
+   */
+  id: string;
+  
+  /**
+   * Snapshot ID of the content, as computed by getSnapshotId
+   */
+  snapshot: string;
+  
+  /**
+   * Number of rows, counted as in the metadata of saveCSV
+   */
+  total_rows: number;
+  
+  /**
+   * Length of the content in characters
+   */
+  total_size: number;
+  
+  /**
+   * Leading records of the content: every record up to and including the header row,
+   * and the records after it until the preview size is exceeded
+   */
+  preview: string;
+  
+  /**
+   * Whether the preview holds the whole content
+   */
+  preview_complete: boolean;
+}
+
+/**
+ * A sheet loaded through the export pipeline, either from storage or from a new export
+ */
+export interface LoadedSheet {
+  /**
+   * CSV content of the sheet, or only its preview if it was streamed to storage
+   */
+  csv: string;
+  
+  /**
+   * Typed content of the sheet, if it was requested
+   */
+  typedSheet: TypedSheet | null;
+  
+  /**
+   * Formula cells, if they were requested and are available
+   */
+  formulas: FormulaCell[] | null;
+  
+  /**
+   * Formatted cells, if they were requested
+   */
+  formatting: CellFormatting[] | null;
+  
+  /**
+   * A1 range read, if cells were selected
+   */
+  range: string | null;
+  
+  /**
+   * 'store' if the stored copy was still current and reused, 'export' if the sheet was exported
+   */
+  source: 'store' | 'export';
+  
+  /**
+   * Whether the exported workbook came from the cache, if the XLSX export was used
+   */
+  workbookCache: WorkbookCacheStatus | null;
+  
+  /**
+   * Summary of the stored content if the sheet was streamed to storage
+   */
+  streamed: CSVStreamSummary | null;
+}
+
+/**
+ * A stored sheet or document, as listed by StorageInterface.listEntries
+ */
+export interface StorageEntry {
+  /**
+   * Whether the entry holds a sheet's CSV content or a document's Markdown
+   */
+  type: 'spreadsheet' | 'document';
+  
+  /**
+   * Quip document thread ID
+   */
+  threadId: string;
+  
+  /**
+   * Sheet name, for spreadsheets saved with one
+   */
+  sheetName?: string;
+  
+  /**
+   * Metadata of the sheet, empty for documents
+   */
+  metadata: Record<string, any>;
+  
+  /**
+   * Size of the stored CSV or Markdown content in bytes
+   */
+  size: number;
+  
+  /**
+   * Path of the stored file, for local storage
+   */
+  filePath?: string;
+}
+
+/**
+ * Listener called when a new sheet is stored
+ */
+export type StorageEntryListener = (threadId: string, sheetName?: string) => void;
+
+/**
+ * One page of stored entries
+ */
+export interface StorageEntryPage {
+  /**
+   * Entries on the page
+   */
+  entries: StorageEntry[];
+  
+  /**
+   * Cursor of the next page, or undefined on the last page
+   */
+  nextCursor?: string;
+}
+
+/**
+ * A saved copy of a sheet's CSV content
+ */
+export interface CSVSnapshot {
+  /**
+   * Snapshot ID: the UTC time the snapshot was saved, as YYYYMMDDTHHmmssSSSZ
+   */
+  id: string;
+  
+  /**
+   * Time the snapshot was saved, in ISO 8601
+   */
+  saved_at: string;
+  
+  /**
+   * Size of the stored snapshot in bytes, compressed if storage compression is on
+   */
+  size: number;
+  
+  /**
+   * Snapshot ID of the CSV content, as computed by getSnapshotId, or null if the snapshot's
+   * metadata can't be read
+   */
+  content_hash: string | null;
+  
+  /**
+   * Options the sheet was read with (fillMerged, headerRows, range, namedRange), or null
+   * if they aren't known
+   */
+  read_options: Record<string, any> | null;
+  
+  /**
+   * Number of CSV rows in the snapshot, or null if it isn't known
+   */
+  total_rows: number | null;
+  
+  /**
+   * Size of the snapshot's CSV content in characters, uncompressed, or null if it isn't known
+   */
+  total_size: number | null;
+}
+
+/**
+ * A row present in only one of two compared snapshots
+ */
+export interface DiffRow {
+  /**
+   * Value of the key column
+   */
+  key: string;
+  
+  /**
+   * 1-based sheet row number of the row in its snapshot
+   */
+  row: number;
+  
+  /**
+   * Cell values keyed by column name
+   */
+  values: Record<string, string>;
+}
+
+/**
+ * A cell whose value differs between two snapshots
+ */
+export interface CellChange {
+  /**
+   * Column name
+   */
+  column: string;
+  
+  /**
+   * Value in the earlier snapshot
+   */
+  before: string;
+  
+  /**
+   * Value in the later snapshot
+   */
+  after: string;
+}
+
+/**
+ * A row present in both compared snapshots with different cell values
+ */
+export interface ChangedRow {
+  /**
+   * Value of the key column
+   */
+  key: string;
+  
+  /**
+   * 1-based sheet row number of the row in the earlier snapshot
+   */
+  row_before: number;
+  
+  /**
+   * 1-based sheet row number of the row in the later snapshot
+   */
+  row_after: number;
+  
+  /**
+   * Changed cells, in column order
+   */
+  changes: CellChange[];
+}
+
+/**
+ * Differences between two snapshots of a sheet, matched by a key column
+ */
+export interface SheetDiff {
+  /**
+   * Name of the key column, as found in the header row
+   */
+  key_column: string;
+  
+  /**
+   * Columns only in the later snapshot
+   */
+  columns_added: string[];
+  
+  /**
+   * Columns only in the earlier snapshot
+   */
+  columns_removed: string[];
+  
+  /**
+   * Rows only in the later snapshot, in sheet order
+   */
+  added: DiffRow[];
+  
+  /**
+   * Rows only in the earlier snapshot, in sheet order
+   */
+  removed: DiffRow[];
+  
+  /**
+   * Rows whose values changed in the columns both snapshots have, in the later snapshot's order
+   */
+  changed: ChangedRow[];
+  
+  /**
+   * Number of rows present in both snapshots with the same values
+   */
+  unchanged: number;
+  
+  /**
+   * Number of data rows skipped because their key cell is blank, across both snapshots
+   */
+  blank_keys: number;
+}
@@ -1,4 +1,7 @@
-import { Cache } from '../../src/cache';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Cache, WorkbookCache } from '../../src/cache';
 
 describe('Cache Implementation', () => {
   let cache: Cache<string>;
@@ -255,4 +258,68 @@ describe('Cache Implementation', () => {
       expect(cache.get(key)).toBe('factory-value');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('WorkbookCache', () => {
+  let spillDirectory: string;
+  
+  beforeEach(async () => {
+    spillDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'workbook-cache-'));
+  });
+  
+  afterEach(async () => {
+    await fs.remove(spillDirectory);
+  });
+  
+  it('should only return a workbook for the update time it was exported at', async () => {
+    const cache = new WorkbookCache();
+    await cache.set('thread1', 100, Buffer.from('v1'));
+    
+    expect((await cache.get('thread1', 100))?.toString()).toBe('v1');
+    expect(await cache.get('thread1', 200)).toBeNull();
+    expect(await cache.get('thread2', 100)).toBeNull();
+  });
+  
+  it('should replace older versions of a thread', async () => {
+    const cache = new WorkbookCache();
+    await cache.set('thread1', 100, Buffer.from('v1'));
+    await cache.set('thread1', 200, Buffer.from('v2'));
+    
+    expect(await cache.get('thread1', 100)).toBeNull();
+    expect((await cache.get('thread1', 200))?.toString()).toBe('v2');
+    expect(cache.size()).toBe(2);
+  });
+  
+  it('should spill the least recently used workbooks to disk and read them back', async () => {
+    const cache = new WorkbookCache(4, spillDirectory);
+    await cache.set('thread1', 100, Buffer.from('aaa'));
+    await cache.set('thread2', 100, Buffer.from('bbb'));
+    
+    expect(cache.size()).toBe(3);
+    expect(await fs.readdir(spillDirectory)).toEqual(['thread1@100.xlsx']);
+    
+    expect((await cache.get('thread1', 100))?.toString()).toBe('aaa');
+    expect(await fs.readdir(spillDirectory)).toEqual(['thread1@100.xlsx', 'thread2@100.xlsx']);
+  });
+  
+  it('should drop evicted workbooks without a spill directory', async () => {
+    const cache = new WorkbookCache(4);
+    await cache.set('thread1', 100, Buffer.from('aaa'));
+    await cache.set('thread2', 100, Buffer.from('bbb'));
+    
+    expect(await cache.get('thread1', 100)).toBeNull();
+    expect((await cache.get('thread2', 100))?.toString()).toBe('bbb');
+  });
+  
+  it('should delete spilled versions of a thread', async () => {
+    const cache = new WorkbookCache(1, spillDirectory);
+    await cache.set('thread1', 100, Buffer.from('aaa'));
+    await cache.set('thread2', 100, Buffer.from('bbb'));
+    await cache.set('thread1', 200, Buffer.from('ccc'));
+    
+    expect((await fs.readdir(spillDirectory)).sort()).toEqual(['thread2@100.xlsx']);
+    
+    await cache.delete('thread2');
+    expect(await fs.readdir(spillDirectory)).toEqual([]);
+  });
+});
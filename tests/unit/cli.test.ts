@@ -0,0 +1,46 @@
+import { getStorageConfig } from '../../src/cli';
+import { CommandLineOptions } from '../../src/types';
+
+jest.mock('../../src/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('getStorageConfig', () => {
+  const originalEnv = process.env;
+  const options = { storageType: 'local', fileProtocol: false } as CommandLineOptions;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.STORAGE_COMPRESSION;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should read the compression from options or the environment', () => {
+    expect(getStorageConfig(options).compression).toBe('none');
+    expect(getStorageConfig({ ...options, storageCompression: 'gzip' }).compression).toBe('gzip');
+
+    process.env.STORAGE_COMPRESSION = 'gzip';
+    expect(getStorageConfig(options).compression).toBe('gzip');
+  });
+
+  it('should reject unknown compression algorithms', () => {
+    expect(() => getStorageConfig({ ...options, storageCompression: 'brotli' }))
+      .toThrow('Storage compression must be one of: none, gzip, zstd');
+  });
+
+  it('should refuse compression of local files served through file protocol URIs', () => {
+    expect(() => getStorageConfig({ ...options, fileProtocol: true, storageCompression: 'gzip' }))
+      .toThrow('Storage compression cannot be used with file protocol resource URIs');
+    expect(getStorageConfig({ ...options, fileProtocol: true }).compression).toBe('none');
+    expect(getStorageConfig({ ...options, storageType: 's3', fileProtocol: true, storageCompression: 'gzip' }).compression)
+      .toBe('gzip');
+  });
+});
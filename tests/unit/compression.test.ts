@@ -0,0 +1,34 @@
+import { gunzipSync } from 'zlib';
+import { compressCSV, decompressCSV, getContentEncoding, isZstdSupported } from '../../src/compression';
+
+describe('compression', () => {
+  const csvContent = 'name,city\nAlice,Zürich\nBob,Oslo';
+
+  it('should round-trip gzip content', () => {
+    const data = compressCSV(csvContent, 'gzip');
+
+    expect(gunzipSync(data).toString('utf-8')).toBe(csvContent);
+    expect(decompressCSV(data)).toBe(csvContent);
+  });
+
+  it('should store and read plain content without compression', () => {
+    const data = compressCSV(csvContent, 'none');
+
+    expect(data.toString('utf-8')).toBe(csvContent);
+    expect(decompressCSV(data)).toBe(csvContent);
+  });
+
+  it('should round-trip zstd content or explain that the runtime lacks zstd', () => {
+    if (isZstdSupported()) {
+      expect(decompressCSV(compressCSV(csvContent, 'zstd'))).toBe(csvContent);
+    } else {
+      expect(() => compressCSV(csvContent, 'zstd')).toThrow('zstd compression requires Node.js 22.15 or later');
+    }
+  });
+
+  it('should map compression to Content-Encoding', () => {
+    expect(getContentEncoding('gzip')).toBe('gzip');
+    expect(getContentEncoding('zstd')).toBe('zstd');
+    expect(getContentEncoding('none')).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { CSVStreamTally, detectHeaderRow, formatCSV, formatCSVField, getSnapshotId, parseCSV, readCSVPage } from '../../src/csv';
+
+describe('CSV helpers', () => {
+  describe('parseCSV', () => {
+    it('should parse plain rows', () => {
+      expect(parseCSV('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+    
+    it('should handle quoted fields with commas, quotes and line breaks', () => {
+      expect(parseCSV('name,note\n"Doe, John","said ""hi""\nthen left"\n')).toEqual([
+        ['name', 'note'],
+        ['Doe, John', 'said "hi"\nthen left']
+      ]);
+    });
+    
+    it('should accept CRLF line endings and keep empty fields', () => {
+      expect(parseCSV('a,b,c\r\n1,,3\r\n,,\r\n')).toEqual([['a', 'b', 'c'], ['1', '', '3'], ['', '', '']]);
+    });
+    
+    it('should return no rows for empty content', () => {
+      expect(parseCSV('')).toEqual([]);
+    });
+  });
+  
+  describe('formatCSV', () => {
+    it('should quote only fields that need it', () => {
+      expect(formatCSVField('plain')).toBe('plain');
+      expect(formatCSVField('a,b')).toBe('"a,b"');
+      expect(formatCSVField('say "hi"')).toBe('"say ""hi"""');
+    });
+    
+    it('should round-trip through parseCSV', () => {
+      const rows = [['name', 'note'], ['Doe, John', 'line 1\nline 2'], ['', '"quoted"']];
+      expect(parseCSV(formatCSV(rows))).toEqual(rows);
+    });
+  });
+  
+  describe('detectHeaderRow', () => {
+    it('should return the first row with a non-empty cell', () => {
+      expect(detectHeaderRow([['', ''], [' ', 'Name'], ['x', 'y']])).toBe(1);
+      expect(detectHeaderRow([['', '']])).toBe(-1);
+    });
+  });
+  
+  describe('readCSVPage', () => {
+    const csv = 'Name,Note\nAlice,"line 1\nline 2"\nBob,plain\nCarol,"say ""hi"""\n';
+    
+    it('should repeat the header row and keep multi-line cells whole', () => {
+      const first = readCSVPage(csv, { maxRows: 1, maxBytes: 1024 });
+      expect(first).toEqual({ content: 'Name,Note\nAlice,"line 1\nline 2"', rows: 1, next_offset: 32, header_row: 0 });
+      
+      const second = readCSVPage(csv, { maxRows: 5, maxBytes: 1024 }, first.next_offset!);
+      expect(second).toEqual({ content: 'Name,Note\nBob,plain\nCarol,"say ""hi"""', rows: 2, next_offset: null, header_row: 0 });
+    });
+    
+    it('should stop before a row that would exceed the byte limit but always return one row', () => {
+      expect(readCSVPage(csv, { maxBytes: 40 }).rows).toBe(1);
+      expect(readCSVPage(csv, { maxBytes: 5 }).rows).toBe(1);
+      expect(readCSVPage(csv, { maxBytes: 1024 })).toEqual({ content: csv.trimEnd(), rows: 3, next_offset: null, header_row: 0 });
+    });
+    
+    it('should return only the header for a sheet without data rows', () => {
+      expect(readCSVPage('Name,Note', { maxBytes: 1024 })).toEqual({ content: 'Name,Note', rows: 0, next_offset: null, header_row: 0 });
+    });
+    
+    it('should skip blank rows above the header row', () => {
+      expect(readCSVPage(',,\n" ",,\nName,Note\nAlice,hi', { maxBytes: 1024 }))
+        .toEqual({ content: 'Name,Note\nAlice,hi', rows: 1, next_offset: null, header_row: 2 });
+    });
+  });
+
+  describe('CSVStreamTally', () => {
+    const records = [',,\n', 'Name,Note\n', 'Alice,"line 1\nline 2"\n', 'Bob,plain\n', 'Carol,hi\n'];
+    const csv = records.join('');
+    
+    const tally = (previewBytes: number) => {
+      const counter = new CSVStreamTally(previewBytes);
+      records.forEach(record => counter.add(record));
+      return counter.summarize('/storage/file.csv');
+    };
+    
+    it('should count the records like the whole content', () => {
+      expect(tally(1024)).toEqual({
+        id: '/storage/file.csv',
+        snapshot: getSnapshotId(csv),
+        total_rows: csv.split('\n').length,
+        total_size: csv.length,
+        preview: csv,
+        preview_complete: true
+      });
+    });
+    
+    it('should keep records past the header row until the preview size is exceeded', () => {
+      const summary = tally(20);
+      
+      expect(summary.preview).toBe(',,\nName,Note\nAlice,"line 1\nline 2"\n');
+      expect(summary.preview_complete).toBe(false);
+      // The first page is the same, and the next one starts where the preview ends
+      const page = readCSVPage(csv, { maxBytes: 20 });
+      expect(readCSVPage(summary.preview, { maxBytes: 20 }).content).toBe(page.content);
+      expect(page.next_offset).toBe(summary.preview.length);
+    });
+  });
+});
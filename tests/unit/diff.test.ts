@@ -0,0 +1,82 @@
+import { diffSheets } from '../../src/diff';
+
+describe('diffSheets', () => {
+  const before = [
+    'ID,Name,Score',
+    '1,Alice,90',
+    '2,Bob,80',
+    '3,Carol,70'
+  ].join('\n');
+
+  it('should report added, removed and changed rows by key', () => {
+    const after = [
+      '',
+      'ID,Name,Score',
+      '1,Alice,95',
+      '3,Carol,70',
+      '4,Dan,60'
+    ].join('\n');
+
+    const diff = diffSheets(before, after, 'ID');
+
+    expect(diff.key_column).toBe('ID');
+    expect(diff.added).toEqual([{ key: '4', row: 5, values: { ID: '4', Name: 'Dan', Score: '60' } }]);
+    expect(diff.removed).toEqual([{ key: '2', row: 3, values: { ID: '2', Name: 'Bob', Score: '80' } }]);
+    expect(diff.changed).toEqual([{
+      key: '1',
+      row_before: 2,
+      row_after: 3,
+      changes: [{ column: 'Score', before: '90', after: '95' }]
+    }]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('should compare only the columns both snapshots have', () => {
+    const after = [
+      'id,Name,Team',
+      '1,Alice,Red',
+      '2,Robert,Blue',
+      '3,Carol,Red'
+    ].join('\n');
+
+    const diff = diffSheets(before, after, 'id');
+
+    expect(diff.key_column).toBe('id');
+    expect(diff.columns_added).toEqual(['Team']);
+    expect(diff.columns_removed).toEqual(['Score']);
+    expect(diff.changed).toEqual([{
+      key: '2',
+      row_before: 3,
+      row_after: 3,
+      changes: [{ column: 'Name', before: 'Bob', after: 'Robert' }]
+    }]);
+    expect(diff.unchanged).toBe(2);
+  });
+
+  it('should count rows with blank keys instead of matching them', () => {
+    const after = `${before}\n,Nobody,0\n,,\n`;
+
+    const diff = diffSheets(before, after, 'ID');
+
+    expect(diff.blank_keys).toBe(1);
+    expect(diff.added).toEqual([]);
+  });
+
+  it('should compare snapshots with more rows than fit in a function call', () => {
+    const rows = Array.from({ length: 200000 }, (_, index) => `${index},x`);
+    const earlier = `ID,Name\n${rows.join('\n')}`;
+    const later = `${earlier}\n200000,y`;
+
+    const diff = diffSheets(earlier, later, 'ID');
+
+    expect(diff.added).toEqual([{ key: '200000', row: 200002, values: { ID: '200000', Name: 'y' } }]);
+    expect(diff.unchanged).toBe(200000);
+  });
+
+  it('should reject unknown key columns and repeated keys', () => {
+    expect(() => diffSheets(before, 'Name\nAlice', 'ID')).toThrow(/Unknown column 'ID'.*in the later snapshot/);
+    expect(() => diffSheets(before, 'ID,Name\n1,Alice\n1,Bob', 'ID'))
+      .toThrow("Key column 'ID' repeats the value '1' in rows 2 and 3 of the later snapshot");
+    expect(() => diffSheets('', before, 'ID')).toThrow('The earlier snapshot is empty');
+  });
+});
@@ -0,0 +1,129 @@
+import { buildTypedSheet, csvToTypedSheet, loadTypedSheet, readTypedPage, renderRows, withFormat } from '../../src/formats';
+import { getSnapshotId } from '../../src/csv';
+import { StorageInterface } from '../../src/types';
+
+describe('formats', () => {
+  const rows = [
+    [null, null, null],
+    ['Name', 'Age', 'Active'],
+    ['Alice', 30, true],
+    [null, '', null],
+    ['Bob | Jr', null, false]
+  ];
+
+  describe('buildTypedSheet', () => {
+    it('should use the first non-empty row as header, skip blank rows and keep native values', () => {
+      expect(buildTypedSheet(rows, 'snap', true)).toEqual({
+        headers: ['Name', 'Age', 'Active'],
+        rows: [['Alice', 30, true], ['Bob | Jr', null, false]],
+        row_numbers: [3, 5],
+        native_types: true,
+        snapshot: 'snap'
+      });
+    });
+
+    it('should name blank and repeated headers', () => {
+      expect(buildTypedSheet([['Name', null, 'name'], ['a', 'b', 'c', 'd']], 'snap', true).headers)
+        .toEqual(['Name', 'column_2', 'name_2', 'column_4']);
+    });
+
+    it('should build text-only sheets from CSV', () => {
+      const csv = 'Name,Age\nAlice,30\n';
+      expect(csvToTypedSheet(csv)).toEqual({
+        headers: ['Name', 'Age'],
+        rows: [['Alice', '30']],
+        row_numbers: [2],
+        native_types: false,
+        snapshot: getSnapshotId(csv)
+      });
+    });
+
+    it('should build sheets with more rows than fit in a function call', () => {
+      const csv = `Id,Name\n${Array.from({ length: 200000 }, (_, index) => `${index},x`).join('\n')}`;
+      const sheet = csvToTypedSheet(csv);
+
+      expect(sheet.headers).toEqual(['Id', 'Name']);
+      expect(sheet.rows).toHaveLength(200000);
+    });
+  });
+
+  describe('renderRows', () => {
+    const sheet = buildTypedSheet(rows, 'snap', true);
+
+    it('should render JSON as an array of header-keyed objects', () => {
+      expect(JSON.parse(renderRows(sheet.headers, sheet.rows, 'json'))).toEqual([
+        { Name: 'Alice', Age: 30, Active: true },
+        { Name: 'Bob | Jr', Age: null, Active: false }
+      ]);
+    });
+
+    it('should render NDJSON with one object per line', () => {
+      expect(renderRows(sheet.headers, sheet.rows, 'ndjson')).toBe(
+        '{"Name":"Alice","Age":30,"Active":true}\n{"Name":"Bob | Jr","Age":null,"Active":false}'
+      );
+    });
+
+    it('should render Markdown and CSV with a header row', () => {
+      expect(renderRows(sheet.headers, sheet.rows, 'markdown')).toBe(
+        '| Name | Age | Active |\n| --- | --- | --- |\n| Alice | 30 | true |\n| Bob \\| Jr |  | false |'
+      );
+      expect(renderRows(sheet.headers, sheet.rows, 'csv')).toBe('Name,Age,Active\nAlice,30,true\nBob | Jr,,false');
+    });
+  });
+
+  describe('readTypedPage', () => {
+    const sheet = buildTypedSheet(
+      [['Id', 'Value'], ...Array.from({ length: 10 }, (_, i) => [i + 1, `value ${i + 1}`])],
+      'snap',
+      true
+    );
+
+    it('should page by rows', () => {
+      const first = readTypedPage(sheet, 'json', { maxRows: 4, maxBytes: 100000 });
+      expect(first.rows.map(row => row[0])).toEqual([1, 2, 3, 4]);
+      expect(first.next_row).toBe(4);
+
+      const last = readTypedPage(sheet, 'json', { maxRows: 4, maxBytes: 100000 }, 8);
+      expect(last.rows.map(row => row[0])).toEqual([9, 10]);
+      expect(last.next_row).toBeNull();
+    });
+
+    it('should keep the rendered page within the byte limit but return at least one row', () => {
+      for (const format of ['json', 'ndjson', 'markdown'] as const) {
+        const page = readTypedPage(sheet, format, { maxBytes: 100 });
+        expect(Buffer.byteLength(renderRows(sheet.headers, page.rows, format))).toBeLessThanOrEqual(100);
+        expect(page.next_row).toBe(page.rows.length);
+      }
+      expect(readTypedPage(sheet, 'json', { maxBytes: 1 }).rows).toHaveLength(1);
+    });
+  });
+
+  describe('withFormat', () => {
+    it('should add a format parameter except for CSV', () => {
+      expect(withFormat('quip://abc?sheet=Sheet1', 'json')).toBe('quip://abc?sheet=Sheet1&format=json');
+      expect(withFormat('file:///data/abc.csv', 'ndjson')).toBe('file:///data/abc.csv?format=ndjson');
+      expect(withFormat('quip://abc', 'csv')).toBe('quip://abc');
+    });
+  });
+
+  describe('loadTypedSheet', () => {
+    const csv = 'Name,Age\nAlice,30';
+
+    it('should use the stored typed sheet only if it matches the stored CSV', async () => {
+      const stored = {
+        headers: ['Name', 'Age'],
+        rows: [['Alice', 30]],
+        row_numbers: [2],
+        native_types: true,
+        snapshot: getSnapshotId(csv)
+      };
+      const storage = { getTypedSheet: jest.fn().mockResolvedValue(stored) } as unknown as StorageInterface;
+
+      expect(await loadTypedSheet(storage, 'abc', 'Sheet1', csv)).toBe(stored);
+      expect(storage.getTypedSheet).toHaveBeenCalledWith('abc', 'Sheet1');
+
+      const refreshed = 'Name,Age\nAlice,31';
+      expect(await loadTypedSheet(storage, 'abc', 'Sheet1', refreshed)).toEqual(csvToTypedSheet(refreshed));
+    });
+  });
+});
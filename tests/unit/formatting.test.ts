@@ -0,0 +1,22 @@
+import { mergeCellFormatting } from '../../src/formatting';
+
+describe('mergeCellFormatting', () => {
+  it('should prefer the primary source and fill in missing properties from the secondary one', () => {
+    const merged = mergeCellFormatting(
+      [
+        { cell: 'B2', hyperlink: 'https://example.com/xlsx', number_format: '0.00' },
+        { cell: 'AA1', comments: [{ text: 'Note' }] }
+      ],
+      [
+        { cell: 'B2', hyperlink: 'https://example.com/html', bold: true },
+        { cell: 'C1', italic: true }
+      ]
+    );
+
+    expect(merged).toEqual([
+      { cell: 'C1', italic: true },
+      { cell: 'AA1', comments: [{ text: 'Note' }] },
+      { cell: 'B2', hyperlink: 'https://example.com/xlsx', bold: true, number_format: '0.00' }
+    ]);
+  });
+});
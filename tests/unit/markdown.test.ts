@@ -0,0 +1,80 @@
+import { convertHTMLToMarkdown, truncateMarkdownContent } from '../../src/markdown';
+
+// Mock logger
+jest.mock('../../src/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('Markdown Conversion', () => {
+  describe('convertHTMLToMarkdown', () => {
+    it('should convert headings and paragraphs', () => {
+      const html = '<h1 id="a">Project Plan</h1><p class="line">Intro paragraph</p><h3>Details</h3>';
+      
+      expect(convertHTMLToMarkdown(html)).toBe('# Project Plan\n\nIntro paragraph\n\n### Details\n');
+    });
+    
+    it('should convert links and inline emphasis', () => {
+      const html = '<p>See <a href="https://quip.com/abc">the sheet</a>, <b>bold</b> and <i>italic</i> and <code>x = 1</code></p>';
+      
+      expect(convertHTMLToMarkdown(html)).toBe(
+        'See [the sheet](https://quip.com/abc), **bold** and *italic* and `x = 1`\n'
+      );
+    });
+    
+    it('should convert ordered, unordered and nested lists', () => {
+      const html = '<ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul><ol><li>First</li><li>Second</li></ol>';
+      
+      expect(convertHTMLToMarkdown(html)).toBe('- One\n- Two\n  - Nested\n\n1. First\n2. Second\n');
+    });
+    
+    it('should convert Quip checklists and checkbox inputs', () => {
+      const html = '<ul class="checklist"><li class="checked">Done</li><li>Todo</li></ul>' +
+        '<ul><li><input type="checkbox" checked> Shipped</li><li><input type="checkbox"> Pending</li></ul>';
+      
+      expect(convertHTMLToMarkdown(html)).toBe('- [x] Done\n- [ ] Todo\n\n- [x] Shipped\n- [ ] Pending\n');
+    });
+    
+    it('should render tables as Markdown tables using the first row as header', () => {
+      const html = '<p>Owners:</p><table>' +
+        '<tr><td>Area</td><td>Owner</td></tr>' +
+        '<tr><td>Data | Eng</td><td><i>Jane</i></td></tr>' +
+        '<tr><td>Ops</td></tr>' +
+        '</table>';
+      
+      expect(convertHTMLToMarkdown(html)).toBe(
+        'Owners:\n\n' +
+        '| Area | Owner |\n' +
+        '| --- | --- |\n' +
+        '| Data \\| Eng | *Jane* |\n' +
+        '| Ops |  |\n'
+      );
+    });
+    
+    it('should convert block quotes, code blocks and rules', () => {
+      const html = '<blockquote><p>Quoted</p></blockquote><pre>line 1\nline 2</pre><hr>';
+      
+      expect(convertHTMLToMarkdown(html)).toBe('> Quoted\n\n```\nline 1\nline 2\n```\n\n---\n');
+    });
+    
+    it('should return an empty string for empty HTML', () => {
+      expect(convertHTMLToMarkdown('')).toBe('');
+    });
+  });
+  
+  describe('truncateMarkdownContent', () => {
+    it('should not truncate content under the limit', () => {
+      expect(truncateMarkdownContent('# Title\n', 100)).toEqual(['# Title\n', false]);
+    });
+    
+    it('should truncate on a line boundary', () => {
+      const markdown = 'line one\nline two\nline three\n';
+      
+      expect(truncateMarkdownContent(markdown, 20)).toEqual(['line one\nline two\n', true]);
+    });
+  });
+});
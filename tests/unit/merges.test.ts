@@ -0,0 +1,78 @@
+import { applySheetLayout, coversSheetLayout, detectHeaderRowCount, fillMergedCells, flattenHeaderRows } from '../../src/merges';
+import { CellRange, CellValue } from '../../src/types';
+
+const merge = (startRow: number, startColumn: number, endRow: number, endColumn: number): CellRange =>
+  ({ startRow, startColumn, endRow, endColumn });
+
+describe('merged cells and headers', () => {
+  // Title merged across A1:E1, "Item" merged down A3:A4, quarters merged across two columns each
+  const rows: CellValue[][] = [
+    ['Finance Report 2024', null, null, null, null],
+    [null, null, null, null, null],
+    ['Item', 'Q1', null, 'Q2', null],
+    [null, 'Revenue', 'Cost', 'Revenue', 'Cost'],
+    ['Widgets', 10, 4, 12, 5]
+  ];
+  const merges = [merge(0, 0, 0, 4), merge(2, 0, 3, 0), merge(2, 1, 2, 2), merge(2, 3, 2, 4)];
+
+  describe('fillMergedCells', () => {
+    it('should copy the top-left value into every cell of each merged range', () => {
+      const filled = fillMergedCells([['East', 1], [null, 2], ['West', 3]], [merge(0, 0, 1, 0)]);
+
+      expect(filled).toEqual([['East', 1], ['East', 2], ['West', 3]]);
+    });
+  });
+
+  describe('detectHeaderRowCount', () => {
+    it('should extend the header over cells merged down and below group headers', () => {
+      expect(detectHeaderRowCount(rows, merges, 2)).toBe(2);
+      expect(detectHeaderRowCount(rows, [], 2)).toBe(1);
+    });
+  });
+
+  describe('flattenHeaderRows', () => {
+    it('should skip title rows and build composite names in place of the last header row', () => {
+      expect(flattenHeaderRows(rows, merges)).toEqual([
+        [null, null, null, null, null],
+        [null, null, null, null, null],
+        [null, null, null, null, null],
+        ['Item', 'Q1 / Revenue', 'Q1 / Cost', 'Q2 / Revenue', 'Q2 / Cost'],
+        ['Widgets', 10, 4, 12, 5]
+      ]);
+    });
+
+    it('should use an explicit number of header rows', () => {
+      const flattened = flattenHeaderRows(rows, merges, 1);
+
+      expect(flattened[2]).toEqual(['Item', 'Q1', 'Q1', 'Q2', 'Q2']);
+      expect(flattened[3]).toEqual(rows[3]);
+    });
+  });
+
+  describe('applySheetLayout', () => {
+    it('should leave sheets without merged cells unchanged unless headerRows is given', () => {
+      const plain: CellValue[][] = [['Group', null], ['Name', 'Age'], ['Alice', 30]];
+
+      expect(applySheetLayout(plain, [])).toBe(plain);
+      expect(applySheetLayout(plain, [], { headerRows: 2 })).toEqual([[null, null], ['Group / Name', 'Age'], ['Alice', 30]]);
+    });
+
+    it('should fill merged data cells when requested', () => {
+      const withData = [...rows, ['Gadgets', null, 2, null, 3]];
+      const laidOut = applySheetLayout(withData, [...merges, merge(4, 1, 5, 1)], { fillMerged: true });
+
+      expect(laidOut[3]).toEqual(['Item', 'Q1 / Revenue', 'Q1 / Cost', 'Q2 / Revenue', 'Q2 / Cost']);
+      expect(laidOut[5]).toEqual(['Gadgets', 10, 2, null, 3]);
+    });
+  });
+
+  describe('coversSheetLayout', () => {
+    it('should wait for the row below every merged range and for the header rows', () => {
+      expect(coversSheetLayout(rows.slice(0, 4), merges)).toBe(false);
+      expect(coversSheetLayout(rows, merges)).toBe(true);
+      expect(coversSheetLayout([], [])).toBe(true);
+      expect(coversSheetLayout([[null, null], ['Group', null]], [], { headerRows: 2 })).toBe(false);
+      expect(coversSheetLayout([[null, null], ['Group', null], ['Name', 'Age']], [], { headerRows: 2 })).toBe(true);
+    });
+  });
+});
@@ -103,6 +103,15 @@ describe('MockQuipClient', () => {
       expect(logger.info).toHaveBeenCalledWith(`Getting mock thread: ${threadId}`);
     });
     
+    it('should return document threads with their HTML', async () => {
+      const result = await mockClient.getThread('doc1');
+      
+      expect(result.thread).toHaveProperty('type', 'document');
+      expect(result.thread).toHaveProperty('title', 'Sample Document');
+      expect(result.html).toContain('<ul class="checklist">');
+      expect(await mockClient.isSpreadsheet('doc1')).toBe(false);
+    });
+    
     it('should throw an error for a non-existent thread', async () => {
       const threadId = 'non-existent';
       
@@ -113,6 +122,30 @@ describe('MockQuipClient', () => {
     });
   });
   
+  describe('searchThreads', () => {
+    it('should match thread titles case-insensitively', async () => {
+      const results = await mockClient.searchThreads('sample spreadsheet');
+      
+      expect(results.map(r => r.thread_id)).toEqual(['sample1', 'sample2', 'large']);
+      expect(results[0]).toEqual({
+        thread_id: 'sample1',
+        title: 'Sample Spreadsheet 1',
+        type: 'spreadsheet',
+        link: 'https://quip.com/sample1',
+        updated_usec: 1704067200000000,
+        updated_at: '2024-01-01T00:00:00.000Z'
+      });
+    });
+    
+    it('should apply the type filter and limit', async () => {
+      const documents = await mockClient.searchThreads('sample', 'document');
+      expect(documents.map(r => r.thread_id)).toEqual(['doc1']);
+      
+      const limited = await mockClient.searchThreads('sample', 'spreadsheet', 1);
+      expect(limited.map(r => r.thread_id)).toEqual(['sample1']);
+    });
+  });
+  
   describe('exportThreadToXLSX', () => {
     const outputPath = '/mock/output/path.xlsx';
     
@@ -153,6 +186,21 @@ describe('MockQuipClient', () => {
     });
   });
   
+  describe('listSheets', () => {
+    it('should list every sheet with its dimensions and header row', async () => {
+      const sheets = await mockClient.listSheets('sample1');
+      
+      expect(sheets).toEqual([
+        { name: 'Sheet1', rows: 4, columns: 3, header_row: 1, headers: ['Name', 'Age', 'Email'] },
+        { name: 'Sheet2', rows: 4, columns: 3, header_row: 1, headers: ['Product', 'Price', 'Quantity'] }
+      ]);
+    });
+    
+    it('should throw an error for a non-existent thread', async () => {
+      await expect(mockClient.listSheets('non-existent')).rejects.toThrow('Thread not found: non-existent');
+    });
+  });
+  
   describe('exportThreadToCSVFallback', () => {
     it('should return CSV content for an existing thread and sheet', async () => {
       const threadId = 'sample1';
@@ -201,6 +249,102 @@ describe('MockQuipClient', () => {
     });
   });
   
+  describe('getSheetFormatting', () => {
+    it('should report no formatting for mock sheets', async () => {
+      expect(await mockClient.getSheetFormatting('sample1', 'Sheet1')).toEqual([]);
+    });
+    
+    it('should throw an error for a non-existent sheet', async () => {
+      await expect(mockClient.getSheetFormatting('sample1', 'Missing'))
+        .rejects.toThrow("Sheet 'Missing' not found in thread sample1");
+    });
+  });
+  
+  describe('updateCells', () => {
+    afterEach(() => {
+      MockQuipClient.resetEdits();
+    });
+    
+    it('should write values into the sheet', async () => {
+      const result = await mockClient.updateCells(
+        'sample1',
+        'Sheet1',
+        { startRow: 1, startColumn: 1, endRow: 2, endColumn: 1 },
+        [[31], [null]]
+      );
+      
+      expect(result).toEqual({ thread_id: 'sample1', sheet_name: 'Sheet1', range: 'B2:B3', updated_cells: 2 });
+      const csv = await mockClient.exportThreadToCSVFallback('sample1', 'Sheet1');
+      expect(csv.split('\n').slice(0, 3)).toEqual([
+        'Name,Age,Email',
+        'John Doe,31,john@example.com',
+        'Jane Smith,,jane@example.com'
+      ]);
+    });
+    
+    it('should grow the sheet to fit the range', async () => {
+      await mockClient.updateCells(
+        'sample2',
+        'Data',
+        { startRow: 4, startColumn: 4, endRow: 4, endColumn: 4 },
+        [['Note']]
+      );
+      
+      const rows = (await mockClient.exportThreadToCSVFallback('sample2', 'Data')).split('\n');
+      expect(rows).toHaveLength(5);
+      expect(rows[0]).toBe('Date,Revenue,Expenses,Profit,');
+      expect(rows[4]).toBe(',,,,Note');
+    });
+    
+    it('should keep edits visible to new clients until reset', async () => {
+      await mockClient.updateCells(
+        'sample1',
+        'Sheet2',
+        { startRow: 1, startColumn: 0, endRow: 1, endColumn: 0 },
+        [['Widget Z']]
+      );
+      
+      const otherClient = new MockQuipClient();
+      expect(await otherClient.exportThreadToCSVFallback('sample1', 'Sheet2')).toContain('Widget Z,10.99,100');
+      const thread = await otherClient.getThread('sample1');
+      expect(thread.thread.updated_usec).toBeGreaterThan(1704067200000000);
+      
+      MockQuipClient.resetEdits();
+      expect(await new MockQuipClient().exportThreadToCSVFallback('sample1', 'Sheet2')).toContain('Widget A,10.99,100');
+    });
+    
+    it('should throw an error for a non-existent sheet', async () => {
+      await expect(mockClient.updateCells('sample1', 'Missing', { startRow: 0, startColumn: 0, endRow: 0, endColumn: 0 }, [['x']]))
+        .rejects.toThrow("Sheet 'Missing' not found in thread sample1");
+    });
+  });
+  
+  describe('appendRows', () => {
+    afterEach(() => {
+      MockQuipClient.resetEdits();
+    });
+    
+    it('should append rows after the last row of the sheet', async () => {
+      const appended = await mockClient.appendRows('sample1', 'Sheet2', [['Widget D', 7.5, 10], ['Widget E', null, true]]);
+      
+      expect(appended).toBe(2);
+      const rows = (await mockClient.exportThreadToCSVFallback('sample1', 'Sheet2')).split('\n');
+      expect(rows.slice(-3)).toEqual(['Widget C,5.99,200', 'Widget D,7.5,10', 'Widget E,,true']);
+    });
+    
+    it('should default to the first sheet and be visible to new clients', async () => {
+      await mockClient.appendRows('sample2', undefined, [['2023-04-01', 6500, 3600, 2900]]);
+      
+      const csv = await new MockQuipClient().exportThreadToCSVFallback('sample2');
+      expect(csv.endsWith('2023-03-01,6000,3500,2500\n2023-04-01,6500,3600,2900')).toBe(true);
+    });
+    
+    it('should throw an error for a non-existent sheet', async () => {
+      await expect(mockClient.appendRows('sample1', 'Missing', [['x']]))
+        .rejects.toThrow("Sheet 'Missing' not found in thread sample1");
+    });
+  });
+  
   describe('isSpreadsheet', () => {
     it('should return true for an existing thread', async () => {
       const threadId = 'sample1';
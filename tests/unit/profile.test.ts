@@ -0,0 +1,68 @@
+import { inferType, profileSheet } from '../../src/profile';
+
+describe('profileSheet', () => {
+  const csv = [
+    '',
+    'Name,Score,Joined,Active,Notes',
+    'Alice,92,2023-01-15,TRUE,',
+    'Bob,"1,050",2022-11-01,false,n/a',
+    ',,,,',
+    'Carol,78,1/20/2024,true,',
+    'Alice,,2021-06-30,no,late'
+  ].join('\n');
+
+  it('should use the first non-empty row as header and skip blank rows', () => {
+    const profile = profileSheet(csv, 5, 3);
+
+    expect(profile.header_row).toBe(2);
+    expect(profile.data_rows).toBe(4);
+    expect(profile.columns.map(column => [column.name, column.column, column.type])).toEqual([
+      ['Name', 'A', 'string'],
+      ['Score', 'B', 'number'],
+      ['Joined', 'C', 'date'],
+      ['Active', 'D', 'boolean'],
+      ['Notes', 'E', 'string']
+    ]);
+  });
+
+  it('should compute blank and distinct counts and number statistics', () => {
+    const [name, score] = profileSheet(csv, 5, 3).columns;
+
+    expect(name).toMatchObject({ blank_count: 0, distinct_count: 3 });
+    expect(score).toMatchObject({ blank_count: 1, distinct_count: 3, min: 78, max: 1050 });
+    expect(score.mean).toBeCloseTo(406.67, 2);
+    expect(name.min).toBeUndefined();
+  });
+
+  it('should report the most frequent values and samples in sheet order', () => {
+    const [name, , , , notes] = profileSheet(csv, 2, 2).columns;
+
+    expect(name.top_values).toEqual([{ value: 'Alice', count: 2 }, { value: 'Bob', count: 1 }]);
+    expect(name.samples).toEqual(['Alice', 'Bob']);
+    expect(notes).toMatchObject({ blank_count: 2, samples: ['n/a', 'late'] });
+  });
+
+  it('should profile sheets with more rows than fit in a function call', () => {
+    const rows = Array.from({ length: 200000 }, (_, index) => `${index},x`);
+    const profile = profileSheet(`Id,Name\n${rows.join('\n')}`, 5, 3);
+
+    expect(profile.data_rows).toBe(200000);
+    expect(profile.columns).toHaveLength(2);
+    expect(profile.columns[0]).toMatchObject({ type: 'number', min: 0, max: 199999 });
+  });
+
+  it('should return an empty profile for empty content', () => {
+    expect(profileSheet('', 5, 3)).toEqual({ header_row: null, data_rows: 0, top_n: 5, sample_size: 3, columns: [] });
+  });
+});
+
+describe('inferType', () => {
+  it('should pick the narrowest type that fits every value', () => {
+    expect(inferType(['1', '2.5', '-3'])).toBe('number');
+    expect(inferType(['yes', 'No'])).toBe('boolean');
+    expect(inferType(['2024-03-01', 'Mar 3, 2024', '15.01.2024', '2024-03-01T10:00:00Z'])).toBe('date');
+    expect(inferType(['2024-03-01', 'soon'])).toBe('string');
+    expect(inferType(['2024-13-45'])).toBe('string');
+    expect(inferType([])).toBe('string');
+  });
+});
@@ -0,0 +1,102 @@
+import { parseNumber, querySheet } from '../../src/query';
+
+describe('querySheet', () => {
+  const csv = [
+    '',
+    'Name,Team,Score,Joined',
+    'Alice,Data,92,2023-01-15',
+    'bob,Platform,"1,050",2022-11-01',
+    'Carol,data,78,2024-03-20',
+    ',,,',
+    'Dave,Platform,,2021-06-30',
+    'Eve,Security,78,2023-08-08'
+  ].join('\n');
+  
+  it('should use the first non-empty row as header and skip blank rows', () => {
+    const result = querySheet(csv, {});
+    
+    expect(result.headers).toEqual(['Name', 'Team', 'Score', 'Joined']);
+    expect(result.total_matches).toBe(5);
+    expect(result.rows[1]).toEqual(['bob', 'Platform', '1,050', '2022-11-01']);
+  });
+  
+  it('should filter with equals, contains and not_equals case-insensitively by default', () => {
+    expect(querySheet(csv, { filters: [{ column: 'team', operator: 'equals', value: 'DATA' }] }).rows.map(row => row[0]))
+      .toEqual(['Alice', 'Carol']);
+    expect(querySheet(csv, { filters: [{ column: 'Team', operator: 'equals', value: 'data', caseSensitive: true }] }).total_matches)
+      .toBe(1);
+    expect(querySheet(csv, { filters: [{ column: 'Name', operator: 'contains', value: 'O' }] }).rows.map(row => row[0]))
+      .toEqual(['bob', 'Carol']);
+    expect(querySheet(csv, { filters: [{ column: 'Team', operator: 'not_equals', value: 'platform' }] }).total_matches)
+      .toBe(3);
+  });
+  
+  it('should compare numbers numerically and skip empty cells', () => {
+    const result = querySheet(csv, { filters: [{ column: 'Score', operator: 'gte', value: 90 }] });
+    
+    expect(result.rows.map(row => row[0])).toEqual(['Alice', 'bob']);
+    expect(querySheet(csv, { filters: [{ column: 'Score', operator: 'lt', value: '80' }] }).total_matches).toBe(2);
+    expect(querySheet(csv, { filters: [{ column: 'Score', operator: 'equals', value: 1050 }] }).total_matches).toBe(1);
+  });
+  
+  it('should compare non-numeric values as text', () => {
+    const result = querySheet(csv, { filters: [{ column: 'Joined', operator: 'gt', value: '2023-06-01' }] });
+    expect(result.rows.map(row => row[0])).toEqual(['Carol', 'Eve']);
+  });
+  
+  it('should filter with regular expressions and combine filters with AND', () => {
+    const result = querySheet(csv, {
+      filters: [
+        { column: 'Name', operator: 'regex', value: '^[a-c]' },
+        { column: 'Score', operator: 'lt', value: 100 }
+      ]
+    });
+    expect(result.rows.map(row => row[0])).toEqual(['Alice', 'Carol']);
+  });
+  
+  it('should sort by several keys with empty cells last', () => {
+    const result = querySheet(csv, {
+      sort: [{ column: 'Score', direction: 'desc' }, { column: 'Name' }],
+      columns: ['Name', 'Score']
+    });
+    
+    expect(result.headers).toEqual(['Name', 'Score']);
+    expect(result.rows).toEqual([
+      ['bob', '1,050'],
+      ['Alice', '92'],
+      ['Carol', '78'],
+      ['Eve', '78'],
+      ['Dave', '']
+    ]);
+  });
+  
+  it('should apply offset and limit after counting matches', () => {
+    const result = querySheet(csv, { sort: [{ column: 'Name' }], offset: 1, limit: 2 });
+    
+    expect(result.total_matches).toBe(5);
+    expect(result.rows.map(row => row[0])).toEqual(['bob', 'Carol']);
+  });
+  
+  it('should reject unknown columns and invalid regular expressions', () => {
+    expect(() => querySheet(csv, { columns: ['Email'] }))
+      .toThrow("Unknown column 'Email'. Available columns: Name, Team, Score, Joined");
+    expect(() => querySheet(csv, { filters: [{ column: 'Name', operator: 'regex', value: '(' }] }))
+      .toThrow("Invalid regular expression for column 'Name'");
+  });
+  
+  it('should return no rows for empty content', () => {
+    expect(querySheet('', {})).toEqual({ headers: [], rows: [], total_matches: 0 });
+  });
+});
+
+describe('parseNumber', () => {
+  it('should parse plain numbers and thousands separators only', () => {
+    expect(parseNumber('42')).toBe(42);
+    expect(parseNumber(' -3.5 ')).toBe(-3.5);
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber('1e3')).toBe(1000);
+    expect(parseNumber('')).toBeNull();
+    expect(parseNumber('12 apples')).toBeNull();
+    expect(parseNumber('2023-01-15')).toBeNull();
+  });
+});
@@ -1,4 +1,4 @@
-import { QuipClient, findSheetByName, extractSheetData, convertXLSXToCSV } from '../../src/quipClient';
+import { QuipClient, findSheetByName, extractSheetData, convertXLSXToCSV, convertXLSXToFormatting, convertXLSXToFormulas, convertXLSXToSheets, convertXLSXToTypedRows, listXLSXSheets, readXLSXWorkbook, resolveXLSXRange, streamXLSXToCSV } from '../../src/quipClient';
 import * as fs from 'fs-extra';
 
 // Mock dependencies
@@ -56,7 +56,9 @@ readFile: jest.fn().mockReturnValue({
       // Mock returning a standard range
       return { s: { c: 0, r: 0 }, e: { c: 2, r: 10 } };
     })
-  }
+  },
+  // Date format detection and serial number decoding use the real implementation
+  SSF: jest.requireActual('xlsx').SSF
 }));
 
 // Mock cheerio
@@ -190,6 +192,70 @@ describe('QuipClient', () => {
     });
   });
   
+  describe('searchThreads', () => {
+    const searchResponse = {
+      data: [
+        { thread: { id: 'sheet1', title: 'Budget', type: 'SPREADSHEET', link: 'https://quip.com/sheet1', updated_usec: 1704067200000000 } },
+        { thread: { id: 'doc1', title: 'Budget notes', type: 'document', link: 'https://quip.com/doc1', updated_usec: 1704153600000000 } }
+      ]
+    };
+    
+    it('should query the search API and map results', async () => {
+      const mockAxiosInstance = {
+        get: jest.fn().mockResolvedValue(searchResponse)
+      };
+      (quipClient as any).axiosInstance = mockAxiosInstance;
+      
+      const results = await quipClient.searchThreads('budget', undefined, 5);
+      
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        `${mockBaseUrl}/1/threads/search`,
+        { params: { query: 'budget', count: 5 } }
+      );
+      expect(results).toEqual([
+        {
+          thread_id: 'sheet1',
+          title: 'Budget',
+          type: 'spreadsheet',
+          link: 'https://quip.com/sheet1',
+          updated_usec: 1704067200000000,
+          updated_at: '2024-01-01T00:00:00.000Z'
+        },
+        {
+          thread_id: 'doc1',
+          title: 'Budget notes',
+          type: 'document',
+          link: 'https://quip.com/doc1',
+          updated_usec: 1704153600000000,
+          updated_at: '2024-01-02T00:00:00.000Z'
+        }
+      ]);
+    });
+    
+    it('should filter by type after requesting the maximum count', async () => {
+      const mockAxiosInstance = {
+        get: jest.fn().mockResolvedValue(searchResponse)
+      };
+      (quipClient as any).axiosInstance = mockAxiosInstance;
+      
+      const results = await quipClient.searchThreads('budget', 'document', 5);
+      
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        `${mockBaseUrl}/1/threads/search`,
+        { params: { query: 'budget', count: 50 } }
+      );
+      expect(results.map(r => r.thread_id)).toEqual(['doc1']);
+    });
+    
+    it('should throw an error when the API request fails', async () => {
+      (quipClient as any).axiosInstance = {
+        get: jest.fn().mockRejectedValue(new Error('Search failed'))
+      };
+      
+      await expect(quipClient.searchThreads('budget')).rejects.toThrow('Search failed');
+    });
+  });
+  
   describe('exportThreadToXLSX', () => {
     const outputPath = '/mock/output/path.xlsx';
     
@@ -375,6 +441,161 @@ describe('QuipClient', () => {
     });
   });
   
+  describe('updateCells', () => {
+    const html = '<html><body><table title="Sheet1">' +
+      '<thead><tr><th>A</th><th>B</th></tr></thead>' +
+      '<tbody>' +
+      '<tr><td id="s:a1">Name</td><td id="s:b1">Age</td></tr>' +
+      '<tr><td id="s:a2">John</td><td id="s:b2">30</td></tr>' +
+      '</tbody></table></body></html>';
+    let originalLoad: any;
+    let mockPost: jest.Mock;
+    
+    beforeEach(() => {
+      // Parse the thread HTML for real so section IDs can be resolved (the slim build skips
+      // undici, whose WebAssembly loader breaks under this file's mocks)
+      originalLoad = (cheerio.load as jest.Mock).getMockImplementation();
+      (cheerio.load as jest.Mock).mockImplementation(jest.requireActual('cheerio/slim').load);
+      
+      jest.spyOn(quipClient, 'getThread').mockResolvedValue({ thread: { id: mockThreadId }, html });
+      mockPost = jest.fn().mockResolvedValue({ data: {} });
+      (quipClient as any).axiosInstance.post = mockPost;
+    });
+    
+    afterEach(() => {
+      (cheerio.load as jest.Mock).mockImplementation(originalLoad);
+    });
+    
+    it('should replace each cell section through the edit-document API', async () => {
+      const result = await quipClient.updateCells(
+        mockThreadId,
+        'Sheet1',
+        { startRow: 1, startColumn: 0, endRow: 1, endColumn: 1 },
+        [['<Jane>', 31]]
+      );
+      
+      expect(result).toEqual({ thread_id: mockThreadId, sheet_name: 'Sheet1', range: 'A2:B2', updated_cells: 2 });
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      
+      const [url, body] = mockPost.mock.calls[0];
+      expect(url).toBe(`${mockBaseUrl}/1/threads/edit-document`);
+      expect(Object.fromEntries(body)).toEqual({
+        thread_id: mockThreadId,
+        format: 'html',
+        content: '&lt;Jane&gt;',
+        section_id: 's:a2',
+        location: '4'
+      });
+      expect(Object.fromEntries(mockPost.mock.calls[1][1]).section_id).toBe('s:b2');
+    });
+    
+    it('should reject cells outside the sheet before writing anything', async () => {
+      await expect(quipClient.updateCells(
+        mockThreadId,
+        'Sheet1',
+        { startRow: 1, startColumn: 1, endRow: 2, endColumn: 1 },
+        [['31'], ['40']]
+      )).rejects.toThrow("Cell B3 is outside sheet 'Sheet1'");
+      
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+    
+    it('should tell how many cells were written before a request failed', async () => {
+      mockPost.mockResolvedValueOnce({ data: {} }).mockRejectedValueOnce(new Error('Request failed with status code 500'));
+      
+      await expect(quipClient.updateCells(
+        mockThreadId,
+        'Sheet1',
+        { startRow: 1, startColumn: 0, endRow: 1, endColumn: 1 },
+        [['Jane', 31]]
+      )).rejects.toThrow('Failed to update cell B2: Request failed with status code 500; 1 of 2 cells were written, up to A2');
+    });
+    
+    it('should not fall back to another sheet when the name does not match', async () => {
+      await expect(quipClient.updateCells(
+        mockThreadId,
+        'Sheet2',
+        { startRow: 0, startColumn: 0, endRow: 0, endColumn: 0 },
+        [['x']]
+      )).rejects.toThrow("Could not find sheet 'Sheet2' in the document");
+    });
+  });
+  
+  describe('appendRows', () => {
+    const html = '<html><body><table title="Runs"><tbody>' +
+      '<tr id="r:1"><td id="s:a1">Run</td><td id="s:b1">Score</td></tr>' +
+      '<tr id="r:2"><td id="s:a2">eval-1</td><td id="s:b2">0.9</td></tr>' +
+      '<tr id="r:3"><td id="s:a3"></td><td id="s:b3"></td></tr>' +
+      '</tbody></table></body></html>';
+    let originalLoad: any;
+    let mockPost: jest.Mock;
+    
+    beforeEach(() => {
+      originalLoad = (cheerio.load as jest.Mock).getMockImplementation();
+      (cheerio.load as jest.Mock).mockImplementation(jest.requireActual('cheerio/slim').load);
+      
+      jest.spyOn(quipClient, 'getThread').mockResolvedValue({ thread: { id: mockThreadId }, html });
+      mockPost = jest.fn().mockResolvedValue({ data: {} });
+      (quipClient as any).axiosInstance.post = mockPost;
+    });
+    
+    afterEach(() => {
+      (cheerio.load as jest.Mock).mockImplementation(originalLoad);
+    });
+    
+    it('should insert the rows after the last non-empty row', async () => {
+      const appended = await quipClient.appendRows(mockThreadId, 'Runs', [['eval-2', 0.85], ['a&b', null]]);
+      
+      expect(appended).toBe(2);
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(Object.fromEntries(mockPost.mock.calls[0][1])).toEqual({
+        thread_id: mockThreadId,
+        format: 'html',
+        content: '<tr><td>eval-2</td><td>0.85</td></tr><tr><td>a&amp;b</td><td></td></tr>',
+        section_id: 'r:2',
+        location: '2'
+      });
+    });
+    
+    it('should not fall back to another sheet when the name does not match', async () => {
+      await expect(quipClient.appendRows(mockThreadId, 'Other', [['x']]))
+        .rejects.toThrow("Could not find sheet 'Other' in the document");
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('getSheetFormatting', () => {
+    let originalLoad: any;
+    
+    beforeEach(() => {
+      originalLoad = (cheerio.load as jest.Mock).getMockImplementation();
+      (cheerio.load as jest.Mock).mockImplementation(jest.requireActual('cheerio/slim').load);
+    });
+    
+    afterEach(() => {
+      (cheerio.load as jest.Mock).mockImplementation(originalLoad);
+    });
+    
+    it('should read hyperlinks, fonts and colors from the thread HTML', async () => {
+      const html = '<html><body><table title="Sheet1"><tbody>' +
+        '<tr><td><b>Name</b></td><td style="font-weight: 700">Site</td></tr>' +
+        '<tr><td></td><td></td></tr>' +
+        '<tr><td><span style="background-color: #eee; color: #c00">Ann</span></td>' +
+        '<td><em><a href="https://example.com">example</a></em></td></tr>' +
+        '</tbody></table></body></html>';
+      jest.spyOn(quipClient, 'getThread').mockResolvedValue({ thread: { id: mockThreadId }, html });
+      
+      const formatting = await quipClient.getSheetFormatting(mockThreadId, 'Sheet1');
+      
+      expect(formatting).toEqual([
+        { cell: 'A1', bold: true },
+        { cell: 'B1', bold: true },
+        { cell: 'A3', color: '#c00' },
+        { cell: 'B3', hyperlink: 'https://example.com', italic: true }
+      ]);
+    });
+  });
+  
   describe('isSpreadsheet', () => {
     it('should return true if thread type is spreadsheet', async () => {
       // Create a new instance with a response for a spreadsheet
@@ -664,7 +885,9 @@ describe('Helper Functions', () => {
       const expectedCsv = 'header1,header2\nvalue1,value2\n';
       const result = convertXLSXToCSV(xlsxPath, mockSheetName);
       
-      expect(XLSX.readFile).toHaveBeenCalledWith(xlsxPath);
+      expect(XLSX.readFile).toHaveBeenCalledWith(xlsxPath, { sheets: [] });
+      // Only the requested sheet is parsed
+      expect(XLSX.readFile).toHaveBeenLastCalledWith(xlsxPath, { sheets: [mockSheetName], dense: true, cellNF: true, cellFormula: true });
       // Check that sheet_to_json was called with the right sheet
       expect(XLSX.utils.sheet_to_json).toHaveBeenCalledWith(
         mockWorkbook.Sheets[mockSheetName],
@@ -780,7 +1003,7 @@ describe('Helper Functions', () => {
       
       const result = convertXLSXToCSV(xlsxPath);
       
-      expect(XLSX.readFile).toHaveBeenCalledWith(xlsxPath);
+      expect(XLSX.readFile).toHaveBeenCalledWith(xlsxPath, { sheets: [0], dense: true, cellNF: true, cellFormula: true });
       expect(XLSX.utils.sheet_to_json).toHaveBeenCalledWith(
         mockWorkbook.Sheets['Sheet1'],
         expect.objectContaining({ 
@@ -792,4 +1015,364 @@ describe('Helper Functions', () => {
       expect(result).toBe(expectedCSV);
     });
   });
+  
+  describe('convertXLSXToCSV with merged cells', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+    
+    it('should skip merged title rows and flatten the requested header rows', () => {
+      (XLSX.readFile as jest.Mock).mockReturnValue({
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          'Sheet1': { A1: { v: 'Report' }, '!merges': [{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }] }
+        }
+      });
+      (XLSX.utils.sheet_to_json as jest.Mock).mockReturnValue([
+        ['Report', ''],
+        ['Person', ''],
+        ['Name', 'Age'],
+        ['Alice', '30']
+      ]);
+      
+      expect(convertXLSXToCSV('/mock/path/file.xlsx')).toBe(',\nPerson,\nName,Age\nAlice,30\n');
+      expect(convertXLSXToCSV('/mock/path/file.xlsx', undefined, { headerRows: 2 })).toBe(',\n,\nPerson / Name,Age\nAlice,30\n');
+    });
+  });
+  
+  describe('resolveXLSXRange', () => {
+    const mockWorkbook = {
+      SheetNames: ['Sheet1', 'Data'],
+      Sheets: {
+        'Sheet1': { A1: { v: 'x' } },
+        'Data': { A1: { v: 'Name' }, F40: { v: 'x' } }
+      },
+      Workbook: {
+        Names: [
+          { Name: 'Totals', Ref: "'Data'!$B$2:$F$60" },
+          { Name: 'Local', Ref: 'Data!$A$1', Sheet: 1 },
+          { Name: 'Broken', Ref: '#REF!' }
+        ]
+      }
+    };
+    
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (XLSX.readFile as jest.Mock).mockReturnValue(mockWorkbook);
+    });
+    
+    it('should clip an A1 range to the populated cells of the sheet', () => {
+      expect(resolveXLSXRange('/mock/path/file.xlsx', 'data', { range: 'B2:Z100' })).toEqual({
+        sheetName: 'Data',
+        range: { startRow: 1, startColumn: 1, endRow: 39, endColumn: 5 }
+      });
+    });
+    
+    it('should resolve a named range to its own sheet', () => {
+      expect(resolveXLSXRange('/mock/path/file.xlsx', undefined, { namedRange: 'totals' })).toEqual({
+        sheetName: 'Data',
+        range: { startRow: 1, startColumn: 1, endRow: 39, endColumn: 5 }
+      });
+      expect(resolveXLSXRange('/mock/path/file.xlsx', 'Data', { namedRange: 'Local' }).range)
+        .toEqual({ startRow: 0, startColumn: 0, endRow: 0, endColumn: 0 });
+    });
+    
+    it('should only parse the sheet a named range refers to, in dense mode', () => {
+      // Dense sheets hold their rows in '!data'
+      const denseWorkbook = {
+        ...mockWorkbook,
+        Sheets: { 'Data': { '!data': [[{ t: 's', v: 'Name' }], [], [undefined, { t: 'n', v: 1 }, { t: 'n', v: 2 }]] } }
+      };
+      (XLSX.readFile as jest.Mock).mockReturnValueOnce({ ...mockWorkbook, Sheets: {} }).mockReturnValueOnce(denseWorkbook);
+      
+      expect(resolveXLSXRange('/mock/path/file.xlsx', undefined, { namedRange: 'Totals' })).toEqual({
+        sheetName: 'Data',
+        range: { startRow: 1, startColumn: 1, endRow: 2, endColumn: 2 }
+      });
+      expect(XLSX.readFile).toHaveBeenCalledWith('/mock/path/file.xlsx', { sheets: [] });
+      expect(XLSX.readFile).toHaveBeenLastCalledWith('/mock/path/file.xlsx', { sheets: ['Data'], dense: true, cellNF: true, cellFormula: true });
+    });
+    
+    it('should reject unknown, mismatched and unusable ranges', () => {
+      expect(() => resolveXLSXRange('/mock/path/file.xlsx', undefined, { namedRange: 'Missing' }))
+        .toThrow("Named range 'Missing' not found. Available named ranges: Totals, Local, Broken");
+      expect(() => resolveXLSXRange('/mock/path/file.xlsx', 'Sheet1', { namedRange: 'Totals' }))
+        .toThrow("Named range 'Totals' refers to sheet 'Data', not 'Sheet1'");
+      expect(() => resolveXLSXRange('/mock/path/file.xlsx', undefined, { namedRange: 'Broken' }))
+        .toThrow("Named range 'Broken' does not refer to a single range of cells: #REF!");
+      expect(() => resolveXLSXRange('/mock/path/file.xlsx', 'Sheet1', { range: 'C3:D4' }))
+        .toThrow("Range C3:D4 has no populated cells in sheet 'Sheet1'");
+    });
+  });
+  
+  describe('convertXLSXToCSV with a range', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+    
+    it('should read the range and keep rows at their sheet positions', () => {
+      const sheet = { B2: { v: 'Name' } };
+      (XLSX.readFile as jest.Mock).mockReturnValue({ SheetNames: ['Sheet1'], Sheets: { 'Sheet1': sheet } });
+      (XLSX.utils.sheet_to_json as jest.Mock).mockReturnValue([
+        ['Name', 'Age'],
+        ['Alice', '30']
+      ]);
+      const range = { startRow: 1, startColumn: 1, endRow: 2, endColumn: 2 };
+      
+      expect(convertXLSXToCSV('/mock/path/file.xlsx', undefined, { range })).toBe(',\nName,Age\nAlice,30\n');
+      expect(XLSX.utils.sheet_to_json).toHaveBeenCalledWith(sheet, expect.objectContaining({
+        range: { s: { c: 1, r: 1 }, e: { c: 2, r: 2 } }
+      }));
+    });
+  });
+  
+  describe('streamXLSXToCSV', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+    
+    it('should convert a large sheet a chunk of rows at a time', () => {
+      const sheet = { A1: { v: 'Id' }, B2500: { v: 'last' } };
+      (XLSX.readFile as jest.Mock).mockReturnValue({ SheetNames: ['Sheet1'], Sheets: { 'Sheet1': sheet } });
+      (XLSX.utils.sheet_to_json as jest.Mock).mockImplementation((_sheet, options) =>
+        Array.from({ length: options.range.e.r - options.range.s.r + 1 }, (_, index) => [String(options.range.s.r + index + 1), ''])
+      );
+      
+      const records = [...streamXLSXToCSV('/mock/path/file.xlsx')];
+      
+      expect(records).toHaveLength(2500);
+      expect(records[0]).toBe('1,\n');
+      expect(records[2499]).toBe('2500,\n');
+      expect((XLSX.utils.sheet_to_json as jest.Mock).mock.calls.map(call => call[1].range)).toEqual([
+        { s: { c: 0, r: 0 }, e: { c: 1, r: 999 } },
+        { s: { c: 0, r: 1000 }, e: { c: 1, r: 1999 } },
+        { s: { c: 0, r: 2000 }, e: { c: 1, r: 2499 } }
+      ]);
+      expect(records.join('')).toBe(convertXLSXToCSV('/mock/path/file.xlsx'));
+    });
+    
+    it('should throw right away if the sheet is not found', () => {
+      (XLSX.readFile as jest.Mock).mockReturnValue({ SheetNames: ['Sheet1'], Sheets: { 'Sheet1': {} } });
+      
+      expect(() => streamXLSXToCSV('/mock/path/file.xlsx', 'Missing')).toThrow(/Missing/);
+    });
+  });
+  
+  describe('convertXLSXToTypedRows', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+    
+    it('should keep native cell types and decode date cells', () => {
+      const mockWorkbook = {
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          'Sheet1': {
+            '!ref': 'A1:C3',
+            A1: { t: 's', v: 'Date' }, B1: { t: 's', v: 'Amount' }, C1: { t: 's', v: 'Paid' },
+            A2: { t: 'n', v: 45306, z: 'm/d/yy' }, B2: { t: 'n', v: 12.5, z: '0.00' }, C2: { t: 'b', v: true },
+            A3: { t: 'n', v: 45306.75, z: 'yyyy-mm-dd hh:mm' }, B3: { t: 'e', v: 7, w: '#DIV/0!' }
+          }
+        }
+      };
+      (XLSX.readFile as jest.Mock).mockReturnValue(mockWorkbook);
+      
+      const rows = convertXLSXToTypedRows('/mock/path/file.xlsx');
+      
+      expect(XLSX.readFile).toHaveBeenCalledWith('/mock/path/file.xlsx', { sheets: [0], dense: true, cellNF: true, cellFormula: true });
+      expect(rows).toEqual([
+        ['Date', 'Amount', 'Paid'],
+        ['2024-01-15', 12.5, true],
+        ['2024-01-15T18:00:00', '#DIV/0!', null]
+      ]);
+    });
+    
+    it('should read only the columns of a range, leaving rows above it blank', () => {
+      (XLSX.readFile as jest.Mock).mockReturnValue({
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          'Sheet1': {
+            A1: { t: 's', v: 'Title' },
+            A2: { t: 's', v: 'Id' }, B2: { t: 's', v: 'Amount' }, C2: { t: 's', v: 'Note' },
+            A3: { t: 'n', v: 1 }, B3: { t: 'n', v: 12.5 }, C3: { t: 's', v: 'ok' }
+          }
+        }
+      });
+      
+      const rows = convertXLSXToTypedRows('/mock/path/file.xlsx', undefined, {
+        range: { startRow: 1, startColumn: 1, endRow: 2, endColumn: 2 }
+      });
+      
+      expect(rows).toEqual([
+        [null, null],
+        ['Amount', 'Note'],
+        [12.5, 'ok']
+      ]);
+    });
+  });
+  
+  describe('convertXLSXToFormatting', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+    
+    it('should read hyperlinks, number formats and comments', () => {
+      (XLSX.readFile as jest.Mock).mockReturnValue({
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          'Sheet1': {
+            A1: { t: 's', v: 'Site', z: 'General' },
+            A2: { t: 's', v: 'example', l: { Target: 'https://example.com' } },
+            B2: { t: 'n', v: 0.25, z: '0.00%', c: [{ a: 'Ann', t: 'Check this' }, { t: 'Agreed' }] }
+          }
+        }
+      });
+      
+      const formatting = convertXLSXToFormatting('/mock/path/file.xlsx');
+      
+      expect(XLSX.readFile).toHaveBeenCalledWith('/mock/path/file.xlsx', { sheets: [0], dense: true, cellNF: true, cellFormula: true });
+      expect(formatting).toEqual([
+        { cell: 'A2', hyperlink: 'https://example.com' },
+        { cell: 'B2', number_format: '0.00%', comments: [{ author: 'Ann', text: 'Check this' }, { text: 'Agreed' }] }
+      ]);
+    });
+  });
+  
+  describe('convertXLSXToFormulas', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+    
+    it('should return formula cells in row order with their displayed values', () => {
+      const mockWorkbook = {
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          'Sheet1': {
+            '!ref': 'A1:C3',
+            A1: { t: 's', v: 'Price' }, B1: { t: 's', v: 'Qty' }, C1: { t: 's', v: 'Total' },
+            A2: { t: 'n', v: 2.5 }, B2: { t: 'n', v: 4 }, C2: { t: 'n', v: 10, w: '10.00', f: 'A2*B2' },
+            A3: { t: 'n', v: 2.5, f: 'A2' }, C3: { t: 'e', v: 7, w: '#DIV/0!', f: 'A3/B3' }
+          }
+        }
+      };
+      (XLSX.readFile as jest.Mock).mockReturnValue(mockWorkbook);
+      
+      const formulas = convertXLSXToFormulas('/mock/path/file.xlsx');
+      
+      expect(XLSX.readFile).toHaveBeenCalledWith('/mock/path/file.xlsx', { sheets: [0], dense: true, cellNF: true, cellFormula: true });
+      expect(formulas).toEqual([
+        { cell: 'C2', formula: '=A2*B2', value: '10.00' },
+        { cell: 'A3', formula: '=A2', value: '2.5' },
+        { cell: 'C3', formula: '=A3/B3', value: '#DIV/0!' }
+      ]);
+    });
+    
+    it('should only return formula cells inside a range', () => {
+      (XLSX.readFile as jest.Mock).mockReturnValue({
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          'Sheet1': {
+            A2: { t: 'n', v: 2.5, f: 'B2' }, B2: { t: 'n', v: 2.5 }, C2: { t: 'n', v: 5, f: 'B2*2' }
+          }
+        }
+      });
+      
+      const formulas = convertXLSXToFormulas('/mock/path/file.xlsx', undefined, { startRow: 1, startColumn: 1, endRow: 1, endColumn: 2 });
+      
+      expect(formulas).toEqual([{ cell: 'C2', formula: '=B2*2', value: '5' }]);
+    });
+
+    it('should convert a workbook that was already read without reading the file again', () => {
+      const mockWorkbook = {
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          'Sheet1': { A1: { t: 'n', v: 2 }, B1: { t: 'n', v: 4, f: 'A1*2' } }
+        }
+      };
+      (XLSX.readFile as jest.Mock).mockReturnValue(mockWorkbook);
+      
+      const workbook = readXLSXWorkbook('/mock/path/file.xlsx');
+      const formulas = convertXLSXToFormulas(workbook);
+      const formatting = convertXLSXToFormatting(workbook);
+      
+      expect(XLSX.readFile).toHaveBeenCalledTimes(1);
+      expect(formulas).toEqual([{ cell: 'B1', formula: '=A1*2', value: '4' }]);
+      expect(formatting).toEqual([]);
+    });
+    
+    it('should read the cells of a sheet parsed in dense mode', () => {
+      // Older SheetJS versions keep dense rows in the sheet itself
+      const rows: any = [[{ t: 'n', v: 2 }, { t: 'n', v: 4, f: 'A1*2', z: '0.00', w: '4.00' }]];
+      rows['!ref'] = 'A1:B1';
+      (XLSX.readFile as jest.Mock).mockReturnValue({ SheetNames: ['Sheet1'], Sheets: { 'Sheet1': rows } });
+      
+      expect(convertXLSXToTypedRows('/mock/path/file.xlsx')).toEqual([[2, 4]]);
+      expect(convertXLSXToFormulas('/mock/path/file.xlsx')).toEqual([{ cell: 'B1', formula: '=A1*2', value: '4.00' }]);
+      expect(convertXLSXToFormatting('/mock/path/file.xlsx')).toEqual([{ cell: 'B1', number_format: '0.00' }]);
+    });
+  });
+  
+  describe('convertXLSXToSheets', () => {
+    const mockWorkbook = {
+      SheetNames: ['Summary', 'Data'],
+      Sheets: {
+        'Summary': { A1: { t: 's', v: 'Total' }, A2: { t: 'n', v: 3 } },
+        'Data': { A1: { t: 's', v: 'Name' }, A2: { t: 's', v: 'Alice' } }
+      }
+    };
+    
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (XLSX.readFile as jest.Mock).mockReturnValue(mockWorkbook);
+      (XLSX.utils.sheet_to_json as jest.Mock).mockImplementation(sheet => [[sheet.A1.v], [String(sheet.A2.v)]]);
+    });
+    
+    it('should convert every sheet from a single read of the workbook', () => {
+      const sheets = convertXLSXToSheets('/mock/path/file.xlsx', '*', { typed: true });
+      
+      expect(XLSX.readFile).toHaveBeenCalledTimes(1);
+      expect(sheets).toEqual([
+        { name: 'Summary', csv: 'Total\n3\n', rows: [['Total'], [3]] },
+        { name: 'Data', csv: 'Name\nAlice\n', rows: [['Name'], ['Alice']] }
+      ]);
+    });
+    
+    it('should convert the listed sheets once each, named as in the workbook', () => {
+      const sheets = convertXLSXToSheets('/mock/path/file.xlsx', ['data', 'Data']);
+      
+      expect(sheets).toEqual([{ name: 'Data', csv: 'Name\nAlice\n', rows: null }]);
+      expect(() => convertXLSXToSheets('/mock/path/file.xlsx', ['Missing'])).toThrow("Sheet 'Missing' not found");
+    });
+  });
+  
+  describe('listXLSXSheets', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+    
+    it('should summarize every sheet in the workbook', () => {
+      const mockWorkbook = {
+        SheetNames: ['Summary', 'Empty'],
+        Sheets: {
+          'Summary': { '!ref': 'A1:C3', A2: { v: 'Name' }, C4: { v: 'x' } },
+          'Empty': { '!ref': 'A1' }
+        }
+      };
+      (XLSX.readFile as jest.Mock).mockReturnValue(mockWorkbook);
+      (XLSX.utils.sheet_to_json as jest.Mock).mockReturnValue([
+        ['', '', ''],
+        ['Name', 'Age', 'Email'],
+        ['John', '30', 'john@example.com'],
+        ['Jane', '25', '']
+      ]);
+      
+      const sheets = listXLSXSheets('/mock/path/file.xlsx');
+      
+      expect(sheets).toEqual([
+        { name: 'Summary', rows: 4, columns: 3, header_row: 2, headers: ['Name', 'Age', 'Email'] },
+        { name: 'Empty', rows: 0, columns: 0, header_row: null, headers: [] }
+      ]);
+      expect(XLSX.utils.sheet_to_json).toHaveBeenCalledTimes(1);
+    });
+  });
 });
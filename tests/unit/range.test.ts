@@ -0,0 +1,56 @@
+import { columnIndexToLetter, columnLetterToIndex, formatA1Range, isCellInRange, parseA1Range } from '../../src/range';
+
+describe('A1 range helpers', () => {
+  describe('column conversion', () => {
+    it('should convert between column letters and zero-based indexes', () => {
+      expect(columnLetterToIndex('A')).toBe(0);
+      expect(columnLetterToIndex('z')).toBe(25);
+      expect(columnLetterToIndex('AA')).toBe(26);
+      expect(columnLetterToIndex('AZ')).toBe(51);
+      
+      expect(columnIndexToLetter(0)).toBe('A');
+      expect(columnIndexToLetter(25)).toBe('Z');
+      expect(columnIndexToLetter(26)).toBe('AA');
+      expect(columnIndexToLetter(701)).toBe('ZZ');
+      expect(columnIndexToLetter(702)).toBe('AAA');
+    });
+  });
+  
+  describe('parseA1Range', () => {
+    it('should parse a range into zero-based indexes', () => {
+      expect(parseA1Range('B2:D10')).toEqual({ startRow: 1, startColumn: 1, endRow: 9, endColumn: 3 });
+    });
+    
+    it('should parse a single cell and absolute references', () => {
+      expect(parseA1Range('$c$3')).toEqual({ startRow: 2, startColumn: 2, endRow: 2, endColumn: 2 });
+    });
+    
+    it('should normalize reversed corners', () => {
+      expect(parseA1Range('D10:B2')).toEqual({ startRow: 1, startColumn: 1, endRow: 9, endColumn: 3 });
+    });
+    
+    it('should reject invalid ranges', () => {
+      expect(() => parseA1Range('')).toThrow("Invalid A1 range: ''");
+      expect(() => parseA1Range('A0')).toThrow('Invalid A1 range');
+      expect(() => parseA1Range('B:C')).toThrow('Invalid A1 range');
+      expect(() => parseA1Range('R1C1')).toThrow('Invalid A1 range');
+    });
+  });
+  
+  describe('formatA1Range', () => {
+    it('should format ranges and single cells', () => {
+      expect(formatA1Range({ startRow: 1, startColumn: 1, endRow: 9, endColumn: 3 })).toBe('B2:D10');
+      expect(formatA1Range({ startRow: 0, startColumn: 0, endRow: 0, endColumn: 0 })).toBe('A1');
+    });
+  });
+  
+  describe('isCellInRange', () => {
+    it('should check rows and columns against the range bounds', () => {
+      const range = parseA1Range('B2:D10');
+      expect(isCellInRange('B2', range)).toBe(true);
+      expect(isCellInRange('D10', range)).toBe(true);
+      expect(isCellInRange('A5', range)).toBe(false);
+      expect(isCellInRange('C11', range)).toBe(false);
+    });
+  });
+});
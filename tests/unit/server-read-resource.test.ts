@@ -0,0 +1,78 @@
+import { accessResource } from '../../src/server';
+import { loadSpreadsheet } from '../../src/sheets';
+import { MockQuipClient } from '../../src/mockClient';
+import { ResourceNotFoundError } from '../../src/errors';
+import { StorageInterface } from '../../src/types';
+
+jest.mock('../../src/sheets', () => ({
+  ...jest.requireActual('../../src/sheets'),
+  loadSpreadsheet: jest.fn()
+}));
+jest.mock('../../src/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('accessResource', () => {
+  const csv = 'Name,Age\nJohn,30\nJane,25';
+  let storage: StorageInterface;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage = {
+      getCSV: jest.fn().mockResolvedValue(null)
+    } as unknown as StorageInterface;
+  });
+
+  it('should return a stored sheet without exporting it', async () => {
+    (storage.getCSV as jest.Mock).mockResolvedValue(csv);
+
+    const contents = await accessResource(storage, 'quip://thread1?sheet=Sheet1', true);
+
+    expect(contents).toEqual([{ type: 'text', text: csv, uri: 'quip://thread1?sheet=Sheet1' }]);
+    expect(storage.getCSV).toHaveBeenCalledWith('thread1', 'Sheet1');
+    expect(loadSpreadsheet).not.toHaveBeenCalled();
+  });
+
+  it('should export and return a sheet that is not stored yet', async () => {
+    (loadSpreadsheet as jest.Mock).mockResolvedValue({ csv, streamed: null });
+
+    const contents = await accessResource(storage, 'quip://thread1?sheet=Q1-Sales', true);
+
+    expect(contents).toEqual([{ type: 'text', text: csv, uri: 'quip://thread1?sheet=Q1-Sales' }]);
+    expect(loadSpreadsheet).toHaveBeenCalledWith(expect.any(MockQuipClient), storage, 'thread1', 'Q1-Sales', {
+      typed: false,
+      formulas: false,
+      formatting: false,
+      layout: {},
+      selection: null,
+      forceRefresh: false
+    });
+    expect(storage.getCSV).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read a streamed sheet back from storage rather than return its preview', async () => {
+    (storage.getCSV as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce(csv);
+    (loadSpreadsheet as jest.Mock).mockResolvedValue({
+      csv: 'Name,Age\n',
+      streamed: { id: '/mock/path/thread1.csv', preview: 'Name,Age\n', total_rows: 3, total_size: csv.length }
+    });
+
+    const contents = await accessResource(storage, 'quip://thread1', true);
+
+    expect(contents).toEqual([{ type: 'text', text: csv, uri: 'quip://thread1' }]);
+    expect(storage.getCSV).toHaveBeenCalledTimes(2);
+    expect(storage.getCSV).toHaveBeenLastCalledWith('thread1', undefined);
+  });
+
+  it('should not export sheets for file:// URIs', async () => {
+    storage.resolveEntryName = jest.fn().mockResolvedValue({ threadId: 'thread1', sheetName: 'Sheet1' });
+
+    await expect(accessResource(storage, 'file:///tmp/storage/thread1-Sheet1.csv', true)).rejects.toThrow(ResourceNotFoundError);
+    expect(loadSpreadsheet).not.toHaveBeenCalled();
+  });
+});
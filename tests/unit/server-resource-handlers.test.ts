@@ -0,0 +1,67 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { registerResourceHandlers } from '../../src/server';
+import { StorageInterface } from '../../src/types';
+
+jest.mock('../../src/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('registerResourceHandlers', () => {
+  let storage: StorageInterface;
+  let server: Server;
+  let client: Client;
+
+  /**
+   * Register the resource handlers and connect a client to the server in memory
+   */
+  async function connect(notifications: boolean): Promise<void> {
+    server = new Server({ name: 'quip-mcp-server', version: 'test' });
+    registerResourceHandlers(server, storage, { fileProtocol: false, useMock: true, pollInterval: 60, notifications });
+    client = new Client({ name: 'test-client', version: 'test' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  }
+
+  beforeEach(() => {
+    storage = {
+      listEntries: jest.fn().mockResolvedValue({ entries: [] }),
+      getMetadata: jest.fn().mockResolvedValue({ updated_usec: 1 }),
+      onEntryAdded: jest.fn()
+    } as unknown as StorageInterface;
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should offer list changes and subscriptions over a connected transport', async () => {
+    await connect(true);
+
+    expect(client.getServerCapabilities()?.resources).toEqual({ templates: true, listChanged: true, subscribe: true });
+    expect(storage.onEntryAdded).toHaveBeenCalledTimes(1);
+    await expect(client.subscribeResource({ uri: 'quip://sample1?sheet=Sheet1' })).resolves.toEqual({});
+    await expect(client.unsubscribeResource({ uri: 'quip://sample1?sheet=Sheet1' })).resolves.toEqual({});
+  });
+
+  it('should reject subscriptions over stateless HTTP, where clients cannot be notified', async () => {
+    await connect(false);
+
+    expect(client.getServerCapabilities()?.resources).toEqual({ templates: true, listChanged: false, subscribe: false });
+    expect(storage.onEntryAdded).not.toHaveBeenCalled();
+    await expect(client.subscribeResource({ uri: 'quip://sample1?sheet=Sheet1' })).rejects.toMatchObject({
+      code: ErrorCode.MethodNotFound
+    });
+    expect(storage.getMetadata).not.toHaveBeenCalled();
+    // Resources can still be listed
+    await expect(client.listResources()).resolves.toEqual({ resources: [] });
+  });
+});
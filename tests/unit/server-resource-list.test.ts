@@ -0,0 +1,79 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { discoverResources, notifyResourceListChanges } from '../../src/server';
+import { LocalStorage } from '../../src/storage';
+import { csvCache, metadataCache } from '../../src/cache';
+
+jest.mock('../../src/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('Resource list', () => {
+  const csv = 'Name,Age\nJohn,30\nJane,25';
+  let storagePath: string;
+  let storage: LocalStorage;
+  let server: Server;
+
+  beforeEach(async () => {
+    storagePath = await fs.mkdtemp(path.join(os.tmpdir(), 'resource-list-'));
+    storage = new LocalStorage(storagePath, false, 0);
+    // Not connected, so notifications are rejected and only logged
+    server = new Server({ name: 'quip-mcp-server', version: 'test' }, { capabilities: { resources: { listChanged: true } } });
+    jest.spyOn(server, 'sendResourceListChanged');
+  });
+
+  afterEach(async () => {
+    csvCache.clear();
+    metadataCache.clear();
+    await fs.remove(storagePath);
+  });
+
+  it('should tell clients to list resources again once a new sheet is stored', async () => {
+    notifyResourceListChanges(server, storage);
+
+    await storage.saveCSV('thread1', csv, 'Q1-Sales');
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+
+    // Storing the sheet again doesn't change the list
+    await storage.saveCSV('thread1', csv, 'Q1-Sales');
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+
+    await storage.saveCSV('thread1', csv, 'Q2-Sales');
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(2);
+  });
+
+  it('should list the stored sheets and documents', async () => {
+    await storage.saveCSV('thread1', csv, 'Q1-Sales');
+    await storage.saveDocument('doc1', '# Notes');
+
+    const page = await discoverResources(storage, false);
+
+    expect(page.nextCursor).toBeUndefined();
+    expect(page.resources).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        uri: 'quip://thread1?sheet=Q1-Sales',
+        description: 'CSV data from Quip spreadsheet. 3 rows, 24 bytes.',
+        mime_type: 'text/csv'
+      }),
+      expect.objectContaining({ uri: 'quip://doc1/document', mime_type: 'text/markdown' })
+    ]));
+    expect(page.resources).toHaveLength(2);
+  });
+
+  it('should list file:// URIs of stored sheets with the file protocol', async () => {
+    await storage.saveCSV('thread1', csv, 'Q1-Sales');
+
+    const page = await discoverResources(storage, true);
+
+    expect(page.resources).toEqual([expect.objectContaining({
+      uri: `file://${path.join(storagePath, 'thread1-Q1-Sales.csv')}`
+    })]);
+  });
+});
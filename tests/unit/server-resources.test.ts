@@ -99,6 +99,18 @@ describe('Resource Response Format Tests', () => {
     saveCSV: jest.fn().mockResolvedValue('/mock/path/file.csv'),
     getCSV: jest.fn().mockResolvedValue('mock,csv\ndata,here'),
     getResourceURI: jest.fn().mockReturnValue('s3://test-bucket/mock-thread-id.csv'),
+    saveDocument: jest.fn().mockResolvedValue('/mock/path/file.md'),
+    getDocument: jest.fn().mockResolvedValue('# Mock document\n'),
+    getDocumentResourceURI: jest.fn().mockReturnValue('quip://mock-thread-id/document'),
+    delete: jest.fn().mockResolvedValue(undefined),
+    getProfile: jest.fn().mockResolvedValue(null),
+    saveProfile: jest.fn().mockResolvedValue(undefined),
+    saveTypedSheet: jest.fn().mockResolvedValue('/mock/path/file.csv.typed.json'),
+    getTypedSheet: jest.fn().mockResolvedValue(null),
+    saveFormulas: jest.fn().mockResolvedValue('/mock/path/file.csv.formulas.json'),
+    getFormulas: jest.fn().mockResolvedValue(null),
+    saveFormatting: jest.fn().mockResolvedValue('/mock/path/file.csv.formatting.json'),
+    getFormatting: jest.fn().mockResolvedValue(null),
     getMetadata: jest.fn().mockResolvedValue({
       total_rows: 2,
       total_size: 20,
@@ -0,0 +1,174 @@
+import { loadSpreadsheet, loadSpreadsheetSheets } from '../../src/sheets';
+import { QuipApiError } from '../../src/errors';
+import { StorageInterface } from '../../src/types';
+import { QuipClient } from '../../src/quipClient';
+import { workbookCache } from '../../src/cache';
+
+jest.mock('fs-extra', () => ({
+  mkdtemp: jest.fn().mockResolvedValue('/mock/temp'),
+  remove: jest.fn().mockResolvedValue(undefined),
+  writeFile: jest.fn().mockResolvedValue(undefined),
+  readFile: jest.fn().mockResolvedValue(Buffer.from('')),
+  stat: jest.fn().mockResolvedValue({ size: 1024 })
+}));
+jest.mock('../../src/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('loadSpreadsheet', () => {
+  const csv = 'Name,Age\nJohn,30\nJane,25';
+  const readOptions = { fillMerged: false, headerRows: null, range: null, namedRange: null };
+  const options = {
+    typed: false,
+    formulas: false,
+    formatting: false,
+    layout: {},
+    selection: null,
+    forceRefresh: false
+  };
+  let client: QuipClient;
+  let storage: StorageInterface;
+
+  beforeEach(() => {
+    // The XLSX export fails, so sheets are exported through the HTML fallback
+    client = {
+      getThread: jest.fn().mockResolvedValue({ thread: { updated_usec: 2000 } }),
+      isSpreadsheet: jest.fn().mockResolvedValue(true),
+      exportThreadToXLSX: jest.fn().mockRejectedValue(new Error('XLSX export unavailable')),
+      exportThreadToCSVFallback: jest.fn().mockResolvedValue(csv)
+    } as unknown as QuipClient;
+    storage = {
+      getMetadata: jest.fn().mockResolvedValue({ updated_usec: 1000, read_options: readOptions }),
+      getCSV: jest.fn().mockResolvedValue(csv),
+      saveCSV: jest.fn().mockResolvedValue('/mock/path/thread1-Sheet1.csv'),
+      getTypedSheet: jest.fn().mockResolvedValue(null),
+      saveTypedSheet: jest.fn().mockResolvedValue('/mock/path/thread1-Sheet1.csv.typed.json')
+    } as unknown as StorageInterface;
+  });
+
+  it('should reuse the stored sheet while the thread is unchanged', async () => {
+    (storage.getMetadata as jest.Mock).mockResolvedValue({ updated_usec: 2000, read_options: readOptions, range: 'A1:B3' });
+
+    const loaded = await loadSpreadsheet(client, storage, 'thread1', 'Sheet1', options);
+
+    expect(loaded).toEqual({
+      csv,
+      typedSheet: null,
+      formulas: null,
+      formatting: null,
+      range: 'A1:B3',
+      source: 'store',
+      workbookCache: null,
+      streamed: null
+    });
+    expect(client.exportThreadToCSVFallback).not.toHaveBeenCalled();
+    expect(storage.saveCSV).not.toHaveBeenCalled();
+  });
+
+  it('should export and store a sheet that changed since it was stored', async () => {
+    const loaded = await loadSpreadsheet(client, storage, 'thread1', 'Sheet1', { ...options, typed: true });
+
+    expect(loaded.source).toBe('export');
+    expect(loaded.csv).toBe(csv);
+    expect(loaded.typedSheet?.headers).toEqual(['Name', 'Age']);
+    expect(client.exportThreadToCSVFallback).toHaveBeenCalledWith('thread1', 'Sheet1');
+    expect(storage.saveCSV).toHaveBeenCalledWith('thread1', csv, 'Sheet1', { updated_usec: 2000, read_options: readOptions });
+    // Text from the HTML fallback is rebuilt from the CSV when read, so there's nothing to store
+    expect(storage.saveTypedSheet).not.toHaveBeenCalled();
+  });
+
+  it('should export a sheet read with other options or when forced', async () => {
+    (storage.getMetadata as jest.Mock).mockResolvedValue({ updated_usec: 2000, read_options: readOptions });
+
+    await loadSpreadsheet(client, storage, 'thread1', 'Sheet1', { ...options, layout: { fillMerged: true } });
+    await loadSpreadsheet(client, storage, 'thread1', 'Sheet1', { ...options, forceRefresh: true });
+
+    expect(storage.saveCSV).toHaveBeenNthCalledWith(1, 'thread1', csv, 'Sheet1', {
+      updated_usec: 2000,
+      read_options: { ...readOptions, fillMerged: true }
+    });
+    expect(storage.saveCSV).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove the temporary workbook if it cannot be converted', async () => {
+    const fs = require('fs-extra');
+    fs.remove.mockClear();
+    // The exported file can't be read as a workbook, so the HTML fallback is used
+    (client.exportThreadToXLSX as jest.Mock).mockResolvedValue('/mock/temp/thread1.xlsx');
+
+    const loaded = await loadSpreadsheet(client, storage, 'thread1', 'Sheet1', { ...options, forceRefresh: true });
+
+    expect(loaded.csv).toBe(csv);
+    expect(client.exportThreadToCSVFallback).toHaveBeenCalledWith('thread1', 'Sheet1');
+    expect(fs.remove).toHaveBeenCalledWith('/mock/temp');
+  });
+
+  it('should fail for a thread that is not a spreadsheet', async () => {
+    (client.isSpreadsheet as jest.Mock).mockResolvedValue(false);
+
+    await expect(loadSpreadsheet(client, storage, 'thread1', 'Sheet1', options)).rejects.toThrow(QuipApiError);
+    expect(storage.saveCSV).not.toHaveBeenCalled();
+  });
+});
+
+describe('loadSpreadsheetSheets', () => {
+  const csv = 'Name,Age\nJohn,30\nJane,25';
+  const layout = { fillMerged: true, headerRows: undefined };
+  let client: QuipClient;
+  let storage: StorageInterface;
+
+  beforeEach(() => {
+    client = {
+      getThread: jest.fn().mockResolvedValue({ thread: { updated_usec: 2000 } }),
+      isSpreadsheet: jest.fn().mockResolvedValue(true),
+      exportThreadToXLSX: jest.fn().mockRejectedValue(new Error('XLSX export unavailable')),
+      exportThreadToCSVFallback: jest.fn().mockResolvedValue(csv)
+    } as unknown as QuipClient;
+    storage = {
+      saveCSV: jest.fn().mockResolvedValue('/mock/path/thread1-Sheet1.csv'),
+      saveTypedSheet: jest.fn().mockResolvedValue('/mock/path/thread1-Sheet1.csv.typed.json')
+    } as unknown as StorageInterface;
+  });
+
+  afterEach(() => {
+    workbookCache.clear();
+  });
+
+  it('should export and store each named sheet through the HTML fallback', async () => {
+    const loaded = await loadSpreadsheetSheets(client, storage, 'thread1', ['Sheet1', 'Q1-Sales'], { typed: true, layout });
+
+    expect(loaded.workbookCache).toBeNull();
+    expect(loaded.sheets.map(sheet => [sheet.name, sheet.csv, sheet.typedSheet?.headers])).toEqual([
+      ['Sheet1', csv, ['Name', 'Age']],
+      ['Q1-Sales', csv, ['Name', 'Age']]
+    ]);
+    expect(client.exportThreadToCSVFallback).toHaveBeenCalledWith('thread1', 'Q1-Sales');
+    expect(storage.saveCSV).toHaveBeenCalledWith('thread1', csv, 'Q1-Sales', {
+      updated_usec: 2000,
+      read_options: { fillMerged: true, headerRows: null, range: null, namedRange: null }
+    });
+    expect(storage.saveTypedSheet).not.toHaveBeenCalled();
+  });
+
+  it('should drop a cached workbook that cannot be read', async () => {
+    await workbookCache.set('thread1', 2000, Buffer.from('not a workbook'));
+
+    await loadSpreadsheetSheets(client, storage, 'thread1', ['Sheet1'], { typed: false, layout });
+
+    expect(client.exportThreadToXLSX).not.toHaveBeenCalled();
+    expect(await workbookCache.get('thread1', 2000)).toBeNull();
+    expect(client.exportThreadToCSVFallback).toHaveBeenCalledWith('thread1', 'Sheet1');
+  });
+
+  it('should not fall back for every sheet, which the HTML export cannot list', async () => {
+    await expect(loadSpreadsheetSheets(client, storage, 'thread1', '*', { typed: false, layout })).rejects.toThrow(
+      "Pass sheet names instead of '*' to read them through the HTML fallback"
+    );
+    expect(storage.saveCSV).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { buildSqlTable, inferColumnType, runSQL, validateSelectStatement } from '../../src/sql';
+import { TimeoutError } from '../../src/errors';
+
+jest.mock('../../src/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('buildSqlTable', () => {
+  it('should use the first non-empty row as header and infer column types', () => {
+    const table = buildSqlTable('people', ',,\nName,Age,Score\nAlice,30,"1,250.5"\n,,\nBob,,7');
+
+    expect(table.columns).toEqual([
+      { name: 'Name', type: 'TEXT' },
+      { name: 'Age', type: 'INTEGER' },
+      { name: 'Score', type: 'REAL' }
+    ]);
+    expect(table.rows).toEqual([
+      ['Alice', 30, 1250.5],
+      ['Bob', null, 7]
+    ]);
+  });
+
+  it('should name blank and repeated header cells', () => {
+    const table = buildSqlTable('t', 'Name,,name,Extra\na,b,c,d,e');
+
+    expect(table.columns.map(column => column.name)).toEqual(['Name', 'column_2', 'name_2', 'Extra', 'column_5']);
+  });
+
+  it('should return an empty table for empty content', () => {
+    expect(buildSqlTable('t', '')).toEqual({ name: 't', columns: [], rows: [] });
+  });
+
+  it('should build tables with more rows than fit in a function call', () => {
+    const rows = Array.from({ length: 200000 }, (_, index) => `${index},x`);
+    const table = buildSqlTable('t', `Id,Name\n${rows.join('\n')}`);
+
+    expect(table.rows).toHaveLength(200000);
+    expect(table.columns.map(column => column.name)).toEqual(['Id', 'Name']);
+  });
+});
+
+describe('inferColumnType', () => {
+  it('should keep numbers with leading zeros and mixed columns as text', () => {
+    expect(inferColumnType(['1', '2', ''])).toBe('INTEGER');
+    expect(inferColumnType(['1', '2.5'])).toBe('REAL');
+    expect(inferColumnType(['00123', '456'])).toBe('TEXT');
+    expect(inferColumnType(['1', 'n/a'])).toBe('TEXT');
+    expect(inferColumnType(['', ' '])).toBe('TEXT');
+  });
+});
+
+describe('validateSelectStatement', () => {
+  it('should accept SELECT and WITH statements with a trailing semicolon', () => {
+    expect(validateSelectStatement('SELECT 1;')).toBe('SELECT 1');
+    expect(validateSelectStatement('-- totals\nwith t AS (SELECT 1) SELECT * FROM t')).toContain('with t');
+    expect(validateSelectStatement("SELECT 'a;b', \"x;y\" FROM t /* ; */")).toContain("'a;b'");
+  });
+
+  it('should reject multiple statements and statements that are not SELECT', () => {
+    expect(() => validateSelectStatement('SELECT 1; DROP TABLE t')).toThrow('Only a single SELECT statement is allowed');
+    expect(() => validateSelectStatement('DELETE FROM t')).toThrow('Only read-only SELECT statements are allowed');
+    expect(() => validateSelectStatement('/* SELECT */ UPDATE t SET a = 1')).toThrow('Only read-only SELECT statements are allowed');
+  });
+});
+
+describe('runSQL', () => {
+  const orders = buildSqlTable('orders', 'Region,Amount\nEast,10\nWest,5\nEast,7');
+
+  it('should run aggregate queries over the loaded tables', async () => {
+    const result = await runSQL(
+      [orders],
+      'SELECT Region, SUM(Amount) AS total FROM orders GROUP BY Region ORDER BY total DESC',
+      100,
+      5000
+    );
+
+    expect(result).toEqual({
+      columns: ['Region', 'total'],
+      rows: [['East', 17], ['West', 5]],
+      row_cap_reached: false
+    });
+  });
+
+  it('should cap the number of returned rows', async () => {
+    const result = await runSQL([orders], 'SELECT * FROM orders', 2, 5000);
+
+    expect(result.rows).toHaveLength(2);
+    expect(result.row_cap_reached).toBe(true);
+  });
+
+  it('should reject writes that slip past the statement check', async () => {
+    await expect(runSQL([orders], 'WITH x AS (SELECT 1) DELETE FROM orders', 100, 5000))
+      .rejects.toThrow(/readonly|read-only/i);
+  });
+
+  it('should stop queries that exceed the time limit', async () => {
+    await expect(runSQL(
+      [orders],
+      'WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT COUNT(*) FROM n',
+      100,
+      300
+    )).rejects.toThrow(TimeoutError);
+  });
+});
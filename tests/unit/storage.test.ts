@@ -1,6 +1,9 @@
+import { Writable } from 'stream';
+import { gunzipSync, gzipSync } from 'zlib';
 import { LocalStorage, S3Storage, truncateCSVContent, createStorage } from '../../src/storage';
 import { StorageError } from '../../src/errors';
-import { csvCache, metadataCache } from '../../src/cache';
+import { csvCache, metadataCache, documentCache } from '../../src/cache';
+import { getSnapshotId } from '../../src/csv';
 
 // Import fs-extra as a variable that can be referenced throughout the tests
 const fs = require('fs-extra');
@@ -18,6 +21,13 @@ jest.mock('@aws-sdk/client-s3', () => {
     PutObjectCommand: jest.fn(),
     GetObjectCommand: jest.fn(),
     HeadObjectCommand: jest.fn(),
+    DeleteObjectCommand: jest.fn(),
+    ListObjectsV2Command: jest.fn(),
+    CopyObjectCommand: jest.fn(),
+    CreateMultipartUploadCommand: jest.fn(),
+    UploadPartCommand: jest.fn(),
+    CompleteMultipartUploadCommand: jest.fn(),
+    AbortMultipartUploadCommand: jest.fn(),
     // Export the mockSend function so tests can access it
     __mockSend: mockSend
   };
@@ -41,6 +51,7 @@ describe('Storage Implementation', () => {
     jest.clearAllMocks();
     csvCache.clear();
     metadataCache.clear();
+    documentCache.clear();
   });
 
   describe('LocalStorage', () => {
@@ -110,6 +121,21 @@ describe('Storage Implementation', () => {
         expect(filePath).toContain(sheetName);
       });
 
+      it('should add extra metadata to the metadata file', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+
+        const storage = new LocalStorage(storagePath, false);
+        await storage.saveCSV(threadId, csvContent, sheetName, { updated_usec: 1700000000000000 });
+
+        const metadataWrite = fs.writeFile.mock.calls.find((call: any[]) => String(call[0]).endsWith('.csv.meta'));
+        expect(JSON.parse(metadataWrite[1])).toMatchObject({
+          thread_id: threadId,
+          sheet_name: sheetName,
+          total_rows: expect.any(Number),
+          updated_usec: 1700000000000000
+        });
+      });
+
       it('should handle errors when saving CSV', async () => {
         // Mock fs.writeFile to throw an error
         const errorMessage = 'Failed to write file';
@@ -121,6 +147,122 @@ describe('Storage Implementation', () => {
         await expect(storage.saveCSV(threadId, csvContent)).rejects.toThrow(StorageError);
         await expect(storage.saveCSV(threadId, csvContent)).rejects.toThrow(errorMessage);
       });
+
+      it('should compress the file and record both sizes when compression is on', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+
+        const storage = new LocalStorage(storagePath, false, 10, 'gzip');
+        const filePath = await storage.saveCSV(threadId, csvContent);
+
+        const [, data] = fs.writeFile.mock.calls.find((call: any[]) => call[0] === filePath);
+        expect(gunzipSync(data).toString('utf-8')).toBe(csvContent);
+        const metadataWrite = fs.writeFile.mock.calls.find((call: any[]) => call[0] === `${filePath}.meta`);
+        expect(JSON.parse(metadataWrite[1])).toMatchObject({
+          total_size: csvContent.length,
+          compression: 'gzip',
+          compressed_size: data.length
+        });
+      });
+
+      it('should notify entry listeners only when a new sheet is stored', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+        fs.pathExists.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+        const listener = jest.fn();
+
+        const storage = new LocalStorage(storagePath, false, 0);
+        storage.onEntryAdded(listener);
+        await storage.saveCSV(threadId, csvContent, sheetName);
+        await storage.saveCSV(threadId, csvContent, sheetName);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(threadId, sheetName);
+      });
+
+      it('should still save the CSV if an entry listener fails', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+        fs.pathExists.mockResolvedValueOnce(false);
+
+        const storage = new LocalStorage(storagePath, false, 0);
+        storage.onEntryAdded(() => {
+          throw new Error('listener failed');
+        });
+        await expect(storage.saveCSV(threadId, csvContent)).resolves.toContain(threadId);
+      });
+    });
+
+    describe('saveCSVStream', () => {
+      const records = ['header1,header2\n', 'value1,value2\n', 'value3,value4\n'];
+      const filePath = `${storagePath}/${threadId}-${sheetName}.csv`;
+
+      it('should write the records through a temporary file and summarize them', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+        const written: string[] = [];
+        fs.createWriteStream.mockImplementation(() => new Writable({
+          write(chunk, _encoding, callback) {
+            written.push(chunk.toString());
+            callback();
+          }
+        }));
+        csvCache.set((new LocalStorage(storagePath, false) as any).getCacheKey(threadId, sheetName), 'stale');
+
+        const storage = new LocalStorage(storagePath, false);
+        const summary = await storage.saveCSVStream(threadId, records, sheetName, { updated_usec: 5 });
+
+        const csv = records.join('');
+        expect(written.join('')).toBe(csv);
+        expect(fs.createWriteStream).toHaveBeenCalledWith(`${filePath}.tmp`, { encoding: 'utf-8' });
+        expect(fs.move).toHaveBeenCalledWith(`${filePath}.tmp`, filePath, { overwrite: true });
+        expect(summary).toEqual({
+          id: filePath,
+          snapshot: getSnapshotId(csv),
+          total_rows: 4,
+          total_size: csv.length,
+          preview: csv,
+          preview_complete: true
+        });
+        const metadata = JSON.parse(fs.writeFile.mock.calls.find((call: any[]) => call[0] === `${filePath}.meta`)[1]);
+        expect(metadata).toEqual(expect.objectContaining({ total_rows: 4, total_size: csv.length, updated_usec: 5 }));
+        expect(csvCache.get((storage as any).getCacheKey(threadId, sheetName))).toBeUndefined();
+        expect(fs.copy).toHaveBeenCalledWith(filePath, expect.stringMatching(/\.snapshots\/.*\/\d{8}T\d{9}Z\.csv$/));
+      });
+
+      it('should remove the temporary file and keep the stored CSV if writing fails', async () => {
+        fs.createWriteStream.mockImplementation(() => new Writable({
+          write(_chunk, _encoding, callback) {
+            callback();
+          }
+        }));
+        const failing = (function* () {
+          yield 'header1,header2\n';
+          throw new Error('conversion failed');
+        })();
+
+        const storage = new LocalStorage(storagePath, false);
+        await expect(storage.saveCSVStream(threadId, failing, sheetName)).rejects.toThrow('Failed to save CSV: conversion failed');
+
+        expect(fs.move).not.toHaveBeenCalled();
+        expect(fs.remove).toHaveBeenCalledWith(`${filePath}.tmp`);
+      });
+
+      it('should compress the records when compression is on', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+        fs.stat.mockResolvedValue({ size: 42 });
+        const written: Buffer[] = [];
+        fs.createWriteStream.mockImplementation(() => new Writable({
+          write(chunk, _encoding, callback) {
+            written.push(chunk);
+            callback();
+          }
+        }));
+
+        const storage = new LocalStorage(storagePath, false, 0, 'gzip');
+        await storage.saveCSVStream(threadId, records, sheetName);
+
+        expect(gunzipSync(Buffer.concat(written)).toString('utf-8')).toBe(records.join(''));
+        expect(fs.createWriteStream).toHaveBeenCalledWith(`${filePath}.tmp`);
+        const metadata = JSON.parse(fs.writeFile.mock.calls.find((call: any[]) => call[0] === `${filePath}.meta`)[1]);
+        expect(metadata).toEqual(expect.objectContaining({ compression: 'gzip', compressed_size: 42 }));
+      });
     });
 
     describe('getCSV', () => {
@@ -142,17 +284,14 @@ describe('Storage Implementation', () => {
       it('should get CSV content from file if not in cache', async () => {
         // Mock fs functions
         fs.pathExists.mockResolvedValue(true);
-        fs.readFile.mockResolvedValue(csvContent);
+        fs.readFile.mockResolvedValue(Buffer.from(csvContent));
 
         const storage = new LocalStorage(storagePath, false);
         const result = await storage.getCSV(threadId);
 
         // Should read from file
         expect(fs.pathExists).toHaveBeenCalled();
-        expect(fs.readFile).toHaveBeenCalledWith(
-          expect.stringContaining(threadId),
-          'utf-8'
-        );
+        expect(fs.readFile).toHaveBeenCalledWith(expect.stringContaining(threadId));
         expect(result).toBe(csvContent);
 
         // Should update cache
@@ -160,6 +299,14 @@ describe('Storage Implementation', () => {
         expect(csvCache.get(cacheKey)).toBe(csvContent);
       });
 
+      it('should decompress files stored with compression', async () => {
+        fs.pathExists.mockResolvedValue(true);
+        fs.readFile.mockResolvedValue(gzipSync(csvContent));
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.getCSV(threadId)).toBe(csvContent);
+      });
+
       it('should return null if file does not exist', async () => {
         // Mock fs.pathExists to return false
         fs.pathExists.mockResolvedValue(false);
@@ -210,6 +357,251 @@ describe('Storage Implementation', () => {
       });
     });
 
+    describe('delete', () => {
+      it('should remove the CSV and metadata files and drop cached copies', async () => {
+        fs.remove.mockResolvedValue(undefined);
+
+        const storage = new LocalStorage(storagePath, false);
+        const cacheKey = (storage as any).getCacheKey(threadId, sheetName);
+        csvCache.set(cacheKey, csvContent);
+        metadataCache.set(cacheKey, { total_rows: 3 });
+
+        await storage.delete(threadId, sheetName);
+
+        const filePath = `${storagePath}/${threadId}-${sheetName}.csv`;
+        expect(fs.remove).toHaveBeenCalledWith(filePath);
+        expect(fs.remove).toHaveBeenCalledWith(`${filePath}.meta`);
+        expect(fs.remove).toHaveBeenCalledWith(`${filePath}.typed.json`);
+        expect(fs.remove).toHaveBeenCalledWith(`${filePath}.formulas.json`);
+        expect(fs.remove).toHaveBeenCalledWith(`${filePath}.formatting.json`);
+        expect(csvCache.has(cacheKey)).toBe(false);
+        expect(metadataCache.has(cacheKey)).toBe(false);
+      });
+
+      it('should wrap errors in StorageError', async () => {
+        fs.remove.mockRejectedValue(new Error('permission denied'));
+
+        const storage = new LocalStorage(storagePath, false);
+        await expect(storage.delete(threadId)).rejects.toThrow('Failed to delete CSV: permission denied');
+      });
+    });
+
+    describe('listEntries', () => {
+      it('should list sheets named by their metadata and documents', async () => {
+        const metadata = { thread_id: threadId, sheet_name: 'Q1/Q2 Plan', total_rows: 3, total_size: 44 };
+        fs.pathExists.mockResolvedValue(true);
+        fs.readdir.mockResolvedValue([`${threadId}-Q1_Q2 Plan.csv`, `${threadId}-Q1_Q2 Plan.csv.meta`, 'doc.md', 'notes.txt']);
+        fs.readFile.mockResolvedValue(JSON.stringify(metadata));
+        fs.stat.mockResolvedValue({ size: 44 });
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.listEntries()).toEqual({
+          entries: [
+            {
+              type: 'spreadsheet',
+              threadId,
+              sheetName: 'Q1/Q2 Plan',
+              metadata,
+              size: 44,
+              filePath: `${storagePath}/${threadId}-Q1_Q2 Plan.csv`
+            },
+            { type: 'document', threadId: 'doc', metadata: {}, size: 44, filePath: `${storagePath}/doc.md` }
+          ]
+        });
+      });
+
+      it('should name sheets without metadata after their file names', async () => {
+        fs.pathExists.mockImplementation((filePath: string) => Promise.resolve(!filePath.endsWith('.meta')));
+        fs.readdir.mockResolvedValue(['AbCdEf123-Sheet1.csv']);
+        fs.readFile.mockResolvedValue(Buffer.from(csvContent));
+        fs.writeFile.mockResolvedValue(undefined);
+        fs.stat.mockResolvedValue({ size: csvContent.length });
+
+        const storage = new LocalStorage(storagePath, false);
+        const { entries } = await storage.listEntries();
+
+        expect(entries).toEqual([expect.objectContaining({
+          threadId: 'AbCdEf123',
+          sheetName: 'Sheet1',
+          metadata: expect.objectContaining({ thread_id: 'AbCdEf123', sheet_name: 'Sheet1', total_rows: 3 })
+        })]);
+      });
+
+      it('should name sheets with unreadable metadata after their file names', async () => {
+        fs.pathExists.mockResolvedValue(true);
+        fs.readdir.mockResolvedValue(['AbCdEf123-Sheet1.csv', 'AbCdEf123-Sheet2.csv']);
+        fs.readFile.mockImplementation((filePath: string) => Promise.resolve(filePath.endsWith('Sheet1.csv.meta')
+          ? '{"thread_id":'
+          : JSON.stringify({ thread_id: 'AbCdEf123', sheet_name: 'Sheet2', total_rows: 3 })));
+        fs.stat.mockResolvedValue({ size: 44 });
+
+        const storage = new LocalStorage(storagePath, false);
+        const { entries } = await storage.listEntries();
+
+        expect(entries).toEqual([
+          expect.objectContaining({ threadId: 'AbCdEf123', sheetName: 'Sheet1', metadata: {} }),
+          expect.objectContaining({ threadId: 'AbCdEf123', sheetName: 'Sheet2', metadata: expect.objectContaining({ total_rows: 3 }) })
+        ]);
+      });
+
+      it('should list nothing if the storage directory does not exist', async () => {
+        fs.pathExists.mockResolvedValue(false);
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.listEntries()).toEqual({ entries: [] });
+        expect(fs.readdir).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('resolveEntryName', () => {
+      it('should name sheets with hyphens by their metadata', async () => {
+        fs.pathExists.mockResolvedValueOnce(true);
+        fs.readFile.mockResolvedValueOnce(JSON.stringify({ thread_id: 'thread1', sheet_name: 'Q1-Sales' }));
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.resolveEntryName('thread1-Q1-Sales.csv')).toEqual({ threadId: 'thread1', sheetName: 'Q1-Sales' });
+        expect(fs.readFile).toHaveBeenCalledWith(`${storagePath}/thread1-Q1-Sales.csv.meta`, 'utf-8');
+      });
+
+      it('should fall back to the file name without metadata', async () => {
+        fs.pathExists.mockResolvedValueOnce(false);
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.resolveEntryName('AbCdEf123-Sheet1.csv')).toEqual({ threadId: 'AbCdEf123', sheetName: 'Sheet1' });
+      });
+    });
+
+    describe('typed sheets', () => {
+      const typedSheet = {
+        headers: ['Name', 'Age'],
+        rows: [['Alice', 30]],
+        row_numbers: [2],
+        native_types: true,
+        snapshot: 'abc123'
+      };
+
+      it('should save typed sheets as JSON next to the CSV file', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+
+        const storage = new LocalStorage(storagePath, false);
+        const filePath = await storage.saveTypedSheet(threadId, typedSheet, sheetName);
+
+        expect(filePath).toBe(`${storagePath}/${threadId}-${sheetName}.csv.typed.json`);
+        expect(fs.writeFile).toHaveBeenCalledWith(filePath, JSON.stringify(typedSheet), 'utf-8');
+      });
+
+      it('should read typed sheets and return null if none is stored', async () => {
+        const storage = new LocalStorage(storagePath, false);
+
+        fs.pathExists.mockResolvedValueOnce(true);
+        fs.readFile.mockResolvedValueOnce(JSON.stringify(typedSheet));
+        expect(await storage.getTypedSheet(threadId, sheetName)).toEqual(typedSheet);
+
+        fs.pathExists.mockResolvedValueOnce(false);
+        expect(await storage.getTypedSheet(threadId, sheetName)).toBeNull();
+      });
+    });
+
+    describe('formulas', () => {
+      it('should save and read formulas as JSON next to the CSV file', async () => {
+        const formulas = { cells: [{ cell: 'C2', formula: '=A2*B2', value: '42' }], snapshot: 'abc123' };
+        fs.writeFile.mockResolvedValue(undefined);
+
+        const storage = new LocalStorage(storagePath, false);
+        const filePath = await storage.saveFormulas(threadId, formulas, sheetName);
+
+        expect(filePath).toBe(`${storagePath}/${threadId}-${sheetName}.csv.formulas.json`);
+        expect(fs.writeFile).toHaveBeenCalledWith(filePath, JSON.stringify(formulas), 'utf-8');
+
+        fs.pathExists.mockResolvedValueOnce(true);
+        fs.readFile.mockResolvedValueOnce(JSON.stringify(formulas));
+        expect(await storage.getFormulas(threadId, sheetName)).toEqual(formulas);
+      });
+
+      it('should wrap errors in StorageError', async () => {
+        fs.writeFile.mockRejectedValueOnce(new Error('disk full'));
+
+        const storage = new LocalStorage(storagePath, false);
+        await expect(storage.saveFormulas(threadId, { cells: [], snapshot: 'abc123' }))
+          .rejects.toThrow('Failed to save formulas: disk full');
+      });
+    });
+
+    describe('profiles', () => {
+      const profile = { header_row: 1, data_rows: 2, top_n: 5, sample_size: 3, columns: [] };
+
+      it('should cache profiles next to the metadata and drop them when the CSV is saved again', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.getProfile(threadId, sheetName)).toBeNull();
+
+        await storage.saveProfile(threadId, profile, sheetName);
+        expect(await storage.getProfile(threadId, sheetName)).toEqual(profile);
+        expect(await storage.getProfile(threadId)).toBeNull();
+
+        await storage.saveCSV(threadId, csvContent, sheetName);
+        expect(await storage.getProfile(threadId, sheetName)).toBeNull();
+      });
+
+      it('should drop cached profiles when the CSV is deleted', async () => {
+        fs.remove.mockResolvedValue(undefined);
+
+        const storage = new LocalStorage(storagePath, false);
+        await storage.saveProfile(threadId, profile, sheetName);
+        await storage.delete(threadId, sheetName);
+
+        expect(await storage.getProfile(threadId, sheetName)).toBeNull();
+      });
+    });
+
+    describe('documents', () => {
+      const markdown = '# Title\n\nBody text\n';
+
+      it('should save Markdown to a .md file and cache it', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+
+        const storage = new LocalStorage(storagePath, false);
+        const filePath = await storage.saveDocument(threadId, markdown);
+
+        expect(filePath).toBe(`${storagePath}/${threadId}.md`);
+        expect(fs.writeFile).toHaveBeenCalledWith(filePath, markdown, 'utf-8');
+        expect(documentCache.get(threadId)).toBe(markdown);
+      });
+
+      it('should read Markdown from file if not in cache', async () => {
+        fs.pathExists.mockResolvedValue(true);
+        fs.readFile.mockResolvedValue(markdown);
+
+        const storage = new LocalStorage(storagePath, false);
+        const result = await storage.getDocument(threadId);
+
+        expect(fs.readFile).toHaveBeenCalledWith(`${storagePath}/${threadId}.md`, 'utf-8');
+        expect(result).toBe(markdown);
+      });
+
+      it('should return null if the document does not exist', async () => {
+        fs.pathExists.mockResolvedValue(false);
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.getDocument(threadId)).toBeNull();
+      });
+
+      it('should wrap write errors in StorageError', async () => {
+        fs.writeFile.mockRejectedValue(new Error('disk full'));
+
+        const storage = new LocalStorage(storagePath, false);
+        await expect(storage.saveDocument(threadId, markdown)).rejects.toThrow(StorageError);
+      });
+
+      it('should return a document resource URI', () => {
+        expect(new LocalStorage(storagePath, false).getDocumentResourceURI(threadId))
+          .toBe(`quip://${threadId}/document`);
+        expect(new LocalStorage(storagePath, true).getDocumentResourceURI(threadId))
+          .toMatch(new RegExp(`^file://.*${threadId}\\.md$`));
+      });
+    });
+
     describe('getMetadata', () => {
       it('should get metadata from cache if available', async () => {
         const storage = new LocalStorage(storagePath, false);
@@ -267,17 +659,14 @@ describe('Storage Implementation', () => {
         fs.pathExists.mockImplementation((path: string | Buffer) => {
           return Promise.resolve(!path.toString().endsWith('.meta'));
         });
-        fs.readFile.mockResolvedValue(csvContent);
+        fs.readFile.mockResolvedValue(Buffer.from(csvContent));
         fs.writeFile.mockResolvedValue(undefined);
 
         const storage = new LocalStorage(storagePath, false);
         const result = await storage.getMetadata(threadId);
 
         // Should read CSV file
-        expect(fs.readFile).toHaveBeenCalledWith(
-          expect.stringContaining(threadId),
-          'utf-8'
-        );
+        expect(fs.readFile).toHaveBeenCalledWith(expect.stringContaining(threadId));
 
         // Should write metadata file
         expect(fs.writeFile).toHaveBeenCalled();
@@ -315,6 +704,138 @@ describe('Storage Implementation', () => {
         await expect(storage.getMetadata(threadId)).rejects.toThrow(errorMessage);
       });
     });
+
+    describe('CSV snapshots', () => {
+      const snapshotDirectory = `${storagePath}/.snapshots/${threadId}-${sheetName}`;
+
+      it('should save a snapshot with the CSV and drop snapshots beyond the retention', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+        // The CSV and the snapshot directory exist
+        fs.pathExists.mockResolvedValueOnce(true).mockResolvedValueOnce(true);
+        fs.readdir.mockResolvedValueOnce(['20260102T000000000Z.csv', '20260101T000000000Z.csv']);
+        fs.stat.mockResolvedValue({ size: 40 });
+
+        const storage = new LocalStorage(storagePath, false, 2);
+        await storage.saveCSV(threadId, csvContent, sheetName);
+
+        const [snapshotWrite, metadataWrite] = fs.writeFile.mock.calls.filter((call: any[]) => String(call[0]).startsWith(snapshotDirectory));
+        expect(snapshotWrite[0]).toMatch(/\/\d{8}T\d{9}Z\.csv$/);
+        expect(snapshotWrite[1]).toBe(csvContent);
+        expect(metadataWrite[0]).toBe(`${snapshotWrite[0]}.meta`);
+        expect(JSON.parse(metadataWrite[1])).toEqual({
+          content_hash: getSnapshotId(csvContent),
+          read_options: null,
+          total_rows: 3,
+          total_size: csvContent.length
+        });
+        expect(fs.mkdirp).toHaveBeenCalledWith(snapshotDirectory);
+        expect(fs.remove).toHaveBeenCalledTimes(2);
+        expect(fs.remove).toHaveBeenCalledWith(`${snapshotDirectory}/20260101T000000000Z.csv`);
+        expect(fs.remove).toHaveBeenCalledWith(`${snapshotDirectory}/20260101T000000000Z.csv.meta`);
+      });
+
+      it('should not save a snapshot if the CSV and read options are unchanged since the latest one', async () => {
+        const readOptions = { fillMerged: false, headerRows: null, range: 'A1:B3', namedRange: null };
+        fs.writeFile.mockResolvedValue(undefined);
+        const snapshotMetadata = JSON.stringify({ content_hash: getSnapshotId(csvContent), read_options: readOptions });
+        // The CSV, the snapshot directory and the latest snapshot's metadata exist, for both saves
+        fs.pathExists.mockResolvedValue(true);
+        fs.readdir.mockResolvedValueOnce(['20260101T000000000Z.csv', '20260101T000000000Z.csv.meta']).mockResolvedValueOnce(['20260101T000000000Z.csv', '20260101T000000000Z.csv.meta']);
+        fs.stat.mockResolvedValue({ size: 40 });
+        fs.readFile.mockResolvedValueOnce(snapshotMetadata).mockResolvedValueOnce(snapshotMetadata);
+
+        const storage = new LocalStorage(storagePath, false);
+        await storage.saveCSV(threadId, csvContent, sheetName, { read_options: readOptions });
+
+        expect(fs.mkdirp).not.toHaveBeenCalled();
+        expect(fs.writeFile).toHaveBeenCalledTimes(2);
+
+        // The same content read with other options is a new snapshot
+        await storage.saveCSV(threadId, csvContent, sheetName, { read_options: { ...readOptions, range: null } });
+
+        expect(fs.mkdirp).toHaveBeenCalledWith(snapshotDirectory);
+        expect(fs.writeFile).toHaveBeenCalledTimes(6);
+        fs.pathExists.mockReset();
+      });
+
+      it('should not save snapshots with a retention of 0', async () => {
+        fs.writeFile.mockResolvedValue(undefined);
+        fs.pathExists.mockResolvedValueOnce(true);
+
+        const storage = new LocalStorage(storagePath, false, 0);
+        await storage.saveCSV(threadId, csvContent, sheetName);
+
+        expect(fs.mkdirp).not.toHaveBeenCalled();
+        expect(fs.writeFile).toHaveBeenCalledTimes(2);
+      });
+
+      it('should still save the CSV if the snapshot fails', async () => {
+        const { logger } = require('../../src/logger');
+        fs.writeFile.mockResolvedValue(undefined);
+        fs.pathExists.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+        fs.mkdirp.mockRejectedValueOnce(new Error('disk full'));
+
+        const storage = new LocalStorage(storagePath, false);
+        await expect(storage.saveCSV(threadId, csvContent, sheetName)).resolves.toContain(sheetName);
+
+        expect(logger.warn).toHaveBeenCalledWith(`Failed to save CSV snapshot for thread ${threadId}`, { error: 'disk full' });
+      });
+
+      it('should list snapshots oldest first, ignoring other files', async () => {
+        const readOptions = { fillMerged: true, headerRows: 2, range: null, namedRange: null };
+        // The newer snapshot has no metadata file
+        fs.pathExists.mockResolvedValueOnce(true).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+        fs.readdir.mockResolvedValueOnce([
+          '20261019T180505123Z.csv', 'notes.txt', '20261012T090000000Z.csv', '20261012T090000000Z.csv.meta'
+        ]);
+        fs.stat.mockResolvedValueOnce({ size: 30 }).mockResolvedValueOnce({ size: 20 });
+        fs.readFile.mockResolvedValueOnce(JSON.stringify({ content_hash: 'abc123', read_options: readOptions, total_rows: 3, total_size: 28 }));
+
+        const storage = new LocalStorage(storagePath, false);
+        const snapshots = await storage.listCSVSnapshots(threadId, sheetName);
+
+        expect(snapshots).toEqual([
+          {
+            id: '20261012T090000000Z',
+            saved_at: '2026-10-12T09:00:00.000Z',
+            size: 30,
+            content_hash: 'abc123',
+            read_options: readOptions,
+            total_rows: 3,
+            total_size: 28
+          },
+          {
+            id: '20261019T180505123Z',
+            saved_at: '2026-10-19T18:05:05.123Z',
+            size: 20,
+            content_hash: null,
+            read_options: null,
+            total_rows: null,
+            total_size: null
+          }
+        ]);
+        expect(fs.readdir).toHaveBeenCalledWith(snapshotDirectory);
+      });
+
+      it('should return no snapshots if none were saved', async () => {
+        fs.pathExists.mockResolvedValueOnce(false);
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.listCSVSnapshots(threadId)).toEqual([]);
+      });
+
+      it('should read snapshots by ID and ignore malformed IDs', async () => {
+        fs.pathExists.mockResolvedValueOnce(true);
+        fs.readFile.mockResolvedValueOnce(Buffer.from(csvContent));
+
+        const storage = new LocalStorage(storagePath, false);
+        expect(await storage.getCSVSnapshot(threadId, '20261019T180505123Z', sheetName)).toBe(csvContent);
+        expect(fs.readFile).toHaveBeenCalledWith(`${snapshotDirectory}/20261019T180505123Z.csv`);
+
+        expect(await storage.getCSVSnapshot(threadId, '../../secret', sheetName)).toBeNull();
+        expect(fs.pathExists).toHaveBeenCalledTimes(1);
+      });
+    });
   });
 
   describe('truncateCSVContent', () => {
@@ -435,7 +956,10 @@ describe('Storage Implementation', () => {
     const csvContent = 'header1,header2\nvalue1,value2\nvalue3,value4';
     
     // Import AWS SDK mocks
-    const { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand } = require('@aws-sdk/client-s3');
+    const {
+      S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, DeleteObjectCommand, CopyObjectCommand,
+      CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand
+    } = require('@aws-sdk/client-s3');
     
     describe('constructor', () => {
       it('should initialize storage with the given bucket and region', () => {
@@ -532,6 +1056,169 @@ describe('Storage Implementation', () => {
         await expect(storage.saveCSV(threadId, csvContent)).rejects.toThrow(StorageError);
         await expect(storage.saveCSV(threadId, csvContent)).rejects.toThrow(errorMessage);
       });
+      
+      it('should upload compressed content with a Content-Encoding when compression is on', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockResolvedValue({})
+        }));
+        
+        const storage = new S3Storage(bucket, region, prefix, 3600, 10, 'gzip');
+        const key = await storage.saveCSV(threadId, csvContent);
+        
+        const csvPut = PutObjectCommand.mock.calls.find((call: any[]) => call[0].Key === key)[0];
+        expect(csvPut).toEqual(expect.objectContaining({ ContentType: 'text/csv', ContentEncoding: 'gzip' }));
+        expect(gunzipSync(csvPut.Body).toString('utf-8')).toBe(csvContent);
+        const metadataPut = PutObjectCommand.mock.calls.find((call: any[]) => call[0].Key === `${key}.meta`)[0];
+        expect(JSON.parse(metadataPut.Body)).toMatchObject({
+          total_size: csvContent.length,
+          compression: 'gzip',
+          compressed_size: csvPut.Body.length
+        });
+        expect(PutObjectCommand).toHaveBeenCalledWith(expect.objectContaining({
+          Key: expect.stringContaining('.snapshots/'),
+          ContentEncoding: 'gzip'
+        }));
+      });
+      
+      it('should notify entry listeners for sheets that were not listed or saved before, without checking the object', async () => {
+        const { ListObjectsV2Command } = require('@aws-sdk/client-s3');
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockImplementation(async (command: any) => {
+            if (command instanceof ListObjectsV2Command) {
+              return { Contents: [{ Key: `${prefix}${threadId}-${sheetName}.csv`, Size: 44 }] };
+            }
+            if (command instanceof GetObjectCommand) {
+              return {
+                Body: {
+                  [Symbol.asyncIterator]: async function* () {
+                    yield Buffer.from(JSON.stringify({ thread_id: threadId, sheet_name: sheetName }));
+                  }
+                }
+              };
+            }
+            return {};
+          })
+        }));
+        const listener = jest.fn();
+        
+        const storage = new S3Storage(bucket, region, prefix, 3600, 0);
+        storage.onEntryAdded(listener);
+        await storage.listEntries();
+        await storage.saveCSV(threadId, csvContent, sheetName);
+        await storage.saveCSV(threadId, csvContent, 'Sheet2');
+        await storage.saveCSVStream(threadId, [csvContent], 'Sheet2');
+        // Metadata cached by a read doesn't make a sheet count as listed
+        metadataCache.set((storage as any).getCacheKey(threadId, 'Sheet3'), { total_rows: 1 });
+        await storage.saveCSV(threadId, csvContent, 'Sheet3');
+        
+        expect(HeadObjectCommand).not.toHaveBeenCalled();
+        expect(listener.mock.calls).toEqual([[threadId, 'Sheet2'], [threadId, 'Sheet3']]);
+      });
+    });
+    
+    describe('saveCSVStream', () => {
+      const key = `${prefix}${threadId}-${sheetName}.csv`;
+      
+      it('should put content smaller than a part as one object and copy it to a snapshot', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockResolvedValue({})
+        }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        const summary = await storage.saveCSVStream(threadId, ['header1,header2\n', 'value1,value2\n'], sheetName);
+        
+        expect(PutObjectCommand).toHaveBeenCalledWith({
+          Bucket: bucket,
+          Key: key,
+          Body: 'header1,header2\nvalue1,value2\n',
+          ContentType: 'text/csv'
+        });
+        expect(CreateMultipartUploadCommand).not.toHaveBeenCalled();
+        expect(CopyObjectCommand).toHaveBeenCalledWith({
+          Bucket: bucket,
+          Key: expect.stringMatching(/^test-prefix\/\.snapshots\/test-thread-id-Test Sheet\/\d{8}T\d{9}Z\.csv$/),
+          CopySource: `${bucket}/${encodeURIComponent(key)}`
+        });
+        expect(summary).toEqual(expect.objectContaining({ id: key, total_rows: 3, preview_complete: true }));
+      });
+      
+      it('should upload larger content in parts', async () => {
+        const send = jest.fn().mockImplementation(async (command: any) => {
+          if (command instanceof CreateMultipartUploadCommand) {
+            return { UploadId: 'upload-1' };
+          }
+          if (command instanceof UploadPartCommand) {
+            return { ETag: `etag-${UploadPartCommand.mock.calls.length}` };
+          }
+          return {};
+        });
+        S3Client.mockImplementation(() => ({ send }));
+        const record = `${'x'.repeat(1024 * 1024 - 1)}\n`;
+        
+        const storage = new S3Storage(bucket, region, prefix, 3600, 0);
+        const summary = await storage.saveCSVStream(threadId, Array(9).fill(record), sheetName, {}, 1024);
+        
+        expect(UploadPartCommand).toHaveBeenCalledTimes(2);
+        expect(UploadPartCommand.mock.calls[0][0].Body.length).toBe(8 * 1024 * 1024);
+        expect(CompleteMultipartUploadCommand).toHaveBeenCalledWith({
+          Bucket: bucket,
+          Key: key,
+          UploadId: 'upload-1',
+          MultipartUpload: { Parts: [{ ETag: 'etag-1', PartNumber: 1 }, { ETag: 'etag-2', PartNumber: 2 }] }
+        });
+        expect(PutObjectCommand).not.toHaveBeenCalledWith(expect.objectContaining({ Key: key }));
+        expect(summary.total_size).toBe(9 * 1024 * 1024);
+        expect(summary.preview).toBe(record);
+        expect(summary.preview_complete).toBe(false);
+      });
+      
+      it('should abort the multipart upload if a part fails', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockImplementation(async (command: any) => {
+            if (command instanceof UploadPartCommand) {
+              throw new Error('connection reset');
+            }
+            return command instanceof CreateMultipartUploadCommand ? { UploadId: 'upload-1' } : {};
+          })
+        }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        await expect(storage.saveCSVStream(threadId, [`${'x'.repeat(8 * 1024 * 1024)}\n`], sheetName))
+          .rejects.toThrow('Failed to save CSV to S3: connection reset');
+        
+        expect(AbortMultipartUploadCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: key, UploadId: 'upload-1' });
+        expect(CompleteMultipartUploadCommand).not.toHaveBeenCalled();
+      });
+      
+      it('should upload compressed records with a Content-Encoding when compression is on', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockResolvedValue({})
+        }));
+        
+        const storage = new S3Storage(bucket, region, prefix, 3600, 0, 'gzip');
+        const summary = await storage.saveCSVStream(threadId, ['header1,header2\n', 'value1,value2\n'], sheetName);
+        
+        const csvPut = PutObjectCommand.mock.calls.find((call: any[]) => call[0].Key === key)[0];
+        expect(csvPut.ContentEncoding).toBe('gzip');
+        expect(gunzipSync(csvPut.Body).toString('utf-8')).toBe('header1,header2\nvalue1,value2\n');
+        expect(summary.preview).toBe('header1,header2\nvalue1,value2\n');
+        const metadataPut = PutObjectCommand.mock.calls.find((call: any[]) => call[0].Key === `${key}.meta`)[0];
+        expect(JSON.parse(metadataPut.Body)).toMatchObject({ compression: 'gzip', compressed_size: csvPut.Body.length });
+      });
+      
+      it('should fail instead of waiting for more compressed data if the records fail', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockResolvedValue({})
+        }));
+        const failing = (function* () {
+          yield 'header1,header2\n';
+          throw new Error('conversion failed');
+        })();
+        
+        const storage = new S3Storage(bucket, region, prefix, 3600, 0, 'gzip');
+        await expect(storage.saveCSVStream(threadId, failing, sheetName)).rejects.toThrow('Failed to save CSV to S3: conversion failed');
+        expect(PutObjectCommand).not.toHaveBeenCalled();
+      });
     });
     
     describe('getCSV', () => {
@@ -642,6 +1329,84 @@ describe('Storage Implementation', () => {
         expect(uri).toBe(`s3://${bucket}/${prefix}${threadId}-${safeSheetName}.csv`);
       });
     });
+
+    describe('delete', () => {
+      it('should delete the CSV and metadata objects and drop cached copies', async () => {
+        const mockSend = jest.fn().mockResolvedValue({});
+        S3Client.mockImplementation(() => ({
+          send: mockSend
+        }));
+
+        const storage = new S3Storage(bucket, region, prefix);
+        const cacheKey = (storage as any).getCacheKey(threadId);
+        csvCache.set(cacheKey, csvContent);
+
+        await storage.delete(threadId);
+
+        expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${prefix}${threadId}.csv` });
+        expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${prefix}${threadId}.csv.meta` });
+        expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${prefix}${threadId}.csv.typed.json` });
+        expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${prefix}${threadId}.csv.formulas.json` });
+        expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${prefix}${threadId}.csv.formatting.json` });
+        expect(mockSend).toHaveBeenCalledTimes(5);
+        expect(csvCache.has(cacheKey)).toBe(false);
+      });
+    });
+
+    describe('documents', () => {
+      const markdown = '# Title\n\nBody text\n';
+
+      it('should save Markdown to S3 with a Markdown content type', async () => {
+        const mockSend = jest.fn().mockResolvedValue({});
+        S3Client.mockImplementation(() => ({
+          send: mockSend
+        }));
+
+        const storage = new S3Storage(bucket, region, prefix);
+        const key = await storage.saveDocument(threadId, markdown);
+
+        expect(key).toBe(`${prefix}${threadId}.md`);
+        expect(PutObjectCommand).toHaveBeenCalledWith({
+          Bucket: bucket,
+          Key: `${prefix}${threadId}.md`,
+          Body: markdown,
+          ContentType: 'text/markdown'
+        });
+      });
+
+      it('should get Markdown from S3', async () => {
+        const mockSend = jest.fn()
+          .mockImplementationOnce(() => Promise.resolve({})) // HeadObjectCommand
+          .mockImplementationOnce(() => Promise.resolve({ // GetObjectCommand
+            Body: {
+              [Symbol.asyncIterator]: async function* () {
+                yield Buffer.from(markdown);
+              }
+            }
+          }));
+        S3Client.mockImplementation(() => ({
+          send: mockSend
+        }));
+
+        const storage = new S3Storage(bucket, region, prefix);
+        expect(await storage.getDocument(threadId)).toBe(markdown);
+      });
+
+      it('should return null if the document does not exist', async () => {
+        const mockSend = jest.fn().mockRejectedValue(new Error('Not Found'));
+        S3Client.mockImplementation(() => ({
+          send: mockSend
+        }));
+
+        const storage = new S3Storage(bucket, region, prefix);
+        expect(await storage.getDocument(threadId)).toBeNull();
+      });
+
+      it('should return an s3 document resource URI', () => {
+        const storage = new S3Storage(bucket, region, prefix);
+        expect(storage.getDocumentResourceURI(threadId)).toBe(`s3://${bucket}/${prefix}${threadId}.md`);
+      });
+    });
     
     describe('generatePresignedUrl', () => {
       it('should generate a presigned URL', async () => {
@@ -850,6 +1615,267 @@ describe('Storage Implementation', () => {
         await expect(storage.getMetadata(threadId)).rejects.toThrow(errorMessage);
       });
     });
+    
+    describe('listEntries', () => {
+      const { ListObjectsV2Command } = require('@aws-sdk/client-s3');
+      
+      it('should list sheets named by their metadata and documents, skipping sidecar objects', async () => {
+        const metadata = { thread_id: threadId, sheet_name: 'Q1-Q2 Plan', total_rows: 3, total_size: 44 };
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockImplementation(async (command: any) => {
+            if (command instanceof ListObjectsV2Command) {
+              return {
+                Contents: [
+                  { Key: `${prefix}${threadId}-Q1-Q2 Plan.csv`, Size: 44 },
+                  { Key: `${prefix}${threadId}-Q1-Q2 Plan.csv.meta`, Size: 120 },
+                  { Key: `${prefix}doc.md`, Size: 68 }
+                ],
+                IsTruncated: true,
+                NextContinuationToken: 'token-2'
+              };
+            }
+            return {
+              Body: {
+                [Symbol.asyncIterator]: async function* () {
+                  yield Buffer.from(JSON.stringify(metadata));
+                }
+              }
+            };
+          })
+        }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        const page = await storage.listEntries('token-1');
+        
+        expect(ListObjectsV2Command).toHaveBeenCalledWith({
+          Bucket: bucket,
+          Prefix: prefix,
+          Delimiter: '/',
+          ContinuationToken: 'token-1'
+        });
+        expect(GetObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${prefix}${threadId}-Q1-Q2 Plan.csv.meta` });
+        expect(page).toEqual({
+          entries: [
+            { type: 'spreadsheet', threadId, sheetName: 'Q1-Q2 Plan', metadata, size: 44 },
+            { type: 'document', threadId: 'doc', metadata: {}, size: 68 }
+          ],
+          nextCursor: 'token-2'
+        });
+      });
+      
+      it('should name sheets without recorded names after their keys', async () => {
+        const metadata = { total_rows: 3, total_size: 44 };
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockImplementation(async (command: any) => {
+            if (command instanceof ListObjectsV2Command) {
+              return { Contents: [{ Key: `${prefix}AbCdEf123-Sheet1.csv`, Size: 44 }, { Key: `${prefix}AbCdEf123.csv`, Size: 30 }] };
+            }
+            return {
+              Body: {
+                [Symbol.asyncIterator]: async function* () {
+                  yield Buffer.from(JSON.stringify(metadata));
+                }
+              }
+            };
+          })
+        }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        const page = await storage.listEntries();
+        
+        expect(page.entries.map(entry => [entry.threadId, entry.sheetName])).toEqual([
+          ['AbCdEf123', 'Sheet1'],
+          ['AbCdEf123', undefined]
+        ]);
+        expect(page.nextCursor).toBeUndefined();
+      });
+      
+      it('should name sheets with unreadable metadata after their keys', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockImplementation(async (command: any) => {
+            if (command instanceof ListObjectsV2Command) {
+              return { Contents: [{ Key: `${prefix}AbCdEf123-Sheet1.csv`, Size: 44 }] };
+            }
+            const key = GetObjectCommand.mock.calls[GetObjectCommand.mock.instances.indexOf(command)]?.[0].Key ?? '';
+            return {
+              Body: {
+                [Symbol.asyncIterator]: async function* () {
+                  yield Buffer.from(key.endsWith('.meta') ? '{"thread_id":' : csvContent);
+                }
+              }
+            };
+          })
+        }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        const page = await storage.listEntries();
+        
+        expect(page.entries).toEqual([expect.objectContaining({
+          threadId: 'AbCdEf123',
+          sheetName: 'Sheet1',
+          metadata: expect.objectContaining({ total_rows: 3 })
+        })]);
+      });
+      
+      it('should wrap listing errors in StorageError', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockRejectedValue(new Error('Access Denied'))
+        }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        await expect(storage.listEntries()).rejects.toThrow('Failed to list entries in S3: Access Denied');
+      });
+    });
+
+    describe('resolveEntryName', () => {
+      it('should name sheets with hyphens by their metadata', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockResolvedValue({
+            Body: {
+              [Symbol.asyncIterator]: async function* () {
+                yield Buffer.from(JSON.stringify({ thread_id: 'thread1', sheet_name: 'Q1-Sales' }));
+              }
+            }
+          })
+        }));
+
+        const storage = new S3Storage(bucket, region, prefix);
+        expect(await storage.resolveEntryName('thread1-Q1-Sales.csv')).toEqual({ threadId: 'thread1', sheetName: 'Q1-Sales' });
+        expect(GetObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${prefix}thread1-Q1-Sales.csv.meta` });
+      });
+
+      it('should fall back to the key without metadata', async () => {
+        S3Client.mockImplementation(() => ({
+          send: jest.fn().mockRejectedValue(new Error('NoSuchKey'))
+        }));
+
+        const storage = new S3Storage(bucket, region, prefix);
+        expect(await storage.resolveEntryName('AbCdEf123-Sheet1.csv')).toEqual({ threadId: 'AbCdEf123', sheetName: 'Sheet1' });
+      });
+    });
+    
+    describe('CSV snapshots', () => {
+      const { ListObjectsV2Command } = require('@aws-sdk/client-s3');
+      const snapshotPrefix = `${prefix}.snapshots/${threadId}-${sheetName}/`;
+      
+      it('should save a snapshot with the CSV and drop snapshots beyond the retention', async () => {
+        const mockSend = jest.fn()
+          .mockResolvedValueOnce({}) // CSV
+          .mockResolvedValueOnce({}) // Metadata
+          .mockResolvedValueOnce({
+            Contents: [
+              { Key: `${snapshotPrefix}20260101T000000000Z.csv`, Size: 40 },
+              { Key: `${snapshotPrefix}20260102T000000000Z.csv`, Size: 40 }
+            ],
+            IsTruncated: false
+          })
+          .mockResolvedValue({});
+        S3Client.mockImplementation(() => ({ send: mockSend }));
+        
+        const storage = new S3Storage(bucket, region, prefix, 3600, 2);
+        await storage.saveCSV(threadId, csvContent, sheetName);
+        
+        expect(ListObjectsV2Command).toHaveBeenCalledWith({ Bucket: bucket, Prefix: snapshotPrefix, ContinuationToken: undefined });
+        expect(PutObjectCommand).toHaveBeenCalledWith({
+          Bucket: bucket,
+          Key: expect.stringMatching(/^test-prefix\/\.snapshots\/test-thread-id-Test Sheet\/\d{8}T\d{9}Z\.csv$/),
+          Body: csvContent,
+          ContentType: 'text/csv'
+        });
+        expect(PutObjectCommand).toHaveBeenCalledWith({
+          Bucket: bucket,
+          Key: expect.stringMatching(/^test-prefix\/\.snapshots\/test-thread-id-Test Sheet\/\d{8}T\d{9}Z\.csv\.meta$/),
+          Body: JSON.stringify({ content_hash: getSnapshotId(csvContent), read_options: null, total_rows: 3, total_size: csvContent.length }),
+          ContentType: 'application/json'
+        });
+        expect(DeleteObjectCommand).toHaveBeenCalledTimes(2);
+        expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${snapshotPrefix}20260101T000000000Z.csv` });
+        expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${snapshotPrefix}20260101T000000000Z.csv.meta` });
+      });
+      
+      it('should not save a snapshot if the CSV and read options are unchanged since the latest one', async () => {
+        const readOptions = { fillMerged: false, headerRows: null, range: null, namedRange: 'People' };
+        const mockSend = jest.fn()
+          .mockResolvedValueOnce({}) // CSV
+          .mockResolvedValueOnce({}) // Metadata
+          .mockResolvedValueOnce({
+            Contents: [
+              { Key: `${snapshotPrefix}20260101T000000000Z.csv`, Size: 40 },
+              { Key: `${snapshotPrefix}20260101T000000000Z.csv.meta`, Size: 80 }
+            ],
+            IsTruncated: false
+          })
+          .mockResolvedValueOnce({
+            Body: {
+              [Symbol.asyncIterator]: async function* () {
+                yield Buffer.from(JSON.stringify({ content_hash: getSnapshotId(csvContent), read_options: readOptions }));
+              }
+            }
+          });
+        S3Client.mockImplementation(() => ({ send: mockSend }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        await storage.saveCSV(threadId, csvContent, sheetName, { read_options: readOptions });
+        
+        expect(GetObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${snapshotPrefix}20260101T000000000Z.csv.meta` });
+        expect(mockSend).toHaveBeenCalledTimes(4);
+        expect(PutObjectCommand).toHaveBeenCalledTimes(2);
+        expect(DeleteObjectCommand).not.toHaveBeenCalled();
+      });
+      
+      it('should list snapshots across pages, oldest first', async () => {
+        const mockSend = jest.fn()
+          .mockResolvedValueOnce({
+            Contents: [{ Key: `${snapshotPrefix}20261019T180505123Z.csv`, Size: 20 }],
+            IsTruncated: true,
+            NextContinuationToken: 'page-2'
+          })
+          .mockRejectedValueOnce(new Error('NoSuchKey'))
+          .mockResolvedValueOnce({
+            Contents: [{ Key: `${snapshotPrefix}20261012T090000000Z.csv`, Size: 30 }],
+            IsTruncated: false
+          })
+          .mockRejectedValueOnce(new Error('NoSuchKey'));
+        S3Client.mockImplementation(() => ({ send: mockSend }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        const snapshots = await storage.listCSVSnapshots(threadId, sheetName);
+        
+        expect(snapshots.map(snapshot => snapshot.id)).toEqual(['20261012T090000000Z', '20261019T180505123Z']);
+        // The metadata objects of both snapshots are missing
+        expect(snapshots[0]).toEqual({
+          id: '20261012T090000000Z',
+          saved_at: '2026-10-12T09:00:00.000Z',
+          size: 30,
+          content_hash: null,
+          read_options: null,
+          total_rows: null,
+          total_size: null
+        });
+        expect(GetObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${snapshotPrefix}20261012T090000000Z.csv.meta` });
+        expect(ListObjectsV2Command).toHaveBeenLastCalledWith({ Bucket: bucket, Prefix: snapshotPrefix, ContinuationToken: 'page-2' });
+      });
+      
+      it('should read snapshots by ID and return null for missing ones', async () => {
+        const mockSend = jest.fn()
+          .mockResolvedValueOnce({}) // HeadObjectCommand
+          .mockResolvedValueOnce({
+            Body: {
+              [Symbol.asyncIterator]: async function* () {
+                yield Buffer.from(csvContent);
+              }
+            }
+          })
+          .mockRejectedValueOnce(new Error('NotFound'));
+        S3Client.mockImplementation(() => ({ send: mockSend }));
+        
+        const storage = new S3Storage(bucket, region, prefix);
+        
+        expect(await storage.getCSVSnapshot(threadId, '20261019T180505123Z', sheetName)).toBe(csvContent);
+        expect(GetObjectCommand).toHaveBeenCalledWith({ Bucket: bucket, Key: `${snapshotPrefix}20261019T180505123Z.csv` });
+        expect(await storage.getCSVSnapshot(threadId, '20261012T090000000Z', sheetName)).toBeNull();
+      });
+    });
   });
 
   describe('createStorage', () => {
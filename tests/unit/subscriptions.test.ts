@@ -0,0 +1,130 @@
+import { SubscriptionPoller, parseSheetURI } from '../../src/subscriptions';
+import { loadSpreadsheet } from '../../src/sheets';
+import { MockQuipClient } from '../../src/mockClient';
+import { InvalidParamsError } from '../../src/errors';
+import { StorageInterface } from '../../src/types';
+
+jest.mock('../../src/sheets', () => ({
+  ...jest.requireActual('../../src/sheets'),
+  loadSpreadsheet: jest.fn().mockResolvedValue({})
+}));
+jest.mock('../../src/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('parseSheetURI', () => {
+  it('should parse the thread ID and sheet name', () => {
+    expect(parseSheetURI('quip://sample1?sheet=Sheet%202')).toEqual({ threadId: 'sample1', sheetName: 'Sheet 2' });
+    expect(parseSheetURI('quip://sample1')).toEqual({ threadId: 'sample1', sheetName: undefined });
+  });
+
+  it('should reject documents and other schemes', () => {
+    expect(() => parseSheetURI('quip://doc1/document')).toThrow(InvalidParamsError);
+    expect(() => parseSheetURI('file:///tmp/sample1-Sheet1.csv')).toThrow(InvalidParamsError);
+    expect(() => parseSheetURI('not a uri')).toThrow(InvalidParamsError);
+  });
+});
+
+describe('SubscriptionPoller', () => {
+  const storage = {
+    getMetadata: jest.fn()
+  } as unknown as StorageInterface;
+  let onUpdated: jest.Mock;
+  let poller: SubscriptionPoller;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    onUpdated = jest.fn();
+    poller = new SubscriptionPoller(storage, { pollInterval: 60, useMock: true, onUpdated });
+  });
+
+  afterEach(() => {
+    poller.close();
+    MockQuipClient.resetEdits();
+  });
+
+  it('should export and report a subscribed sheet after a simulated edit', async () => {
+    const { thread } = await new MockQuipClient().getThread('sample1');
+    (storage.getMetadata as jest.Mock).mockResolvedValue({
+      updated_usec: thread.updated_usec,
+      read_options: { fillMerged: true, headerRows: 2, range: null, namedRange: null }
+    });
+    await poller.subscribe('quip://sample1?sheet=Sheet1');
+
+    expect(await poller.poll()).toEqual([]);
+    expect(loadSpreadsheet).not.toHaveBeenCalled();
+
+    await new MockQuipClient().updateCells('sample1', 'Sheet1', { startRow: 1, startColumn: 1, endRow: 1, endColumn: 1 }, [[31]]);
+
+    expect(await poller.poll()).toEqual(['quip://sample1?sheet=Sheet1']);
+    expect(loadSpreadsheet).toHaveBeenCalledWith(expect.any(MockQuipClient), storage, 'sample1', 'Sheet1', {
+      typed: false,
+      formulas: false,
+      formatting: false,
+      layout: { fillMerged: true, headerRows: 2 },
+      selection: null,
+      forceRefresh: false
+    });
+    expect(onUpdated).toHaveBeenCalledWith('quip://sample1?sheet=Sheet1');
+
+    // Nothing changed since the export
+    expect(await poller.poll()).toEqual([]);
+    expect(onUpdated).toHaveBeenCalledTimes(1);
+  });
+
+  it('should export a sheet that was stale when subscribed on the first poll', async () => {
+    (storage.getMetadata as jest.Mock).mockResolvedValue({ updated_usec: 1 });
+    await poller.subscribe('quip://sample2?sheet=Data');
+
+    expect(await poller.poll()).toEqual(['quip://sample2?sheet=Data']);
+    expect(onUpdated).toHaveBeenCalledWith('quip://sample2?sheet=Data');
+  });
+
+  it('should retry a failed export on the next poll without reporting it', async () => {
+    (storage.getMetadata as jest.Mock).mockResolvedValue({ updated_usec: 1 });
+    (loadSpreadsheet as jest.Mock).mockRejectedValueOnce(new Error('Export failed'));
+    await poller.subscribe('quip://sample1?sheet=Sheet2');
+
+    expect(await poller.poll()).toEqual([]);
+    expect(onUpdated).not.toHaveBeenCalled();
+    expect(await poller.poll()).toEqual(['quip://sample1?sheet=Sheet2']);
+  });
+
+  it('should stop reporting a sheet once unsubscribed', async () => {
+    (storage.getMetadata as jest.Mock).mockRejectedValue(new Error('Not stored'));
+    await poller.subscribe('quip://sample1?sheet=Sheet1');
+    expect(poller.getSubscriptions()).toEqual(['quip://sample1?sheet=Sheet1']);
+
+    await new MockQuipClient().appendRows('sample1', 'Sheet1', [['New Person', 50, 'new@example.com']]);
+    poller.unsubscribe('quip://sample1?sheet=Sheet1');
+
+    expect(poller.getSubscriptions()).toEqual([]);
+    expect(await poller.poll()).toEqual([]);
+    expect(loadSpreadsheet).not.toHaveBeenCalled();
+  });
+
+  it('should poll on the configured interval', async () => {
+    jest.useFakeTimers();
+    try {
+      const pollSpy = jest.spyOn(poller, 'poll').mockResolvedValue([]);
+      (storage.getMetadata as jest.Mock).mockResolvedValue({ updated_usec: 1 });
+      await poller.subscribe('quip://sample1?sheet=Sheet1');
+
+      jest.advanceTimersByTime(59 * 1000);
+      expect(pollSpy).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1000);
+      expect(pollSpy).toHaveBeenCalledTimes(1);
+
+      poller.unsubscribe('quip://sample1?sheet=Sheet1');
+      jest.advanceTimersByTime(60 * 1000);
+      expect(pollSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
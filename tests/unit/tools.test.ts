@@ -1,9 +1,11 @@
-import { getQuipTools, handleQuipReadSpreadsheet, Tool, TextContent } from '../../src/tools';
-import { QuipClient } from '../../src/quipClient';
+import { getQuipTools, handleQuipReadSpreadsheet, handleQuipListSheets, handleQuipSearchThreads, handleQuipReadDocument, handleQuipUpdateCells, handleQuipAppendRows, handleQuipQuerySheet, handleQuipDescribeSheet, handleQuipSql, handleQuipDiffSheet, Tool, TextContent } from '../../src/tools';
+import { QuipClient, convertXLSXToCSV, convertXLSXToFormatting, convertXLSXToFormulas, convertXLSXToSheets, convertXLSXToTypedRows, readXLSXWorkbook, resolveXLSXRange, streamXLSXToCSV } from '../../src/quipClient';
 import { MockQuipClient } from '../../src/mockClient';
 import { StorageInterface } from '../../src/types';
-import { InvalidParamsError, QuipApiError } from '../../src/errors';
+import { InvalidParamsError, QuipApiError, TimeoutError } from '../../src/errors';
 import { logger } from '../../src/logger';
+import { workbookCache } from '../../src/cache';
+import { getSnapshotId } from '../../src/csv';
 import * as fs from 'fs-extra';
 
 // Mock dependencies
@@ -14,7 +16,8 @@ jest.mock('fs-extra', () => ({
   remove: jest.fn().mockResolvedValue(undefined),
   writeFile: jest.fn().mockResolvedValue(undefined),
   readFile: jest.fn().mockResolvedValue('mock file content'),
-  pathExists: jest.fn().mockResolvedValue(true)
+  pathExists: jest.fn().mockResolvedValue(true),
+  stat: jest.fn().mockResolvedValue({ size: 1024 })
 }));
 
 // Mock XLSX
@@ -46,8 +49,23 @@ describe('Tools Implementation', () => {
   // Mock storage implementation
   const mockStorage: StorageInterface = {
     saveCSV: jest.fn().mockResolvedValue('/mock/path/file.csv'),
+    saveCSVStream: jest.fn(),
     getCSV: jest.fn().mockResolvedValue('mock,csv\ndata,here'),
     getResourceURI: jest.fn().mockReturnValue('s3://test-bucket/mock-thread-id.csv'),
+    saveDocument: jest.fn().mockResolvedValue('/mock/path/file.md'),
+    getDocument: jest.fn().mockResolvedValue('# Mock document\n'),
+    getDocumentResourceURI: jest.fn().mockReturnValue('quip://mock-thread-id/document'),
+    delete: jest.fn().mockResolvedValue(undefined),
+    getProfile: jest.fn().mockResolvedValue(null),
+    saveProfile: jest.fn().mockResolvedValue(undefined),
+    saveTypedSheet: jest.fn().mockResolvedValue('/mock/path/file.csv.typed.json'),
+    getTypedSheet: jest.fn().mockResolvedValue(null),
+    saveFormulas: jest.fn().mockResolvedValue('/mock/path/file.csv.formulas.json'),
+    getFormulas: jest.fn().mockResolvedValue(null),
+    saveFormatting: jest.fn().mockResolvedValue('/mock/path/file.csv.formatting.json'),
+    getFormatting: jest.fn().mockResolvedValue(null),
+    listCSVSnapshots: jest.fn().mockResolvedValue([]),
+    getCSVSnapshot: jest.fn().mockResolvedValue(null),
     getMetadata: jest.fn().mockResolvedValue({
       total_rows: 2,
       total_size: 20,
@@ -58,6 +76,8 @@ describe('Tools Implementation', () => {
   
   // Mock CSV content
   const mockCSVContent = 'header1,header2\nvalue1,value2';
+  // Workbook read from the exported XLSX file
+  const mockWorkbook = { SheetNames: ['Sheet1'], Sheets: {} };
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -72,6 +92,9 @@ describe('Tools Implementation', () => {
       exportThreadToCSVFallback: jest.fn().mockResolvedValue(mockCSVContent)
     }));
     
+    // Mock reading the exported workbook
+    (readXLSXWorkbook as jest.Mock).mockReturnValue(mockWorkbook);
+    
     // Mock MockQuipClient implementation
     (MockQuipClient as jest.Mock).mockImplementation(() => ({
       isSpreadsheet: jest.fn().mockResolvedValue(true),
@@ -411,4 +434,1577 @@ describe('Tools Implementation', () => {
       expect(response.csv_content).toContain('header1,header2');
     });
   });
+  
+  describe('handleQuipReadSpreadsheet paging', () => {
+    const sheetCSV = ['Id,Note', '1,"multi\nline"', ...Array.from({ length: 9 }, (_, i) => `${i + 2},row ${i + 2}`)].join('\n');
+    let stored: string | null;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      stored = null;
+      
+      (QuipClient as jest.Mock).mockImplementation(() => ({
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx'),
+        exportThreadToCSVFallback: jest.fn()
+      }));
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => sheetCSV);
+      (mockStorage.saveCSV as jest.Mock).mockImplementation(async (threadId: string, csv: string) => {
+        stored = csv;
+        return '/mock/path/file.csv';
+      });
+      (mockStorage.getCSV as jest.Mock).mockImplementation(async () => stored);
+      (mockStorage.getMetadata as jest.Mock).mockImplementation(async () => ({
+        total_rows: 11,
+        total_size: sheetCSV.length,
+        resource_uri: 'quip://thread1?sheet=Sheet1',
+        last_updated: '2023-01-01T00:00:00Z'
+      }));
+    });
+    
+    afterEach(() => {
+      (mockStorage.saveCSV as jest.Mock).mockReset();
+      (mockStorage.saveCSV as jest.Mock).mockResolvedValue('/mock/path/file.csv');
+      (mockStorage.getCSV as jest.Mock).mockReset();
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue('mock,csv\ndata,here');
+    });
+    
+    const readPage = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', sheetName: 'Sheet1', ...args }, mockStorage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should validate paging parameters', async () => {
+      await expect(readPage({ pageUnit: 'cells' })).rejects.toThrow("pageUnit must be 'bytes' or 'rows'");
+      await expect(readPage({ pageUnit: 'rows', pageSize: 0 }))
+        .rejects.toThrow("pageSize must be an integer between 1 and 10000 when pageUnit is 'rows'");
+      await expect(readPage({ pageSize: 200 * 1024 }))
+        .rejects.toThrow("pageSize must be an integer between 1 and 102400 when pageUnit is 'bytes'");
+      await expect(readPage({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+    });
+    
+    it('should return the whole sheet in one page when it fits', async () => {
+      const response = await readPage({});
+      
+      expect(response.csv_content).toBe(sheetCSV);
+      expect(response.metadata).toMatchObject({ is_truncated: false, first_row: 1, page_rows: 10, next_cursor: null });
+    });
+    
+    it('should page through the stored snapshot by rows, repeating the header', async () => {
+      const first = await readPage({ pageUnit: 'rows', pageSize: 4 });
+      expect(first.csv_content).toBe('Id,Note\n1,"multi\nline"\n2,row 2\n3,row 3\n4,row 4');
+      expect(first.metadata).toMatchObject({ is_truncated: true, first_row: 1, page_rows: 4 });
+      expect(mockStorage.saveCSV).toHaveBeenCalledTimes(1);
+      
+      const second = await readPage({ pageUnit: 'rows', pageSize: 4, cursor: first.metadata.next_cursor });
+      expect(second.csv_content).toBe('Id,Note\n5,row 5\n6,row 6\n7,row 7\n8,row 8');
+      expect(second.metadata.first_row).toBe(5);
+      
+      const third = await readPage({ pageUnit: 'rows', pageSize: 4, cursor: second.metadata.next_cursor });
+      expect(third.csv_content).toBe('Id,Note\n9,row 9\n10,row 10');
+      expect(third.metadata).toMatchObject({ is_truncated: false, first_row: 9, page_rows: 2, next_cursor: null });
+      
+      // Later pages come from storage, not from a new export
+      expect(mockStorage.saveCSV).toHaveBeenCalledTimes(1);
+      expect(QuipClient).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should limit pages by size in bytes', async () => {
+      const response = await readPage({ pageSize: 40 });
+      
+      expect(Buffer.byteLength(response.csv_content)).toBeLessThanOrEqual(40);
+      expect(response.metadata.page_rows).toBe(3);
+      expect(response.metadata.next_cursor).toEqual(expect.any(String));
+    });
+    
+    it('should continue from the retained snapshot after the sheet is refreshed', async () => {
+      const first = await readPage({ pageUnit: 'rows', pageSize: 4 });
+      
+      stored = `Id,Note\n100,new row`;
+      (mockStorage.getMetadata as jest.Mock).mockImplementation(async () => ({
+        total_rows: 2,
+        total_size: stored.length,
+        resource_uri: 'quip://thread1?sheet=Sheet1',
+        range: 'A1:B2'
+      }));
+      (mockStorage.listCSVSnapshots as jest.Mock).mockResolvedValueOnce([
+        {
+          id: '20261018T090000000Z',
+          saved_at: '2026-10-18T09:00:00.000Z',
+          size: 100,
+          content_hash: getSnapshotId(sheetCSV),
+          read_options: null,
+          total_rows: 11,
+          total_size: sheetCSV.length
+        },
+        {
+          id: '20261019T090000000Z',
+          saved_at: '2026-10-19T09:00:00.000Z',
+          size: 20,
+          content_hash: getSnapshotId(stored),
+          read_options: null,
+          total_rows: 2,
+          total_size: stored.length
+        }
+      ]);
+      (mockStorage.getCSVSnapshot as jest.Mock).mockResolvedValueOnce(sheetCSV);
+      
+      const second = await readPage({ pageUnit: 'rows', pageSize: 4, cursor: first.metadata.next_cursor });
+      expect(second.csv_content).toBe('Id,Note\n5,row 5\n6,row 6\n7,row 7\n8,row 8');
+      // The snapshot is found by its stored content hash, without reading the other snapshots
+      expect(mockStorage.getCSVSnapshot).toHaveBeenCalledTimes(1);
+      expect(mockStorage.getCSVSnapshot).toHaveBeenCalledWith('thread1', '20261018T090000000Z', 'Sheet1');
+      // The metadata describes the snapshot rather than the refreshed sheet
+      expect(second.metadata).toMatchObject({ total_rows: 11, total_size: sheetCSV.length, first_row: 5 });
+      expect(second.metadata.range).toBeUndefined();
+    });
+    
+    it('should reject cursors for a pruned snapshot or another sheet', async () => {
+      const first = await readPage({ pageUnit: 'rows', pageSize: 4 });
+      
+      await expect(readPage({ sheetName: 'Other', cursor: first.metadata.next_cursor }))
+        .rejects.toThrow('Cursor was issued for a different thread or sheet');
+      
+      stored = `${sheetCSV}\n11,row 11`;
+      await expect(readPage({ cursor: first.metadata.next_cursor }))
+        .rejects.toThrow('Cursor is stale: the snapshot of thread thread1 it was issued for is no longer kept; read again without a cursor');
+    });
+  });
+  
+  describe('handleQuipReadSpreadsheet formats', () => {
+    const sheetCSV = 'Name,Age,Joined\nAlice,30,2024-01-15\nBob,,2024-02-01\nCarol,41,2024-03-10';
+    const typedRows = [
+      ['Name', 'Age', 'Joined'],
+      ['Alice', 30, '2024-01-15'],
+      ['Bob', null, '2024-02-01'],
+      ['Carol', 41, '2024-03-10']
+    ];
+    let client: Record<string, jest.Mock>;
+    let storedTyped: any;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      storedTyped = null;
+      
+      client = {
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx'),
+        exportThreadToCSVFallback: jest.fn().mockResolvedValue(sheetCSV)
+      };
+      (QuipClient as jest.Mock).mockImplementation(() => client);
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => sheetCSV);
+      (convertXLSXToTypedRows as jest.Mock).mockImplementation(() => typedRows);
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(sheetCSV);
+      (mockStorage.saveTypedSheet as jest.Mock).mockImplementation(async (threadId: string, sheet: any) => {
+        storedTyped = sheet;
+        return '/mock/path/file.csv.typed.json';
+      });
+      (mockStorage.getTypedSheet as jest.Mock).mockImplementation(async () => storedTyped);
+      (mockStorage.getMetadata as jest.Mock).mockImplementation(async () => ({
+        total_rows: 4,
+        total_size: sheetCSV.length,
+        resource_uri: 'quip://thread1?sheet=Sheet1',
+        last_updated: '2023-01-01T00:00:00Z'
+      }));
+    });
+    
+    afterEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue('mock,csv\ndata,here');
+    });
+    
+    const read = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', sheetName: 'Sheet1', ...args }, mockStorage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should reject unsupported formats', async () => {
+      await expect(read({ format: 'xml' })).rejects.toThrow('format must be one of: csv, json, ndjson, markdown');
+    });
+    
+    it('should return JSON records with native types and store the typed sheet', async () => {
+      const response = await read({ format: 'json' });
+      
+      expect(response.json_content).toEqual([
+        { Name: 'Alice', Age: 30, Joined: '2024-01-15' },
+        { Name: 'Bob', Age: null, Joined: '2024-02-01' },
+        { Name: 'Carol', Age: 41, Joined: '2024-03-10' }
+      ]);
+      expect(response.csv_content).toBeUndefined();
+      expect(response.metadata).toMatchObject({
+        format: 'json',
+        mime_type: 'application/json',
+        native_types: true,
+        resource_uri: 'quip://thread1?sheet=Sheet1&format=json'
+      });
+      expect(readXLSXWorkbook).toHaveBeenCalledTimes(1);
+      expect(readXLSXWorkbook).toHaveBeenCalledWith(expect.stringContaining('thread1.xlsx'), 'Sheet1', undefined);
+      expect(convertXLSXToTypedRows).toHaveBeenCalledWith(mockWorkbook, 'Sheet1', expect.any(Object));
+      expect(mockStorage.saveTypedSheet).toHaveBeenCalledWith('thread1', expect.objectContaining({ native_types: true }), 'Sheet1');
+    });
+    
+    it('should validate headerRows and pass the merged cell options to the XLSX conversion', async () => {
+      await expect(read({ headerRows: 0 })).rejects.toThrow('headerRows must be an integer between 1 and 10');
+      
+      await read({ fillMerged: true, headerRows: 2 });
+      
+      expect(convertXLSXToCSV).toHaveBeenCalledWith(mockWorkbook, 'Sheet1', { fillMerged: true, headerRows: 2 });
+    });
+    
+    it('should not read typed cells for CSV', async () => {
+      const response = await read({});
+      
+      expect(response.csv_content).toBe(sheetCSV);
+      expect(response.metadata).toMatchObject({ format: 'csv', mime_type: 'text/csv' });
+      expect(convertXLSXToTypedRows).not.toHaveBeenCalled();
+      expect(mockStorage.saveTypedSheet).not.toHaveBeenCalled();
+    });
+    
+    it('should page typed content from the stored typed sheet and reject a different format', async () => {
+      const first = await read({ format: 'ndjson', pageUnit: 'rows', pageSize: 2 });
+      expect(first.ndjson_content).toBe('{"Name":"Alice","Age":30,"Joined":"2024-01-15"}\n{"Name":"Bob","Age":null,"Joined":"2024-02-01"}');
+      expect(first.metadata).toMatchObject({ first_row: 1, page_rows: 2, is_truncated: true });
+      
+      const second = await read({ format: 'ndjson', pageUnit: 'rows', pageSize: 2, cursor: first.metadata.next_cursor });
+      expect(second.ndjson_content).toBe('{"Name":"Carol","Age":41,"Joined":"2024-03-10"}');
+      expect(second.metadata).toMatchObject({ first_row: 3, page_rows: 1, next_cursor: null });
+      expect(mockStorage.getTypedSheet).toHaveBeenCalledWith('thread1', 'Sheet1');
+      expect(QuipClient).toHaveBeenCalledTimes(1);
+      
+      await expect(read({ format: 'markdown', cursor: first.metadata.next_cursor }))
+        .rejects.toThrow("Cursor was issued for format 'ndjson'; pass the same format to continue");
+    });
+    
+    it('should fall back to text values when the XLSX export fails', async () => {
+      client.exportThreadToXLSX.mockRejectedValue(new Error('XLSX export failed'));
+      
+      const response = await read({ format: 'markdown' });
+      
+      expect(response.markdown_content).toBe(
+        '| Name | Age | Joined |\n| --- | --- | --- |\n| Alice | 30 | 2024-01-15 |\n| Bob |  | 2024-02-01 |\n| Carol | 41 | 2024-03-10 |'
+      );
+      expect(response.metadata).toMatchObject({ mime_type: 'text/markdown', native_types: false });
+      expect(mockStorage.saveTypedSheet).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('handleQuipReadSpreadsheet formulas', () => {
+    const sheetCSV = 'Item,Price,Qty,Total\nA,2,3,6\n,,,\nB,4,5,20';
+    const formulaCells = [
+      { cell: 'D2', formula: '=B2*C2', value: '6' },
+      { cell: 'D4', formula: '=B4*C4', value: '20' }
+    ];
+    let client: Record<string, jest.Mock>;
+    let storedFormulas: any;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      storedFormulas = null;
+      
+      client = {
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx'),
+        exportThreadToCSVFallback: jest.fn().mockResolvedValue(sheetCSV)
+      };
+      (QuipClient as jest.Mock).mockImplementation(() => client);
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => sheetCSV);
+      (convertXLSXToTypedRows as jest.Mock).mockImplementation(() => [
+        ['Item', 'Price', 'Qty', 'Total'], ['A', 2, 3, 6], [null, null, null, null], ['B', 4, 5, 20]
+      ]);
+      (convertXLSXToFormulas as jest.Mock).mockImplementation(() => formulaCells);
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(sheetCSV);
+      (mockStorage.saveFormulas as jest.Mock).mockImplementation(async (threadId: string, formulas: any) => {
+        storedFormulas = formulas;
+        return '/mock/path/file.csv.formulas.json';
+      });
+      (mockStorage.getFormulas as jest.Mock).mockImplementation(async () => storedFormulas);
+      (mockStorage.getMetadata as jest.Mock).mockImplementation(async () => ({
+        total_rows: 4,
+        total_size: sheetCSV.length,
+        resource_uri: 'quip://thread1?sheet=Sheet1',
+        last_updated: '2023-01-01T00:00:00Z'
+      }));
+    });
+    
+    afterEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue('mock,csv\ndata,here');
+    });
+    
+    const read = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', sheetName: 'Sheet1', ...args }, mockStorage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should not read formulas unless requested', async () => {
+      const response = await read({});
+      
+      expect(response.formulas).toBeUndefined();
+      expect(response.metadata.formulas_available).toBeUndefined();
+      expect(convertXLSXToFormulas).not.toHaveBeenCalled();
+    });
+    
+    it('should return the formulas of the rows in each page, continuing from the stored formulas', async () => {
+      const first = await read({ includeFormulas: true, pageUnit: 'rows', pageSize: 2 });
+      expect(first.formulas).toEqual([formulaCells[0]]);
+      expect(first.metadata.formulas_available).toBe(true);
+      expect(mockStorage.saveFormulas).toHaveBeenCalledWith('thread1', expect.objectContaining({ cells: formulaCells }), 'Sheet1');
+      
+      const second = await read({ includeFormulas: true, pageUnit: 'rows', pageSize: 2, cursor: first.metadata.next_cursor });
+      expect(second.csv_content).toBe('Item,Price,Qty,Total\nB,4,5,20');
+      expect(second.formulas).toEqual([formulaCells[1]]);
+      expect(QuipClient).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should match formulas to typed rows by sheet row number', async () => {
+      const response = await read({ format: 'json', includeFormulas: true, pageUnit: 'rows', pageSize: 1 });
+      const next = await read({ format: 'json', includeFormulas: true, pageUnit: 'rows', pageSize: 1, cursor: response.metadata.next_cursor });
+      
+      expect(response.formulas).toEqual([formulaCells[0]]);
+      expect(next.json_content).toEqual([{ Item: 'B', Price: 4, Qty: 5, Total: 20 }]);
+      expect(next.formulas).toEqual([formulaCells[1]]);
+    });
+    
+    it('should report formulas as unavailable for the HTML fallback', async () => {
+      client.exportThreadToXLSX.mockRejectedValue(new Error('XLSX export failed'));
+      
+      const response = await read({ includeFormulas: true });
+      
+      expect(response.csv_content).toBe(sheetCSV);
+      expect(response.formulas).toBeNull();
+      expect(response.metadata).toMatchObject({
+        formulas_available: false,
+        formulas_note: 'Formulas are unavailable because the sheet could only be read through the HTML fallback'
+      });
+      expect(mockStorage.saveFormulas).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('handleQuipReadSpreadsheet formatting', () => {
+    const sheetCSV = 'Site,Share\nexample,25%\nother,75%';
+    let client: Record<string, jest.Mock>;
+    let storedFormatting: any;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      storedFormatting = null;
+      
+      client = {
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx'),
+        exportThreadToCSVFallback: jest.fn().mockResolvedValue(sheetCSV),
+        getSheetFormatting: jest.fn().mockResolvedValue([
+          { cell: 'A1', bold: true },
+          { cell: 'A2', hyperlink: 'https://example.com/html', color: '#c00' },
+          { cell: 'A3', italic: true }
+        ])
+      };
+      (QuipClient as jest.Mock).mockImplementation(() => client);
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => sheetCSV);
+      (convertXLSXToFormatting as jest.Mock).mockImplementation(() => [
+        { cell: 'A2', hyperlink: 'https://example.com' },
+        { cell: 'B2', number_format: '0%' }
+      ]);
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(sheetCSV);
+      (mockStorage.saveFormatting as jest.Mock).mockImplementation(async (threadId: string, formatting: any) => {
+        storedFormatting = formatting;
+        return '/mock/path/file.csv.formatting.json';
+      });
+      (mockStorage.getFormatting as jest.Mock).mockImplementation(async () => storedFormatting);
+      (mockStorage.getMetadata as jest.Mock).mockImplementation(async () => ({
+        total_rows: 3,
+        total_size: sheetCSV.length,
+        resource_uri: 'quip://thread1?sheet=Sheet1',
+        last_updated: '2023-01-01T00:00:00Z'
+      }));
+    });
+    
+    afterEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue('mock,csv\ndata,here');
+    });
+    
+    const read = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', sheetName: 'Sheet1', ...args }, mockStorage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should merge XLSX and HTML formatting for the rows in each page', async () => {
+      const first = await read({ includeFormatting: true, pageUnit: 'rows', pageSize: 1 });
+      
+      expect(first.formatting).toEqual([
+        { cell: 'A2', hyperlink: 'https://example.com', color: '#c00' },
+        { cell: 'B2', number_format: '0%' }
+      ]);
+      expect(first.metadata.formatting_available).toBe(true);
+      expect(client.getSheetFormatting).toHaveBeenCalledWith('thread1', 'Sheet1');
+      expect(mockStorage.saveFormatting).toHaveBeenCalledWith('thread1', expect.objectContaining({
+        cells: expect.arrayContaining([{ cell: 'A1', bold: true }])
+      }), 'Sheet1');
+      
+      const second = await read({ includeFormatting: true, pageUnit: 'rows', pageSize: 1, cursor: first.metadata.next_cursor });
+      expect(second.formatting).toEqual([{ cell: 'A3', italic: true }]);
+      expect(QuipClient).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should keep the XLSX formatting if the HTML cannot be read', async () => {
+      client.getSheetFormatting.mockRejectedValue(new Error('Could not find sheet'));
+      
+      const response = await read({ includeFormatting: true });
+      
+      expect(response.formatting).toEqual([
+        { cell: 'A2', hyperlink: 'https://example.com' },
+        { cell: 'B2', number_format: '0%' }
+      ]);
+      expect(logger.warn).toHaveBeenCalledWith('Could not read cell formatting from HTML: Could not find sheet');
+    });
+    
+    it('should not read formatting unless requested', async () => {
+      const response = await read({});
+      
+      expect(response.formatting).toBeUndefined();
+      expect(convertXLSXToFormatting).not.toHaveBeenCalled();
+      expect(client.getSheetFormatting).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('handleQuipReadSpreadsheet range', () => {
+    const rangeCSV = ',\n,Name,Age\n,Alice,30\n';
+    let client: Record<string, jest.Mock>;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      
+      client = {
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx'),
+        exportThreadToCSVFallback: jest.fn().mockResolvedValue('Name,Age\nAlice,30'),
+        getSheetFormatting: jest.fn().mockResolvedValue([{ cell: 'A3', bold: true }, { cell: 'B3', bold: true }])
+      };
+      (QuipClient as jest.Mock).mockImplementation(() => client);
+      (resolveXLSXRange as jest.Mock).mockReturnValue({
+        sheetName: 'Data',
+        range: { startRow: 1, startColumn: 1, endRow: 2, endColumn: 2 }
+      });
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => rangeCSV);
+      (convertXLSXToFormatting as jest.Mock).mockImplementation(() => []);
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(rangeCSV);
+    });
+    
+    afterEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue('mock,csv\ndata,here');
+    });
+    
+    const read = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', ...args }, mockStorage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should read the resolved range and report it in the metadata', async () => {
+      const response = await read({ namedRange: 'People', includeFormatting: true });
+      
+      const expectedRange = { startRow: 1, startColumn: 1, endRow: 2, endColumn: 2 };
+      expect(readXLSXWorkbook).toHaveBeenCalledWith(expect.stringContaining('thread1.xlsx'), undefined, 'People');
+      expect(resolveXLSXRange).toHaveBeenCalledWith(mockWorkbook, undefined, {
+        range: undefined,
+        namedRange: 'People'
+      });
+      expect(convertXLSXToCSV).toHaveBeenCalledWith(mockWorkbook, 'Data', expect.objectContaining({ range: expectedRange }));
+      expect(convertXLSXToFormatting).toHaveBeenCalledWith(mockWorkbook, 'Data', expectedRange);
+      expect(client.getSheetFormatting).toHaveBeenCalledWith('thread1', 'Data');
+      expect(response.formatting).toEqual([{ cell: 'B3', bold: true }]);
+      expect(response.csv_content).toBe(',Name,Age\n,Alice,30');
+      expect(response.metadata.range).toBe('B2:C3');
+    });
+    
+    it('should keep reporting the range on cursor pages', async () => {
+      const first = await read({ range: 'B2:C10', pageUnit: 'rows', pageSize: 1 });
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(',\n,Name,Age\n,Alice,30\n,Bob,25\n');
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => ',\n,Name,Age\n,Alice,30\n,Bob,25\n');
+      
+      const fresh = await read({ range: 'B2:C10', pageUnit: 'rows', pageSize: 1 });
+      const second = await read({ pageUnit: 'rows', pageSize: 1, cursor: fresh.metadata.next_cursor });
+      
+      expect(first.metadata.range).toBe('B2:C3');
+      expect(second.csv_content).toBe(',Name,Age\n,Bob,25');
+      expect(second.metadata.range).toBe('B2:C3');
+    });
+    
+    it('should not fall back to the HTML export when a range is requested', async () => {
+      (resolveXLSXRange as jest.Mock).mockImplementation(() => {
+        throw new Error("Named range 'Missing' not found. Available named ranges: none");
+      });
+      
+      await expect(read({ namedRange: 'Missing' })).rejects.toThrow(
+        "Failed to read the selected range from the XLSX export: Named range 'Missing' not found. Available named ranges: none"
+      );
+      expect(client.exportThreadToCSVFallback).not.toHaveBeenCalled();
+    });
+    
+    it('should validate range arguments', async () => {
+      await expect(read({ range: 'B2:C3', namedRange: 'People' })).rejects.toThrow('Pass either range or namedRange, not both');
+      await expect(read({ range: 'B:C' })).rejects.toThrow("Invalid A1 range: 'B:C'");
+      await expect(read({ namedRange: ' ' })).rejects.toThrow('namedRange must be a non-empty string');
+      await expect(read({ range: 5 })).rejects.toThrow(InvalidParamsError);
+      expect(QuipClient).not.toHaveBeenCalled();
+    });
+    
+    it('should not report a range for whole-sheet reads', async () => {
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => 'Name,Age\nAlice,30');
+      
+      const response = await read({});
+      
+      expect(resolveXLSXRange).not.toHaveBeenCalled();
+      expect(response.metadata.range).toBeUndefined();
+    });
+  });
+  
+  describe('handleQuipReadSpreadsheet sheets', () => {
+    let client: Record<string, jest.Mock>;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      
+      client = {
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx'),
+        exportThreadToCSVFallback: jest.fn().mockImplementation(async (threadId: string, name: string) => `${name}\nfallback`)
+      };
+      (QuipClient as jest.Mock).mockImplementation(() => client);
+      (convertXLSXToSheets as jest.Mock).mockReturnValue([
+        { name: 'Summary', csv: 'Total\n3\n', rows: [['Total'], [3]] },
+        { name: 'Data', csv: 'Name\nAlice\nBob\n', rows: [['Name'], ['Alice'], ['Bob']] }
+      ]);
+      (mockStorage.getMetadata as jest.Mock).mockImplementation(async (threadId: string, sheetName: string) => ({
+        total_rows: 3,
+        total_size: 20,
+        resource_uri: `quip://${threadId}?sheet=${sheetName}`,
+        last_updated: '2023-01-01T00:00:00Z'
+      }));
+    });
+    
+    const read = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', ...args }, mockStorage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should export once and store and preview every sheet', async () => {
+      const response = await read({ sheets: '*', pageUnit: 'rows', pageSize: 1 });
+      
+      expect(client.exportThreadToXLSX).toHaveBeenCalledTimes(1);
+      expect(convertXLSXToSheets).toHaveBeenCalledWith(expect.stringContaining('thread1.xlsx'), '*', {
+        layout: { fillMerged: false, headerRows: undefined },
+        typed: false
+      });
+      expect(mockStorage.saveCSV).toHaveBeenCalledWith('thread1', 'Total\n3\n', 'Summary', expect.objectContaining({ updated_usec: null }));
+      expect(mockStorage.saveCSV).toHaveBeenCalledWith('thread1', 'Name\nAlice\nBob\n', 'Data', expect.objectContaining({ updated_usec: null }));
+      expect(response.thread_id).toBe('thread1');
+      expect(response.sheets.map((sheet: any) => sheet.sheet_name)).toEqual(['Summary', 'Data']);
+      expect(response.sheets[0].csv_content).toBe('Total\n3');
+      expect(response.sheets[0].metadata.is_truncated).toBe(false);
+      expect(response.sheets[1].csv_content).toBe('Name\nAlice');
+      expect(response.sheets[1].metadata.resource_uri).toBe('quip://thread1?sheet=Data');
+      expect(response.sheets[1].metadata.next_cursor).toEqual(expect.any(String));
+    });
+    
+    it('should issue cursors that continue each sheet on its own', async () => {
+      const response = await read({ sheets: '*', pageUnit: 'rows', pageSize: 1 });
+      (mockStorage.getCSV as jest.Mock).mockResolvedValueOnce('Name\nAlice\nBob\n');
+      
+      const next = await read({ sheetName: 'Data', pageUnit: 'rows', pageSize: 1, cursor: response.sheets[1].metadata.next_cursor });
+      
+      expect(next.csv_content).toBe('Name\nBob');
+    });
+    
+    it('should store typed content for other formats', async () => {
+      const response = await read({ sheets: '*', format: 'json' });
+      
+      expect(mockStorage.saveTypedSheet).toHaveBeenCalledWith('thread1', expect.objectContaining({ headers: ['Total'] }), 'Summary');
+      expect(response.sheets[0].json_content).toEqual([{ Total: 3 }]);
+      expect(response.sheets[1].metadata.resource_uri).toBe('quip://thread1?sheet=Data&format=json');
+    });
+    
+    it('should fall back to the HTML export for listed sheets only', async () => {
+      client.exportThreadToXLSX.mockRejectedValue(new Error('Export failed'));
+      
+      const response = await read({ sheets: ['Summary', 'Data'] });
+      expect(client.exportThreadToCSVFallback).toHaveBeenCalledTimes(2);
+      expect(response.sheets[1].csv_content).toBe('Data\nfallback');
+      
+      await expect(read({ sheets: '*' })).rejects.toThrow(
+        "Failed to export spreadsheet: Export failed. Pass sheet names instead of '*' to read them through the HTML fallback"
+      );
+    });
+    
+    it('should validate the sheets argument', async () => {
+      await expect(read({ sheets: [] })).rejects.toThrow("sheets must be '*' or a non-empty array of sheet names");
+      await expect(read({ sheets: 'Sheet1' })).rejects.toThrow(InvalidParamsError);
+      await expect(read({ sheets: '*', sheetName: 'Sheet1', includeFormulas: true })).rejects.toThrow(
+        "sheets can't be combined with sheetName, includeFormulas; read a single sheet instead"
+      );
+      expect(QuipClient).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('handleQuipReadSpreadsheet workbook cache', () => {
+    let client: Record<string, jest.Mock>;
+    let updatedUsec: number | undefined;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      workbookCache.clear();
+      updatedUsec = 1700000000000000;
+      
+      client = {
+        getThread: jest.fn().mockImplementation(async () => ({ thread: { type: 'spreadsheet', updated_usec: updatedUsec } })),
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx'),
+        exportThreadToCSVFallback: jest.fn().mockResolvedValue('Name\nfallback')
+      };
+      (QuipClient as jest.Mock).mockImplementation(() => client);
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => 'Name\nAlice');
+      (fs.readFile as jest.Mock).mockResolvedValue(Buffer.from('xlsx bytes'));
+    });
+    
+    afterEach(() => {
+      workbookCache.clear();
+      (fs.readFile as jest.Mock).mockResolvedValue('mock file content');
+    });
+    
+    const read = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', ...args }, mockStorage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should reuse the workbook until the thread changes in Quip', async () => {
+      const first = await read({ sheetName: 'Sheet1' });
+      const second = await read({ sheetName: 'Sheet2' });
+      
+      expect(first.metadata.workbook_cache).toBe('miss');
+      expect(second.metadata.workbook_cache).toBe('hit');
+      expect(client.exportThreadToXLSX).toHaveBeenCalledTimes(1);
+      expect(fs.writeFile).toHaveBeenCalledWith(expect.stringContaining('thread1.xlsx'), Buffer.from('xlsx bytes'));
+      expect(convertXLSXToCSV).toHaveBeenLastCalledWith(mockWorkbook, 'Sheet2', expect.any(Object));
+      expect(logger.info).toHaveBeenCalledWith('Workbook cache hit for thread thread1', { updatedUsec });
+      
+      updatedUsec = 1700000000000001;
+      const third = await read({ sheetName: 'Sheet1' });
+      expect(third.metadata.workbook_cache).toBe('miss');
+      expect(client.exportThreadToXLSX).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should share the cache with multi-sheet reads', async () => {
+      (convertXLSXToSheets as jest.Mock).mockReturnValue([{ name: 'Sheet1', csv: 'Name\nAlice', rows: null }]);
+      
+      await read({ sheetName: 'Sheet1' });
+      const response = await read({ sheets: '*' });
+      
+      expect(response.sheets[0].metadata.workbook_cache).toBe('hit');
+      expect(client.exportThreadToXLSX).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should export without caching if the update time is unknown', async () => {
+      updatedUsec = undefined;
+      
+      await read({});
+      const second = await read({});
+      
+      expect(second.metadata.workbook_cache).toBe('bypass');
+      expect(client.exportThreadToXLSX).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should drop a cached workbook that cannot be converted', async () => {
+      await read({});
+      (convertXLSXToCSV as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('Corrupt file');
+      });
+      
+      const fallback = await read({});
+      const third = await read({});
+      
+      expect(fallback.csv_content).toBe('Name\nfallback');
+      expect(fallback.metadata.workbook_cache).toBeUndefined();
+      expect(third.metadata.workbook_cache).toBe('miss');
+    });
+  });
+  
+  describe('handleQuipReadSpreadsheet conditional refresh', () => {
+    const readOptions = { fillMerged: false, headerRows: null, range: null, namedRange: null };
+    let client: Record<string, jest.Mock>;
+    let storage: StorageInterface;
+    let storedMetadata: Record<string, any>;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      workbookCache.clear();
+      
+      client = {
+        getThread: jest.fn().mockResolvedValue({ thread: { type: 'spreadsheet', updated_usec: 1700000000000000 } }),
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx'),
+        exportThreadToCSVFallback: jest.fn().mockResolvedValue('Name\nfallback')
+      };
+      (QuipClient as jest.Mock).mockImplementation(() => client);
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => 'Name\nAlice');
+      (fs.readFile as jest.Mock).mockResolvedValue(Buffer.from('xlsx bytes'));
+      
+      storedMetadata = {
+        total_rows: 2,
+        total_size: 11,
+        resource_uri: 'quip://thread1?sheet=Sheet1',
+        last_updated: '2023-01-01T00:00:00Z',
+        updated_usec: 1700000000000000,
+        read_options: readOptions
+      };
+      storage = {
+        ...mockStorage,
+        getCSV: jest.fn().mockResolvedValue('Name\nStored'),
+        getMetadata: jest.fn().mockImplementation(async () => storedMetadata),
+        saveCSV: jest.fn().mockResolvedValue('/mock/path/file.csv')
+      };
+    });
+    
+    afterEach(() => {
+      workbookCache.clear();
+      (fs.readFile as jest.Mock).mockResolvedValue('mock file content');
+    });
+    
+    const read = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', sheetName: 'Sheet1', ...args }, storage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should reuse the stored sheet while the thread is unchanged', async () => {
+      const response = await read({});
+      
+      expect(response.csv_content).toBe('Name\nStored');
+      expect(response.metadata.source).toBe('store');
+      expect(response.metadata.updated_usec).toBe(1700000000000000);
+      expect(client.getThread).toHaveBeenCalledWith('thread1');
+      expect(client.exportThreadToXLSX).not.toHaveBeenCalled();
+      expect(storage.saveCSV).not.toHaveBeenCalled();
+    });
+    
+    it('should export again once the thread changes', async () => {
+      client.getThread.mockResolvedValue({ thread: { type: 'spreadsheet', updated_usec: 1700000000000001 } });
+      
+      const response = await read({});
+      
+      expect(response.csv_content).toBe('Name\nAlice');
+      expect(response.metadata.source).toBe('export');
+      expect(client.exportThreadToXLSX).toHaveBeenCalledTimes(1);
+      expect(storage.saveCSV).toHaveBeenCalledWith('thread1', 'Name\nAlice', 'Sheet1', {
+        updated_usec: 1700000000000001,
+        read_options: readOptions
+      });
+    });
+    
+    it('should export again with forceRefresh', async () => {
+      const response = await read({ forceRefresh: true });
+      
+      expect(response.metadata.source).toBe('export');
+      expect(client.exportThreadToXLSX).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should export again if the sheet was stored with other read options', async () => {
+      const response = await read({ fillMerged: true });
+      
+      expect(response.metadata.source).toBe('export');
+      expect(storage.saveCSV).toHaveBeenCalledWith('thread1', 'Name\nAlice', 'Sheet1', {
+        updated_usec: 1700000000000000,
+        read_options: { ...readOptions, fillMerged: true }
+      });
+    });
+    
+    it('should export again if the stored sheet lacks the requested formulas', async () => {
+      const response = await read({ includeFormulas: true });
+      
+      expect(response.metadata.source).toBe('export');
+      expect(storage.getFormulas).toHaveBeenCalledWith('thread1', 'Sheet1');
+    });
+    
+    it('should export again if the update time is unknown', async () => {
+      client.getThread.mockRejectedValue(new Error('API request failed'));
+      
+      const response = await read({});
+      
+      expect(response.metadata.source).toBe('export');
+      expect(storage.getCSV).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('handleQuipReadSpreadsheet streaming', () => {
+    const records = ['Name,Note\n', 'Alice,one\n', 'Bob,two\n', 'Carol,three\n'];
+    let storage: StorageInterface;
+    
+    beforeEach(() => {
+      jest.spyOn(require('../../src/tools'), 'handleQuipReadSpreadsheet').mockRestore();
+      process.env.QUIP_TOKEN = 'mock-token';
+      workbookCache.clear();
+      
+      (QuipClient as jest.Mock).mockImplementation(() => ({
+        getThread: jest.fn().mockResolvedValue({ thread: { updated_usec: 1700000000000000 } }),
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        exportThreadToXLSX: jest.fn().mockResolvedValue('/mock/path/file.xlsx')
+      }));
+      (streamXLSXToCSV as jest.Mock).mockImplementation(() => records[Symbol.iterator]());
+      (convertXLSXToCSV as jest.Mock).mockImplementation(() => records.join(''));
+      storage = {
+        ...mockStorage,
+        saveCSVStream: jest.fn().mockImplementation(async (_threadId, stream) => {
+          // Read the records like the storage would, and preview the first three
+          const saved = [...stream];
+          return {
+            id: '/mock/path/file.csv',
+            snapshot: 'abcdef0123456789',
+            total_rows: saved.length + 1,
+            total_size: saved.join('').length,
+            preview: saved.slice(0, 3).join(''),
+            preview_complete: false
+          };
+        })
+      };
+    });
+    
+    afterEach(() => {
+      (fs.stat as jest.Mock).mockResolvedValue({ size: 1024 });
+    });
+    
+    const read = async (args: Record<string, any>) => {
+      const result = await handleQuipReadSpreadsheet({ threadId: 'thread1', sheetName: 'Sheet1', ...args }, storage, false);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should stream large workbooks to storage and page from the preview', async () => {
+      (fs.stat as jest.Mock).mockResolvedValue({ size: 20 * 1024 * 1024 });
+      
+      const response = await read({ pageUnit: 'rows', pageSize: 5 });
+      
+      expect(convertXLSXToCSV).not.toHaveBeenCalled();
+      expect(storage.saveCSV).not.toHaveBeenCalled();
+      expect(storage.saveCSVStream).toHaveBeenCalledWith('thread1', expect.anything(), 'Sheet1', {
+        updated_usec: 1700000000000000,
+        read_options: { fillMerged: false, headerRows: null, range: null, namedRange: null }
+      }, 100 * 1024);
+      expect(response.csv_content).toBe('Name,Note\nAlice,one\nBob,two');
+      expect(response.metadata.is_truncated).toBe(true);
+      
+      // The cursor points past the preview, into the stored sheet
+      const cursor = JSON.parse(Buffer.from(response.metadata.next_cursor, 'base64url').toString());
+      expect(cursor).toEqual(expect.objectContaining({ snapshot: 'abcdef0123456789', offset: 28, row: 3 }));
+    });
+    
+    it('should convert to one string for typed formats', async () => {
+      (fs.stat as jest.Mock).mockResolvedValue({ size: 20 * 1024 * 1024 });
+      (convertXLSXToTypedRows as jest.Mock).mockImplementation(() => [['Name', 'Note'], ['Alice', 'one']]);
+      
+      await read({ format: 'json' });
+      
+      expect(streamXLSXToCSV).not.toHaveBeenCalled();
+      expect(storage.saveCSV).toHaveBeenCalledWith('thread1', records.join(''), 'Sheet1', expect.any(Object));
+    });
+  });
+  
+  describe('handleQuipListSheets', () => {
+    const mockSheets = [
+      { name: 'Sheet1', rows: 4, columns: 3, header_row: 1, headers: ['Name', 'Age', 'Email'] },
+      { name: 'Sheet2', rows: 4, columns: 3, header_row: 1, headers: ['Product', 'Price', 'Quantity'] }
+    ];
+    
+    it('should validate required parameters', async () => {
+      await expect(handleQuipListSheets({})).rejects.toThrow(InvalidParamsError);
+      await expect(handleQuipListSheets({})).rejects.toThrow('threadId is required');
+    });
+    
+    it('should return every sheet reported by the client', async () => {
+      const clientInstance = {
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        listSheets: jest.fn().mockResolvedValue(mockSheets)
+      };
+      (MockQuipClient as jest.Mock).mockImplementation(() => clientInstance);
+      
+      const result = await handleQuipListSheets({ threadId: 'sample1' }, true);
+      
+      expect(clientInstance.listSheets).toHaveBeenCalledWith('sample1');
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response.thread_id).toBe('sample1');
+      expect(response.sheets).toEqual(mockSheets);
+    });
+    
+    it('should throw QuipApiError if the thread is not a spreadsheet', async () => {
+      process.env.QUIP_TOKEN = 'mock-token';
+      (QuipClient as jest.Mock).mockImplementation(() => ({
+        isSpreadsheet: jest.fn().mockResolvedValue(false),
+        listSheets: jest.fn()
+      }));
+      
+      await expect(handleQuipListSheets({ threadId: 'doc1' }, false))
+        .rejects.toThrow('Thread doc1 is not a spreadsheet or does not exist');
+    });
+    
+    it('should wrap listing failures in QuipApiError', async () => {
+      process.env.QUIP_TOKEN = 'mock-token';
+      (QuipClient as jest.Mock).mockImplementation(() => ({
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        listSheets: jest.fn().mockRejectedValue(new Error('Export failed'))
+      }));
+      
+      await expect(handleQuipListSheets({ threadId: 'sample1' }, false)).rejects.toThrow(QuipApiError);
+      await expect(handleQuipListSheets({ threadId: 'sample1' }, false))
+        .rejects.toThrow('Failed to list sheets: Export failed');
+    });
+  });
+  
+  describe('handleQuipSearchThreads', () => {
+    const mockResults = [
+      {
+        thread_id: 'sample1',
+        title: 'Sample Spreadsheet 1',
+        type: 'spreadsheet',
+        link: 'https://quip.com/sample1',
+        updated_usec: 1704067200000000,
+        updated_at: '2024-01-01T00:00:00.000Z'
+      }
+    ];
+    
+    it('should validate parameters', async () => {
+      await expect(handleQuipSearchThreads({})).rejects.toThrow('query is required');
+      await expect(handleQuipSearchThreads({ query: '   ' })).rejects.toThrow(InvalidParamsError);
+      await expect(handleQuipSearchThreads({ query: 'sales', type: 'chat' }))
+        .rejects.toThrow("type must be 'spreadsheet' or 'document'");
+      await expect(handleQuipSearchThreads({ query: 'sales', limit: 0 }))
+        .rejects.toThrow('limit must be an integer between 1 and 50');
+      await expect(handleQuipSearchThreads({ query: 'sales', limit: 51 })).rejects.toThrow(InvalidParamsError);
+    });
+    
+    it('should pass the query, type filter and limit to the client', async () => {
+      const clientInstance = {
+        searchThreads: jest.fn().mockResolvedValue(mockResults)
+      };
+      (MockQuipClient as jest.Mock).mockImplementation(() => clientInstance);
+      
+      const result = await handleQuipSearchThreads({ query: 'Sample', type: 'spreadsheet', limit: 5 }, true);
+      
+      expect(clientInstance.searchThreads).toHaveBeenCalledWith('Sample', 'spreadsheet', 5);
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response).toEqual({ query: 'Sample', results: mockResults });
+    });
+    
+    it('should default the limit to 10', async () => {
+      const clientInstance = {
+        searchThreads: jest.fn().mockResolvedValue([])
+      };
+      (MockQuipClient as jest.Mock).mockImplementation(() => clientInstance);
+      
+      await handleQuipSearchThreads({ query: 'Sample' }, true);
+      
+      expect(clientInstance.searchThreads).toHaveBeenCalledWith('Sample', undefined, 10);
+    });
+    
+    it('should wrap search failures in QuipApiError', async () => {
+      process.env.QUIP_TOKEN = 'mock-token';
+      (QuipClient as jest.Mock).mockImplementation(() => ({
+        searchThreads: jest.fn().mockRejectedValue(new Error('Request failed with status code 401'))
+      }));
+      
+      await expect(handleQuipSearchThreads({ query: 'Sample' }, false)).rejects.toThrow(QuipApiError);
+      await expect(handleQuipSearchThreads({ query: 'Sample' }, false))
+        .rejects.toThrow('Failed to search threads: Request failed with status code 401');
+    });
+  });
+  
+  describe('handleQuipReadDocument', () => {
+    const documentThread = {
+      thread: { id: 'doc1', title: 'Sample Document', type: 'document' },
+      html: '<h1>Sample Document</h1><ul class="checklist"><li class="checked">Collect data</li></ul>'
+    };
+    
+    it('should validate required parameters', async () => {
+      await expect(handleQuipReadDocument({}, mockStorage)).rejects.toThrow('threadId is required');
+    });
+    
+    it('should convert the document to Markdown and save it to storage', async () => {
+      (MockQuipClient as jest.Mock).mockImplementation(() => ({
+        getThread: jest.fn().mockResolvedValue(documentThread)
+      }));
+      
+      const result = await handleQuipReadDocument({ threadId: 'doc1' }, mockStorage, true);
+      
+      const expectedMarkdown = '# Sample Document\n\n- [x] Collect data\n';
+      expect(mockStorage.saveDocument).toHaveBeenCalledWith('doc1', expectedMarkdown);
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response).toEqual({
+        markdown: expectedMarkdown,
+        metadata: {
+          title: 'Sample Document',
+          total_size: expectedMarkdown.length,
+          is_truncated: false,
+          resource_uri: 'quip://mock-thread-id/document'
+        }
+      });
+    });
+    
+    it('should truncate large documents', async () => {
+      const paragraphs = Array(1000).fill('<p>Some long paragraph of text</p>').join('');
+      (MockQuipClient as jest.Mock).mockImplementation(() => ({
+        getThread: jest.fn().mockResolvedValue({ ...documentThread, html: paragraphs })
+      }));
+      
+      const result = await handleQuipReadDocument({ threadId: 'doc1' }, mockStorage, true);
+      
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response.metadata.is_truncated).toBe(true);
+      expect(response.markdown.length).toBeLessThanOrEqual(10 * 1024);
+      expect(response.metadata.total_size).toBeGreaterThan(10 * 1024);
+    });
+    
+    it('should reject spreadsheet threads', async () => {
+      (MockQuipClient as jest.Mock).mockImplementation(() => ({
+        getThread: jest.fn().mockResolvedValue({
+          thread: { id: 'sample1', title: 'Sample Spreadsheet 1', type: 'spreadsheet' },
+          html: '<table></table>'
+        })
+      }));
+      
+      await expect(handleQuipReadDocument({ threadId: 'sample1' }, mockStorage, true))
+        .rejects.toThrow('Thread sample1 is a spreadsheet; use quip_read_spreadsheet instead');
+    });
+    
+    it('should wrap thread lookup failures in QuipApiError', async () => {
+      (MockQuipClient as jest.Mock).mockImplementation(() => ({
+        getThread: jest.fn().mockRejectedValue(new Error('Thread not found: missing'))
+      }));
+      
+      await expect(handleQuipReadDocument({ threadId: 'missing' }, mockStorage, true)).rejects.toThrow(QuipApiError);
+      await expect(handleQuipReadDocument({ threadId: 'missing' }, mockStorage, true))
+        .rejects.toThrow('Failed to get thread missing: Thread not found: missing');
+    });
+  });
+
+  describe('handleQuipUpdateCells', () => {
+    const mockResult = { thread_id: 'sample1', sheet_name: 'Sheet1', range: 'B2:C3', updated_cells: 4 };
+    const values = [['31', 'john@example.org'], [26, null]];
+    
+    it('should validate required parameters', async () => {
+      await expect(handleQuipUpdateCells({}, mockStorage)).rejects.toThrow('threadId is required');
+      await expect(handleQuipUpdateCells({ threadId: 'sample1' }, mockStorage))
+        .rejects.toThrow('sheetName is required');
+      await expect(handleQuipUpdateCells({ threadId: 'sample1', sheetName: 'Sheet1', values }, mockStorage))
+        .rejects.toThrow('range is required');
+    });
+    
+    it('should reject malformed values and ranges', async () => {
+      const args = { threadId: 'sample1', sheetName: 'Sheet1', range: 'B2:C3' };
+      
+      await expect(handleQuipUpdateCells({ ...args, values: [] }, mockStorage))
+        .rejects.toThrow('values must be a non-empty array of rows');
+      await expect(handleQuipUpdateCells({ ...args, values: [['a', 'b'], ['c']] }, mockStorage))
+        .rejects.toThrow('values rows must all have the same, non-zero number of cells');
+      await expect(handleQuipUpdateCells({ ...args, values: [[{}, 'b'], ['c', 'd']] }, mockStorage))
+        .rejects.toThrow(InvalidParamsError);
+      await expect(handleQuipUpdateCells({ ...args, range: 'B2:B3', values }, mockStorage))
+        .rejects.toThrow('Range B2:B3 is 2x1 but values are 2x2');
+      await expect(handleQuipUpdateCells({ ...args, range: 'not-a-range', values }, mockStorage))
+        .rejects.toThrow("Invalid A1 range: 'not-a-range'");
+    });
+    
+    it('should write the values and discard stored CSV', async () => {
+      const clientInstance = {
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        updateCells: jest.fn().mockResolvedValue(mockResult)
+      };
+      (MockQuipClient as jest.Mock).mockImplementation(() => clientInstance);
+      
+      const result = await handleQuipUpdateCells(
+        { threadId: 'sample1', sheetName: 'Sheet1', range: 'B2', values },
+        mockStorage,
+        true
+      );
+      
+      // A single cell is expanded to the size of the values
+      expect(clientInstance.updateCells).toHaveBeenCalledWith(
+        'sample1',
+        'Sheet1',
+        { startRow: 1, startColumn: 1, endRow: 2, endColumn: 2 },
+        values
+      );
+      expect(mockStorage.delete).toHaveBeenCalledWith('sample1', 'Sheet1');
+      expect(mockStorage.delete).toHaveBeenCalledWith('sample1');
+      expect(JSON.parse((result[0] as TextContent).text)).toEqual(mockResult);
+    });
+    
+    it('should throw QuipApiError if the thread is not a spreadsheet', async () => {
+      process.env.QUIP_TOKEN = 'mock-token';
+      (QuipClient as jest.Mock).mockImplementation(() => ({
+        isSpreadsheet: jest.fn().mockResolvedValue(false),
+        updateCells: jest.fn()
+      }));
+      
+      await expect(handleQuipUpdateCells({ threadId: 'doc1', sheetName: 'Sheet1', range: 'A1', values }, mockStorage, false))
+        .rejects.toThrow('Thread doc1 is not a spreadsheet or does not exist');
+    });
+    
+    it('should wrap update failures in QuipApiError and discard the stored CSV', async () => {
+      process.env.QUIP_TOKEN = 'mock-token';
+      (QuipClient as jest.Mock).mockImplementation(() => ({
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        updateCells: jest.fn().mockRejectedValue(new Error("Cell Z99 is outside sheet 'Sheet1'"))
+      }));
+      
+      await expect(handleQuipUpdateCells({ threadId: 'sample1', sheetName: 'Sheet1', range: 'Z99', values: [['x']] }, mockStorage, false))
+        .rejects.toThrow(QuipApiError);
+      await expect(handleQuipUpdateCells({ threadId: 'sample1', sheetName: 'Sheet1', range: 'Z99', values: [['x']] }, mockStorage, false))
+        .rejects.toThrow("Failed to update cells: Cell Z99 is outside sheet 'Sheet1'");
+      // Cells written before a failure make the stored copies stale
+      expect(mockStorage.delete).toHaveBeenCalledWith('sample1', 'Sheet1');
+      expect(mockStorage.delete).toHaveBeenCalledWith('sample1');
+    });
+  });
+
+  describe('handleQuipAppendRows', () => {
+    const mockSheets = [
+      { name: 'Runs', rows: 3, columns: 3, header_row: 1, headers: ['Run', 'Score', 'Notes'] },
+      { name: 'Empty', rows: 0, columns: 0, header_row: null, headers: [] }
+    ];
+    let clientInstance: Record<string, jest.Mock>;
+    
+    beforeEach(() => {
+      clientInstance = {
+        isSpreadsheet: jest.fn().mockResolvedValue(true),
+        listSheets: jest.fn().mockResolvedValue(mockSheets),
+        appendRows: jest.fn().mockImplementation(async (_threadId, _sheetName, rows) => rows.length)
+      };
+      (MockQuipClient as jest.Mock).mockImplementation(() => clientInstance);
+    });
+    
+    it('should validate required parameters', async () => {
+      await expect(handleQuipAppendRows({}, mockStorage)).rejects.toThrow('threadId is required');
+      await expect(handleQuipAppendRows({ threadId: 'sample1', rows: [] }, mockStorage))
+        .rejects.toThrow('rows must be a non-empty array of objects keyed by column header');
+      await expect(handleQuipAppendRows({ threadId: 'sample1', rows: [['a', 'b']] }, mockStorage))
+        .rejects.toThrow('rows must be a non-empty array of objects keyed by column header');
+      await expect(handleQuipAppendRows({ threadId: 'sample1', rows: [{ Run: { nested: true } }] }, mockStorage))
+        .rejects.toThrow('row values must be strings, numbers, booleans or null');
+    });
+    
+    it('should align rows to the header row and discard stored CSV', async () => {
+      const result = await handleQuipAppendRows({
+        threadId: 'sample1',
+        sheetName: 'runs',
+        rows: [
+          { Run: 'eval-1', Score: 0.92 },
+          { notes: 'flaky', run: 'eval-2' }
+        ]
+      }, mockStorage, true);
+      
+      expect(clientInstance.appendRows).toHaveBeenCalledWith('sample1', 'Runs', [
+        ['eval-1', 0.92, null],
+        ['eval-2', null, 'flaky']
+      ]);
+      expect(mockStorage.delete).toHaveBeenCalledWith('sample1', 'Runs');
+      expect(mockStorage.delete).toHaveBeenCalledWith('sample1');
+      
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response).toEqual({
+        thread_id: 'sample1',
+        sheet_name: 'Runs',
+        appended_rows: 2,
+        columns: ['Run', 'Score', 'Notes'],
+        ignored_columns: []
+      });
+    });
+    
+    it('should reject unknown columns unless allowed', async () => {
+      const args = { threadId: 'sample1', rows: [{ Run: 'eval-3', Owner: 'bot' }] };
+      
+      await expect(handleQuipAppendRows(args, mockStorage, true)).rejects.toThrow(InvalidParamsError);
+      await expect(handleQuipAppendRows(args, mockStorage, true))
+        .rejects.toThrow("Unknown columns for sheet 'Runs': Owner. Sheet columns: Run, Score, Notes.");
+      expect(clientInstance.appendRows).not.toHaveBeenCalled();
+      
+      const result = await handleQuipAppendRows({ ...args, allowUnknownColumns: true }, mockStorage, true);
+      
+      expect(clientInstance.appendRows).toHaveBeenCalledWith('sample1', 'Runs', [['eval-3', null, null]]);
+      expect(JSON.parse((result[0] as TextContent).text).ignored_columns).toEqual(['Owner']);
+    });
+    
+    it('should reject missing sheets and sheets without a header row', async () => {
+      await expect(handleQuipAppendRows({ threadId: 'sample1', sheetName: 'Missing', rows: [{ Run: 'x' }] }, mockStorage, true))
+        .rejects.toThrow("Sheet 'Missing' not found. Available sheets: Runs, Empty");
+      await expect(handleQuipAppendRows({ threadId: 'sample1', sheetName: 'Empty', rows: [{ Run: 'x' }] }, mockStorage, true))
+        .rejects.toThrow("Sheet 'Empty' has no header row to align rows to");
+    });
+    
+    it('should wrap append failures in QuipApiError and discard the stored CSV', async () => {
+      clientInstance.appendRows.mockRejectedValue(new Error('Request failed'));
+      
+      await expect(handleQuipAppendRows({ threadId: 'sample1', rows: [{ Run: 'x' }] }, mockStorage, true))
+        .rejects.toThrow('Failed to append rows: Request failed');
+      expect(mockStorage.delete).toHaveBeenCalledWith('sample1', 'Runs');
+      expect(mockStorage.delete).toHaveBeenCalledWith('sample1');
+    });
+  });
+
+  describe('handleQuipQuerySheet', () => {
+    const storedCSV = 'Name,Age,Email\nJohn Doe,30,john@example.com\nJane Smith,25,jane@example.com\nBob Johnson,40,bob@example.com';
+    
+    beforeEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(storedCSV);
+    });
+    
+    afterEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue('mock,csv\ndata,here');
+    });
+    
+    it('should validate parameters', async () => {
+      await expect(handleQuipQuerySheet({}, mockStorage)).rejects.toThrow('threadId is required');
+      await expect(handleQuipQuerySheet({ threadId: 'sample1', limit: 0 }, mockStorage))
+        .rejects.toThrow('limit must be an integer between 1 and 1000');
+      await expect(handleQuipQuerySheet({ threadId: 'sample1', offset: -1 }, mockStorage))
+        .rejects.toThrow('offset must be a non-negative integer');
+      await expect(handleQuipQuerySheet({ threadId: 'sample1', filters: [{ column: 'Age', operator: 'between', value: 1 }] }, mockStorage))
+        .rejects.toThrow('filter operator must be one of: equals, not_equals, contains, gt, gte, lt, lte, regex');
+      await expect(handleQuipQuerySheet({ threadId: 'sample1', sort: [{ column: 'Age', direction: 'up' }] }, mockStorage))
+        .rejects.toThrow("sort direction must be 'asc' or 'desc'");
+    });
+    
+    it('should return matching rows from the stored CSV', async () => {
+      const result = await handleQuipQuerySheet({
+        threadId: 'sample1',
+        sheetName: 'Sheet1',
+        columns: ['Name', 'Age'],
+        filters: [{ column: 'Age', operator: 'gt', value: 26 }],
+        sort: [{ column: 'Age', direction: 'desc' }],
+        limit: 1
+      }, mockStorage);
+      
+      expect(mockStorage.getCSV).toHaveBeenCalledWith('sample1', 'Sheet1');
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response.csv_content).toBe('Name,Age\nBob Johnson,40');
+      expect(response.metadata).toEqual({
+        total_matches: 2,
+        returned_rows: 1,
+        offset: 0,
+        limit: 1,
+        next_offset: 1,
+        is_truncated: false,
+        columns: ['Name', 'Age'],
+        resource_uri: 's3://test-bucket/mock-thread-id.csv'
+      });
+    });
+    
+    it('should keep the response under 10KB and report the next offset', async () => {
+      const rows = Array.from({ length: 500 }, (_, i) => `row${i},${'x'.repeat(40)}`);
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(`Id,Payload\n${rows.join('\n')}`);
+      
+      const result = await handleQuipQuerySheet({ threadId: 'large', limit: 1000 }, mockStorage);
+      
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response.csv_content.length).toBeLessThanOrEqual(10 * 1024);
+      expect(response.metadata.is_truncated).toBe(true);
+      expect(response.metadata.total_matches).toBe(500);
+      expect(response.metadata.next_offset).toBe(response.metadata.returned_rows);
+    });
+    
+    it('should ask for a read first when nothing is stored', async () => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(null);
+      
+      await expect(handleQuipQuerySheet({ threadId: 'sample1', sheetName: 'Sheet1' }, mockStorage))
+        .rejects.toThrow("No stored data for thread sample1 sheet 'Sheet1'; call quip_read_spreadsheet first");
+    });
+    
+    it('should report unknown columns as invalid parameters', async () => {
+      await expect(handleQuipQuerySheet({ threadId: 'sample1', columns: ['Phone'] }, mockStorage))
+        .rejects.toThrow(InvalidParamsError);
+    });
+  });
+
+  describe('handleQuipDescribeSheet', () => {
+    const storedCSV = 'Name,Age\nJohn Doe,30\nJane Smith,25\nJohn Doe,';
+    
+    beforeEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(storedCSV);
+    });
+    
+    afterEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue('mock,csv\ndata,here');
+      (mockStorage.getProfile as jest.Mock).mockResolvedValue(null);
+    });
+    
+    it('should validate parameters', async () => {
+      await expect(handleQuipDescribeSheet({}, mockStorage)).rejects.toThrow('threadId is required');
+      await expect(handleQuipDescribeSheet({ threadId: 'sample1', topN: 0 }, mockStorage))
+        .rejects.toThrow('topN must be an integer between 1 and 50');
+      await expect(handleQuipDescribeSheet({ threadId: 'sample1', sampleSize: 21 }, mockStorage))
+        .rejects.toThrow('sampleSize must be an integer between 0 and 20');
+    });
+    
+    it('should profile the stored CSV and cache the profile', async () => {
+      const result = await handleQuipDescribeSheet({ threadId: 'sample1', sheetName: 'Sheet1' }, mockStorage);
+      
+      expect(mockStorage.getCSV).toHaveBeenCalledWith('sample1', 'Sheet1');
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response).toMatchObject({
+        thread_id: 'sample1',
+        sheet_name: 'Sheet1',
+        header_row: 1,
+        data_rows: 3,
+        cached: false,
+        resource_uri: 's3://test-bucket/mock-thread-id.csv'
+      });
+      expect(response.columns[1]).toEqual({
+        name: 'Age',
+        column: 'B',
+        type: 'number',
+        blank_count: 1,
+        distinct_count: 2,
+        min: 25,
+        max: 30,
+        mean: 27.5,
+        top_values: [{ value: '30', count: 1 }, { value: '25', count: 1 }],
+        samples: ['30', '25']
+      });
+      expect(mockStorage.saveProfile).toHaveBeenCalledWith('sample1', expect.objectContaining({ data_rows: 3 }), 'Sheet1');
+    });
+    
+    it('should return a cached profile without reading the CSV', async () => {
+      const profile = { header_row: 1, data_rows: 3, top_n: 5, sample_size: 3, columns: [] };
+      (mockStorage.getProfile as jest.Mock).mockResolvedValue(profile);
+      
+      const result = await handleQuipDescribeSheet({ threadId: 'sample1' }, mockStorage);
+      
+      expect(mockStorage.getCSV).not.toHaveBeenCalled();
+      expect(JSON.parse((result[0] as TextContent).text)).toMatchObject({ ...profile, cached: true });
+    });
+    
+    it('should rebuild a cached profile made with different options', async () => {
+      (mockStorage.getProfile as jest.Mock).mockResolvedValue({ header_row: 1, data_rows: 3, top_n: 5, sample_size: 3, columns: [] });
+      
+      const result = await handleQuipDescribeSheet({ threadId: 'sample1', topN: 1 }, mockStorage);
+      
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response.cached).toBe(false);
+      expect(response.columns[0].top_values).toEqual([{ value: 'John Doe', count: 2 }]);
+    });
+    
+    it('should ask for a read first when nothing is stored', async () => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(null);
+      
+      await expect(handleQuipDescribeSheet({ threadId: 'sample1' }, mockStorage))
+        .rejects.toThrow('No stored data for thread sample1; call quip_read_spreadsheet first');
+    });
+  });
+  
+  describe('handleQuipSql', () => {
+    const people = 'Name,Team,Age\nJohn Doe,Sales,30\nJane Smith,Ops,25\nBob Johnson,Sales,40';
+    const teams = 'Team,Floor\nSales,1\nOps,2';
+    
+    beforeEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockImplementation(async (threadId: string, sheetName?: string) =>
+        (sheetName === 'Teams' ? teams : people));
+    });
+    
+    afterEach(() => {
+      (mockStorage.getCSV as jest.Mock).mockReset();
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue('mock,csv\ndata,here');
+    });
+    
+    it('should validate parameters', async () => {
+      await expect(handleQuipSql({ sql: 'SELECT 1' }, mockStorage))
+        .rejects.toThrow('tables must be a non-empty array of { threadId, sheetName?, name? }');
+      await expect(handleQuipSql({ tables: [{ threadId: 'sample1' }] }, mockStorage))
+        .rejects.toThrow('sql is required');
+      await expect(handleQuipSql({ tables: [{ threadId: 'sample1' }], sql: 'SELECT 1', maxRows: 0 }, mockStorage))
+        .rejects.toThrow('maxRows must be an integer between 1 and 10000');
+      await expect(handleQuipSql({ tables: [{ threadId: 'sample1' }], sql: 'SELECT 1', timeoutMs: 60000 }, mockStorage))
+        .rejects.toThrow('timeoutMs must be an integer between 100 and 30000');
+      await expect(handleQuipSql({ tables: [{ sheetName: 'People' }], sql: 'SELECT 1' }, mockStorage))
+        .rejects.toThrow('each table needs a threadId');
+      await expect(handleQuipSql({
+        tables: [{ threadId: 'sample1', sheetName: 'People' }, { threadId: 'sample2', sheetName: 'people' }],
+        sql: 'SELECT 1'
+      }, mockStorage)).rejects.toThrow("Duplicate table name 'people'; set a distinct name for each table");
+    });
+    
+    it('should join stored sheets and return the result as CSV', async () => {
+      const result = await handleQuipSql({
+        tables: [{ threadId: 'sample1', sheetName: 'People' }, { threadId: 'sample1', sheetName: 'Teams' }],
+        sql: 'SELECT p.Team, t.Floor, SUM(p.Age) AS total_age FROM People p JOIN Teams t ON p.Team = t.Team GROUP BY p.Team ORDER BY p.Team'
+      }, mockStorage);
+      
+      expect(mockStorage.getCSV).toHaveBeenCalledWith('sample1', 'People');
+      expect(mockStorage.getCSV).toHaveBeenCalledWith('sample1', 'Teams');
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response.csv_content).toBe('Team,Floor,total_age\nOps,2,25\nSales,1,70');
+      expect(response.metadata).toMatchObject({
+        total_rows: 2,
+        is_truncated: false,
+        resource_uri: null,
+        columns: ['Team', 'Floor', 'total_age'],
+        row_cap_reached: false
+      });
+      expect(response.metadata.tables[0]).toEqual({
+        name: 'People',
+        thread_id: 'sample1',
+        sheet_name: 'People',
+        columns: [
+          { name: 'Name', type: 'TEXT' },
+          { name: 'Team', type: 'TEXT' },
+          { name: 'Age', type: 'INTEGER' }
+        ],
+        rows: 3
+      });
+    });
+    
+    it('should derive table names from thread IDs and report the row cap', async () => {
+      const result = await handleQuipSql({
+        tables: [{ threadId: '123-abc' }],
+        sql: 'SELECT Name FROM t_123_abc ORDER BY Age',
+        maxRows: 2
+      }, mockStorage);
+      
+      const response = JSON.parse((result[0] as TextContent).text);
+      expect(response.csv_content).toBe('Name\nJane Smith\nJohn Doe');
+      expect(response.metadata.row_cap_reached).toBe(true);
+      expect(response.metadata.is_truncated).toBe(true);
+    });
+    
+    it('should ask for a read first when a table is not stored', async () => {
+      (mockStorage.getCSV as jest.Mock).mockResolvedValue(null);
+      
+      await expect(handleQuipSql({ tables: [{ threadId: 'sample1', sheetName: 'People' }], sql: 'SELECT 1' }, mockStorage))
+        .rejects.toThrow("No stored data for thread sample1 sheet 'People'; call quip_read_spreadsheet first");
+    });
+    
+    it('should report SQL errors and write statements as invalid parameters', async () => {
+      const tables = [{ threadId: 'sample1', sheetName: 'People' }];
+      
+      await expect(handleQuipSql({ tables, sql: 'SELECT Missing FROM People' }, mockStorage))
+        .rejects.toThrow(InvalidParamsError);
+      await expect(handleQuipSql({ tables, sql: 'SELECT Missing FROM People' }, mockStorage))
+        .rejects.toThrow('SQL error: no such column: Missing');
+      await expect(handleQuipSql({ tables, sql: 'DELETE FROM People' }, mockStorage))
+        .rejects.toThrow('SQL error: Only read-only SELECT statements are allowed');
+    });
+    
+    it('should stop queries that exceed the time limit', async () => {
+      await expect(handleQuipSql({
+        tables: [{ threadId: 'sample1', sheetName: 'People' }],
+        sql: 'WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT COUNT(*) FROM n',
+        timeoutMs: 500
+      }, mockStorage)).rejects.toThrow(TimeoutError);
+    });
+  });
+  
+  describe('handleQuipDiffSheet', () => {
+    const readOptions = { fillMerged: false, headerRows: null, range: null, namedRange: null };
+    const snapshots = [
+      { id: '20261005T090000000Z', saved_at: '2026-10-05T09:00:00.000Z', size: 30, content_hash: 'a1', read_options: readOptions },
+      { id: '20261012T090000000Z', saved_at: '2026-10-12T09:00:00.000Z', size: 30, content_hash: 'b2', read_options: readOptions },
+      { id: '20261019T090000000Z', saved_at: '2026-10-19T09:00:00.000Z', size: 40, content_hash: 'c3', read_options: readOptions }
+    ];
+    const contents: Record<string, string> = {
+      '20261005T090000000Z': 'ID,Status\n1,open\n2,open',
+      '20261012T090000000Z': 'ID,Status\n1,open\n2,closed',
+      '20261019T090000000Z': 'ID,Status\n2,closed\n3,open'
+    };
+    
+    beforeEach(() => {
+      (mockStorage.listCSVSnapshots as jest.Mock).mockResolvedValue(snapshots);
+      (mockStorage.getCSVSnapshot as jest.Mock).mockImplementation(async (threadId: string, snapshotId: string) => contents[snapshotId] ?? null);
+    });
+    
+    afterEach(() => {
+      (mockStorage.listCSVSnapshots as jest.Mock).mockResolvedValue([]);
+      (mockStorage.getCSVSnapshot as jest.Mock).mockResolvedValue(null);
+    });
+    
+    const diff = async (args: Record<string, any>) => {
+      const result = await handleQuipDiffSheet({ threadId: 'thread1', sheetName: 'Tasks', keyColumn: 'ID', ...args }, mockStorage);
+      return JSON.parse((result[0] as TextContent).text);
+    };
+    
+    it('should validate parameters', async () => {
+      await expect(handleQuipDiffSheet({ keyColumn: 'ID' }, mockStorage)).rejects.toThrow('threadId is required');
+      await expect(handleQuipDiffSheet({ threadId: 'thread1' }, mockStorage)).rejects.toThrow('keyColumn is required');
+      await expect(diff({ limit: 0 })).rejects.toThrow('limit must be an integer between 1 and 1000');
+    });
+    
+    it('should compare the latest snapshot with the one before it by default', async () => {
+      const response = await diff({});
+      
+      expect(mockStorage.listCSVSnapshots).toHaveBeenCalledWith('thread1', 'Tasks');
+      expect(response.from.id).toBe('20261012T090000000Z');
+      expect(response.to.id).toBe('20261019T090000000Z');
+      expect(response.summary).toEqual({ added: 1, removed: 1, changed: 0, unchanged: 1, blank_keys: 0 });
+      expect(response.added).toEqual([{ key: '3', row: 3, values: { ID: '3', Status: 'open' } }]);
+      expect(response.removed).toEqual([{ key: '1', row: 2, values: { ID: '1', Status: 'open' } }]);
+      expect(response.snapshots).toHaveLength(3);
+    });
+    
+    it('should pick snapshots by ID or by the latest one saved at or before a date', async () => {
+      const response = await diff({ from: '20261005T090000000Z', to: '2026-10-15' });
+      
+      expect(response.to.id).toBe('20261012T090000000Z');
+      expect(response.changed).toEqual([{
+        key: '2',
+        row_before: 3,
+        row_after: 3,
+        changes: [{ column: 'Status', before: 'open', after: 'closed' }]
+      }]);
+    });
+    
+    it('should cap the listed rows at limit', async () => {
+      const response = await diff({ from: '20261005T090000000Z', limit: 1 });
+      
+      expect(response.summary).toMatchObject({ added: 1, removed: 1, changed: 1 });
+      expect(response.is_truncated).toBe(false);
+      
+      contents['20261019T090000000Z'] = 'ID,Status\n3,open\n4,open';
+      const truncated = await diff({ from: '20261005T090000000Z', limit: 1 });
+      contents['20261019T090000000Z'] = 'ID,Status\n2,closed\n3,open';
+      expect(truncated.summary).toMatchObject({ added: 2, removed: 2 });
+      expect(truncated.added).toHaveLength(1);
+      expect(truncated.is_truncated).toBe(true);
+    });
+    
+    it('should explain when there is nothing to compare', async () => {
+      await expect(diff({ from: 'last week' })).rejects.toThrow(
+        "Snapshot 'last week' not found. Available snapshots: 20261005T090000000Z, 20261012T090000000Z, 20261019T090000000Z"
+      );
+      await expect(diff({ to: '2026-01-01' })).rejects.toThrow('No snapshot was saved at or before 2026-01-01');
+      await expect(diff({ to: '20261005T090000000Z' })).rejects.toThrow('No snapshot before 20261005T090000000Z to compare with');
+      await expect(diff({ keyColumn: 'Owner' })).rejects.toThrow(InvalidParamsError);
+      
+      (mockStorage.listCSVSnapshots as jest.Mock).mockResolvedValue([]);
+      await expect(diff({})).rejects.toThrow("No snapshots stored for thread thread1 sheet 'Tasks'; call quip_read_spreadsheet first");
+    });
+    
+    it('should only compare snapshots read with the same options', async () => {
+      const rangeOptions = { ...readOptions, range: 'A1:B2' };
+      (mockStorage.listCSVSnapshots as jest.Mock).mockResolvedValue([
+        snapshots[0],
+        { ...snapshots[1], read_options: rangeOptions },
+        snapshots[2]
+      ]);
+      
+      // The snapshot read with a range is skipped by default
+      const response = await diff({});
+      expect(response.from.id).toBe('20261005T090000000Z');
+      expect(response.to.id).toBe('20261019T090000000Z');
+      
+      await expect(diff({ from: '20261012T090000000Z' })).rejects.toThrow(
+        'Snapshots 20261012T090000000Z and 20261019T090000000Z were read with different options'
+      );
+      await expect(diff({ to: '20261012T090000000Z' })).rejects.toThrow(
+        'No snapshot before 20261012T090000000Z was read with the same options ({"fillMerged":false,"headerRows":null,"range":"A1:B2","namedRange":null})'
+      );
+      expect(mockStorage.getCSVSnapshot).toHaveBeenCalledTimes(2);
+    });
+  });
 });